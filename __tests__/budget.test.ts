@@ -0,0 +1,320 @@
+/**
+ * Tests for resource and timing budgets
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  evaluateBudgets,
+  formatBudgetViolation,
+  getMatchingBudget,
+  matchesBudgetPath,
+  parseBudgets,
+  readBudgetFile,
+} from "../src/budget";
+import { extractResourceSummary } from "../src/pagespeed";
+import type {
+  Budget,
+  LighthouseResult,
+  PerformanceResult,
+  ResourceSummary,
+} from "../src/types";
+
+const metric = (value: number) => ({
+  value,
+  displayValue: `${value}`,
+  rating: "good" as const,
+});
+
+const usage = (requestCount: number, transferSize: number) => ({
+  requestCount,
+  transferSize,
+});
+
+const resources: ResourceSummary = {
+  total: usage(48, 1_843_200),
+  document: usage(1, 40_960),
+  script: usage(22, 422_400),
+  stylesheet: usage(3, 51_200),
+  image: usage(15, 1_126_400),
+  media: usage(0, 0),
+  font: usage(4, 184_320),
+  other: usage(3, 18_000),
+  "third-party": usage(14, 307_200),
+};
+
+function createResult(
+  overrides: Partial<PerformanceResult> = {},
+): PerformanceResult {
+  return {
+    url: "https://shop.example.com/checkout",
+    strategy: "mobile",
+    timestamp: "2026-10-18T10:00:00.000Z",
+    scores: {
+      performance: 72,
+      accessibility: 95,
+      bestPractices: 100,
+      seo: 100,
+    },
+    metrics: {
+      lcp: metric(3120),
+      fcp: metric(1400),
+      cls: metric(0.02),
+      tbt: metric(380),
+      si: metric(2600),
+      tti: metric(5100),
+    },
+    opportunities: [],
+    diagnostics: [],
+    resources,
+    ...overrides,
+  };
+}
+
+const budgets: Budget[] = [
+  {
+    resourceSizes: [{ resourceType: "total", budget: 2000 }],
+  },
+  {
+    path: "/checkout",
+    resourceSizes: [
+      { resourceType: "script", budget: 300 },
+      { resourceType: "font", budget: 200 },
+    ],
+    resourceCounts: [{ resourceType: "third-party", budget: 10 }],
+    timings: [
+      { metric: "largest-contentful-paint", budget: 2500 },
+      { metric: "cumulative-layout-shift", budget: 0.1 },
+    ],
+  },
+];
+
+describe("matchesBudgetPath", () => {
+  it("should match path prefixes, wildcards and end anchors", () => {
+    const url = "https://example.com/blog/2026/post?ref=home";
+
+    expect(matchesBudgetPath("/", url)).toBe(true);
+    expect(matchesBudgetPath("/blog", url)).toBe(true);
+    expect(matchesBudgetPath("/*/post", url)).toBe(true);
+    expect(matchesBudgetPath("/blog/*/post$", url)).toBe(false);
+    expect(matchesBudgetPath("/blog/*/post?ref=home$", url)).toBe(true);
+    expect(matchesBudgetPath("/shop", url)).toBe(false);
+  });
+});
+
+describe("getMatchingBudget", () => {
+  it("should pick the last matching budget", () => {
+    expect(
+      getMatchingBudget(budgets, "https://shop.example.com/checkout/pay"),
+    ).toBe(budgets[1]);
+    expect(getMatchingBudget(budgets, "https://shop.example.com/")).toBe(
+      budgets[0],
+    );
+    expect(getMatchingBudget(budgets.slice(1), "https://x.com/")).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("evaluateBudgets", () => {
+  it("should report resource size, count and timing overruns", () => {
+    const result = evaluateBudgets(createResult(), budgets);
+
+    expect(result.path).toBe("/checkout");
+    expect(result.passed).toBe(false);
+    expect(result.skipped).toBe(0);
+    expect(result.violations).toEqual([
+      {
+        kind: "resourceSize",
+        id: "script",
+        budget: 300,
+        actual: 412.5,
+        overBudget: 112.5,
+      },
+      {
+        kind: "resourceCount",
+        id: "third-party",
+        budget: 10,
+        actual: 14,
+        overBudget: 4,
+      },
+      {
+        kind: "timing",
+        id: "largest-contentful-paint",
+        budget: 2500,
+        actual: 3120,
+        overBudget: 620,
+      },
+    ]);
+  });
+
+  it("should pass when budgets are met or none match", () => {
+    const home = createResult({ url: "https://shop.example.com/" });
+
+    expect(evaluateBudgets(home, budgets)).toEqual({
+      url: "https://shop.example.com/",
+      path: "/",
+      passed: true,
+      violations: [],
+      skipped: 0,
+    });
+    expect(evaluateBudgets(home, budgets.slice(1)).path).toBeUndefined();
+  });
+
+  it("should skip resource budgets without resource data", () => {
+    const result = evaluateBudgets(
+      createResult({ resources: undefined }),
+      budgets,
+    );
+
+    expect(result.skipped).toBe(3);
+    expect(result.violations.map((v) => v.kind)).toEqual(["timing"]);
+  });
+});
+
+describe("formatBudgetViolation", () => {
+  it("should include units", () => {
+    const [size, count, timing] = evaluateBudgets(
+      createResult(),
+      budgets,
+    ).violations;
+
+    expect(formatBudgetViolation(size)).toBe(
+      "script size: 412.5 KiB (budget 300 KiB, +112.5 KiB)",
+    );
+    expect(formatBudgetViolation(count)).toBe(
+      "third-party count: 14 requests (budget 10 requests, +4 requests)",
+    );
+    expect(formatBudgetViolation(timing)).toBe(
+      "largest-contentful-paint: 3120 ms (budget 2500 ms, +620 ms)",
+    );
+  });
+});
+
+describe("budget files", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-budget-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should read budget.json files", () => {
+    const filePath = path.join(tmpDir, "budget.json");
+    fs.writeFileSync(filePath, JSON.stringify(budgets));
+
+    expect(readBudgetFile(filePath)).toEqual(budgets);
+  });
+
+  it("should reject invalid budgets", () => {
+    expect(() => parseBudgets({ timings: [] }, "budget.json")).toThrow(
+      "Invalid budgets in budget.json: expected an array",
+    );
+    expect(() => parseBudgets([{ timings: {} }])).toThrow(
+      "entry 0 timings must be an array",
+    );
+  });
+});
+
+describe("extractResourceSummary", () => {
+  function createLhr(
+    audits: LighthouseResult["audits"],
+    extra: Partial<LighthouseResult> = {},
+  ): LighthouseResult {
+    return {
+      lighthouseVersion: "12.2.1",
+      requestedUrl: "https://www.example.com/",
+      finalUrl: "https://www.example.com/",
+      fetchTime: "2026-10-18T10:00:00.000Z",
+      categories: {},
+      audits,
+      ...extra,
+    } as LighthouseResult;
+  }
+
+  const audit = (items: Array<Record<string, unknown>>) => ({
+    id: "audit",
+    title: "Audit",
+    score: null,
+    details: { type: "table", items },
+  });
+
+  it("should read the resource-summary audit", () => {
+    const summary = extractResourceSummary(
+      createLhr({
+        "resource-summary": audit([
+          { resourceType: "total", requestCount: 10, transferSize: 5000 },
+          { resourceType: "script", requestCount: 4, transferSize: 3000 },
+        ]),
+      }),
+    );
+
+    expect(summary?.script).toEqual({ requestCount: 4, transferSize: 3000 });
+    expect(summary?.font).toEqual({ requestCount: 0, transferSize: 0 });
+  });
+
+  it("should tally network requests by type and party", () => {
+    const summary = extractResourceSummary(
+      createLhr({
+        "network-requests": audit([
+          {
+            url: "https://www.example.com/",
+            resourceType: "Document",
+            transferSize: 1000,
+          },
+          {
+            url: "https://cdn.example.com/app.js",
+            resourceType: "Script",
+            transferSize: 2000,
+          },
+          {
+            url: "https://www.googletagmanager.com/gtm.js",
+            resourceType: "Script",
+            transferSize: 3000,
+          },
+          {
+            url: "https://www.example.com/api",
+            resourceType: "Fetch",
+            transferSize: 500,
+          },
+        ]),
+      }),
+    );
+
+    expect(summary?.total).toEqual({ requestCount: 4, transferSize: 6500 });
+    expect(summary?.script).toEqual({ requestCount: 2, transferSize: 5000 });
+    expect(summary?.other).toEqual({ requestCount: 1, transferSize: 500 });
+    expect(summary?.["third-party"]).toEqual({
+      requestCount: 1,
+      transferSize: 3000,
+    });
+  });
+
+  it("should prefer Lighthouse entity classification", () => {
+    const summary = extractResourceSummary(
+      createLhr(
+        {
+          "network-requests": audit([
+            {
+              url: "https://static.example-cdn.net/app.js",
+              resourceType: "Script",
+              transferSize: 2000,
+              entity: "example.com",
+            },
+          ]),
+        },
+        { entities: [{ name: "example.com", isFirstParty: true }] },
+      ),
+    );
+
+    expect(summary?.["third-party"].requestCount).toBe(0);
+  });
+
+  it("should return undefined without request data", () => {
+    expect(extractResourceSummary(createLhr({}))).toBeUndefined();
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Tests for baseline comparisons
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  compareResults,
+  compareWithBaseline,
+  DEFAULT_TOLERANCES,
+  findBaselineResult,
+  parseBaseline,
+  parseTolerances,
+  readBaselineFile,
+  resolveTolerances,
+} from "../src/compare";
+import type {
+  DetailedInsights,
+  MetricRating,
+  Opportunity,
+  PerformanceResult,
+} from "../src/types";
+
+const metric = (value: number, rating: MetricRating = "good") => ({
+  value,
+  displayValue: `${value}`,
+  rating,
+});
+
+const opportunity = (
+  id: string,
+  savings: Pick<Opportunity, "savingsMs" | "savingsBytes">,
+): Opportunity => ({
+  id,
+  title: `Title of ${id}`,
+  description: "",
+  score: 0.5,
+  ...savings,
+});
+
+function createInsights(
+  overrides: Partial<DetailedInsights> = {},
+): DetailedInsights {
+  return {
+    cacheIssues: [],
+    imageIssues: [],
+    unusedJavaScript: [],
+    unusedCSS: [],
+    legacyJavaScript: [],
+    thirdParties: [],
+    longTasks: [],
+    renderBlocking: [],
+    totalSavings: { timeMs: 0, sizeBytes: 0 },
+    ...overrides,
+  };
+}
+
+function createResult(
+  overrides: Partial<PerformanceResult> = {},
+): PerformanceResult {
+  return {
+    url: "https://shop.example.com/checkout",
+    strategy: "mobile",
+    timestamp: "2026-10-18T10:00:00.000Z",
+    scores: {
+      performance: 72,
+      accessibility: 95,
+      bestPractices: 100,
+      seo: null,
+    },
+    metrics: {
+      lcp: metric(2400),
+      fcp: metric(1400),
+      cls: metric(0.02),
+      tbt: metric(380, "needs-improvement"),
+      si: metric(2600),
+      tti: metric(5100, "needs-improvement"),
+    },
+    opportunities: [],
+    diagnostics: [],
+    ...overrides,
+  };
+}
+
+describe("compareResults", () => {
+  it("should classify score changes with the score tolerance", () => {
+    const baseline = createResult();
+    const current = createResult({
+      timestamp: "2026-10-19T10:00:00.000Z",
+      scores: {
+        performance: 70,
+        accessibility: 88,
+        bestPractices: 91,
+        seo: 100,
+      },
+    });
+
+    const comparison = compareResults(baseline, current);
+
+    expect(comparison.baselineTimestamp).toBe("2026-10-18T10:00:00.000Z");
+    expect(comparison.currentTimestamp).toBe("2026-10-19T10:00:00.000Z");
+    expect(comparison.scores).toEqual([
+      {
+        category: "performance",
+        baseline: 72,
+        current: 70,
+        delta: -2,
+        status: "unchanged",
+      },
+      {
+        category: "accessibility",
+        baseline: 95,
+        current: 88,
+        delta: -7,
+        status: "regressed",
+        severity: "critical",
+      },
+      {
+        category: "bestPractices",
+        baseline: 100,
+        current: 91,
+        delta: -9,
+        status: "regressed",
+        severity: "warning",
+      },
+      {
+        category: "seo",
+        baseline: null,
+        current: 100,
+        delta: null,
+        status: "unchanged",
+      },
+    ]);
+    expect(comparison.regressions.map((r) => r.message)).toEqual([
+      "Accessibility score dropped from 95 to 88 (-7)",
+      "Best Practices score dropped from 100 to 91 (-9)",
+    ]);
+  });
+
+  it("should classify metric changes with absolute and relative tolerances", () => {
+    const baseline = createResult();
+    const current = createResult({
+      metrics: {
+        // Within 5% of 2400 ms
+        lcp: metric(2510),
+        fcp: metric(1000),
+        cls: metric(0.12, "needs-improvement"),
+        tbt: metric(500, "needs-improvement"),
+        si: metric(2650),
+        tti: metric(5100, "needs-improvement"),
+      },
+    });
+
+    const comparison = compareResults(baseline, current);
+    const statuses = Object.fromEntries(
+      comparison.metrics.map((change) => [change.metric, change.status]),
+    );
+
+    expect(statuses).toEqual({
+      lcp: "unchanged",
+      fcp: "improved",
+      cls: "regressed",
+      tbt: "regressed",
+      si: "unchanged",
+      tti: "unchanged",
+    });
+    expect(comparison.hasRegressions).toBe(true);
+    expect(comparison.regressions).toEqual([
+      {
+        kind: "metric",
+        id: "cls",
+        baseline: 0.02,
+        current: 0.12,
+        severity: "critical",
+        message: "CLS rose from 0.020 to 0.120 (+0.100, +500.0%)",
+      },
+      {
+        kind: "metric",
+        id: "tbt",
+        baseline: 380,
+        current: 500,
+        severity: "warning",
+        message: "TBT rose from 380 ms to 500 ms (+120 ms, +31.6%)",
+      },
+    ]);
+  });
+
+  it("should apply tolerance overrides", () => {
+    const current = createResult({
+      scores: { ...createResult().scores, performance: 66 },
+      metrics: { ...createResult().metrics, lcp: metric(2700) },
+    });
+
+    expect(compareResults(createResult(), current).regressions).toHaveLength(2);
+    expect(
+      compareResults(createResult(), current, {
+        score: 10,
+        metrics: { lcp: 500 },
+      }).hasRegressions,
+    ).toBe(false);
+    expect(
+      compareResults(createResult(), current, { metricRatio: 0.2 }).regressions,
+    ).toEqual([expect.objectContaining({ kind: "score" })]);
+  });
+
+  it("should find new, resolved and grown opportunities", () => {
+    const baseline = createResult({
+      opportunities: [
+        opportunity("render-blocking-resources", { savingsMs: 300 }),
+        opportunity("unused-javascript", {
+          savingsMs: 150,
+          savingsBytes: 40960,
+        }),
+        opportunity("uses-long-cache-ttl", { savingsBytes: 20480 }),
+      ],
+    });
+    const current = createResult({
+      opportunities: [
+        opportunity("render-blocking-resources", { savingsMs: 350 }),
+        opportunity("unused-javascript", {
+          savingsMs: 150,
+          savingsBytes: 81920,
+        }),
+        opportunity("modern-image-formats", { savingsBytes: 102400 }),
+      ],
+    });
+
+    const { opportunities } = compareResults(baseline, current);
+
+    expect(opportunities.new).toEqual([
+      {
+        id: "modern-image-formats",
+        title: "Title of modern-image-formats",
+        currentSavingsBytes: 102400,
+      },
+    ]);
+    expect(opportunities.grown).toEqual([
+      {
+        id: "unused-javascript",
+        title: "Title of unused-javascript",
+        baselineSavingsMs: 150,
+        currentSavingsMs: 150,
+        baselineSavingsBytes: 40960,
+        currentSavingsBytes: 81920,
+      },
+    ]);
+    expect(opportunities.resolved).toEqual([
+      {
+        id: "uses-long-cache-ttl",
+        title: "Title of uses-long-cache-ttl",
+        baselineSavingsBytes: 20480,
+      },
+    ]);
+  });
+
+  it("should compare insight items by key and sum repeated keys", () => {
+    const unused = (url: string, wastedBytes: number) => ({
+      url,
+      transferSize: wastedBytes * 2,
+      wastedBytes,
+      wastedPercent: 50,
+      isFirstParty: true,
+    });
+    const thirdParty = (entity: string, blockingTime: number) => ({
+      entity,
+      blockingTime,
+      transferSize: 10000,
+      requestCount: 3,
+      urls: [],
+    });
+    const baseline = createResult({
+      insights: createInsights({
+        unusedJavaScript: [unused("https://cdn.example.com/vendor.js", 50000)],
+        thirdParties: [thirdParty("Google Tag Manager", 120)],
+        longTasks: [
+          { duration: 120, startTime: 1000, url: "https://example.com/a.js" },
+        ],
+      }),
+    });
+    const current = createResult({
+      insights: createInsights({
+        thirdParties: [
+          thirdParty("Google Tag Manager", 400),
+          thirdParty("Hotjar", 90),
+        ],
+        longTasks: [
+          { duration: 120, startTime: 1000, url: "https://example.com/a.js" },
+          { duration: 150, startTime: 2000, url: "https://example.com/a.js" },
+        ],
+      }),
+    });
+
+    const { insights } = compareResults(baseline, current);
+
+    expect(insights.new).toEqual([
+      { type: "thirdParties", key: "Hotjar", unit: "ms", current: 90 },
+    ]);
+    expect(insights.grown).toEqual([
+      {
+        type: "thirdParties",
+        key: "Google Tag Manager",
+        unit: "ms",
+        baseline: 120,
+        current: 400,
+      },
+      {
+        type: "longTasks",
+        key: "https://example.com/a.js",
+        unit: "ms",
+        baseline: 120,
+        current: 270,
+      },
+    ]);
+    expect(insights.resolved).toEqual([
+      {
+        type: "unusedJavaScript",
+        key: "https://cdn.example.com/vendor.js",
+        unit: "bytes",
+        baseline: 50000,
+      },
+    ]);
+  });
+
+  it("should skip insights when either run has none", () => {
+    const baseline = createResult({ insights: createInsights() });
+
+    expect(compareResults(baseline, createResult()).insights).toEqual({
+      new: [],
+      resolved: [],
+      grown: [],
+    });
+  });
+});
+
+describe("tolerances", () => {
+  it("should merge overrides with the defaults", () => {
+    const tolerances = resolveTolerances({ score: 5, metrics: { lcp: 300 } });
+
+    expect(tolerances.score).toBe(5);
+    expect(tolerances.metricRatio).toBe(DEFAULT_TOLERANCES.metricRatio);
+    expect(tolerances.metrics).toEqual({
+      ...DEFAULT_TOLERANCES.metrics,
+      lcp: 300,
+    });
+  });
+
+  it("should parse key=value tolerance lists", () => {
+    expect(parseTolerances("score=3, lcp=250,cls=0.05,ratio=0.1")).toEqual({
+      score: 3,
+      metricRatio: 0.1,
+      metrics: { lcp: 250, cls: 0.05 },
+    });
+    expect(parseTolerances("savingsBytes=0")).toEqual({ savingsBytes: 0 });
+    expect(parseTolerances("")).toEqual({});
+  });
+
+  it("should reject unknown keys and invalid values", () => {
+    expect(() => parseTolerances("inp=50")).toThrow('Unknown tolerance "inp"');
+    expect(() => parseTolerances("lcp=-1")).toThrow(
+      'Invalid tolerance "lcp=-1": expected a non-negative number',
+    );
+    expect(() => parseTolerances("score")).toThrow('Invalid tolerance "score"');
+  });
+});
+
+describe("baseline files", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-baseline-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should read single results and result arrays", () => {
+    const single = path.join(tempDir, "single.json");
+    const multiple = path.join(tempDir, "multiple.json");
+    fs.writeFileSync(single, JSON.stringify(createResult()));
+    fs.writeFileSync(
+      multiple,
+      JSON.stringify([createResult(), createResult({ strategy: "desktop" })]),
+    );
+
+    expect(readBaselineFile(single)).toHaveLength(1);
+    expect(readBaselineFile(multiple).map((r) => r.strategy)).toEqual([
+      "mobile",
+      "desktop",
+    ]);
+  });
+
+  it("should reject files that are not saved results", () => {
+    expect(() => parseBaseline([], "empty.json")).toThrow(
+      "Invalid baseline in empty.json: no results",
+    );
+    expect(() =>
+      parseBaseline({ url: "https://example.com", strategy: "mobile" }),
+    ).toThrow("content is not a saved PerformanceResult (missing scores)");
+    expect(() =>
+      parseBaseline([createResult(), { ...createResult(), metrics: {} }]),
+    ).toThrow("entry 1 is not a saved PerformanceResult (missing metrics)");
+  });
+
+  it("should match baselines by normalized URL and strategy", () => {
+    const baselines = [
+      createResult({ url: "https://example.com" }),
+      createResult({ url: "https://example.com/", strategy: "desktop" }),
+    ];
+
+    expect(
+      findBaselineResult(baselines, {
+        url: "https://EXAMPLE.com/",
+        strategy: "desktop",
+      }),
+    ).toBe(baselines[1]);
+    expect(
+      findBaselineResult(baselines, {
+        url: "https://example.com/blog",
+        strategy: "mobile",
+      }),
+    ).toBeUndefined();
+  });
+
+  it("should match baselines regardless of a trailing slash", () => {
+    const baselines = [createResult({ url: "https://example.com/pricing/" })];
+
+    expect(
+      findBaselineResult(baselines, {
+        url: "https://example.com/pricing",
+        strategy: "mobile",
+      }),
+    ).toBe(baselines[0]);
+  });
+
+  it("should compare only results with a baseline run", () => {
+    const baselines = [createResult({ url: "https://example.com/" })];
+    const results = [
+      createResult({ url: "https://example.com/" }),
+      createResult({ url: "https://example.com/pricing" }),
+    ];
+
+    const comparisons = compareWithBaseline(baselines, results);
+
+    expect(comparisons).toHaveLength(1);
+    expect(comparisons[0].url).toBe("https://example.com/");
+    expect(comparisons[0].hasRegressions).toBe(false);
+  });
+});
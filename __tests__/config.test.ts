@@ -0,0 +1,338 @@
+/**
+ * Tests for performance.config files
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  ConfigValidationError,
+  evaluateThresholds,
+  findConfigFile,
+  getUrlThresholds,
+  loadConfig,
+  parseThresholds,
+  resolveThresholds,
+  validateConfig,
+} from "../src/config";
+import { getDefaultThresholds } from "../src/lighthouse";
+import type { MetricRating, PerformanceResult } from "../src/types";
+
+describe("performance.config files", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-config-"));
+    fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should find the config file from nested directories", () => {
+    const nested = path.join(tmpDir, "src", "pages");
+    fs.mkdirSync(nested, { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, "performance.config.json"), "{}");
+
+    expect(findConfigFile(nested)).toBe(
+      path.join(tmpDir, "performance.config.json"),
+    );
+    expect(findConfigFile(os.tmpdir())).toBeUndefined();
+  });
+
+  it("should load CommonJS configs with defaults applied", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "performance.config.js"),
+      `module.exports = {
+        urls: ["https://example.com/", "https://example.com/blog"],
+        strategy: "desktop",
+        thresholds: { performance: 90, lcp: 2500 },
+        ci: { failOnViolation: true },
+        cache: { ttl: 600 },
+      };`,
+    );
+
+    const config = await loadConfig(undefined, tmpDir);
+
+    expect(config.filePath).toBe(path.join(tmpDir, "performance.config.js"));
+    expect(config.project).toEqual({
+      urls: ["https://example.com/", "https://example.com/blog"],
+      strategy: "desktop",
+      categories: ["performance", "accessibility", "best-practices", "seo"],
+      thresholds: { performance: 90, lcp: 2500 },
+      ci: {
+        failOnViolation: true,
+        commentOnPR: false,
+        uploadToDashboard: false,
+      },
+    });
+    expect(config.toolkit).toMatchObject({
+      defaultStrategy: "desktop",
+      defaultThresholds: { performance: 90, lcp: 2500 },
+      cache: { enabled: true, ttl: 600 },
+    });
+    expect(config.provider).toBe("psi");
+    expect(config.numberOfRuns).toBe(1);
+  });
+
+  it("should load JSON configs by path", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "perf.json"),
+      JSON.stringify({ urls: ["http://localhost:3000/"], provider: "local" }),
+    );
+
+    const config = await loadConfig("perf.json", tmpDir);
+
+    expect(config.provider).toBe("local");
+    expect(config.project.thresholds).toEqual(getDefaultThresholds());
+  });
+
+  it("should explain missing and unreadable files", async () => {
+    await expect(loadConfig(undefined, tmpDir)).rejects.toThrow(
+      "No configuration file found",
+    );
+    await expect(loadConfig("missing.js", tmpDir)).rejects.toThrow(
+      "Configuration file not found: missing.js",
+    );
+
+    fs.writeFileSync(path.join(tmpDir, "performance.config.json"), "{ urls");
+    await expect(loadConfig(undefined, tmpDir)).rejects.toThrow(
+      /^Could not load .*performance\.config\.json: /,
+    );
+  });
+});
+
+describe("validateConfig", () => {
+  it("should accept a minimal config", () => {
+    expect(validateConfig({ urls: ["https://example.com/"] })).toEqual({
+      urls: ["https://example.com/"],
+    });
+  });
+
+  it("should report every problem at once", () => {
+    let thrown: ConfigValidationError | undefined;
+    try {
+      validateConfig(
+        {
+          urls: ["example.com"],
+          tresholds: {},
+          strategy: "tablet",
+          categories: ["pwa"],
+          thresholds: { lpc: 2500, performance: 150, cls: "0.1" },
+          urlThresholds: { "(": {} },
+          ci: { failOnViolation: "yes" },
+          numberOfRuns: 0,
+        },
+        "performance.config.js",
+      );
+    } catch (error) {
+      thrown = error as ConfigValidationError;
+    }
+
+    expect(thrown).toBeInstanceOf(ConfigValidationError);
+    expect(thrown?.message).toMatch(
+      /^Invalid configuration in performance\.config\.js:\n {2}- /,
+    );
+    expect(thrown?.issues).toEqual([
+      'tresholds: unknown option, did you mean "thresholds"?',
+      'urls[0]: "example.com" is not an http(s) URL',
+      'strategy: expected "mobile" or "desktop", got "tablet"',
+      'categories[0]: expected one of performance, accessibility, best-practices, seo, got "pwa"',
+      'thresholds.lpc: unknown option, did you mean "lcp"?',
+      "thresholds.performance: expected a score from 0 to 100, got 150",
+      'thresholds.cls: expected a non-negative number, got "0.1"',
+      'urlThresholds["("]: not a valid regular expression',
+      "ci.failOnViolation: expected true or false",
+      "numberOfRuns: expected a positive integer",
+    ]);
+  });
+
+  it("should require a urls array", () => {
+    expect(() => validateConfig([])).toThrow(
+      "expected an object with a urls array",
+    );
+    expect(() => validateConfig({ urls: [] })).toThrow(
+      "urls: expected a non-empty array of URLs",
+    );
+  });
+});
+
+describe("getUrlThresholds", () => {
+  const project = {
+    thresholds: { performance: 90, lcp: 2500, cls: 0.1 },
+    urlThresholds: {
+      "/blog": { lcp: 4000 },
+      "/blog/amp": { performance: 95, lcp: 3000 },
+    },
+  };
+
+  it("should use the base thresholds for other URLs", () => {
+    expect(getUrlThresholds(project, "https://example.com/")).toEqual(
+      project.thresholds,
+    );
+  });
+
+  it("should merge matching overrides", () => {
+    expect(getUrlThresholds(project, "https://example.com/blog")).toEqual({
+      performance: 90,
+      lcp: 4000,
+      cls: 0.1,
+    });
+  });
+
+  it("should keep the strictest value when several patterns match", () => {
+    expect(getUrlThresholds(project, "https://example.com/blog/amp")).toEqual({
+      performance: 95,
+      lcp: 3000,
+      cls: 0.1,
+    });
+  });
+});
+
+describe("resolveThresholds", () => {
+  const project = {
+    thresholds: { performance: 80, lcp: 5000, cls: 0.05 },
+    urlThresholds: { "/blog": { lcp: 6000 } },
+  };
+
+  it("should use the default or strict preset without a config", () => {
+    expect(resolveThresholds("https://example.com/")).toEqual(
+      getDefaultThresholds(),
+    );
+    expect(resolveThresholds("https://example.com/", { strict: true })).toEqual(
+      getDefaultThresholds(true),
+    );
+  });
+
+  it("should raise config thresholds to the strict preset", () => {
+    expect(
+      resolveThresholds("https://example.com/blog", {
+        config: project,
+        strict: true,
+      }),
+    ).toEqual({
+      ...getDefaultThresholds(true),
+      lcp: 2500,
+      cls: 0.05,
+    });
+  });
+
+  it("should apply explicit overrides last", () => {
+    expect(
+      resolveThresholds("https://example.com/blog", {
+        config: project,
+        strict: true,
+        overrides: { lcp: 3000, tti: 4000 },
+      }),
+    ).toMatchObject({ performance: 90, lcp: 3000, tti: 4000 });
+  });
+});
+
+describe("parseThresholds", () => {
+  it("should parse key=value pairs", () => {
+    expect(parseThresholds("lcp=2500, performance=90,cls=0.1")).toEqual({
+      lcp: 2500,
+      performance: 90,
+      cls: 0.1,
+    });
+    expect(parseThresholds("")).toEqual({});
+  });
+
+  it("should reject unknown keys and invalid values", () => {
+    expect(() => parseThresholds("lpc=2500")).toThrow(
+      'Unknown threshold "lpc"',
+    );
+    expect(() => parseThresholds("seo=120")).toThrow(
+      'Invalid threshold "seo=120": expected a score from 0 to 100',
+    );
+    expect(() => parseThresholds("tbt=-5")).toThrow(
+      'Invalid threshold "tbt=-5": expected a non-negative number',
+    );
+  });
+});
+
+describe("evaluateThresholds", () => {
+  const metric = (value: number, rating: MetricRating = "good") => ({
+    value,
+    displayValue: `${value}`,
+    rating,
+  });
+  const fieldMetric = (p75: number, category: MetricRating) => ({
+    p75,
+    distribution: { good: 0.5, needsImprovement: 0.3, poor: 0.2 },
+    category,
+  });
+
+  const result: PerformanceResult = {
+    url: "https://example.com/",
+    strategy: "mobile",
+    timestamp: "2026-10-18T10:00:00.000Z",
+    scores: {
+      performance: 42,
+      accessibility: 86,
+      bestPractices: 100,
+      seo: null,
+    },
+    metrics: {
+      lcp: metric(4600, "poor"),
+      fcp: metric(1700),
+      cls: metric(0.12, "needs-improvement"),
+      tbt: metric(150),
+      si: metric(3000),
+      tti: metric(5000, "needs-improvement"),
+    },
+    fieldMetrics: {
+      source: "url",
+      id: "https://example.com/",
+      metrics: { inp: fieldMetric(240, "needs-improvement") },
+    },
+    opportunities: [],
+    diagnostics: [],
+  };
+
+  it("should check every score and metric threshold", () => {
+    const violations = evaluateThresholds(result, {
+      performance: 50,
+      accessibility: 90,
+      bestPractices: 90,
+      seo: 90,
+      lcp: 2500,
+      fcp: 1800,
+      cls: 0.1,
+      tti: 4000,
+      inp: 200,
+      ttfb: 800,
+    });
+
+    expect(violations.map((v) => [v.key, v.severity])).toEqual([
+      ["performance", "critical"],
+      ["accessibility", "warning"],
+      ["lcp", "critical"],
+      ["cls", "warning"],
+      ["tti", "warning"],
+      ["inp", "warning"],
+    ]);
+    expect(violations[0]).toEqual({
+      key: "performance",
+      metric: "Performance score",
+      current: 42,
+      threshold: 50,
+      difference: 8,
+      severity: "critical",
+      message: "Performance score is 42, below the 50 threshold",
+    });
+    expect(violations[3].message).toBe(
+      "CLS is 0.120, above the 0.100 threshold",
+    );
+    expect(violations[5].message).toBe(
+      "INP (field) is 240 ms, above the 200 ms threshold",
+    );
+  });
+
+  it("should pass values equal to the threshold", () => {
+    expect(
+      evaluateThresholds(result, { performance: 42, lcp: 4600, tbt: 150 }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Tests for the CrUX API client
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  CruxClient,
+  getCruxTrend,
+  rateFieldValue,
+  transformHistory,
+  transformRecord,
+} from "../src/crux";
+import { InvalidApiKeyError, ResponseCache } from "../src/pagespeed";
+import type {
+  CruxApiHistoryResponse,
+  CruxApiRecordResponse,
+} from "../src/types";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const recordResponse: CruxApiRecordResponse = {
+  record: {
+    key: { formFactor: "PHONE", url: "https://example.com/" },
+    metrics: {
+      largest_contentful_paint: {
+        histogram: [
+          { start: 0, end: 2500, density: 0.71 },
+          { start: 2500, end: 4000, density: 0.18 },
+          { start: 4000, density: 0.11 },
+        ],
+        percentiles: { p75: 2650 },
+      },
+      interaction_to_next_paint: {
+        histogram: [
+          { start: 0, end: 200, density: 0.82 },
+          { start: 200, end: 500, density: 0.13 },
+          { start: 500, density: 0.05 },
+        ],
+        percentiles: { p75: 180 },
+      },
+      cumulative_layout_shift: {
+        histogram: [
+          { start: "0.00", end: "0.10", density: 0.9 },
+          { start: "0.10", end: "0.25", density: 0.06 },
+          { start: "0.25", density: 0.04 },
+        ],
+        percentiles: { p75: "0.05" },
+      },
+    },
+    collectionPeriod: {
+      firstDate: { year: 2026, month: 9, day: 20 },
+      lastDate: { year: 2026, month: 10, day: 17 },
+    },
+  },
+};
+
+const historyResponse: CruxApiHistoryResponse = {
+  record: {
+    key: { origin: "https://example.com" },
+    metrics: {
+      interaction_to_next_paint: {
+        histogramTimeseries: [
+          { start: 0, end: 200, densities: [0.6, "NaN", 0.8] },
+          { start: 200, end: 500, densities: [0.3, "NaN", 0.15] },
+          { start: 500, densities: [0.1, "NaN", 0.05] },
+        ],
+        percentilesTimeseries: { p75s: [350, null, 190] },
+      },
+    },
+    collectionPeriods: [
+      {
+        firstDate: { year: 2026, month: 8, day: 2 },
+        lastDate: { year: 2026, month: 8, day: 29 },
+      },
+      {
+        firstDate: { year: 2026, month: 8, day: 9 },
+        lastDate: { year: 2026, month: 9, day: 5 },
+      },
+      {
+        firstDate: { year: 2026, month: 8, day: 16 },
+        lastDate: { year: 2026, month: 9, day: 12 },
+      },
+    ],
+  },
+};
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  json: () => Promise.resolve(body),
+});
+
+describe("CrUX transforms", () => {
+  it("should transform records into typed field metrics", () => {
+    const record = transformRecord(recordResponse);
+
+    expect(record.key).toEqual({
+      url: "https://example.com/",
+      formFactor: "phone",
+    });
+    expect(record.collectionPeriod).toEqual({
+      firstDate: "2026-09-20",
+      lastDate: "2026-10-17",
+    });
+    expect(record.metrics.lcp).toEqual({
+      p75: 2650,
+      distribution: { good: 0.71, needsImprovement: 0.18, poor: 0.11 },
+      category: "needs-improvement",
+    });
+    expect(record.metrics.cls?.p75).toBe(0.05);
+    expect(record.metrics.ttfb).toBeUndefined();
+  });
+
+  it("should keep history periods aligned when data is missing", () => {
+    const history = transformHistory(historyResponse);
+    const inp = history.metrics.inp ?? [];
+
+    expect(history.key).toEqual({
+      origin: "https://example.com",
+      formFactor: "all",
+    });
+    expect(inp).toHaveLength(3);
+    expect(inp[0]).toMatchObject({
+      firstDate: "2026-08-02",
+      p75: 350,
+      category: "needs-improvement",
+    });
+    expect(inp[1]).toMatchObject({
+      p75: null,
+      distribution: null,
+      category: null,
+    });
+    expect(inp[2].distribution).toEqual({
+      good: 0.8,
+      needsImprovement: 0.15,
+      poor: 0.05,
+    });
+  });
+
+  it("should compute the p75 trend across periods with data", () => {
+    const inp = transformHistory(historyResponse).metrics.inp ?? [];
+
+    expect(getCruxTrend(inp)).toEqual({
+      first: 350,
+      last: 190,
+      change: -160,
+      changePercent: -45.7,
+      direction: "improved",
+    });
+    expect(getCruxTrend(inp.slice(0, 2))).toBeUndefined();
+  });
+
+  it("should rate values against Core Web Vitals boundaries", () => {
+    expect(rateFieldValue("inp", 200)).toBe("good");
+    expect(rateFieldValue("inp", 201)).toBe("needs-improvement");
+    expect(rateFieldValue("cls", 0.3)).toBe("poor");
+  });
+});
+
+describe("CruxClient", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should POST the query to the record endpoint", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(recordResponse));
+
+    const client = new CruxClient("test-key");
+    const record = await client.queryRecord({
+      url: "https://example.com/",
+      formFactor: "phone",
+      metrics: ["lcp", "inp"],
+    });
+
+    expect(record?.metrics.inp?.p75).toBe(180);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(
+      "https://chromeuxreport.googleapis.com/v1/records:queryRecord?key=test-key",
+    );
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body)).toEqual({
+      url: "https://example.com/",
+      formFactor: "PHONE",
+      metrics: ["largest_contentful_paint", "interaction_to_next_paint"],
+    });
+  });
+
+  it("should query the history endpoint", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(historyResponse));
+
+    const client = new CruxClient("test-key");
+    const history = await client.queryHistory({
+      origin: "https://example.com",
+      collectionPeriodCount: 3,
+    });
+
+    expect(history?.collectionPeriods).toHaveLength(3);
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toContain("records:queryHistoryRecord");
+    expect(JSON.parse(init.body).collectionPeriodCount).toBe(3);
+  });
+
+  it("should return undefined when CrUX has no data", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      text: () =>
+        Promise.resolve(
+          JSON.stringify({
+            error: {
+              code: 404,
+              message: "chrome ux report data not found",
+              status: "NOT_FOUND",
+            },
+          }),
+        ),
+      headers: { get: () => null },
+    });
+
+    const client = new CruxClient("test-key");
+
+    await expect(
+      client.queryRecord({ url: "https://example.com/rare" }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should throw typed errors for rejected API keys", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      text: () =>
+        Promise.resolve(
+          JSON.stringify({
+            error: {
+              code: 400,
+              message: "API key not valid.",
+              status: "INVALID_ARGUMENT",
+              details: [{ reason: "API_KEY_INVALID" }],
+            },
+          }),
+        ),
+      headers: { get: () => null },
+    });
+
+    const client = new CruxClient("bad-key");
+    const error = await client
+      .queryRecord({ url: "https://example.com/" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidApiKeyError);
+    expect((error as Error).message).toBe(
+      "CrUX API error: 400 Bad Request - API key not valid.",
+    );
+  });
+
+  it("should require exactly one of url and origin", async () => {
+    const client = new CruxClient("test-key");
+
+    await expect(client.queryRecord({})).rejects.toThrow(
+      "either a url or an origin",
+    );
+    await expect(
+      client.queryRecord({
+        url: "https://example.com/",
+        origin: "https://example.com",
+      }),
+    ).rejects.toThrow("either a url or an origin");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should send requests through the configured transport", async () => {
+    const customFetch = jest
+      .fn()
+      .mockResolvedValue(jsonResponse(recordResponse));
+
+    const client = new CruxClient("test-key", 1000, {
+      transport: {
+        fetch: customFetch,
+        baseUrl: "https://proxy.internal/crux",
+        headers: { "X-Proxy-Auth": "secret" },
+      },
+    });
+    await client.queryRecord({ origin: "https://example.com" });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    const [url, init] = customFetch.mock.calls[0];
+    expect(url).toBe("https://proxy.internal/crux:queryRecord?key=test-key");
+    expect(init.headers).toEqual({
+      "Content-Type": "application/json",
+      "X-Proxy-Auth": "secret",
+    });
+  });
+
+  describe("cache", () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-crux-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it("should serve repeated queries from the cache", async () => {
+      mockFetch.mockResolvedValue(jsonResponse(recordResponse));
+
+      const client = new CruxClient("test-key", 1000, {
+        cache: { enabled: true, ttl: 60, directory: cacheDir },
+      });
+      const query = { url: "https://example.com/", metrics: ["lcp" as const] };
+
+      const first = await client.queryRecord(query);
+      const second = await client.queryRecord(query);
+      await client.queryRecord({ ...query, cacheMode: "refresh" });
+
+      expect(second).toEqual(first);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep its entries apart from the PageSpeed cache", async () => {
+      mockFetch.mockResolvedValue(jsonResponse(recordResponse));
+      const psiCache = new ResponseCache<string>(cacheDir, 60);
+      psiCache.set("psi-entry", "cached");
+
+      const client = new CruxClient("test-key", 1000, {
+        cache: { enabled: true, ttl: 60, directory: cacheDir },
+      });
+      const query = { url: "https://example.com/" };
+      await client.queryRecord(query);
+
+      psiCache.clear();
+      await client.queryRecord(query);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      psiCache.set("psi-entry", "cached");
+      client.clearCache();
+      expect(psiCache.get("psi-entry")).toBe("cached");
+      expect(fs.readdirSync(path.join(cacheDir, "crux"))).toEqual([]);
+    });
+  });
+});
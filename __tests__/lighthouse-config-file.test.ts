@@ -0,0 +1,269 @@
+/**
+ * Tests for lighthouserc files
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import {
+  LighthouseRunner,
+  generateLHCIConfigFile,
+  getLHCIConfigFormat,
+  parseLHCIConfig,
+  readLHCIConfigFile,
+} from "../src/lighthouse";
+import type { LHCIConfig } from "../src/types";
+
+function createRunner(): LighthouseRunner {
+  return new LighthouseRunner({
+    urls: ["http://localhost:3000/", "http://localhost:3000/blog"],
+  })
+    .withAssertions({ performance: 90, lcp: 2500, cls: 0.1 })
+    .withBudgets([
+      {
+        path: "/blog",
+        resourceSizes: [{ resourceType: "script", budget: 300 }],
+      },
+    ])
+    .withServer("npm run start", { readyPattern: "ready on" })
+    .withTemporaryStorage();
+}
+
+describe("lighthouserc files", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-lhrc-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("getLHCIConfigFormat", () => {
+    it("should pick the format from the extension", () => {
+      expect(getLHCIConfigFormat("lighthouserc.cjs")).toBe("cjs");
+      expect(getLHCIConfigFormat("lighthouserc.mjs")).toBe("esm");
+      expect(getLHCIConfigFormat("lighthouserc.json")).toBe("json");
+      expect(getLHCIConfigFormat(".lighthouserc.yml")).toBe("yaml");
+      expect(getLHCIConfigFormat(".lighthouserc.yaml")).toBe("yaml");
+      expect(() => getLHCIConfigFormat("lighthouserc.toml")).toThrow(
+        'Unsupported lighthouserc extension ".toml"',
+      );
+    });
+
+    it("should follow the package type for .js files", () => {
+      const filePath = path.join(tmpDir, "lighthouserc.js");
+
+      fs.writeFileSync(path.join(tmpDir, "package.json"), "{}");
+      expect(getLHCIConfigFormat(filePath)).toBe("cjs");
+
+      fs.writeFileSync(
+        path.join(tmpDir, "package.json"),
+        JSON.stringify({ type: "module" }),
+      );
+      expect(getLHCIConfigFormat(filePath)).toBe("esm");
+    });
+  });
+
+  describe("generateLHCIConfigFile", () => {
+    it("should generate every format", () => {
+      const config = createRunner().getConfig();
+
+      expect(generateLHCIConfigFile(config)).toMatch(
+        /^\/\*\* @type .*\nmodule\.exports = \{/,
+      );
+      expect(generateLHCIConfigFile(config, "esm")).toContain(
+        "export default {",
+      );
+      expect(JSON.parse(generateLHCIConfigFile(config, "json"))).toEqual(
+        config,
+      );
+      expect(parseYaml(generateLHCIConfigFile(config, "yaml"))).toEqual(config);
+    });
+  });
+
+  describe("writeConfigFile / fromConfigFile", () => {
+    it.each(["lighthouserc.json", ".lighthouserc.yml", "lighthouserc.cjs"])(
+      "should round-trip %s",
+      async (fileName) => {
+        const runner = createRunner();
+        const filePath = path.join(tmpDir, fileName);
+
+        runner.writeConfigFile(filePath);
+        const loaded = await LighthouseRunner.fromConfigFile(filePath);
+
+        expect(loaded.getConfig()).toEqual(runner.getConfig());
+        expect(JSON.parse(loaded.generateBudgetFile())).toEqual(
+          runner.getConfig().ci.collect.settings?.budgets,
+        );
+      },
+    );
+
+    it("should keep options the toolkit does not model", async () => {
+      const filePath = path.join(tmpDir, "lighthouserc.json");
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({
+          ci: {
+            collect: { staticDistDir: "./out" },
+            upload: { target: "temporary-public-storage" },
+            server: { port: 9001 },
+          },
+        }),
+      );
+
+      const runner = await LighthouseRunner.fromConfigFile(filePath);
+      runner.withAssertions({ performance: 80 });
+      runner.writeConfigFile(filePath);
+
+      const written = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      expect(written.ci.collect.staticDistDir).toBe("./out");
+      expect(written.ci.server).toEqual({ port: 9001 });
+      expect(written.ci.assert.assertions["categories:performance"]).toEqual([
+        "error",
+        { minScore: 0.8 },
+      ]);
+    });
+
+    it("should not share state with the source config", () => {
+      const config: LHCIConfig = {
+        ci: { collect: { url: ["https://a.com"] } },
+      };
+      LighthouseRunner.fromConfig(config).withHeaders({ "X-Test": "1" });
+
+      expect(config.ci.collect.settings).toBeUndefined();
+    });
+
+    it("should write to the format given over the extension", () => {
+      const filePath = path.join(tmpDir, "config", "lhci.txt");
+
+      createRunner().writeConfigFile(filePath, "yaml");
+
+      expect(fs.readFileSync(filePath, "utf-8")).toContain(
+        "startServerCommand: npm run start",
+      );
+    });
+  });
+
+  describe("readLHCIConfigFile", () => {
+    it("should read hand-written YAML", async () => {
+      const filePath = path.join(tmpDir, ".lighthouserc.yml");
+      fs.writeFileSync(
+        filePath,
+        [
+          "# Lighthouse CI",
+          "ci:",
+          "  collect:",
+          "    url:",
+          "    - http://localhost:3000/",
+          "    numberOfRuns: 5",
+          "    settings: { preset: desktop, chromeFlags: ['--headless'] }",
+          "  assert:",
+          "    preset: 'lighthouse:recommended'",
+          "    assertions:",
+          '      "categories:performance": [warn, { minScore: 0.9 }]',
+          "      uses-http2: off",
+          "      largest-contentful-paint:",
+          "        - error",
+          "        - maxNumericValue: 2500",
+          "          aggregationMethod: optimistic",
+          "  upload:",
+          "    target: temporary-public-storage # public link",
+        ].join("\n"),
+      );
+
+      expect(await readLHCIConfigFile(filePath)).toEqual({
+        ci: {
+          collect: {
+            url: ["http://localhost:3000/"],
+            numberOfRuns: 5,
+            settings: { preset: "desktop", chromeFlags: ["--headless"] },
+          },
+          assert: {
+            preset: "lighthouse:recommended",
+            assertions: {
+              "categories:performance": ["warn", { minScore: 0.9 }],
+              "uses-http2": "off",
+              "largest-contentful-paint": [
+                "error",
+                { maxNumericValue: 2500, aggregationMethod: "optimistic" },
+              ],
+            },
+          },
+          upload: { target: "temporary-public-storage" },
+        },
+      });
+    });
+
+    it("should read anchors, block scalars and multiple lines", async () => {
+      const filePath = path.join(tmpDir, ".lighthouserc.yaml");
+      fs.writeFileSync(
+        filePath,
+        [
+          "ci:",
+          "  collect:",
+          "    url: [",
+          "      http://localhost:3000/,",
+          "      http://localhost:3000/blog",
+          "    ]",
+          "    startServerCommand: >-",
+          "      npm run build &&",
+          "      npm run start",
+          "    settings: &settings",
+          "      preset: desktop",
+          "  assert:",
+          "    assertions:",
+          '      "categories:performance": [error, { minScore: 0.9 }]',
+          "  server:",
+          "    settings: *settings",
+        ].join("\n"),
+      );
+
+      expect((await readLHCIConfigFile(filePath)).ci).toEqual({
+        collect: {
+          url: ["http://localhost:3000/", "http://localhost:3000/blog"],
+          startServerCommand: "npm run build && npm run start",
+          settings: { preset: "desktop" },
+        },
+        assert: {
+          assertions: {
+            "categories:performance": ["error", { minScore: 0.9 }],
+          },
+        },
+        server: { settings: { preset: "desktop" } },
+      });
+    });
+
+    it("should explain how to install the yaml package", async () => {
+      const filePath = path.join(tmpDir, ".lighthouserc.yml");
+      fs.writeFileSync(filePath, "ci:\n  collect: {}\n");
+      // No node_modules above the temporary directory
+      const cwd = jest.spyOn(process, "cwd").mockReturnValue(tmpDir);
+
+      try {
+        await expect(readLHCIConfigFile(filePath)).rejects.toThrow(
+          "Install it with: npm install -D yaml",
+        );
+        expect(() => createRunner().generateConfigFile("yaml")).toThrow(
+          "YAML lighthouserc files need the yaml package",
+        );
+      } finally {
+        cwd.mockRestore();
+      }
+    });
+
+    it("should reject invalid files", async () => {
+      const filePath = path.join(tmpDir, "lighthouserc.json");
+      fs.writeFileSync(filePath, JSON.stringify({ collect: {} }));
+
+      await expect(readLHCIConfigFile(filePath)).rejects.toThrow(
+        'missing "ci" object',
+      );
+      expect(() => parseLHCIConfig({ ci: { assert: [] } })).toThrow(
+        '"ci.assert" must be an object',
+      );
+    });
+  });
+});
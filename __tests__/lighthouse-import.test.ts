@@ -0,0 +1,175 @@
+/**
+ * Tests for importing local Lighthouse reports
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  importLighthouseReport,
+  importLighthouseReports,
+  importLighthouseResult,
+  parseLighthouseResult,
+} from "../src/lighthouse";
+import { InvalidLighthouseReportError } from "../src/pagespeed";
+import type { LighthouseResult } from "../src/types";
+
+const metricAudit = (id: string, numericValue: number) => ({
+  id,
+  title: id,
+  score: 0.9,
+  numericValue,
+  displayValue: `${numericValue}`,
+});
+
+function createLhr(
+  overrides: Partial<LighthouseResult> = {},
+  fcp = 1200,
+  tti = 3500,
+): LighthouseResult {
+  return {
+    lighthouseVersion: "12.2.1",
+    requestedUrl: "https://staging.example.com/",
+    finalUrl: "https://staging.example.com/",
+    finalDisplayedUrl: "https://staging.example.com/",
+    fetchTime: "2026-10-18T10:00:00.000Z",
+    configSettings: { formFactor: "desktop" },
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.91 },
+    },
+    audits: {
+      "largest-contentful-paint": metricAudit("largest-contentful-paint", 2100),
+      "first-contentful-paint": metricAudit("first-contentful-paint", fcp),
+      "cumulative-layout-shift": metricAudit("cumulative-layout-shift", 0.02),
+      "total-blocking-time": metricAudit("total-blocking-time", 150),
+      "speed-index": metricAudit("speed-index", 1800),
+      interactive: metricAudit("interactive", tti),
+    },
+    ...overrides,
+  } as LighthouseResult;
+}
+
+let reportDir: string;
+
+beforeEach(() => {
+  reportDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-lhr-"));
+});
+
+afterEach(() => {
+  fs.rmSync(reportDir, { recursive: true, force: true });
+});
+
+function writeReport(name: string, data: unknown): string {
+  const filePath = path.join(reportDir, name);
+  fs.writeFileSync(filePath, JSON.stringify(data));
+  return filePath;
+}
+
+describe("parseLighthouseResult", () => {
+  it("should accept supported Lighthouse reports", () => {
+    const lhr = createLhr();
+
+    expect(parseLighthouseResult(lhr)).toBe(lhr);
+  });
+
+  it("should reject JSON that is not a Lighthouse report", () => {
+    expect(() => parseLighthouseResult({ id: "x" }, "psi.json")).toThrow(
+      InvalidLighthouseReportError,
+    );
+    expect(() => parseLighthouseResult([createLhr()])).toThrow(
+      "expected a JSON object",
+    );
+    expect(() =>
+      parseLighthouseResult({ ...createLhr(), audits: undefined }),
+    ).toThrow("missing audits");
+  });
+
+  it("should reject reports from unsupported Lighthouse versions", () => {
+    expect(() =>
+      parseLighthouseResult(createLhr({ lighthouseVersion: "9.6.8" })),
+    ).toThrow("Lighthouse 9.6.8 is not supported");
+  });
+});
+
+describe("importLighthouseResult", () => {
+  it("should build a PerformanceResult from a local report", () => {
+    const result = importLighthouseResult(createLhr());
+
+    expect(result.url).toBe("https://staging.example.com/");
+    expect(result.strategy).toBe("desktop");
+    expect(result.timestamp).toBe("2026-10-18T10:00:00.000Z");
+    expect(result.scores.performance).toBe(91);
+    expect(result.metrics.lcp.value).toBe(2100);
+    expect(result.insights).toBeDefined();
+    expect(result.fieldData).toBeUndefined();
+    expect(result.reliable).toBe(true);
+  });
+
+  it("should let callers override the strategy", () => {
+    const result = importLighthouseResult(createLhr(), { strategy: "mobile" });
+
+    expect(result.strategy).toBe("mobile");
+  });
+});
+
+describe("importLighthouseReport", () => {
+  it("should read a report file", () => {
+    const filePath = writeReport("report.json", createLhr());
+
+    expect(importLighthouseReport(filePath).scores.performance).toBe(91);
+  });
+
+  it("should throw InvalidLighthouseReportError for unreadable files", () => {
+    const filePath = path.join(reportDir, "broken.json");
+    fs.writeFileSync(filePath, "{ not json");
+
+    expect(() => importLighthouseReport(filePath)).toThrow(
+      InvalidLighthouseReportError,
+    );
+  });
+});
+
+describe("importLighthouseReports", () => {
+  it("should aggregate LHCI runs of the same URL around the median", () => {
+    writeReport("lhr-1.json", createLhr({}, 1000, 3000));
+    writeReport("lhr-2.json", createLhr({}, 1500, 4000));
+    writeReport("lhr-3.json", createLhr({}, 2000, 5000));
+    writeReport("assertion-results.json", []);
+
+    const results = importLighthouseReports(reportDir);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].aggregation?.runs).toBe(3);
+    expect(results[0].metrics.fcp.value).toBe(1500);
+  });
+
+  it("should keep every run without aggregation", () => {
+    writeReport("lhr-1.json", createLhr());
+    writeReport(
+      "lhr-2.json",
+      createLhr({ requestedUrl: "https://staging.example.com/about" }),
+    );
+
+    const results = importLighthouseReports(reportDir, { aggregate: false });
+
+    expect(results.map((r) => r.url)).toEqual([
+      "https://staging.example.com/",
+      "https://staging.example.com/about",
+    ]);
+  });
+
+  it("should import a single report file", () => {
+    const filePath = writeReport("report.json", createLhr());
+
+    expect(importLighthouseReports(filePath)).toHaveLength(1);
+  });
+
+  it("should fail for directories without reports", () => {
+    expect(() => importLighthouseReports(reportDir)).toThrow(
+      "no lhr-*.json reports found",
+    );
+    expect(() =>
+      importLighthouseReports(path.join(reportDir, "missing")),
+    ).toThrow(InvalidLighthouseReportError);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the local Lighthouse runner
+ */
+
+import lighthouse from "lighthouse";
+import { launch } from "chrome-launcher";
+import {
+  LOCAL_THROTTLING_PROFILES,
+  analyzeLocalUrl,
+  createLocalRunner,
+} from "../src/lighthouse";
+import {
+  DocumentRequestError,
+  InvalidLighthouseReportError,
+} from "../src/pagespeed";
+import type { LighthouseResult } from "../src/types";
+
+jest.mock(
+  "lighthouse",
+  () => ({
+    __esModule: true,
+    default: jest.fn(),
+    desktopConfig: { extends: "lighthouse:default", settings: {} },
+  }),
+  { virtual: true },
+);
+jest.mock("chrome-launcher", () => ({ launch: jest.fn() }), {
+  virtual: true,
+});
+
+const mockLighthouse = lighthouse as unknown as jest.Mock;
+const mockLaunch = launch as unknown as jest.Mock;
+const kill = jest.fn();
+
+const metricAudit = (id: string, numericValue: number) => ({
+  id,
+  title: id,
+  score: 0.9,
+  numericValue,
+  displayValue: `${numericValue}`,
+});
+
+function createLhr(fcp: number, overrides: Partial<LighthouseResult> = {}) {
+  return {
+    lighthouseVersion: "12.6.1",
+    requestedUrl: "http://localhost:3000/",
+    finalUrl: "http://localhost:3000/",
+    fetchTime: "2026-10-18T10:00:00.000Z",
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.8 },
+    },
+    audits: {
+      "largest-contentful-paint": metricAudit("largest-contentful-paint", 2400),
+      "first-contentful-paint": metricAudit("first-contentful-paint", fcp),
+      "cumulative-layout-shift": metricAudit("cumulative-layout-shift", 0.01),
+      "total-blocking-time": metricAudit("total-blocking-time", 120),
+      "speed-index": metricAudit("speed-index", 1900),
+      interactive: metricAudit("interactive", fcp * 3),
+    },
+    ...overrides,
+  } as LighthouseResult;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockLaunch.mockResolvedValue({ port: 9222, kill });
+});
+
+describe("LocalLighthouseRunner", () => {
+  it("should return a PerformanceResult from local Chrome", async () => {
+    mockLighthouse.mockResolvedValue({ lhr: createLhr(1100) });
+
+    const result = await analyzeLocalUrl("http://localhost:3000/");
+
+    expect(mockLaunch).toHaveBeenCalledWith({
+      chromeFlags: ["--headless", "--no-sandbox"],
+      chromePath: undefined,
+    });
+    expect(mockLighthouse).toHaveBeenCalledWith(
+      "http://localhost:3000/",
+      {
+        port: 9222,
+        output: "json",
+        logLevel: "error",
+        onlyCategories: [
+          "performance",
+          "accessibility",
+          "best-practices",
+          "seo",
+        ],
+      },
+      undefined,
+    );
+    expect(result.url).toBe("http://localhost:3000/");
+    expect(result.strategy).toBe("mobile");
+    expect(result.scores.performance).toBe(80);
+    expect(result.metrics.fcp.value).toBe(1100);
+    expect(kill).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply the desktop preset, throttling and Chrome options", async () => {
+    mockLighthouse.mockResolvedValue({ lhr: createLhr(900) });
+
+    const runner = createLocalRunner({
+      chromeFlags: ["--headless=new"],
+      chromePath: "/usr/bin/chromium",
+      throttling: "mobileRegular3G",
+    });
+    await runner.analyze({
+      url: "http://localhost:3000/",
+      strategy: "desktop",
+      categories: ["performance"],
+      throttlingMethod: "devtools",
+      locale: "es",
+      timeout: 60000,
+    });
+
+    expect(mockLaunch).toHaveBeenCalledWith({
+      chromeFlags: ["--headless=new"],
+      chromePath: "/usr/bin/chromium",
+    });
+    const [, flags, config] = mockLighthouse.mock.calls[0];
+    expect(flags).toMatchObject({
+      onlyCategories: ["performance"],
+      throttling: LOCAL_THROTTLING_PROFILES.mobileRegular3G,
+      throttlingMethod: "devtools",
+      locale: "es",
+      maxWaitForLoad: 60000,
+    });
+    expect(config).toEqual({ extends: "lighthouse:default", settings: {} });
+  });
+
+  it("should disable throttling with the none profile", async () => {
+    mockLighthouse.mockResolvedValue({ lhr: createLhr(900) });
+
+    await analyzeLocalUrl("http://localhost:3000/", { throttling: "none" });
+
+    expect(mockLighthouse.mock.calls[0][1]).toMatchObject({
+      throttling: LOCAL_THROTTLING_PROFILES.none,
+      throttlingMethod: "provided",
+    });
+  });
+
+  it("should aggregate several runs in one Chrome session", async () => {
+    mockLighthouse
+      .mockResolvedValueOnce({ lhr: createLhr(1000) })
+      .mockResolvedValueOnce({ lhr: createLhr(1400) })
+      .mockResolvedValueOnce({ lhr: createLhr(1200) });
+
+    const result = await analyzeLocalUrl("http://localhost:3000/", {
+      numberOfRuns: 3,
+    });
+
+    expect(mockLaunch).toHaveBeenCalledTimes(1);
+    expect(mockLighthouse).toHaveBeenCalledTimes(3);
+    expect(result.metrics.fcp.value).toBe(1200);
+    expect(result.aggregation?.runs).toBe(3);
+  });
+
+  it("should fail when the page cannot be loaded and close Chrome", async () => {
+    mockLighthouse.mockResolvedValue({
+      lhr: createLhr(0, {
+        runtimeError: {
+          code: "FAILED_DOCUMENT_REQUEST",
+          message: "net::ERR_CONNECTION_REFUSED",
+        },
+      }),
+    });
+
+    const error = await analyzeLocalUrl("http://localhost:3000/").catch(
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(DocumentRequestError);
+    expect(error).toMatchObject({
+      message:
+        "Lighthouse could not load http://localhost:3000/: net::ERR_CONNECTION_REFUSED",
+      runtimeErrorCode: "FAILED_DOCUMENT_REQUEST",
+    });
+    expect(kill).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail when Lighthouse returns no report", async () => {
+    mockLighthouse.mockResolvedValue(undefined);
+
+    await expect(analyzeLocalUrl("http://localhost:3000/")).rejects.toThrow(
+      InvalidLighthouseReportError,
+    );
+    expect(kill).toHaveBeenCalledTimes(1);
+  });
+});
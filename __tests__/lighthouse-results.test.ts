@@ -0,0 +1,189 @@
+/**
+ * Tests for reading LHCI run results
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { formatAssertionResult, readLHCIResults } from "../src/lighthouse";
+import type { LHCIAssertionResult } from "../src/types";
+
+const metricAudit = (id: string, numericValue: number) => ({
+  id,
+  title: id,
+  score: 0.5,
+  numericValue,
+  displayValue: `${numericValue}`,
+});
+
+function createLhr(url: string, fcp: number, lcp: number) {
+  return {
+    lighthouseVersion: "12.2.1",
+    requestedUrl: url,
+    finalUrl: url,
+    fetchTime: "2026-10-18T10:00:00.000Z",
+    configSettings: { formFactor: "mobile" },
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.62 },
+    },
+    audits: {
+      "largest-contentful-paint": metricAudit("largest-contentful-paint", lcp),
+      "first-contentful-paint": metricAudit("first-contentful-paint", fcp),
+      "cumulative-layout-shift": metricAudit("cumulative-layout-shift", 0.02),
+      "total-blocking-time": metricAudit("total-blocking-time", 150),
+      "speed-index": metricAudit("speed-index", 1800),
+      interactive: metricAudit("interactive", fcp * 2),
+    },
+  };
+}
+
+const lcpFailure: LHCIAssertionResult = {
+  url: "https://example.com/",
+  auditId: "largest-contentful-paint",
+  auditTitle: "Largest Contentful Paint",
+  name: "maxNumericValue",
+  operator: "<=",
+  expected: 2500,
+  actual: 3120,
+  values: [3100, 3120, 3400],
+  level: "error",
+  passed: false,
+};
+
+const scoreWarning: LHCIAssertionResult = {
+  url: "https://example.com/about",
+  auditId: "categories",
+  auditProperty: "performance",
+  name: "minScore",
+  operator: ">=",
+  expected: 0.9,
+  actual: 0.62,
+  values: [0.62],
+  level: "warn",
+  passed: false,
+};
+
+const clsPass: LHCIAssertionResult = {
+  url: "https://example.com/",
+  auditId: "cumulative-layout-shift",
+  name: "maxNumericValue",
+  operator: "<=",
+  expected: 0.1,
+  actual: 0.02,
+  values: [0.02, 0.02, 0.02],
+  level: "error",
+  passed: true,
+};
+
+describe("readLHCIResults", () => {
+  let lhciDir: string;
+
+  beforeEach(() => {
+    lhciDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-lhci-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(lhciDir, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, data: unknown): void {
+    fs.writeFileSync(path.join(lhciDir, name), JSON.stringify(data));
+  }
+
+  it("should group runs by URL with a representative run", () => {
+    writeFile("lhr-1001.json", createLhr("https://example.com/", 1000, 3100));
+    writeFile("lhr-1002.json", createLhr("https://example.com/", 1500, 3120));
+    writeFile("lhr-1003.json", createLhr("https://example.com/", 2000, 3400));
+    writeFile(
+      "lhr-1004.json",
+      createLhr("https://example.com/about", 900, 2000),
+    );
+
+    const { urls } = readLHCIResults(lhciDir);
+
+    expect(urls.map((u) => u.url)).toEqual([
+      "https://example.com/",
+      "https://example.com/about",
+    ]);
+    expect(urls[0].runs).toHaveLength(3);
+    expect(urls[0].representative.metrics.lcp.value).toBe(3120);
+    expect(urls[0].representative.aggregation?.runs).toBe(3);
+    expect(urls[1].representative).toBe(urls[1].runs[0]);
+  });
+
+  it("should attach assertion results and upload links per URL", () => {
+    writeFile("lhr-1001.json", createLhr("https://example.com/", 1000, 3120));
+    writeFile(
+      "lhr-1002.json",
+      createLhr("https://example.com/about", 900, 2000),
+    );
+    writeFile("assertion-results.json", [lcpFailure, scoreWarning, clsPass]);
+    writeFile("links.json", {
+      "https://example.com/": "https://storage.googleapis.com/report-1.html",
+    });
+
+    const results = readLHCIResults(lhciDir);
+
+    expect(results.failedAssertions).toEqual([lcpFailure, scoreWarning]);
+    expect(results.urls[0]).toMatchObject({
+      assertionResults: [lcpFailure, clsPass],
+      passed: false,
+      reportUrl: "https://storage.googleapis.com/report-1.html",
+    });
+    // Warnings do not fail the URL
+    expect(results.urls[1].passed).toBe(true);
+    expect(results.urls[1].reportUrl).toBeUndefined();
+  });
+
+  it("should check representative runs against budgets", () => {
+    writeFile("lhr-1001.json", createLhr("https://example.com/", 1000, 3120));
+
+    const { urls } = readLHCIResults(lhciDir, {
+      budgets: [
+        { timings: [{ metric: "largest-contentful-paint", budget: 2500 }] },
+      ],
+    });
+
+    expect(urls[0].budget?.passed).toBe(false);
+    expect(urls[0].budget?.violations[0]).toMatchObject({
+      id: "largest-contentful-paint",
+      actual: 3120,
+    });
+  });
+
+  it("should ignore assertion results left by an earlier run", () => {
+    writeFile("lhr-1001.json", createLhr("https://example.com/", 1000, 3120));
+    writeFile("assertion-results.json", [lcpFailure]);
+
+    const results = readLHCIResults(lhciDir, {
+      since: new Date(Date.now() + 60_000),
+    });
+
+    expect(results.failedAssertions).toEqual([]);
+    expect(results.urls[0].passed).toBe(true);
+  });
+
+  it("should return empty results when nothing was collected", () => {
+    const results = readLHCIResults(path.join(lhciDir, "missing"));
+
+    expect(results.urls).toEqual([]);
+    expect(results.links).toEqual({});
+  });
+});
+
+describe("formatAssertionResult", () => {
+  it("should describe the failing audit with expected and actual values", () => {
+    expect(formatAssertionResult(lcpFailure)).toBe(
+      "largest-contentful-paint maxNumericValue: expected <=2500, found 3120",
+    );
+    expect(formatAssertionResult(scoreWarning)).toBe(
+      "categories.performance minScore: expected >=0.9, found 0.62",
+    );
+  });
+
+  it("should report audits without a value", () => {
+    expect(formatAssertionResult({ ...lcpFailure, actual: null })).toBe(
+      "largest-contentful-paint maxNumericValue: expected <=2500, found no value",
+    );
+  });
+});
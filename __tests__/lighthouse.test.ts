@@ -2,6 +2,10 @@
  * Tests for Lighthouse Runner
  */
 
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { autorun } from "@lhci/cli";
 import {
   LighthouseRunner,
   createNodeRunner,
@@ -10,6 +14,8 @@ import {
   getDefaultThresholds,
 } from "../src/lighthouse";
 
+jest.mock("@lhci/cli", () => ({ autorun: jest.fn() }), { virtual: true });
+
 describe("LighthouseRunner", () => {
   describe("constructor", () => {
     it("should create runner with default options", () => {
@@ -59,7 +65,7 @@ describe("LighthouseRunner", () => {
       });
 
       const config = runner.getConfig();
-      expect(config.ci.assert?.assertions["categories:performance"]).toEqual([
+      expect(config.ci.assert?.assertions?.["categories:performance"]).toEqual([
         "error",
         { minScore: 0.9 },
       ]);
@@ -73,7 +79,7 @@ describe("LighthouseRunner", () => {
       });
 
       const config = runner.getConfig();
-      expect(config.ci.assert?.assertions["largest-contentful-paint"]).toEqual([
+      expect(config.ci.assert?.assertions?.["largest-contentful-paint"]).toEqual([
         "error",
         { maxNumericValue: 2500 },
       ]);
@@ -90,10 +96,10 @@ describe("LighthouseRunner", () => {
       });
 
       const config = runner.getConfig();
-      expect(config.ci.assert?.assertions["categories:performance"]).toBeDefined();
-      expect(config.ci.assert?.assertions["largest-contentful-paint"]).toBeDefined();
-      expect(config.ci.assert?.assertions["cumulative-layout-shift"]).toBeDefined();
-      expect(config.ci.assert?.assertions["total-blocking-time"]).toBeDefined();
+      expect(config.ci.assert?.assertions?.["categories:performance"]).toBeDefined();
+      expect(config.ci.assert?.assertions?.["largest-contentful-paint"]).toBeDefined();
+      expect(config.ci.assert?.assertions?.["cumulative-layout-shift"]).toBeDefined();
+      expect(config.ci.assert?.assertions?.["total-blocking-time"]).toBeDefined();
     });
 
     it("should support method chaining", () => {
@@ -104,6 +110,99 @@ describe("LighthouseRunner", () => {
       const result = runner.withAssertions({ performance: 90 });
       expect(result).toBe(runner);
     });
+
+    it("should assert TTI and Speed Index but not the field metrics", () => {
+      const config = new LighthouseRunner({
+        urls: ["https://example.com"],
+      })
+        .withAssertions({ tti: 3800, si: 3400, ttfb: 800, inp: 200 })
+        .getConfig();
+
+      expect(config.ci.assert?.assertions).toEqual({
+        interactive: ["error", { maxNumericValue: 3800 }],
+        "speed-index": ["error", { maxNumericValue: 3400 }],
+      });
+    });
+
+    it("should apply default and per-metric levels", () => {
+      const config = new LighthouseRunner({
+        urls: ["https://example.com"],
+      })
+        .withAssertions(
+          { performance: 90, cls: 0.1, seo: 80 },
+          { level: "warn", levels: { cls: "error", seo: "off" } },
+        )
+        .getConfig();
+
+      expect(config.ci.assert?.assertions).toEqual({
+        "categories:performance": ["warn", { minScore: 0.9 }],
+        "categories:seo": ["off", { minScore: 0.8 }],
+        "cumulative-layout-shift": ["error", { maxNumericValue: 0.1 }],
+      });
+    });
+
+    it("should set the aggregation method", () => {
+      const config = new LighthouseRunner({
+        urls: ["https://example.com"],
+      })
+        .withAssertions({ lcp: 2500 }, { aggregationMethod: "median-run" })
+        .getConfig();
+
+      expect(config.ci.assert?.aggregationMethod).toBe("median-run");
+    });
+
+    it("should emit an assertMatrix for URL overrides", () => {
+      const config = new LighthouseRunner({
+        urls: ["https://example.com/blog/post", "https://example.com/checkout"],
+      })
+        .withAssertions(
+          { performance: 90, lcp: 2500 },
+          {
+            aggregationMethod: "pessimistic",
+            urlThresholds: {
+              "/blog/": { lcp: 4000 },
+              "/checkout": { performance: 95 },
+            },
+          },
+        )
+        .getConfig();
+
+      const { assert } = config.ci;
+      expect(assert?.assertions).toBeUndefined();
+      expect(assert?.aggregationMethod).toBeUndefined();
+      expect(assert?.assertMatrix).toEqual([
+        {
+          matchingUrlPattern: "^(?!.*(?:/blog/|/checkout))",
+          aggregationMethod: "pessimistic",
+          assertions: {
+            "categories:performance": ["error", { minScore: 0.9 }],
+            "largest-contentful-paint": ["error", { maxNumericValue: 2500 }],
+          },
+        },
+        {
+          matchingUrlPattern: "/blog/",
+          aggregationMethod: "pessimistic",
+          assertions: {
+            "categories:performance": ["error", { minScore: 0.9 }],
+            "largest-contentful-paint": ["error", { maxNumericValue: 4000 }],
+          },
+        },
+        {
+          matchingUrlPattern: "/checkout",
+          aggregationMethod: "pessimistic",
+          assertions: {
+            "categories:performance": ["error", { minScore: 0.95 }],
+            "largest-contentful-paint": ["error", { maxNumericValue: 2500 }],
+          },
+        },
+      ]);
+
+      const fallback = new RegExp(
+        assert?.assertMatrix?.[0].matchingUrlPattern ?? "",
+      );
+      expect(fallback.test("https://example.com/about")).toBe(true);
+      expect(fallback.test("https://example.com/blog/post")).toBe(false);
+    });
   });
 
   describe("withTemporaryStorage", () => {
@@ -130,6 +229,144 @@ describe("LighthouseRunner", () => {
     });
   });
 
+  describe("withBudgets", () => {
+    const budgets = [
+      {
+        path: "/checkout",
+        resourceSizes: [{ resourceType: "script" as const, budget: 300 }],
+      },
+    ];
+
+    it("should pass budgets to Lighthouse settings", () => {
+      const config = new LighthouseRunner({
+        urls: ["https://example.com/checkout"],
+      })
+        .withBudgets(budgets)
+        .getConfig();
+
+      expect(config.ci.collect.settings?.budgets).toEqual(budgets);
+      expect(config.ci.collect.settings?.preset).toBe("mobile");
+    });
+
+    it("should generate budget.json content", () => {
+      const runner = new LighthouseRunner({
+        urls: ["https://example.com/checkout"],
+      }).withBudgets(budgets);
+
+      expect(JSON.parse(runner.generateBudgetFile())).toEqual(budgets);
+    });
+  });
+
+  describe("authenticated pages", () => {
+    let tmpDir: string;
+    let scriptPath: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-auth-"));
+      scriptPath = path.join(tmpDir, "login.js");
+      fs.writeFileSync(scriptPath, "module.exports = async () => {};\n");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should configure the auth script, server and storage reset", () => {
+      const config = new LighthouseRunner({
+        urls: ["http://localhost:3000/account"],
+      })
+        .withAuthScript(scriptPath, { launchOptions: { headless: true } })
+        .withServer("npm run start", {
+          readyPattern: "ready on",
+          readyTimeout: 30000,
+        })
+        .disableStorageReset()
+        .getConfig();
+
+      expect(config.ci.collect.puppeteerScript).toBe(scriptPath);
+      expect(config.ci.collect.puppeteerLaunchOptions).toEqual({
+        headless: true,
+      });
+      expect(config.ci.collect.startServerCommand).toBe("npm run start");
+      expect(config.ci.collect.startServerReadyPattern).toBe("ready on");
+      expect(config.ci.collect.startServerReadyTimeout).toBe(30000);
+      expect(config.ci.collect.settings?.disableStorageReset).toBe(true);
+      expect(config.ci.collect.settings?.preset).toBe("mobile");
+    });
+
+    it("should merge headers and cookies", () => {
+      const config = new LighthouseRunner({
+        urls: ["https://staging.example.com"],
+      })
+        .withHeaders({ Authorization: "Bearer token" })
+        .withCookies({ session: "abc123" })
+        .withCookies({ locale: "en" })
+        .getConfig();
+
+      expect(config.ci.collect.settings?.extraHeaders).toEqual({
+        Authorization: "Bearer token",
+        Cookie: "session=abc123; locale=en",
+      });
+    });
+
+    it("should include the settings in generateConfigFile output", () => {
+      const content = new LighthouseRunner({
+        urls: ["http://localhost:3000"],
+      })
+        .withAuthScript(scriptPath)
+        .withServer("npm run start")
+        .withHeaders({ "X-Preview": "1" })
+        .generateConfigFile();
+
+      expect(content).toContain(
+        `"puppeteerScript": ${JSON.stringify(scriptPath)}`,
+      );
+      expect(content).toContain('"startServerCommand": "npm run start"');
+      expect(content).toContain('"X-Preview": "1"');
+    });
+
+    it("should reject invalid settings", () => {
+      const runner = new LighthouseRunner({ urls: ["https://example.com"] });
+
+      expect(() => runner.withAuthScript(path.join(tmpDir, "x.js"))).toThrow(
+        "Puppeteer script not found",
+      );
+      expect(() => runner.withAuthScript(path.join(tmpDir, "x.ts"))).toThrow(
+        "must be a .js, .cjs, .mjs file",
+      );
+      expect(() => runner.withServer(" ")).toThrow("must not be empty");
+      expect(() =>
+        runner.withServer("npm start", { readyPattern: "(" }),
+      ).toThrow("Invalid server ready pattern");
+      expect(() => runner.withServer("npm start", { readyTimeout: 0 })).toThrow(
+        "positive integer",
+      );
+      expect(() => runner.withHeaders({ "Bad Name": "x" })).toThrow(
+        'Invalid header name: "Bad Name"',
+      );
+      expect(() => runner.withHeaders({ "X-Test": "a\r\nb" })).toThrow(
+        'Invalid value for header "X-Test"',
+      );
+      expect(() => runner.withCookies({ session: "a;b" })).toThrow(
+        'Invalid value for cookie "session"',
+      );
+    });
+
+    it("should reject browser settings for PSI runners", () => {
+      const runner = createPSIRunner(["https://example.com"], "key");
+
+      expect(() => runner.withAuthScript(scriptPath)).toThrow(
+        'withAuthScript() requires the "node" method',
+      );
+      expect(() => runner.withHeaders({ "X-Test": "1" })).toThrow(
+        'withHeaders() requires the "node" method',
+      );
+      expect(() => runner.disableStorageReset()).toThrow(
+        'disableStorageReset() requires the "node" method',
+      );
+    });
+  });
+
   describe("generateConfigFile", () => {
     it("should generate valid config file content", () => {
       const runner = new LighthouseRunner({
@@ -145,6 +382,74 @@ describe("LighthouseRunner", () => {
       expect(content).toContain("https://example.com");
     });
   });
+
+  describe("run", () => {
+    let workDir: string;
+
+    beforeEach(() => {
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-run-"));
+      jest.spyOn(process, "cwd").mockReturnValue(workDir);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it("should return structured results from .lighthouseci", async () => {
+      (autorun as jest.Mock).mockImplementation(async () => {
+        const lhciDir = path.join(workDir, ".lighthouseci");
+        fs.mkdirSync(lhciDir);
+        fs.writeFileSync(
+          path.join(lhciDir, "lhr-1001.json"),
+          JSON.stringify({
+            lighthouseVersion: "12.2.1",
+            requestedUrl: "https://example.com/",
+            finalUrl: "https://example.com/",
+            fetchTime: "2026-10-18T10:00:00.000Z",
+            categories: {
+              performance: { id: "performance", score: 0.42 },
+            },
+            audits: {},
+          }),
+        );
+        fs.writeFileSync(
+          path.join(lhciDir, "assertion-results.json"),
+          JSON.stringify([
+            {
+              url: "https://example.com/",
+              auditId: "categories",
+              auditProperty: "performance",
+              name: "minScore",
+              operator: ">=",
+              expected: 0.9,
+              actual: 0.42,
+              values: [0.42],
+              level: "error",
+              passed: false,
+            },
+          ]),
+        );
+        return { success: false };
+      });
+
+      const result = await new LighthouseRunner({
+        urls: ["https://example.com/"],
+      })
+        .withAssertions({ performance: 90 })
+        .run();
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.urls).toHaveLength(1);
+      expect(result.urls[0].representative.scores.performance).toBe(42);
+      expect(result.failedAssertions[0]).toMatchObject({
+        auditId: "categories",
+        expected: 0.9,
+        actual: 0.42,
+      });
+    });
+  });
 });
 
 describe("Factory functions", () => {
@@ -221,5 +526,7 @@ describe("getDefaultThresholds", () => {
     expect(thresholds.performance).toBe(90);
     expect(thresholds.lcp).toBe(2500);
     expect(thresholds.cls).toBe(0.1);
+    expect(thresholds.inp).toBe(200);
+    expect(thresholds.ttfb).toBe(800);
   });
 });
@@ -0,0 +1,274 @@
+/**
+ * Tests for multi-run aggregation
+ */
+
+import {
+  PageSpeedClient,
+  aggregateResults,
+  computeMetricStats,
+  selectRepresentativeRun,
+} from "../src/pagespeed";
+import type { MetricValue, PerformanceResult } from "../src/types";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+function metric(value: number): MetricValue {
+  return { value, displayValue: `${value}`, rating: "good" };
+}
+
+function fakeRun(
+  fcp: number,
+  tti: number,
+  performance: number | null = 90,
+): PerformanceResult {
+  return {
+    url: "https://example.com",
+    strategy: "mobile",
+    timestamp: "2026-01-30T10:00:00.000Z",
+    scores: {
+      performance,
+      accessibility: null,
+      bestPractices: null,
+      seo: null,
+    },
+    metrics: {
+      lcp: metric(fcp + 1000),
+      fcp: metric(fcp),
+      cls: metric(0.05),
+      tbt: metric(200),
+      si: metric(fcp + 500),
+      tti: metric(tti),
+    },
+    lcpElement: null,
+    opportunities: [],
+    diagnostics: [],
+  } as unknown as PerformanceResult;
+}
+
+function mockResponse(fcp: number, tti: number) {
+  const audit = (value: number) => ({
+    id: "audit",
+    title: "Audit",
+    score: 1,
+    numericValue: value,
+    displayValue: `${value}`,
+  });
+
+  return {
+    ok: true,
+    json: async () => ({
+      id: "https://example.com/",
+      loadingExperience: { initial_url: "https://example.com/", metrics: {} },
+      lighthouseResult: {
+        lighthouseVersion: "11.0.0",
+        requestedUrl: "https://example.com/",
+        finalUrl: "https://example.com/",
+        fetchTime: "2026-01-30T10:00:00.000Z",
+        categories: {
+          performance: { id: "performance", title: "Performance", score: 0.9 },
+        },
+        audits: {
+          "first-contentful-paint": audit(fcp),
+          interactive: audit(tti),
+        },
+      },
+      analysisUTCTimestamp: "2026-01-30T10:00:00.000Z",
+    }),
+  };
+}
+
+describe("computeMetricStats", () => {
+  it("should compute min, median, p75, max and standard deviation", () => {
+    expect(computeMetricStats([4, 1, 3, 2])).toEqual({
+      min: 1,
+      median: 2.5,
+      p75: 3.25,
+      max: 4,
+      stdDev: Math.sqrt(1.25),
+    });
+  });
+
+  it("should handle a single value", () => {
+    expect(computeMetricStats([7])).toEqual({
+      min: 7,
+      median: 7,
+      p75: 7,
+      max: 7,
+      stdDev: 0,
+    });
+  });
+
+  it("should reject an empty set", () => {
+    expect(() => computeMetricStats([])).toThrow();
+  });
+});
+
+describe("selectRepresentativeRun", () => {
+  it("should pick the run closest to the median FCP and TTI", () => {
+    const runs = [
+      fakeRun(1000, 5000),
+      fakeRun(3000, 9000),
+      fakeRun(1800, 6100),
+      fakeRun(2200, 6900),
+      fakeRun(2000, 6500),
+    ];
+
+    expect(selectRepresentativeRun(runs)).toBe(4);
+  });
+
+  it("should break ties with the lowest TTI", () => {
+    // Median TTI is 5000, so every run is equally far from it
+    const runs = [
+      fakeRun(1000, 6000),
+      fakeRun(1000, 4000),
+      fakeRun(1000, 6000),
+      fakeRun(1000, 4000),
+    ];
+
+    expect(selectRepresentativeRun(runs)).toBe(1);
+  });
+
+  it("should use the first valid run when fewer than three are valid", () => {
+    const runs = [fakeRun(0, 0), fakeRun(1500, 6000), fakeRun(1200, 5000)];
+    expect(selectRepresentativeRun(runs)).toBe(1);
+  });
+
+  it("should skip runs with runtime errors", () => {
+    const failed = {
+      ...fakeRun(1500, 6000),
+      warnings: [
+        {
+          type: "runtime-error" as const,
+          source: "runtimeError" as const,
+          code: "PROTOCOL_TIMEOUT",
+          message: "Protocol timeout",
+        },
+      ],
+    };
+
+    expect(selectRepresentativeRun([failed, fakeRun(1200, 5000)])).toBe(1);
+  });
+
+  it("should throw when no run has FCP and TTI", () => {
+    expect(() => selectRepresentativeRun([fakeRun(0, 0)])).toThrow(
+      "No runs with both FCP and TTI",
+    );
+  });
+});
+
+describe("aggregateResults", () => {
+  it("should return the representative run with statistics attached", () => {
+    const runs = [
+      fakeRun(1000, 5000, 95),
+      fakeRun(2000, 6500, 88),
+      fakeRun(3000, 9000, 70),
+    ];
+
+    const result = aggregateResults(runs);
+
+    expect(result.metrics.fcp.value).toBe(2000);
+    expect(result.aggregation?.runs).toBe(3);
+    expect(result.aggregation?.discardedRuns).toBe(0);
+    expect(result.aggregation?.representativeRun).toBe(1);
+    expect(result.aggregation?.metrics.fcp).toMatchObject({
+      min: 1000,
+      median: 2000,
+      max: 3000,
+    });
+    expect(result.aggregation?.scores.performance?.median).toBe(88);
+  });
+
+  it("should compute statistics over valid runs only", () => {
+    const failed = {
+      ...fakeRun(9000, 20000, 10),
+      warnings: [
+        {
+          type: "runtime-error" as const,
+          source: "runtimeError" as const,
+          code: "PROTOCOL_TIMEOUT",
+          message: "Protocol timeout",
+        },
+      ],
+    };
+    const runs = [fakeRun(1000, 5000, 95), failed, fakeRun(0, 0, 0)];
+
+    const result = aggregateResults(runs);
+
+    expect(result.aggregation).toMatchObject({
+      runs: 3,
+      discardedRuns: 2,
+      representativeRun: 0,
+    });
+    expect(result.aggregation?.metrics.fcp).toMatchObject({
+      min: 1000,
+      max: 1000,
+    });
+    expect(result.aggregation?.scores.performance?.min).toBe(95);
+  });
+
+  it("should report every run as discarded when no run is valid", () => {
+    const runs = [fakeRun(0, 0, 40), fakeRun(0, 0, 50)];
+
+    const result = aggregateResults(runs);
+
+    expect(result.scores.performance).toBe(40);
+    expect(result.reliable).toBe(false);
+    expect(result.aggregation).toEqual({
+      runs: 2,
+      discardedRuns: 2,
+      representativeRun: 0,
+      metrics: {},
+      scores: {},
+    });
+  });
+
+  it("should skip category scores missing from any run", () => {
+    const runs = [
+      fakeRun(1000, 5000, 95),
+      fakeRun(2000, 6500, null),
+      fakeRun(3000, 9000, 70),
+    ];
+
+    const result = aggregateResults(runs);
+
+    expect(result.aggregation?.scores.performance).toBeUndefined();
+    expect(result.aggregation?.scores.seo).toBeUndefined();
+  });
+});
+
+describe("PageSpeedClient numberOfRuns", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should run the analysis N times and aggregate the results", async () => {
+    mockFetch
+      .mockResolvedValueOnce(mockResponse(3000, 9000))
+      .mockResolvedValueOnce(mockResponse(2000, 6500))
+      .mockResolvedValueOnce(mockResponse(1000, 5000));
+
+    const client = new PageSpeedClient(undefined, 1000, {
+      rateLimit: { enabled: false },
+    });
+    const result = await client.analyze({
+      url: "https://example.com",
+      numberOfRuns: 3,
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.metrics.fcp.value).toBe(2000);
+    expect(result.aggregation?.representativeRun).toBe(1);
+    expect(result.aggregation?.metrics.tti.max).toBe(9000);
+  });
+
+  it("should not attach aggregation for a single run", async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse(1000, 5000));
+
+    const client = new PageSpeedClient();
+    const result = await client.analyze({ url: "https://example.com" });
+
+    expect(result.aggregation).toBeUndefined();
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Tests for PageSpeed batch analysis
+ */
+
+import {
+  PageSpeedApiError,
+  PageSpeedClient,
+  createBatchJobs,
+  runBatch,
+  toBatchJobError,
+} from "../src/pagespeed";
+import type {
+  BatchJob,
+  BatchJobResult,
+  BatchProgress,
+  PerformanceResult,
+} from "../src/types";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockPageSpeedResponse = {
+  id: "https://example.com/",
+  loadingExperience: {
+    initial_url: "https://example.com/",
+    overall_category: "AVERAGE",
+    metrics: {},
+  },
+  lighthouseResult: {
+    lighthouseVersion: "11.0.0",
+    requestedUrl: "https://example.com/",
+    finalUrl: "https://example.com/",
+    fetchTime: "2026-01-30T10:00:00.000Z",
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.85 },
+    },
+    audits: {},
+  },
+  analysisUTCTimestamp: "2026-01-30T10:00:00.000Z",
+};
+
+function fakeResult(job: BatchJob): PerformanceResult {
+  return { url: job.url, strategy: job.strategy ?? "mobile" } as PerformanceResult;
+}
+
+describe("createBatchJobs", () => {
+  it("should create the URL x strategy cross product", () => {
+    const jobs = createBatchJobs(
+      ["https://a.com", "https://b.com"],
+      ["mobile", "desktop"],
+      { categories: ["performance"] }
+    );
+
+    expect(jobs).toEqual([
+      { url: "https://a.com", strategy: "mobile", categories: ["performance"] },
+      { url: "https://a.com", strategy: "desktop", categories: ["performance"] },
+      { url: "https://b.com", strategy: "mobile", categories: ["performance"] },
+      { url: "https://b.com", strategy: "desktop", categories: ["performance"] },
+    ]);
+  });
+
+  it("should default to mobile", () => {
+    expect(createBatchJobs(["https://a.com"])).toEqual([
+      { url: "https://a.com", strategy: "mobile" },
+    ]);
+  });
+});
+
+describe("toBatchJobError", () => {
+  it("should include status and attempts for API errors", () => {
+    const error = new PageSpeedApiError(429, "Too Many Requests");
+    error.attempts = [
+      { attempt: 1, error: error.message, status: 429, retryable: true, timestamp: "t" },
+    ];
+
+    expect(toBatchJobError(error)).toEqual({
+      name: "PageSpeedApiError",
+      message: "PageSpeed API error: 429 Too Many Requests",
+      code: "API_ERROR",
+      status: 429,
+      attempts: error.attempts,
+    });
+  });
+
+  it("should handle non-error values", () => {
+    expect(toBatchJobError("boom")).toEqual({ name: "Error", message: "boom" });
+  });
+});
+
+describe("runBatch", () => {
+  it("should keep results and errors in input order", async () => {
+    const analyze = jest.fn(async (job: BatchJob) => {
+      if (job.url.includes("broken")) throw new Error("failed");
+      return fakeResult(job);
+    });
+
+    const batch = await runBatch(
+      ["https://a.com", "https://broken.com", { url: "https://c.com", strategy: "desktop" }],
+      analyze
+    );
+
+    expect(batch.results.map((r) => r.url)).toEqual(["https://a.com", "https://c.com"]);
+    expect(batch.failures).toHaveLength(1);
+    expect(batch.failures[0]).toMatchObject({
+      index: 1,
+      success: false,
+      job: { url: "https://broken.com" },
+      error: { message: "failed" },
+    });
+    expect(batch.jobs.map((j) => j.index)).toEqual([0, 1, 2]);
+    expect(batch.summary).toMatchObject({ total: 3, completed: 3, succeeded: 2, failed: 1 });
+  });
+
+  it("should apply defaults with job fields taking precedence", async () => {
+    const analyze = jest.fn(async (job: BatchJob) => fakeResult(job));
+
+    await runBatch(
+      ["https://a.com", { url: "https://b.com", strategy: "mobile" }],
+      analyze,
+      { defaults: { strategy: "desktop", apiKey: "key" } }
+    );
+
+    expect(analyze).toHaveBeenCalledWith({ url: "https://a.com", strategy: "desktop", apiKey: "key" });
+    expect(analyze).toHaveBeenCalledWith({ url: "https://b.com", strategy: "mobile", apiKey: "key" });
+  });
+
+  it("should bound concurrency", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const analyze = async (job: BatchJob) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return fakeResult(job);
+    };
+
+    await runBatch(
+      Array.from({ length: 10 }, (_, i) => `https://example.com/${i}`),
+      analyze,
+      { concurrency: 3 }
+    );
+
+    expect(maxActive).toBe(3);
+  });
+
+  it("should emit progress and completion events", async () => {
+    const progress: BatchProgress[] = [];
+    const completed: BatchJobResult[] = [];
+
+    await runBatch(
+      ["https://a.com", "https://b.com"],
+      async (job) => fakeResult(job),
+      {
+        concurrency: 1,
+        onProgress: (p) => progress.push(p),
+        onJobComplete: (r) => completed.push(r),
+      }
+    );
+
+    expect(progress).toEqual([
+      { total: 2, completed: 1, succeeded: 1, failed: 0 },
+      { total: 2, completed: 2, succeeded: 2, failed: 0 },
+    ]);
+    expect(completed.map((c) => c.job.url)).toEqual(["https://a.com", "https://b.com"]);
+  });
+
+  it("should skip pending jobs and abort running ones when cancelled", async () => {
+    const controller = new AbortController();
+    const signals: Array<AbortSignal | undefined> = [];
+    const analyze = jest.fn(async (job: BatchJob) => {
+      signals.push(job.signal);
+      controller.abort();
+      return fakeResult(job);
+    });
+
+    const batch = await runBatch(
+      ["https://a.com", "https://b.com", "https://c.com"],
+      analyze,
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(signals[0]).toBe(controller.signal);
+    expect(batch.summary).toMatchObject({ total: 3, succeeded: 1, failed: 2 });
+    expect(batch.failures[0].error?.name).toBe("AbortError");
+  });
+
+  it("should handle an empty job list", async () => {
+    const batch = await runBatch([], async (job) => fakeResult(job));
+    expect(batch.summary.total).toBe(0);
+    expect(batch.results).toEqual([]);
+  });
+});
+
+describe("PageSpeedClient.analyzeUrls", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should analyze jobs and collect failures", async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes("broken")
+        ? { ok: false, status: 400, statusText: "Bad Request" }
+        : { ok: true, json: () => Promise.resolve(mockPageSpeedResponse) }
+    );
+
+    const client = new PageSpeedClient("key");
+    const batch = await client.analyzeUrls(
+      createBatchJobs(["https://example.com", "https://broken.example.com"], [
+        "mobile",
+        "desktop",
+      ])
+    );
+
+    expect(batch.summary).toMatchObject({ total: 4, succeeded: 2, failed: 2 });
+    expect(batch.results.map((r) => r.strategy)).toEqual(["mobile", "desktop"]);
+    expect(batch.failures[0].error).toMatchObject({
+      name: "PageSpeedApiError",
+      status: 400,
+    });
+  });
+});
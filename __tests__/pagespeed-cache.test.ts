@@ -0,0 +1,189 @@
+/**
+ * Tests for PageSpeed response cache
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  PageSpeedClient,
+  ResponseCache,
+  createRequestKey,
+} from "../src/pagespeed";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockPageSpeedResponse = {
+  id: "https://example.com/",
+  loadingExperience: {
+    initial_url: "https://example.com/",
+    overall_category: "AVERAGE",
+    metrics: {},
+  },
+  lighthouseResult: {
+    lighthouseVersion: "11.0.0",
+    requestedUrl: "https://example.com/",
+    finalUrl: "https://example.com/",
+    fetchTime: "2026-01-30T10:00:00.000Z",
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.85 },
+    },
+    audits: {},
+  },
+  analysisUTCTimestamp: "2026-01-30T10:00:00.000Z",
+};
+
+let cacheDir: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve(mockPageSpeedResponse),
+  });
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-cache-"));
+});
+
+afterEach(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe("createRequestKey", () => {
+  it("should be stable regardless of category order", () => {
+    const a = createRequestKey({
+      url: "https://example.com",
+      strategy: "mobile",
+      categories: ["performance", "seo"],
+    });
+    const b = createRequestKey({
+      url: "https://example.com",
+      strategy: "mobile",
+      categories: ["seo", "performance"],
+    });
+
+    expect(a).toBe(b);
+  });
+
+  it("should differ by strategy and locale", () => {
+    const base = {
+      url: "https://example.com",
+      strategy: "mobile" as const,
+      categories: ["performance" as const],
+    };
+
+    expect(createRequestKey(base)).not.toBe(
+      createRequestKey({ ...base, strategy: "desktop" })
+    );
+    expect(createRequestKey(base)).not.toBe(
+      createRequestKey({ ...base, locale: "es" })
+    );
+  });
+});
+
+describe("ResponseCache", () => {
+  it("should store and retrieve values", () => {
+    const cache = new ResponseCache<{ value: number }>(cacheDir, 60);
+    cache.set("key", { value: 1 });
+
+    expect(cache.get("key")).toEqual({ value: 1 });
+  });
+
+  it("should expire values after the TTL", () => {
+    const cache = new ResponseCache<{ value: number }>(cacheDir, 60);
+    const now = Date.now();
+    cache.set("key", { value: 1 }, undefined, now);
+
+    expect(cache.get("key", now + 59_000)).toEqual({ value: 1 });
+    expect(cache.get("key", now + 61_000)).toBeUndefined();
+    expect(fs.existsSync(path.join(cacheDir, "key.json"))).toBe(false);
+  });
+
+  it("should treat corrupted entries as misses", () => {
+    const cache = new ResponseCache(cacheDir, 60);
+    fs.writeFileSync(path.join(cacheDir, "bad.json"), "{not json");
+
+    expect(cache.get("bad")).toBeUndefined();
+  });
+
+  it("should clear all entries", () => {
+    const cache = new ResponseCache(cacheDir, 60);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.clear();
+
+    expect(fs.readdirSync(cacheDir)).toHaveLength(0);
+  });
+});
+
+describe("PageSpeedClient cache", () => {
+  it("should not cache by default", async () => {
+    const client = new PageSpeedClient();
+    await client.analyze({ url: "https://example.com" });
+    await client.analyze({ url: "https://example.com" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should serve repeated requests from the cache", async () => {
+    const client = new PageSpeedClient(undefined, undefined, {
+      cache: { enabled: true, ttl: 60, directory: cacheDir },
+    });
+
+    const first = await client.analyze({ url: "https://example.com" });
+    const second = await client.analyze({ url: "https://example.com" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(second.scores).toEqual(first.scores);
+    expect(second.rawResponse).toEqual(mockPageSpeedResponse);
+  });
+
+  it("should share cached responses across client instances", async () => {
+    const options = { cache: { enabled: true, ttl: 60, directory: cacheDir } };
+
+    await new PageSpeedClient("key-a", undefined, options).analyze({
+      url: "https://example.com",
+    });
+    await new PageSpeedClient("key-b", undefined, options).analyze({
+      url: "https://example.com",
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip the cache in bypass mode", async () => {
+    const client = new PageSpeedClient(undefined, undefined, {
+      cache: { enabled: true, ttl: 60, directory: cacheDir },
+    });
+
+    await client.analyze({ url: "https://example.com", cacheMode: "bypass" });
+    await client.analyze({ url: "https://example.com" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refetch and store in refresh mode", async () => {
+    const client = new PageSpeedClient(undefined, undefined, {
+      cache: { enabled: true, ttl: 60, directory: cacheDir },
+    });
+
+    await client.analyze({ url: "https://example.com" });
+    await client.analyze({ url: "https://example.com", cacheMode: "refresh" });
+    await client.analyze({ url: "https://example.com" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should clear cached responses", async () => {
+    const client = new PageSpeedClient(undefined, undefined, {
+      cache: { enabled: true, ttl: 60, directory: cacheDir },
+    });
+
+    await client.analyze({ url: "https://example.com" });
+    client.clearCache();
+    await client.analyze({ url: "https://example.com" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Tests for typed PageSpeed errors
+ */
+
+import {
+  DocumentRequestError,
+  ERROR_EXIT_CODES,
+  InvalidApiKeyError,
+  MalformedResponseError,
+  PageSpeedApiError,
+  PageSpeedClient,
+  PageSpeedError,
+  QuotaExceededError,
+  TimeoutError,
+  createApiError,
+  isRetryableError,
+} from "../src/pagespeed";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const clientOptions = {
+  retry: { maxAttempts: 1 },
+  rateLimit: { enabled: false },
+};
+
+function googleError(
+  code: number,
+  message: string,
+  status: string,
+  reason?: string,
+): string {
+  return JSON.stringify({
+    error: {
+      code,
+      message,
+      status,
+      errors: [{ domain: "global", reason: reason ?? "badRequest", message }],
+      ...(reason && {
+        details: [
+          { "@type": "type.googleapis.com/google.rpc.ErrorInfo", reason },
+        ],
+      }),
+    },
+  });
+}
+
+function errorResponse(status: number, statusText: string, body: string) {
+  return {
+    ok: false,
+    status,
+    statusText,
+    text: () => Promise.resolve(body),
+    headers: { get: () => null },
+  };
+}
+
+describe("createApiError", () => {
+  it("should classify 429 responses as quota errors", () => {
+    const error = createApiError(
+      429,
+      "Too Many Requests",
+      googleError(
+        429,
+        "Quota exceeded",
+        "RESOURCE_EXHAUSTED",
+        "RATE_LIMIT_EXCEEDED",
+      ),
+    );
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toBeInstanceOf(PageSpeedApiError);
+    expect(error.reason).toBe("RATE_LIMIT_EXCEEDED");
+    expect(error.apiMessage).toBe("Quota exceeded");
+  });
+
+  it("should classify invalid API keys", () => {
+    const error = createApiError(
+      400,
+      "Bad Request",
+      googleError(
+        400,
+        "API key not valid. Please pass a valid API key.",
+        "INVALID_ARGUMENT",
+        "API_KEY_INVALID",
+      ),
+    );
+
+    expect(error).toBeInstanceOf(InvalidApiKeyError);
+    expect(error.code).toBe("INVALID_API_KEY");
+    expect(error.message).toContain("API key not valid");
+  });
+
+  it("should classify Lighthouse document failures", () => {
+    const error = createApiError(
+      500,
+      "Internal Server Error",
+      googleError(
+        500,
+        "Lighthouse returned error: FAILED_DOCUMENT_REQUEST. Lighthouse was unable to reliably load the page you requested.",
+        "INTERNAL",
+      ),
+    );
+
+    expect(error).toBeInstanceOf(DocumentRequestError);
+    expect(error.runtimeErrorCode).toBe("FAILED_DOCUMENT_REQUEST");
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it("should fall back to a generic API error", () => {
+    const error = createApiError(503, "Service Unavailable", "not json");
+
+    expect(error.constructor).toBe(PageSpeedApiError);
+    expect(error.code).toBe("API_ERROR");
+    expect(error.message).toBe("PageSpeed API error: 503 Service Unavailable");
+  });
+});
+
+describe("PageSpeedError serialization", () => {
+  it("should map codes to stable exit codes", () => {
+    expect(new PageSpeedError("boom").exitCode).toBe(ERROR_EXIT_CODES.UNKNOWN);
+    expect(new QuotaExceededError(429, "Too Many Requests").exitCode).toBe(3);
+    expect(new InvalidApiKeyError(400, "Bad Request").exitCode).toBe(4);
+    expect(new DocumentRequestError(500, "Internal").exitCode).toBe(5);
+    expect(new TimeoutError(1000).exitCode).toBe(6);
+    expect(new MalformedResponseError("bad").exitCode).toBe(7);
+  });
+
+  it("should serialize to a JSON error object", () => {
+    const error = createApiError(
+      500,
+      "Internal Server Error",
+      googleError(500, "Lighthouse returned error: NO_FCP.", "INTERNAL"),
+    );
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: "DocumentRequestError",
+      code: "DOCUMENT_REQUEST_FAILED",
+      message:
+        "PageSpeed API error: 500 Internal Server Error - Lighthouse returned error: NO_FCP.",
+      exitCode: 5,
+      status: 500,
+      apiMessage: "Lighthouse returned error: NO_FCP.",
+      reason: "badRequest",
+      runtimeErrorCode: "NO_FCP",
+      attempts: [],
+    });
+  });
+});
+
+describe("PageSpeedClient typed errors", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should throw typed errors parsed from the error body", async () => {
+    mockFetch.mockResolvedValueOnce(
+      errorResponse(
+        400,
+        "Bad Request",
+        googleError(
+          400,
+          "API key not valid.",
+          "INVALID_ARGUMENT",
+          "API_KEY_INVALID",
+        ),
+      ),
+    );
+
+    const client = new PageSpeedClient("bad-key", 1000, clientOptions);
+
+    await expect(
+      client.analyze({ url: "https://example.com" }),
+    ).rejects.toBeInstanceOf(InvalidApiKeyError);
+  });
+
+  it("should throw TimeoutError when the request times out", async () => {
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(
+              new DOMException("This operation was aborted", "AbortError"),
+            ),
+          );
+        }),
+    );
+
+    const client = new PageSpeedClient(undefined, 10, clientOptions);
+    const error = await client
+      .analyze({ url: "https://example.com" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(10);
+    expect(error.attempts).toHaveLength(1);
+  });
+
+  it("should time out while the response body is being read", async () => {
+    mockFetch.mockImplementationOnce((_url: string, init: RequestInit) =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: () =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(
+                new DOMException("This operation was aborted", "AbortError"),
+              ),
+            );
+          }),
+      }),
+    );
+
+    const client = new PageSpeedClient(undefined, 10, clientOptions);
+    const error = await client
+      .analyze({ url: "https://example.com" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(10);
+  });
+
+  it("should throw MalformedResponseError for invalid JSON", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.reject(new SyntaxError("Unexpected token")),
+    });
+
+    const client = new PageSpeedClient(undefined, 1000, clientOptions);
+
+    await expect(
+      client.analyze({ url: "https://example.com" }),
+    ).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+
+  it("should throw MalformedResponseError without a lighthouseResult", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ id: "https://example.com/" }),
+    });
+
+    const client = new PageSpeedClient(undefined, 1000, clientOptions);
+
+    await expect(
+      client.analyze({ url: "https://example.com" }),
+    ).rejects.toThrow("missing lighthouseResult");
+  });
+
+  it("should throw DocumentRequestError for runtime errors in 200 responses", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      json: () =>
+        Promise.resolve({
+          lighthouseResult: {
+            audits: {},
+            runtimeError: {
+              code: "NO_FCP",
+              message: "The page did not paint any content.",
+            },
+          },
+        }),
+    });
+
+    const client = new PageSpeedClient(undefined, 1000, clientOptions);
+    const error = await client
+      .analyze({ url: "https://example.com" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DocumentRequestError);
+    expect(error.runtimeErrorCode).toBe("NO_FCP");
+  });
+});
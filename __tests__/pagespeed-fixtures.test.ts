@@ -0,0 +1,151 @@
+/**
+ * Tests for PageSpeed record/replay fixtures
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FixtureNotFoundError,
+  FixtureStore,
+  PageSpeedClient,
+  createRequestKey,
+} from "../src/pagespeed";
+import type { PageSpeedResponse } from "../src/types";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockPageSpeedResponse = {
+  id: "https://example.com/",
+  loadingExperience: {
+    initial_url: "https://example.com/",
+    overall_category: "AVERAGE",
+    metrics: {},
+  },
+  lighthouseResult: {
+    lighthouseVersion: "11.0.0",
+    requestedUrl: "https://example.com/",
+    finalUrl: "https://example.com/",
+    fetchTime: "2026-01-30T10:00:00.000Z",
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.85 },
+    },
+    audits: {},
+  },
+  analysisUTCTimestamp: "2026-01-30T10:00:00.000Z",
+} as unknown as PageSpeedResponse;
+
+const request = {
+  url: "https://example.com",
+  strategy: "mobile" as const,
+  categories: ["performance" as const],
+};
+
+let fixturesDir: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve(mockPageSpeedResponse),
+  });
+  fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-fixtures-"));
+});
+
+afterEach(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+describe("FixtureStore", () => {
+  it("should save and load responses by request key", () => {
+    const store = new FixtureStore(fixturesDir);
+    const key = createRequestKey(request);
+
+    expect(store.has(key)).toBe(false);
+    store.save(key, mockPageSpeedResponse, request);
+
+    expect(store.has(key)).toBe(true);
+    expect(store.load(key)).toEqual(mockPageSpeedResponse);
+  });
+
+  it("should write readable fixture files with the request", () => {
+    const store = new FixtureStore(fixturesDir);
+    const key = createRequestKey(request);
+    store.save(key, mockPageSpeedResponse, request);
+
+    const content = fs.readFileSync(
+      path.join(fixturesDir, `${key}.json`),
+      "utf-8",
+    );
+    const fixture = JSON.parse(content);
+
+    expect(content).toContain("\n  ");
+    expect(fixture.key).toBe(key);
+    expect(fixture.request).toEqual(request);
+    expect(fixture.recordedAt).toBeDefined();
+  });
+
+  it("should throw FixtureNotFoundError for missing fixtures", () => {
+    const store = new FixtureStore(fixturesDir);
+
+    expect(() => store.load("missing")).toThrow(FixtureNotFoundError);
+  });
+});
+
+describe("PageSpeedClient fixtures", () => {
+  it("should record responses in record mode", async () => {
+    const client = new PageSpeedClient(undefined, 1000, {
+      fixtures: { mode: "record", directory: fixturesDir },
+    });
+
+    await client.analyze({ url: request.url, categories: request.categories });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(new FixtureStore(fixturesDir).has(createRequestKey(request))).toBe(
+      true,
+    );
+  });
+
+  it("should replay recorded responses without the network", async () => {
+    new FixtureStore(fixturesDir).save(
+      createRequestKey(request),
+      mockPageSpeedResponse,
+      request,
+    );
+
+    const client = new PageSpeedClient(undefined, 1000, {
+      fixtures: { mode: "replay", directory: fixturesDir },
+    });
+    const result = await client.analyze({
+      url: request.url,
+      categories: request.categories,
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result.scores.performance).toBe(85);
+  });
+
+  it("should fail in replay mode when no fixture was recorded", async () => {
+    const client = new PageSpeedClient(undefined, 1000, {
+      fixtures: { mode: "replay", directory: fixturesDir },
+    });
+
+    await expect(
+      client.analyze({ url: "https://example.com/other" }),
+    ).rejects.toThrow(FixtureNotFoundError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should ignore fixtures in passthrough mode", async () => {
+    const client = new PageSpeedClient(undefined, 1000, {
+      fixtures: { mode: "passthrough", directory: fixturesDir },
+    });
+
+    await client.analyze({ url: request.url, categories: request.categories });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(fs.readdirSync(fixturesDir)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for PageSpeed rate limiter
+ */
+
+import { PageSpeedClient, RateLimiter } from "../src/pagespeed";
+import type { QueueEvent } from "../src/types";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockPageSpeedResponse = {
+  id: "https://example.com/",
+  loadingExperience: {
+    initial_url: "https://example.com/",
+    overall_category: "AVERAGE",
+    metrics: {},
+  },
+  lighthouseResult: {
+    lighthouseVersion: "11.0.0",
+    requestedUrl: "https://example.com/",
+    finalUrl: "https://example.com/",
+    fetchTime: "2026-01-30T10:00:00.000Z",
+    categories: {},
+    audits: {},
+  },
+  analysisUTCTimestamp: "2026-01-30T10:00:00.000Z",
+};
+
+/**
+ * Flushes pending promise callbacks
+ */
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should run tasks immediately while tokens are available", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 60,
+      maxConcurrent: 5,
+      burst: 3,
+    });
+    const task = jest.fn().mockResolvedValue("ok");
+
+    await Promise.all([
+      limiter.schedule(task),
+      limiter.schedule(task),
+      limiter.schedule(task),
+    ]);
+
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("should wait for tokens once the burst is spent", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 60,
+      maxConcurrent: 5,
+      burst: 1,
+    });
+    const task = jest.fn().mockResolvedValue("ok");
+
+    limiter.schedule(task);
+    const second = limiter.schedule(task);
+    await flushPromises();
+    expect(task).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await second;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should bound the number of concurrent tasks", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 6000,
+      maxConcurrent: 2,
+      burst: 10,
+    });
+    const resolvers: Array<() => void> = [];
+    const task = jest.fn(
+      () => new Promise<void>((resolve) => resolvers.push(resolve))
+    );
+
+    const all = Promise.all([
+      limiter.schedule(task),
+      limiter.schedule(task),
+      limiter.schedule(task),
+    ]);
+    await flushPromises();
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(limiter.getStats()).toMatchObject({ queueDepth: 1, active: 2 });
+
+    resolvers[0]();
+    await flushPromises();
+    expect(task).toHaveBeenCalledTimes(3);
+
+    resolvers[1]();
+    resolvers[2]();
+    await all;
+  });
+
+  it("should propagate task errors and keep draining", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 60,
+      maxConcurrent: 1,
+      burst: 2,
+    });
+
+    await expect(
+      limiter.schedule(() => Promise.reject(new Error("boom")))
+    ).rejects.toThrow("boom");
+    await expect(limiter.schedule(() => Promise.resolve(1))).resolves.toBe(1);
+  });
+
+  it("should drop queued tasks when their signal is aborted", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 60,
+      maxConcurrent: 1,
+      burst: 1,
+    });
+    const controller = new AbortController();
+    const task = jest.fn(() => Promise.resolve("done"));
+
+    const first = limiter.schedule(() => new Promise<void>(() => {}));
+    const second = limiter.schedule(task, controller.signal);
+    await flushPromises();
+    expect(limiter.getStats().queueDepth).toBe(1);
+
+    controller.abort();
+
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    expect(limiter.getStats().queueDepth).toBe(0);
+    expect(task).not.toHaveBeenCalled();
+    void first;
+  });
+
+  it("should emit queue events with depth and wait times", async () => {
+    const events: QueueEvent[] = [];
+    const limiter = new RateLimiter({
+      requestsPerMinute: 60,
+      maxConcurrent: 5,
+      burst: 1,
+      onEvent: (event) => events.push(event),
+    });
+
+    limiter.schedule(() => Promise.resolve());
+    const second = limiter.schedule(() => Promise.resolve());
+    await flushPromises();
+
+    expect(events.map((e) => e.type)).toEqual([
+      "queued",
+      "started",
+      "queued",
+      "waiting",
+      "completed",
+    ]);
+    expect(events[3]).toMatchObject({ queueDepth: 1, waitMs: 1000 });
+
+    jest.advanceTimersByTime(1000);
+    await second;
+
+    const started = events.filter((e) => e.type === "started");
+    expect(started[1].waitMs).toBeGreaterThanOrEqual(1000);
+  });
+});
+
+describe("PageSpeedClient rate limiting", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(mockPageSpeedResponse),
+    });
+  });
+
+  it("should use the unkeyed profile without an API key", () => {
+    const client = new PageSpeedClient();
+    expect(client.getQueueStats()).toEqual({
+      queueDepth: 0,
+      active: 0,
+      tokens: 2,
+    });
+  });
+
+  it("should use the keyed profile with an API key", () => {
+    const client = new PageSpeedClient("key");
+    expect(client.getQueueStats()?.tokens).toBe(10);
+  });
+
+  it("should allow overriding the profile settings", () => {
+    const client = new PageSpeedClient("key", undefined, {
+      rateLimit: { burst: 1 },
+    });
+    expect(client.getQueueStats()?.tokens).toBe(1);
+  });
+
+  it("should disable rate limiting when requested", () => {
+    const client = new PageSpeedClient(undefined, undefined, {
+      rateLimit: { enabled: false },
+    });
+    expect(client.getQueueStats()).toBeUndefined();
+  });
+
+  it("should report queue events for requests", async () => {
+    const onQueueEvent = jest.fn();
+    const client = new PageSpeedClient("key", undefined, { onQueueEvent });
+
+    await client.analyze({ url: "https://example.com" });
+
+    expect(onQueueEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "queued" })
+    );
+    expect(onQueueEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "completed", active: 0 })
+    );
+  });
+});
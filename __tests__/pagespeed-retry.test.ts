@@ -0,0 +1,268 @@
+/**
+ * Tests for PageSpeed retry handling
+ */
+
+import {
+  PageSpeedApiError,
+  PageSpeedClient,
+  PageSpeedError,
+  getBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+} from "../src/pagespeed";
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const mockPageSpeedResponse = {
+  id: "https://example.com/",
+  loadingExperience: {
+    initial_url: "https://example.com/",
+    overall_category: "AVERAGE",
+    metrics: {},
+  },
+  lighthouseResult: {
+    lighthouseVersion: "11.0.0",
+    requestedUrl: "https://example.com/",
+    finalUrl: "https://example.com/",
+    fetchTime: "2026-01-30T10:00:00.000Z",
+    categories: {
+      performance: { id: "performance", title: "Performance", score: 0.85 },
+    },
+    audits: {},
+  },
+  analysisUTCTimestamp: "2026-01-30T10:00:00.000Z",
+};
+
+const okResponse = {
+  ok: true,
+  json: () => Promise.resolve(mockPageSpeedResponse),
+};
+
+function errorResponse(status: number, statusText: string, retryAfter?: string) {
+  return {
+    ok: false,
+    status,
+    statusText,
+    headers: {
+      get: (name: string) =>
+        name.toLowerCase() === "retry-after" ? (retryAfter ?? null) : null,
+    },
+  };
+}
+
+const fastRetry = { maxAttempts: 3, initialDelay: 0, backoffMultiplier: 2 };
+const clientOptions = { retry: fastRetry, rateLimit: { enabled: false } };
+
+describe("isRetryableError", () => {
+  it("should retry 429 and 5xx responses", () => {
+    expect(isRetryableError(new PageSpeedApiError(429, "Too Many Requests"))).toBe(true);
+    expect(isRetryableError(new PageSpeedApiError(500, "Internal Server Error"))).toBe(true);
+    expect(isRetryableError(new PageSpeedApiError(503, "Service Unavailable"))).toBe(true);
+  });
+
+  it("should not retry client errors", () => {
+    expect(isRetryableError(new PageSpeedApiError(400, "Bad Request"))).toBe(false);
+    expect(isRetryableError(new PageSpeedApiError(403, "Forbidden"))).toBe(false);
+  });
+
+  it("should retry timeouts and network resets", () => {
+    const abort = new Error("This operation was aborted");
+    abort.name = "AbortError";
+    const reset = Object.assign(new TypeError("fetch failed"), {
+      cause: { code: "ECONNRESET" },
+    });
+
+    expect(isRetryableError(abort)).toBe(true);
+    expect(isRetryableError(reset)).toBe(true);
+  });
+
+  it("should not retry unknown errors", () => {
+    expect(isRetryableError(new Error("boom"))).toBe(false);
+    expect(isRetryableError("boom")).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds", () => {
+    expect(parseRetryAfter("5")).toBe(5000);
+  });
+
+  it("should parse HTTP dates relative to now", () => {
+    const now = Date.parse("2026-01-30T10:00:00.000Z");
+    expect(parseRetryAfter("Fri, 30 Jan 2026 10:00:10 GMT", now)).toBe(10000);
+  });
+
+  it("should return undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  it("should grow exponentially", () => {
+    const config = { maxAttempts: 5, initialDelay: 1000, backoffMultiplier: 2 };
+    expect(getBackoffDelay(1, config)).toBe(1000);
+    expect(getBackoffDelay(2, config)).toBe(2000);
+    expect(getBackoffDelay(3, config)).toBe(4000);
+  });
+
+  it("should respect maxDelay", () => {
+    const config = {
+      maxAttempts: 5,
+      initialDelay: 1000,
+      backoffMultiplier: 10,
+      maxDelay: 5000,
+    };
+    expect(getBackoffDelay(3, config)).toBe(5000);
+  });
+});
+
+describe("withRetry", () => {
+  it("should return the first successful result", async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PageSpeedApiError(503, "Service Unavailable"))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(operation, fastRetry)).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("should attach attempt history when all attempts fail", async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValue(new PageSpeedApiError(500, "Internal Server Error"));
+
+    const error = await withRetry(operation, fastRetry).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PageSpeedApiError);
+    expect(error.attempts).toHaveLength(3);
+    expect(error.attempts[0]).toMatchObject({
+      attempt: 1,
+      status: 500,
+      retryable: true,
+      delayMs: 0,
+    });
+    expect(error.attempts[2].delayMs).toBeUndefined();
+  });
+
+  it("should not retry non-transient errors", async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValue(new PageSpeedApiError(400, "Bad Request"));
+
+    const error = await withRetry(operation, fastRetry).catch((e) => e);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(error.attempts).toHaveLength(1);
+    expect(error.attempts[0].retryable).toBe(false);
+  });
+
+  it("should wrap non-toolkit errors", async () => {
+    const reset = Object.assign(new TypeError("fetch failed"), {
+      cause: { code: "ECONNRESET" },
+    });
+    const operation = jest.fn().mockRejectedValue(reset);
+
+    const error = await withRetry(operation, fastRetry).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PageSpeedError);
+    expect(error.message).toBe("fetch failed");
+    expect(error.cause).toBe(reset);
+    expect(error.attempts).toHaveLength(3);
+  });
+
+  it("should honor Retry-After over the computed backoff", async () => {
+    const onRetry = jest.fn();
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(new PageSpeedApiError(429, "Too Many Requests", 10))
+      .mockResolvedValueOnce("ok");
+
+    await withRetry(
+      operation,
+      { maxAttempts: 2, initialDelay: 5000, backoffMultiplier: 2 },
+      { onRetry },
+    );
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 10 }));
+  });
+
+  it("should stop retrying once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new PageSpeedApiError(503, "Service Unavailable");
+    });
+
+    const error = await withRetry(operation, fastRetry, {
+      signal: controller.signal,
+    }).catch((e) => e);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(error.attempts[0].retryable).toBe(false);
+  });
+
+  it("should abort while waiting for the next attempt", async () => {
+    const controller = new AbortController();
+    const operation = jest
+      .fn()
+      .mockRejectedValue(new PageSpeedApiError(503, "Service Unavailable"));
+
+    const pending = withRetry(
+      operation,
+      { maxAttempts: 3, initialDelay: 60000, backoffMultiplier: 2 },
+      { signal: controller.signal, onRetry: () => controller.abort() },
+    );
+
+    const error = await pending.catch((e) => e);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(PageSpeedError);
+    expect(error.attempts).toHaveLength(1);
+  });
+});
+
+describe("PageSpeedClient retry", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should retry 429 responses and succeed", async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, "Too Many Requests", "0"))
+      .mockResolvedValueOnce(okResponse);
+
+    const client = new PageSpeedClient(undefined, undefined, clientOptions);
+    const result = await client.analyze({ url: "https://example.com" });
+
+    expect(result.scores.performance).toBe(85);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw with attempt history after exhausting retries", async () => {
+    mockFetch.mockResolvedValue(errorResponse(500, "Internal Server Error"));
+
+    const client = new PageSpeedClient(undefined, undefined, clientOptions);
+    const error = await client
+      .analyze({ url: "https://example.com" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(PageSpeedApiError);
+    expect(error.message).toBe("PageSpeed API error: 500 Internal Server Error");
+    expect(error.attempts).toHaveLength(3);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should allow per-request retry overrides", async () => {
+    mockFetch.mockResolvedValue(errorResponse(503, "Service Unavailable"));
+
+    const client = new PageSpeedClient(undefined, undefined, clientOptions);
+    await expect(
+      client.analyze({ url: "https://example.com", retry: { maxAttempts: 1 } })
+    ).rejects.toThrow("PageSpeed API error: 503 Service Unavailable");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
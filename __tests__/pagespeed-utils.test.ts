@@ -8,6 +8,7 @@ import {
   categorizeThirdParty,
   isFirstParty,
   getHostDomain,
+  normalizeUrl,
 } from "../src/pagespeed/utils";
 
 describe("formatCacheTTL", () => {
@@ -143,3 +144,20 @@ describe("getHostDomain", () => {
     expect(getHostDomain("")).toBe("");
   });
 });
+
+describe("normalizeUrl", () => {
+  it("should lowercase the host and add a slash to a bare origin", () => {
+    expect(normalizeUrl("https://EXAMPLE.com")).toBe("https://example.com/");
+    expect(normalizeUrl("https://example.com/")).toBe("https://example.com/");
+  });
+
+  it("should strip a trailing slash from non-root paths", () => {
+    expect(normalizeUrl("https://example.com/page/")).toBe("https://example.com/page");
+    expect(normalizeUrl("https://example.com/page/?q=1")).toBe("https://example.com/page?q=1");
+    expect(normalizeUrl("https://example.com/page")).toBe("https://example.com/page");
+  });
+
+  it("should return invalid URLs unchanged", () => {
+    expect(normalizeUrl("not-a-url")).toBe("not-a-url");
+  });
+});
@@ -2,7 +2,18 @@
  * Tests for PageSpeed Client
  */
 
-import { PageSpeedClient } from "../src/pagespeed";
+import {
+  PageSpeedClient,
+  extractFieldData,
+  extractRunWarnings,
+  getFailingWarnings,
+  parseWarningTypes,
+} from "../src/pagespeed";
+import type {
+  CrUXMetric,
+  LighthouseResult,
+  LoadingExperience,
+} from "../src/types";
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -157,6 +168,57 @@ describe("PageSpeedClient", () => {
       );
     });
 
+    it("should include locale, utm params and captcha token", async () => {
+      const client = new PageSpeedClient();
+      await client.analyze({
+        url: "https://example.com",
+        locale: "es",
+        utmCampaign: "perf",
+        utmSource: "ci",
+        captchaToken: "token",
+      });
+
+      const requestUrl = new URL(mockFetch.mock.calls[0][0]);
+      expect(requestUrl.searchParams.get("locale")).toBe("es");
+      expect(requestUrl.searchParams.get("utm_campaign")).toBe("perf");
+      expect(requestUrl.searchParams.get("utm_source")).toBe("ci");
+      expect(requestUrl.searchParams.get("captchaToken")).toBe("token");
+    });
+
+    it("should not send a request when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const client = new PageSpeedClient();
+      await expect(
+        client.analyze({ url: "https://example.com", signal: controller.signal })
+      ).rejects.toThrow();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should pass the caller signal through to fetch", async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(init.signal?.reason)
+            );
+          })
+      );
+
+      const client = new PageSpeedClient();
+      const pending = client.analyze({
+        url: "https://example.com",
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
     it("should throw error on API failure", async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -165,9 +227,9 @@ describe("PageSpeedClient", () => {
       });
 
       const client = new PageSpeedClient();
-      await expect(client.analyze({ url: "https://example.com" })).rejects.toThrow(
-        "PageSpeed API error: 500 Internal Server Error"
-      );
+      await expect(
+        client.analyze({ url: "https://example.com", retry: { maxAttempts: 1 } })
+      ).rejects.toThrow("PageSpeed API error: 500 Internal Server Error");
     });
   });
 
@@ -181,6 +243,47 @@ describe("PageSpeedClient", () => {
       expect(mockFetch).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("transport", () => {
+    it("should use a custom fetch implementation", async () => {
+      const customFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(mockPageSpeedResponse),
+      });
+
+      const client = new PageSpeedClient(undefined, 1000, {
+        transport: { fetch: customFetch },
+      });
+      await client.analyze({ url: "https://example.com" });
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should send requests to the base URL override", async () => {
+      const client = new PageSpeedClient(undefined, 1000, {
+        transport: { baseUrl: "http://localhost:4000/runPagespeed" },
+      });
+      await client.analyze({ url: "https://example.com" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringMatching(/^http:\/\/localhost:4000\/runPagespeed\?url=/),
+        expect.any(Object)
+      );
+    });
+
+    it("should send extra headers with every request", async () => {
+      const client = new PageSpeedClient(undefined, 1000, {
+        transport: { headers: { "X-Proxy-Auth": "secret" } },
+      });
+      await client.analyze({ url: "https://example.com" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { "X-Proxy-Auth": "secret" } })
+      );
+    });
+  });
 });
 
 describe("Metric rating extraction", () => {
@@ -233,3 +336,208 @@ describe("Metric rating extraction", () => {
     expect(result.metrics.lcp.rating).toBe("poor");
   });
 });
+
+describe("Run warnings extraction", () => {
+  const lighthouseResult = {
+    audits: {},
+    runtimeError: {
+      code: "PROTOCOL_TIMEOUT",
+      message: "Waiting for DevTools protocol response has exceeded the allotted time.",
+    },
+    runWarnings: [
+      "The page may not be loading as expected because your test URL (https://example.com/) was redirected to https://www.example.com/. Try testing the second URL directly.",
+      "The tested device appears to have a slower CPU than Lighthouse expects.",
+      "Something unexpected happened.",
+    ],
+  } as unknown as LighthouseResult;
+
+  it("should categorize the runtime error and run warnings", () => {
+    const warnings = extractRunWarnings(lighthouseResult);
+
+    expect(warnings.map((w) => w.type)).toEqual([
+      "runtime-error",
+      "redirect",
+      "throttling",
+      "other",
+    ]);
+    expect(warnings[0]).toMatchObject({
+      source: "runtimeError",
+      code: "PROTOCOL_TIMEOUT",
+    });
+    expect(warnings[1].source).toBe("runWarnings");
+  });
+
+  it("should return no warnings for a clean run", () => {
+    expect(
+      extractRunWarnings({ audits: {} } as unknown as LighthouseResult)
+    ).toEqual([]);
+  });
+
+  it("should select failing warnings by type", () => {
+    const warnings = extractRunWarnings(lighthouseResult);
+
+    expect(getFailingWarnings(warnings)).toEqual([]);
+    expect(getFailingWarnings(warnings, true)).toHaveLength(4);
+    expect(
+      getFailingWarnings(warnings, ["redirect"]).map((w) => w.type)
+    ).toEqual(["redirect"]);
+  });
+
+  it("should parse warning types and reject unknown ones", () => {
+    expect(parseWarningTypes("redirect,runtime-error")).toEqual([
+      "redirect",
+      "runtime-error",
+    ]);
+    expect(() => parseWarningTypes("redirect,redirct")).toThrow(
+      'Unknown warning type "redirct", did you mean "redirect"?'
+    );
+    expect(() => parseWarningTypes("cpu")).toThrow(
+      'Unknown warning type "cpu", expected one of runtime-error, redirect, throttling, timeout, storage, other'
+    );
+  });
+
+  it("should mark results with warnings as unreliable", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          ...mockPageSpeedResponse,
+          lighthouseResult: {
+            ...mockPageSpeedResponse.lighthouseResult,
+            runWarnings: [
+              "The page loaded too slowly to finish within the time limit.",
+            ],
+          },
+        }),
+    });
+
+    const client = new PageSpeedClient();
+    const result = await client.analyze({ url: "https://example.com" });
+
+    expect(result.reliable).toBe(false);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ type: "timeout", source: "runWarnings" }),
+    ]);
+  });
+
+  it("should mark clean results as reliable", async () => {
+    const client = new PageSpeedClient();
+    const result = await client.analyze({ url: "https://example.com" });
+
+    expect(result.reliable).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe("Field data extraction", () => {
+  const cruxMetric = (
+    percentile: number,
+    category: CrUXMetric["category"],
+    proportions = [0.8, 0.15, 0.05]
+  ): CrUXMetric => ({
+    percentile,
+    category,
+    distributions: [
+      { min: 0, max: 100, proportion: proportions[0] },
+      { min: 100, max: 200, proportion: proportions[1] },
+      { min: 200, proportion: proportions[2] },
+    ],
+  });
+
+  const urlExperience: LoadingExperience = {
+    id: "https://example.com/",
+    initial_url: "https://example.com/",
+    overall_category: "AVERAGE",
+    metrics: {
+      LARGEST_CONTENTFUL_PAINT_MS: cruxMetric(2100, "FAST"),
+      INTERACTION_TO_NEXT_PAINT: cruxMetric(320, "AVERAGE"),
+      CUMULATIVE_LAYOUT_SHIFT_SCORE: cruxMetric(12, "AVERAGE"),
+      FIRST_CONTENTFUL_PAINT_MS: cruxMetric(1500, "FAST"),
+      EXPERIMENTAL_TIME_TO_FIRST_BYTE: cruxMetric(1900, "SLOW"),
+    },
+  };
+
+  const originExperience: LoadingExperience = {
+    id: "https://example.com",
+    initial_url: "https://example.com/",
+    overall_category: "FAST",
+    metrics: {
+      LARGEST_CONTENTFUL_PAINT_MS: cruxMetric(1800, "FAST"),
+    },
+  };
+
+  it("should extract typed URL-level field metrics", () => {
+    const fieldData = extractFieldData({
+      loadingExperience: urlExperience,
+      originLoadingExperience: originExperience,
+    });
+
+    expect(fieldData?.source).toBe("url");
+    expect(fieldData?.id).toBe("https://example.com/");
+    expect(fieldData?.overallCategory).toBe("needs-improvement");
+    expect(fieldData?.metrics.lcp).toEqual({
+      p75: 2100,
+      distribution: { good: 0.8, needsImprovement: 0.15, poor: 0.05 },
+      category: "good",
+    });
+    expect(fieldData?.metrics.inp?.category).toBe("needs-improvement");
+    expect(fieldData?.metrics.ttfb?.category).toBe("poor");
+  });
+
+  it("should convert the CrUX CLS percentile to a layout shift score", () => {
+    const fieldData = extractFieldData({ loadingExperience: urlExperience });
+
+    expect(fieldData?.metrics.cls?.p75).toBe(0.12);
+  });
+
+  it("should fall back to origin data when the URL has none", () => {
+    const fieldData = extractFieldData({
+      loadingExperience: { ...urlExperience, metrics: {} },
+      originLoadingExperience: originExperience,
+    });
+
+    expect(fieldData?.source).toBe("origin");
+    expect(fieldData?.id).toBe("https://example.com");
+    expect(Object.keys(fieldData?.metrics ?? {})).toEqual(["lcp"]);
+  });
+
+  it("should treat flagged origin fallbacks as origin data", () => {
+    const fieldData = extractFieldData({
+      loadingExperience: { ...originExperience, origin_fallback: true },
+    });
+
+    expect(fieldData?.source).toBe("origin");
+  });
+
+  it("should return undefined without any field data", () => {
+    expect(
+      extractFieldData({
+        loadingExperience: { ...urlExperience, metrics: {} },
+      })
+    ).toBeUndefined();
+  });
+
+  it("should add field metrics to analysis results", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          ...mockPageSpeedResponse,
+          loadingExperience: urlExperience,
+        }),
+    });
+
+    const client = new PageSpeedClient();
+    const result = await client.analyze({ url: "https://example.com" });
+
+    expect(result.fieldMetrics?.metrics.inp?.p75).toBe(320);
+    expect(result.fieldData).toEqual(urlExperience);
+  });
+
+  it("should omit field metrics when CrUX has no data", async () => {
+    const client = new PageSpeedClient();
+    const result = await client.analyze({ url: "https://example.com" });
+
+    expect(result.fieldMetrics).toBeUndefined();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Tests for analysis providers
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LocalLighthouseRunner } from "../src/lighthouse/local";
+import { PageSpeedClient } from "../src/pagespeed";
+import {
+  FileProvider,
+  LocalProvider,
+  PSIProvider,
+  analyzeUrl,
+  getProvider,
+  listProviders,
+  registerProvider,
+  unregisterProvider,
+} from "../src/providers";
+import { generateReportForUrl } from "../src/report";
+import type {
+  AnalysisProvider,
+  LighthouseResult,
+  PerformanceResult,
+} from "../src/types";
+
+function createResult(url: string): PerformanceResult {
+  const metric = {
+    value: 1000,
+    displayValue: "1.0 s",
+    rating: "good" as const,
+  };
+  return {
+    url,
+    strategy: "mobile",
+    timestamp: "2026-10-18T10:00:00.000Z",
+    scores: {
+      performance: 95,
+      accessibility: 100,
+      bestPractices: 100,
+      seo: 100,
+    },
+    metrics: {
+      lcp: metric,
+      fcp: metric,
+      cls: { value: 0.01, displayValue: "0.01", rating: "good" },
+      tbt: metric,
+      si: metric,
+      tti: metric,
+    },
+    opportunities: [],
+    diagnostics: [],
+  };
+}
+
+function createStubProvider(name = "stub"): AnalysisProvider & {
+  analyze: jest.Mock;
+} {
+  return {
+    name,
+    analyze: jest.fn(async (url: string) => createResult(url)),
+  };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  unregisterProvider("stub");
+});
+
+describe("provider registry", () => {
+  it("should ship the psi, local and file providers", () => {
+    expect(listProviders()).toEqual(["psi", "local", "file"]);
+    expect(getProvider("psi")).toBeInstanceOf(PSIProvider);
+    expect(getProvider("local")).toBeInstanceOf(LocalProvider);
+    expect(getProvider("file", { path: "report.json" })).toBeInstanceOf(
+      FileProvider,
+    );
+  });
+
+  it("should register third-party providers", () => {
+    const factory = jest.fn(() => createStubProvider());
+    registerProvider("stub", factory);
+
+    const provider = getProvider("stub", { region: "eu" });
+
+    expect(provider.name).toBe("stub");
+    expect(factory).toHaveBeenCalledWith({ region: "eu" });
+    expect(listProviders()).toContain("stub");
+  });
+
+  it("should refuse to replace providers unless asked to", () => {
+    const stub = createStubProvider("psi");
+
+    expect(() => registerProvider("psi", () => stub)).toThrow(
+      'Analysis provider "psi" is already registered',
+    );
+
+    registerProvider("psi", () => stub, { override: true });
+    expect(getProvider("psi")).toBe(stub);
+
+    expect(unregisterProvider("psi")).toBe(true);
+    expect(getProvider("psi")).toBeInstanceOf(PSIProvider);
+  });
+
+  it("should reject unknown providers", () => {
+    expect(() => getProvider("webpagetest")).toThrow(
+      'Unknown analysis provider "webpagetest". Available: psi, local, file',
+    );
+  });
+});
+
+describe("built-in providers", () => {
+  it("should analyze with PageSpeedClient", async () => {
+    const analyze = jest
+      .spyOn(PageSpeedClient.prototype, "analyze")
+      .mockResolvedValue(createResult("https://example.com/"));
+
+    await getProvider("psi", { apiKey: "key", cacheMode: "refresh" }).analyze(
+      "https://example.com/",
+      { strategy: "desktop", numberOfRuns: 3 },
+    );
+
+    expect(analyze).toHaveBeenCalledWith({
+      url: "https://example.com/",
+      strategy: "desktop",
+      numberOfRuns: 3,
+      cacheMode: "refresh",
+    });
+  });
+
+  it("should analyze with the local Lighthouse runner", async () => {
+    const analyze = jest
+      .spyOn(LocalLighthouseRunner.prototype, "analyze")
+      .mockResolvedValue(createResult("http://localhost:3000/"));
+
+    await getProvider("local", { timeout: 60000 }).analyze(
+      "http://localhost:3000/",
+      { strategy: "mobile", categories: ["performance"] },
+    );
+
+    expect(analyze).toHaveBeenCalledWith({
+      url: "http://localhost:3000/",
+      strategy: "mobile",
+      categories: ["performance"],
+      numberOfRuns: undefined,
+      locale: undefined,
+      timeout: 60000,
+    });
+  });
+
+  describe("file provider", () => {
+    let reportDir: string;
+
+    const writeReport = (name: string, url: string, formFactor: string) => {
+      const lhr = {
+        lighthouseVersion: "12.2.1",
+        requestedUrl: url,
+        finalUrl: url,
+        fetchTime: "2026-10-18T10:00:00.000Z",
+        configSettings: { formFactor },
+        categories: {
+          performance: { id: "performance", title: "Performance", score: 0.9 },
+        },
+        audits: {},
+      } as unknown as LighthouseResult;
+      fs.writeFileSync(path.join(reportDir, name), JSON.stringify(lhr));
+    };
+
+    beforeEach(() => {
+      reportDir = fs.mkdtempSync(path.join(os.tmpdir(), "perf-provider-"));
+      writeReport("lhr-1.json", "https://example.com/", "mobile");
+      writeReport("lhr-2.json", "https://example.com/blog", "mobile");
+      writeReport("lhr-3.json", "https://example.com/blog", "desktop");
+    });
+
+    afterEach(() => {
+      fs.rmSync(reportDir, { recursive: true, force: true });
+    });
+
+    it("should pick the report for the URL and strategy", async () => {
+      const provider = getProvider("file", { path: reportDir });
+
+      const result = await provider.analyze("https://EXAMPLE.com/blog", {
+        strategy: "desktop",
+      });
+
+      expect(result.url).toBe("https://example.com/blog");
+      expect(result.strategy).toBe("desktop");
+      expect((await provider.analyze("https://example.com")).url).toBe(
+        "https://example.com/",
+      );
+    });
+
+    it("should explain missing or ambiguous matches", async () => {
+      const provider = getProvider("file", { path: reportDir });
+
+      await expect(
+        provider.analyze("https://example.com/shop"),
+      ).rejects.toThrow(
+        `No report for https://example.com/shop in ${reportDir}`,
+      );
+      await expect(
+        provider.analyze("https://example.com/blog"),
+      ).rejects.toThrow("has reports for several URLs");
+      expect(() => getProvider("file")).toThrow(
+        'The "file" provider needs the path of a Lighthouse report',
+      );
+    });
+  });
+});
+
+describe("provider consumers", () => {
+  it("should let analyzeUrl use any provider", async () => {
+    const stub = createStubProvider();
+    registerProvider("stub", () => stub);
+
+    const byName = await analyzeUrl("http://localhost:3000/", {
+      provider: "stub",
+      strategy: "desktop",
+    });
+    const byInstance = await analyzeUrl("http://localhost:3000/", {
+      provider: stub,
+    });
+
+    expect(byName.url).toBe("http://localhost:3000/");
+    expect(byInstance.url).toBe("http://localhost:3000/");
+    expect(stub.analyze).toHaveBeenCalledWith("http://localhost:3000/", {
+      strategy: "desktop",
+    });
+  });
+
+  it("should generate reports from any provider", async () => {
+    const stub = createStubProvider();
+
+    const report = await generateReportForUrl("http://localhost:3000/", {
+      provider: stub,
+      numberOfRuns: 3,
+    });
+
+    expect(stub.analyze).toHaveBeenCalledWith("http://localhost:3000/", {
+      numberOfRuns: 3,
+    });
+    expect(report.performanceResult.url).toBe("http://localhost:3000/");
+    expect(report.summary).toBeDefined();
+  });
+});
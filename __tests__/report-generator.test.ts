@@ -237,6 +237,62 @@ describe("ActionableReportGenerator", () => {
       expect(report.nextSteps.some((s) => s.id === "next-perf-testing")).toBe(false);
     });
 
+    it("should ask to re-run the analysis when results are unreliable", () => {
+      const result = createBaseResult({
+        reliable: false,
+        warnings: [
+          {
+            type: "redirect",
+            source: "runWarnings",
+            message: "The test URL was redirected.",
+          },
+        ],
+      });
+      const report = new ActionableReportGenerator(result).generate();
+
+      expect(report.nextSteps[0]).toMatchObject({
+        id: "next-rerun-analysis",
+        urgency: "immediate",
+      });
+      expect(report.summary.reliable).toBe(false);
+      expect(report.summary.warnings).toHaveLength(1);
+    });
+
+    it("should treat results without warnings as reliable", () => {
+      const report = new ActionableReportGenerator(createBaseResult()).generate();
+
+      expect(report.summary.reliable).toBe(true);
+      expect(report.nextSteps.some((s) => s.id === "next-rerun-analysis")).toBe(false);
+    });
+
+    it("should include a field data assessment when CrUX data exists", () => {
+      const distribution = { good: 0.8, needsImprovement: 0.15, poor: 0.05 };
+      const result = createBaseResult({
+        fieldMetrics: {
+          source: "origin",
+          id: "https://example.com",
+          metrics: {
+            lcp: { p75: 2100, distribution, category: "good" },
+            inp: { p75: 350, distribution, category: "needs-improvement" },
+            cls: { p75: 0.05, distribution, category: "good" },
+          },
+        },
+      });
+      const report = new ActionableReportGenerator(result).generate();
+
+      expect(report.summary.fieldData).toMatchObject({
+        source: "origin",
+        passesCoreWebVitals: false,
+        failingMetrics: ["inp"],
+      });
+    });
+
+    it("should omit the field data assessment without CrUX data", () => {
+      const report = new ActionableReportGenerator(createBaseResult()).generate();
+
+      expect(report.summary.fieldData).toBeUndefined();
+    });
+
     it("should include steps from critical/high impact opportunities", () => {
       const result = createBaseResult({
         metrics: {
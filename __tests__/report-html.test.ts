@@ -0,0 +1,247 @@
+/**
+ * Tests for the HTML report renderer
+ */
+
+import { generateActionableReport } from "../src/report/generator";
+import { renderHtmlReport } from "../src/report/html";
+import type {
+  ActionableReport,
+  DetailedInsights,
+  FieldData,
+  KeyOpportunity,
+  PerformanceResult,
+  ProjectContext,
+} from "../src/types";
+
+const insights: DetailedInsights = {
+  lcpBreakdown: {
+    ttfb: 600,
+    resourceLoadDelay: 900,
+    resourceLoadDuration: 300,
+    elementRenderDelay: 200,
+    total: 2000,
+  },
+  cacheIssues: [],
+  imageIssues: [],
+  unusedJavaScript: [
+    {
+      url: "https://example.com/_next/static/chunks/vendor.js",
+      transferSize: 400000,
+      wastedBytes: 250000,
+      wastedPercent: 62,
+      isFirstParty: true,
+    },
+  ],
+  unusedCSS: [],
+  legacyJavaScript: [],
+  thirdParties: [],
+  longTasks: [],
+  renderBlocking: [],
+  totalSavings: { timeMs: 450, sizeBytes: 250000 },
+};
+
+const fieldMetrics: FieldData = {
+  source: "origin",
+  id: "https://example.com",
+  metrics: {
+    lcp: {
+      p75: 3100,
+      distribution: { good: 0.62, needsImprovement: 0.25, poor: 0.13 },
+      category: "needs-improvement",
+    },
+    cls: {
+      p75: 0.04,
+      distribution: { good: 0.9, needsImprovement: 0.07, poor: 0.03 },
+      category: "good",
+    },
+  },
+};
+
+const nextJsContext: ProjectContext = {
+  framework: {
+    name: "next",
+    version: "14.0.0",
+    routerType: "app",
+    renderingMode: "hybrid",
+  },
+  packageManager: "npm",
+  isTypeScript: true,
+  analytics: [],
+  thirdPartyIntegrations: [],
+  dependencies: { production: [], development: [], total: 0 },
+};
+
+function createResult(
+  overrides: Partial<PerformanceResult> = {},
+): PerformanceResult {
+  return {
+    url: "https://example.com/",
+    strategy: "mobile",
+    timestamp: "2026-10-18T10:00:00.000Z",
+    scores: {
+      performance: 64,
+      accessibility: 96,
+      bestPractices: 41,
+      seo: null,
+    },
+    metrics: {
+      lcp: { value: 2000, displayValue: "2.0 s", rating: "good" },
+      fcp: { value: 1200, displayValue: "1.2 s", rating: "good" },
+      cls: { value: 0.18, displayValue: "0.18", rating: "needs-improvement" },
+      tbt: { value: 720, displayValue: "720 ms", rating: "poor" },
+      si: { value: 2000, displayValue: "2.0 s", rating: "good" },
+      tti: { value: 5200, displayValue: "5.2 s", rating: "needs-improvement" },
+    },
+    lcpElement: {
+      tagName: "IMG",
+      selector: "main > img.hero",
+      url: "https://example.com/hero.jpg",
+      snippet: '<img class="hero" src="/hero.jpg">',
+    },
+    opportunities: [],
+    diagnostics: [],
+    insights,
+    ...overrides,
+  };
+}
+
+describe("renderHtmlReport", () => {
+  const report = generateActionableReport(createResult(), nextJsContext);
+  const html = renderHtmlReport(report);
+
+  it("should render a complete document without external assets", () => {
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).toContain(
+      "<title>Performance Report - https://example.com/</title>",
+    );
+    expect(html).not.toMatch(/<script|<link|<img|\ssrc="|@import|url\(/);
+  });
+
+  it("should render gauges for the analyzed categories", () => {
+    expect(html).toContain('aria-label="Performance score 64"');
+    expect(html).toContain('aria-label="Accessibility score 96"');
+    expect(html).toContain('aria-label="Best Practices score 41"');
+    expect(html).not.toContain("SEO score");
+    expect(html).toMatch(/stroke="var\(--poor\)"[^>]*stroke-dasharray/);
+  });
+
+  it("should render lab metrics with ratings", () => {
+    expect(html).toContain(
+      '<td class="num">720 ms</td><td><span class="rating poor">Poor</span></td>',
+    );
+    expect(html).toContain(
+      '<td class="num">0.18</td><td><span class="rating needs-improvement">Needs improvement</span></td>',
+    );
+  });
+
+  it("should render the LCP breakdown as proportional segments", () => {
+    expect(html).toContain("LCP Breakdown");
+    expect(html).toContain(
+      '<span class="phase-0" style="width:30%" title="Time to first byte: 600 ms">',
+    );
+    expect(html).toContain(
+      '<span class="phase-1" style="width:45%" title="Resource load delay: 900 ms">',
+    );
+    expect(html).toContain(
+      "&lt;img class=&quot;hero&quot; src=&quot;/hero.jpg&quot;&gt;",
+    );
+  });
+
+  it("should render diagnostics and key opportunities", () => {
+    expect(html).toContain("<h2>Diagnostics</h2>");
+    expect(html).toContain("Reduce unused JavaScript");
+    expect(html).toContain("<h2>Key Opportunities</h2>");
+    for (const opportunity of report.keyOpportunities) {
+      expect(html).toContain(opportunity.title);
+    }
+  });
+
+  it("should include field data only when present", () => {
+    expect(html).not.toContain("<h2>Field Data</h2>");
+
+    const withField = renderHtmlReport(
+      generateActionableReport(createResult({ fieldMetrics })),
+    );
+    expect(withField).toContain("<h2>Field Data</h2>");
+    expect(withField).toContain('<span class="badge poor">Failed</span>');
+    expect(withField).toContain("real-user visits to this origin");
+    expect(withField).toContain('<span class="seg-good" style="width:62%">');
+    expect(withField).toContain('<td class="num">3.1 s</td>');
+  });
+
+  it("should render code examples and framework notes escaped", () => {
+    const opportunity: KeyOpportunity = {
+      id: "lcp-preload",
+      priority: 1,
+      title: "Preload the <hero> image",
+      description: "Fetch the LCP image early.",
+      impact: { level: "critical", lcpImprovementMs: 900 },
+      steps: [
+        {
+          order: 1,
+          title: "Add a preload hint",
+          instructions: "Add the link tag to the document head.",
+          codeExample: {
+            language: "html",
+            code: '<link rel="preload" as="image" href="/hero.jpg">',
+            filePath: "app/layout.tsx",
+          },
+        },
+      ],
+      relatedAudits: ["largest-contentful-paint"],
+      frameworkNotes: [
+        {
+          framework: "Next.js",
+          note: "Use the priority prop & let next/image add the hint.",
+          codeExample: '<Image src="/hero.jpg" priority />',
+          docLink: "https://nextjs.org/docs/app/api-reference/components/image",
+        },
+      ],
+    };
+    const custom: ActionableReport = {
+      ...report,
+      keyOpportunities: [opportunity],
+    };
+
+    const output = renderHtmlReport(custom, { title: "Checkout & cart" });
+
+    expect(output).toContain("<title>Checkout &amp; cart</title>");
+    expect(output).toContain("Preload the &lt;hero&gt; image");
+    expect(output).toContain(
+      '<code class="language-html">&lt;link rel=&quot;preload&quot; as=&quot;image&quot; href=&quot;/hero.jpg&quot;&gt;</code>',
+    );
+    expect(output).toContain("<code>app/layout.tsx</code>");
+    expect(output).toContain("LCP −900 ms");
+    expect(output).toContain(
+      "<strong>Next.js:</strong> Use the priority prop &amp; let next/image add the hint.",
+    );
+    expect(output).toContain(
+      '<a href="https://nextjs.org/docs/app/api-reference/components/image">Documentation</a>',
+    );
+  });
+
+  it("should warn when the run is unreliable", () => {
+    const output = renderHtmlReport(
+      generateActionableReport(
+        createResult({
+          reliable: false,
+          warnings: [
+            {
+              type: "throttling",
+              source: "runWarnings",
+              message:
+                "The page loaded too slowly to finish within the time limit.",
+            },
+          ],
+        }),
+      ),
+    );
+
+    expect(output).toContain("These results may not be reliable");
+    expect(output).toContain(
+      "<li>The page loaded too slowly to finish within the time limit.</li>",
+    );
+    expect(html).not.toContain('class="alert"');
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Tests for the Markdown renderers
+ */
+
+import { compareResults } from "../src/compare";
+import { generateActionableReport } from "../src/report/generator";
+import {
+  renderComparisonMarkdown,
+  renderReportMarkdown,
+  renderResultMarkdown,
+  renderResultsMarkdown,
+} from "../src/report/markdown";
+import type {
+  ActionableReport,
+  DetailedInsights,
+  FieldData,
+  KeyOpportunity,
+  PerformanceResult,
+} from "../src/types";
+
+const insights: DetailedInsights = {
+  lcpBreakdown: {
+    ttfb: 600,
+    resourceLoadDelay: 900,
+    resourceLoadDuration: 300,
+    elementRenderDelay: 200,
+    total: 2000,
+  },
+  cacheIssues: [],
+  imageIssues: [],
+  unusedJavaScript: [
+    {
+      url: "https://example.com/_next/static/chunks/vendor.js",
+      transferSize: 400000,
+      wastedBytes: 250000,
+      wastedPercent: 62,
+      isFirstParty: true,
+    },
+  ],
+  unusedCSS: [],
+  legacyJavaScript: [],
+  thirdParties: [
+    {
+      entity: "Google Tag Manager",
+      blockingTime: 320,
+      transferSize: 90000,
+      requestCount: 4,
+      urls: [],
+    },
+  ],
+  longTasks: [],
+  renderBlocking: [],
+  totalSavings: { timeMs: 450, sizeBytes: 250000 },
+};
+
+const fieldMetrics: FieldData = {
+  source: "origin",
+  id: "https://example.com",
+  metrics: {
+    lcp: {
+      p75: 3100,
+      distribution: { good: 0.62, needsImprovement: 0.25, poor: 0.13 },
+      category: "needs-improvement",
+    },
+    inp: {
+      p75: 650,
+      distribution: { good: 0.5, needsImprovement: 0.3, poor: 0.2 },
+      category: "poor",
+    },
+  },
+};
+
+function createResult(
+  overrides: Partial<PerformanceResult> = {},
+): PerformanceResult {
+  return {
+    url: "https://example.com/",
+    strategy: "mobile",
+    timestamp: "2026-10-18T10:00:00.000Z",
+    scores: {
+      performance: 64,
+      accessibility: 96,
+      bestPractices: 41,
+      seo: null,
+    },
+    metrics: {
+      lcp: { value: 2000, displayValue: "2.0 s", rating: "good" },
+      fcp: { value: 1200, displayValue: "1.2 s", rating: "good" },
+      cls: { value: 0.18, displayValue: "0.18", rating: "needs-improvement" },
+      tbt: { value: 720, displayValue: "720 ms", rating: "poor" },
+      si: { value: 2000, displayValue: "2.0 s", rating: "good" },
+      tti: { value: 5200, displayValue: "5.2 s", rating: "needs-improvement" },
+    },
+    opportunities: [
+      {
+        id: "render-blocking-resources",
+        title: "Eliminate render-blocking resources",
+        description: "",
+        score: 0.4,
+        savingsMs: 300,
+      },
+      {
+        id: "unused-javascript",
+        title: "Reduce unused JavaScript",
+        description: "",
+        score: 0.3,
+        savingsMs: 450,
+        savingsBytes: 250000,
+      },
+    ],
+    diagnostics: [],
+    insights,
+    ...overrides,
+  };
+}
+
+describe("renderResultMarkdown", () => {
+  const markdown = renderResultMarkdown(createResult());
+
+  it("should render scores and lab metrics with rating emoji", () => {
+    expect(markdown.startsWith("## Performance Report\n")).toBe(true);
+    expect(markdown).toContain("`https://example.com/` · Mobile");
+    expect(markdown).toContain(
+      "| Performance | Accessibility | Best Practices |\n| :-: | :-: | :-: |\n| 🟠 64 | 🟢 96 | 🔴 41 |",
+    );
+    expect(markdown).toContain("| Total Blocking Time (TBT) | 🔴 720 ms |");
+    expect(markdown).toContain("| Cumulative Layout Shift (CLS) | 🟡 0.18 |");
+    expect(markdown).not.toContain("Field (p75)");
+  });
+
+  it("should add field data next to the lab values", () => {
+    const output = renderResultMarkdown(createResult({ fieldMetrics }));
+
+    expect(output).toContain("| Metric | Lab | Field (p75) |");
+    expect(output).toContain(
+      "| Largest Contentful Paint (LCP) | 🟢 2.0 s | 🟡 3.1 s |",
+    );
+    expect(output).toContain(
+      "| Interaction to Next Paint (INP) | - | 🔴 650 ms |",
+    );
+    expect(output).toContain("real-user visits to this origin");
+  });
+
+  it("should collapse opportunities and insights", () => {
+    expect(markdown).toContain(
+      "<details>\n<summary><strong>Opportunities (2)</strong></summary>",
+    );
+    // Sorted by time savings
+    expect(markdown).toMatch(
+      /Reduce unused JavaScript \| 450 ms, 244 KiB \|\n\| Eliminate render-blocking resources \| 300 ms \|/,
+    );
+    expect(markdown).toContain(
+      "<summary><strong>Unused JavaScript (1)</strong></summary>",
+    );
+    expect(markdown).toContain(
+      "| Google Tag Manager | 320 ms blocking, 88 KiB |",
+    );
+    expect(markdown).not.toContain("Long tasks");
+  });
+
+  it("should report threshold checks", () => {
+    expect(
+      renderResultMarkdown(createResult(), {
+        thresholds: { performance: 50, lcp: 2500 },
+      }),
+    ).toContain("### ✅ Thresholds\n\nAll 2 threshold(s) met.");
+
+    const failed = renderResultMarkdown(createResult(), {
+      thresholds: { performance: 90, tbt: 600 },
+    });
+    expect(failed).toContain("2 of 2 threshold(s) not met:");
+    expect(failed).toContain("Performance score is 64, below the 90 threshold");
+  });
+
+  it("should render baseline comparisons", () => {
+    const baseline = createResult({
+      scores: { ...createResult().scores, performance: 80 },
+      metrics: {
+        ...createResult().metrics,
+        tbt: { value: 300, displayValue: "300 ms", rating: "good" },
+      },
+    });
+    const output = renderResultMarkdown(createResult(), {
+      comparison: compareResults(baseline, createResult()),
+    });
+
+    expect(output).toContain("### 🔁 Baseline Comparison");
+    expect(output).toContain("| Performance | 80 | 64 | 🔴 -16 |");
+    expect(output).toContain("| TBT | 300 ms | 720 ms | 🔴 +420 ms (+140%) |");
+    expect(output).toContain("| LCP | 2000 ms | 2000 ms | ⚪ ±0 ms (±0%) |");
+    expect(output).toContain(
+      "- ⚠️ Performance score dropped from 80 to 64 (-16)",
+    );
+  });
+
+  it("should escape HTML and table separators", () => {
+    const output = renderResultMarkdown(
+      createResult({
+        opportunities: [
+          {
+            id: "custom",
+            title: "Avoid <script> | inline",
+            description: "",
+            score: 0,
+            savingsMs: 100,
+          },
+        ],
+      }),
+      { title: "Checkout <staging>" },
+    );
+
+    expect(output).toContain("## Checkout &lt;staging&gt;");
+    expect(output).toContain("| Avoid &lt;script&gt; \\| inline | 100 ms |");
+  });
+});
+
+describe("renderReportMarkdown", () => {
+  const report = generateActionableReport(createResult({ fieldMetrics }));
+  const markdown = renderReportMarkdown(report);
+
+  it("should render the summary, LCP breakdown and key opportunities", () => {
+    expect(markdown).toContain("Core Web Vitals assessment: ❌ Failed");
+    expect(markdown).toContain("| Resource load delay | 900 ms | 45% |");
+    expect(markdown).toContain("### Key Opportunities");
+    for (const opportunity of report.keyOpportunities) {
+      expect(markdown).toContain(opportunity.title);
+    }
+  });
+
+  it("should render steps with code blocks and framework notes", () => {
+    const opportunity: KeyOpportunity = {
+      id: "lcp-preload",
+      priority: 1,
+      title: "Preload the hero image",
+      description: "Fetch the LCP image early.",
+      impact: { level: "critical", lcpImprovementMs: 900 },
+      steps: [
+        {
+          order: 1,
+          title: "Add a preload hint",
+          instructions: "Add the link tag to the document head.",
+          codeExample: {
+            language: "html",
+            code: '<link rel="preload" as="image" href="/hero.jpg">',
+            filePath: "app/layout.tsx",
+          },
+        },
+      ],
+      relatedAudits: [],
+      frameworkNotes: [
+        {
+          framework: "Next.js",
+          note: "Use the priority prop.",
+          docLink: "https://nextjs.org/docs/app/api-reference/components/image",
+        },
+      ],
+    };
+    const custom: ActionableReport = {
+      ...report,
+      keyOpportunities: [opportunity],
+    };
+
+    const output = renderReportMarkdown(custom);
+
+    expect(output).toContain(
+      "<summary><strong>1. Preload the hero image (critical, LCP −900 ms)</strong></summary>",
+    );
+    expect(output).toContain(
+      '   `app/layout.tsx`\n\n   ```html\n   <link rel="preload" as="image" href="/hero.jpg">\n   ```',
+    );
+    expect(output).toContain(
+      "> **Next.js:** Use the priority prop. ([documentation](https://nextjs.org/docs/app/api-reference/components/image))",
+    );
+  });
+});
+
+describe("renderResultsMarkdown", () => {
+  it("should summarize every URL and collapse the details", () => {
+    const markdown = renderResultsMarkdown([
+      {
+        url: "https://example.com/",
+        result: createResult(),
+        thresholds: { performance: 50 },
+      },
+      {
+        url: "https://example.com/pricing",
+        result: createResult({ url: "https://example.com/pricing" }),
+        thresholds: { performance: 90 },
+      },
+      { url: "https://example.com/blog", error: "Request timed out" },
+    ]);
+
+    expect(markdown).toContain("**1 of 3 URL(s) passed**");
+    expect(markdown).toContain(
+      "| ✅ | https://example.com/ | 🟠 64 | 🟢 2.0 s | 🟡 0.18 | 🔴 720 ms |",
+    );
+    expect(markdown).toContain(
+      "| ❌ | https://example.com/blog | - | - | - | - |",
+    );
+    expect(markdown).toContain(
+      "- `https://example.com/blog`: Request timed out",
+    );
+    expect(markdown).toContain(
+      "<summary><strong>❌ https://example.com/pricing (mobile)</strong></summary>",
+    );
+  });
+});
+
+describe("renderComparisonMarkdown", () => {
+  const baseline = createResult();
+  const regressed = createResult({
+    scores: { ...baseline.scores, performance: 50 },
+  });
+
+  it("should render a single comparison in full", () => {
+    const markdown = renderComparisonMarkdown([
+      compareResults(baseline, regressed),
+    ]);
+
+    expect(markdown.startsWith("## Baseline Comparison\n")).toBe(true);
+    expect(markdown).toContain("| Performance | 64 | 50 | 🔴 -14 |");
+    expect(markdown).not.toContain("URL(s) regressed");
+  });
+
+  it("should summarize several comparisons", () => {
+    const markdown = renderComparisonMarkdown([
+      compareResults(baseline, regressed),
+      compareResults(
+        createResult({ strategy: "desktop" }),
+        createResult({ strategy: "desktop" }),
+      ),
+    ]);
+
+    expect(markdown).toContain("**1 of 2 URL(s) regressed**");
+    expect(markdown).toContain(
+      "| ❌ | https://example.com/ | mobile | 64 → 50 | 1 |",
+    );
+    expect(markdown).toContain(
+      "<summary><strong>✅ https://example.com/ (desktop)</strong></summary>",
+    );
+  });
+});
+
+describe("size limit", () => {
+  const entries = Array.from({ length: 40 }, (_, index) => ({
+    url: `https://example.com/page-${index}`,
+    result: createResult({ url: `https://example.com/page-${index}` }),
+  }));
+
+  it("should leave out collapsible sections that don't fit", () => {
+    const full = renderResultsMarkdown(entries);
+    const limited = renderResultsMarkdown(entries, { maxLength: 8000 });
+
+    expect(full.length).toBeGreaterThan(8000);
+    expect(limited.length).toBeLessThanOrEqual(8000);
+    // The status table is always kept
+    expect(limited).toContain("| ✅ | https://example.com/page-39 |");
+    expect(limited).toMatch(
+      /_\d+ section\(s\) left out to stay under 8000 characters\._\n$/,
+    );
+  });
+
+  it("should truncate required content at a line boundary", () => {
+    const limited = renderResultsMarkdown(entries, { maxLength: 1500 });
+
+    expect(limited.length).toBeLessThanOrEqual(1500);
+    expect(limited).toContain(
+      "_Report truncated to stay under 1500 characters._",
+    );
+    expect(limited).not.toContain("page-39");
+  });
+
+  it("should keep reports within GitHub's comment limit by default", () => {
+    const markdown = renderResultsMarkdown(
+      Array.from({ length: 400 }, (_, index) => entries[index % 40]),
+    );
+
+    expect(markdown.length).toBeLessThanOrEqual(65536);
+  });
+});
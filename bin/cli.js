@@ -7,11 +7,14 @@
  *
  * Usage:
  *   perf-check <url> [options]
+ *   perf-check crux <url> [--origin] [--history] [--form-factor <type>]
+ *   perf-check compare <baseline.json> <current.json> [--tolerance <spec>]
  *   perf-check --config performance.config.js
  *
  * Commands:
  *   check     Analyze URL(s) and report Core Web Vitals
- *   compare   Compare results against baseline
+ *   crux      Show real-user (CrUX) field data and weekly trends
+ *   compare   Compare two results saved with --output
  *   report    Generate detailed performance report
  *
  * Options:
@@ -20,13 +23,53 @@
  *   --verbose, -v      Show detailed output
  *   --insights, -i     Show all detailed insights (for AI agents)
  *   --json, -j         Output structured JSON (for programmatic use)
+ *   --format, -f <fmt> Output format: text (default), json, html (a
+ *                      self-contained report written to --output) or
+ *                      markdown (printed, or written to --output)
+ *   --max-length <n>   Maximum Markdown length in characters (default:
+ *                      65536, GitHub's comment limit)
  *   --ci               CI mode (exit with error on threshold violations)
- *   --config, -c       Path to configuration file
+ *   --threshold, -t <key=value>  Override a threshold, e.g. lcp=2500 or
+ *                      performance=90,cls=0.1 (repeatable)
+ *   --strict           Use the strict threshold preset (at least 90 scores,
+ *                      good Core Web Vitals)
+ *   --config, -c [file]  Analyze every URL of a performance.config.{js,mjs,
+ *                      cjs,json} file (looked up from the working directory
+ *                      when no path is given)
  *   --output, -o       Output file path (JSON)
- *   --baseline, -b     Compare against baseline file
+ *   --baseline, -b     Compare against results saved with --output
+ *                      (regressions fail --ci)
+ *   --tolerance <spec> Noise tolerances for --baseline and compare, e.g.
+ *                      score=3,lcp=250,ratio=0.1
+ *   --cache            Cache PSI responses on disk (.cache/performance-toolkit)
+ *   --refresh-cache    Ignore cached responses and store fresh ones
+ *   --runs <n>         Run N analyses and report the median run with statistics
+ *   --locale <code>    Locale for localized audit strings (e.g. es)
+ *   --record <dir>     Record PSI responses as fixtures in <dir>
+ *   --replay <dir>     Replay PSI responses from fixtures in <dir> (no network)
+ *   --provider <name>  Analysis provider: psi (default), local (Lighthouse in
+ *                      local Chrome) or file (reports given with --lhr)
+ *   --lhr <path>       Import a Lighthouse JSON report or .lighthouseci directory
+ *                      instead of calling PSI
+ *   --budget <file>    Check the result against a Lighthouse budget.json
+ *                      (overruns fail --ci)
+ *   --fail-on-warnings [types]  With --ci, fail on Lighthouse run warnings
+ *                      (all, or comma-separated: runtime-error,redirect,
+ *                      throttling,timeout,storage,other)
+ *
+ * CrUX options:
+ *   --origin           Query the URL's origin instead of the page
+ *   --history          Show 25-week trends (CrUX History API)
+ *   --form-factor <type>  phone, desktop or tablet (all combined by default)
+ *
+ * Exit codes:
+ *   0 success, 1 threshold violations or unexpected errors, 2 PSI API error,
+ *   3 quota exceeded, 4 invalid API key, 5 page failed to load, 6 timeout,
+ *   7 malformed response, 8 missing replay fixture, 9 invalid Lighthouse report
  *
  * Environment:
  *   PAGESPEED_API_KEY  Google PageSpeed API key (recommended for higher rate limits)
+ *   CRUX_API_KEY       Google API key for the crux command (falls back to PAGESPEED_API_KEY)
  *   CI                 Set automatically in CI/CD environments
  *
  * @module @silverassist/performance-toolkit/cli
@@ -185,6 +228,53 @@ const URGENCY_EMOJI = {
   "when-possible": "🟢",
 };
 
+/** Follow-up hints for typed analysis errors */
+const ERROR_HINTS = {
+  QUOTA_EXCEEDED:
+    "PSI quota exhausted. Set PAGESPEED_API_KEY or wait before retrying.",
+  INVALID_API_KEY:
+    "Check that PAGESPEED_API_KEY is valid and the PageSpeed Insights API is enabled.",
+  DOCUMENT_REQUEST_FAILED:
+    "Lighthouse could not load the page. Check that the URL is publicly reachable.",
+  TIMEOUT: "The analysis timed out. Try again or analyze a lighter page.",
+  INVALID_LIGHTHOUSE_REPORT:
+    "Pass a Lighthouse JSON report (lighthouse --output json) or a .lighthouseci directory.",
+};
+
+/** Follow-up hints for typed errors of the crux command */
+const CRUX_ERROR_HINTS = {
+  QUOTA_EXCEEDED:
+    "CrUX API quota exhausted. Set CRUX_API_KEY or wait before retrying.",
+  INVALID_API_KEY:
+    "Check that CRUX_API_KEY (or PAGESPEED_API_KEY) is valid and the Chrome UX Report API is enabled.",
+  TIMEOUT: "The CrUX request timed out. Try again later.",
+};
+
+/** Values accepted by --format */
+const OUTPUT_FORMATS = ["text", "json", "html", "markdown"];
+
+/** Colors of baseline comparison changes */
+const CHANGE_COLORS = {
+  improved: "green",
+  unchanged: "dim",
+  regressed: "red",
+};
+
+/** Display names of compared category scores */
+const SCORE_LABELS = {
+  performance: "Performance",
+  accessibility: "Accessibility",
+  bestPractices: "Best Practices",
+  seo: "SEO",
+};
+
+/** Units of budget violations in CI threshold output */
+const BUDGET_KIND_LABELS = {
+  resourceSize: "size (KiB)",
+  resourceCount: "requests",
+  timing: "timing",
+};
+
 // ===========================================================================
 // Helper Functions for Mappings
 // ===========================================================================
@@ -425,8 +515,14 @@ function truncateUrl(url, maxLength = 60) {
 /**
  * Print Core Web Vitals summary
  * @param {object} result - Performance result
+ * @param {object|null} [budgetResult] - Budget evaluation (--budget)
+ * @param {Function} [formatBudgetViolation] - Violation formatter from the library
  */
-function printSummary(result) {
+function printSummary(
+  result,
+  budgetResult = null,
+  formatBudgetViolation = null,
+) {
   console.log("");
   log("═══════════════════════════════════════════════════════════════", "dim");
   log(`📊 Performance Report: ${result.url}`, "bright");
@@ -481,9 +577,252 @@ function printSummary(result) {
     }
   }
 
+  // Field data (real users, CrUX)
+  if (result.fieldMetrics) {
+    printFieldData(result.fieldMetrics);
+  }
+
+  // Run warnings (redirects, throttling issues, runtime errors)
+  if (result.warnings && result.warnings.length > 0) {
+    printSectionHeader("Run Warnings", "⚠️", false);
+    for (const warning of result.warnings) {
+      console.log(
+        `   ${COLORS.yellow}[${warning.type}]${COLORS.reset} ${warning.message}`,
+      );
+    }
+    warn(
+      "   These results may be unreliable. Consider re-running the analysis.",
+    );
+  }
+
+  // Run variability (multi-run mode)
+  if (result.aggregation) {
+    printRunVariability(result.aggregation);
+  }
+
+  // Resource and timing budgets
+  if (budgetResult) {
+    printBudgetResult(budgetResult, formatBudgetViolation);
+  }
+
   printSectionFooter();
 }
 
+/**
+ * Print real-user (CrUX) Core Web Vitals
+ * @param {object} fieldData - Typed field data from the result
+ * @param {string} [title] - Section title
+ */
+function printFieldData(fieldData, title) {
+  const scope = fieldData.source === "origin" ? "origin fallback" : "URL";
+  printSectionHeader(title ?? `Field Data (CrUX, ${scope})`, "👥", false);
+
+  const labels = {
+    lcp: "LCP  (Largest Contentful Paint)",
+    inp: "INP  (Interaction to Next Paint)",
+    cls: "CLS  (Cumulative Layout Shift)",
+    fcp: "FCP  (First Contentful Paint)",
+    ttfb: "TTFB (Time to First Byte)",
+  };
+
+  for (const [key, label] of Object.entries(labels)) {
+    const metric = fieldData.metrics[key];
+    if (!metric) continue;
+
+    const value = formatFieldValue(key, metric.p75);
+    const color = COLORS[getRatingColor(metric.category)];
+    const goodShare = Math.round(metric.distribution.good * 100);
+    console.log(
+      `   ${label.padEnd(34)} ${color}${value}${COLORS.reset} ${COLORS.dim}(p75, ${goodShare}% good)${COLORS.reset}`,
+    );
+  }
+}
+
+/**
+ * Print per-metric statistics for an aggregated multi-run result
+ * @param {object} aggregation - Run aggregation from the result
+ */
+function printRunVariability(aggregation) {
+  if (aggregation.discardedRuns === aggregation.runs) {
+    printSectionHeader(
+      `Run Variability (all ${aggregation.runs} runs discarded)`,
+      "📉",
+      false,
+    );
+    warn(
+      "   No run had both FCP and TTI without a runtime error; showing run #1 without statistics.",
+    );
+    return;
+  }
+
+  const discarded = aggregation.discardedRuns
+    ? `, ${aggregation.discardedRuns} discarded`
+    : "";
+  printSectionHeader(
+    `Run Variability (${aggregation.runs} runs${discarded}, median run #${aggregation.representativeRun + 1})`,
+    "📉",
+    false,
+  );
+
+  const format = (key, value) =>
+    key === "cls" ? value.toFixed(3) : `${Math.round(value)}ms`;
+
+  console.log(
+    `   ${"Metric".padEnd(6)}${"Min".padStart(10)}${"Median".padStart(10)}${"P75".padStart(10)}${"Max".padStart(10)}${"StdDev".padStart(10)}`,
+  );
+  for (const [key, stats] of Object.entries(aggregation.metrics)) {
+    const values = [
+      stats.min,
+      stats.median,
+      stats.p75,
+      stats.max,
+      stats.stdDev,
+    ];
+    const cells = values.map((value) => format(key, value).padStart(10));
+    console.log(`   ${key.toUpperCase().padEnd(6)}${cells.join("")}`);
+  }
+
+  const performance = aggregation.scores.performance;
+  if (performance) {
+    console.log(
+      `   Performance score: ${performance.min}-${performance.max} (median ${performance.median}, σ ${performance.stdDev.toFixed(1)})`,
+    );
+  }
+}
+
+/**
+ * Print budget overruns for the budget matching the result's URL
+ * @param {object} budgetResult - Budget evaluation
+ * @param {Function} formatBudgetViolation - Violation formatter from the library
+ */
+function printBudgetResult(budgetResult, formatBudgetViolation) {
+  printSectionHeader(
+    `Budgets${budgetResult.path ? ` (${budgetResult.path})` : ""}`,
+    "💰",
+    false,
+  );
+
+  if (!budgetResult.path) {
+    log("   No budget matches this URL", "dim");
+    return;
+  }
+
+  if (budgetResult.passed) {
+    console.log(`   ${COLORS.green}All budgets met${COLORS.reset}`);
+  }
+  for (const violation of budgetResult.violations) {
+    console.log(
+      `   ${COLORS.red}✗${COLORS.reset} ${formatBudgetViolation(violation)}`,
+    );
+  }
+  if (budgetResult.skipped > 0) {
+    log(
+      `   ${budgetResult.skipped} resource budget(s) skipped: the report has no resource data`,
+      "dim",
+    );
+  }
+}
+
+/**
+ * Format a metric value for comparison output
+ * @param {string} metric - Metric key
+ * @param {number} value - Metric value or delta
+ * @returns {string} Formatted value
+ */
+function formatComparedValue(metric, value) {
+  return metric === "cls" ? value.toFixed(3) : `${Math.round(value)}ms`;
+}
+
+/**
+ * Print the differences between a result and its baseline run
+ * @param {object} comparison - Baseline comparison from the library
+ */
+function printComparison(comparison) {
+  printSectionHeader(
+    `Baseline Comparison (baseline from ${comparison.baselineTimestamp})`,
+    "🔁",
+    false,
+  );
+
+  for (const change of comparison.scores) {
+    if (change.delta === null) continue;
+    const label = `${SCORE_LABELS[change.category]}:`.padEnd(16);
+    const delta = `${change.delta > 0 ? "+" : ""}${change.delta}`;
+    console.log(
+      `   ${label}${change.baseline} → ${change.current}  ${COLORS[CHANGE_COLORS[change.status]]}${delta}${COLORS.reset}`,
+    );
+  }
+  for (const change of comparison.metrics) {
+    const label = `${change.metric.toUpperCase()}:`.padEnd(16);
+    const sign = change.delta > 0 ? "+" : change.delta < 0 ? "-" : "±";
+    const ratio =
+      change.deltaRatio === null
+        ? ""
+        : ` (${sign}${Math.abs(change.deltaRatio * 100).toFixed(1)}%)`;
+    console.log(
+      `   ${label}${formatComparedValue(change.metric, change.baseline)} → ${formatComparedValue(change.metric, change.current)}  ${COLORS[CHANGE_COLORS[change.status]]}${sign}${formatComparedValue(change.metric, Math.abs(change.delta))}${ratio}${COLORS.reset}`,
+    );
+  }
+
+  const formatSavings = (op) =>
+    [
+      (op.currentSavingsMs ?? op.baselineSavingsMs)
+        ? `${Math.round(op.currentSavingsMs ?? op.baselineSavingsMs)}ms`
+        : null,
+      (op.currentSavingsBytes ?? op.baselineSavingsBytes)
+        ? formatBytes(op.currentSavingsBytes ?? op.baselineSavingsBytes)
+        : null,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  const { opportunities, insights } = comparison;
+  const listings = [
+    ["New opportunities", "+", "red", opportunities.new],
+    ["Grown opportunities", "▲", "yellow", opportunities.grown],
+    ["Resolved opportunities", "✓", "green", opportunities.resolved],
+  ];
+  for (const [title, marker, color, items] of listings) {
+    if (items.length === 0) continue;
+    printInsightSubsection(`${title} (${items.length})`);
+    for (const op of items.slice(0, 5)) {
+      const savings = formatSavings(op);
+      console.log(
+        `   ${COLORS[color]}${marker}${COLORS.reset} ${op.title}${savings ? ` ${COLORS.dim}(${savings})${COLORS.reset}` : ""}`,
+      );
+    }
+    printMoreItems(items.length, 5, "opportunities");
+  }
+
+  const insightCount =
+    insights.new.length + insights.grown.length + insights.resolved.length;
+  if (insightCount > 0) {
+    printInsightSubsection(
+      `Insights: ${insights.new.length} new, ${insights.grown.length} grown, ${insights.resolved.length} resolved`,
+    );
+    for (const item of [...insights.new, ...insights.grown].slice(0, 5)) {
+      const cost =
+        item.unit === "bytes"
+          ? formatBytes(item.current)
+          : `${Math.round(item.current)}ms`;
+      console.log(
+        `   ${COLORS.dim}• [${item.type}] ${truncateUrl(item.key, 50)} (${cost})${COLORS.reset}`,
+      );
+    }
+    printMoreItems(insights.new.length + insights.grown.length, 5, "items");
+  }
+
+  console.log("");
+  if (!comparison.hasRegressions) {
+    success("No regressions beyond tolerances");
+    return;
+  }
+  for (const regression of comparison.regressions) {
+    console.log(
+      `   ${regression.severity === "critical" ? "❌" : "⚠️ "} ${regression.message}`,
+    );
+  }
+}
+
 /**
  * Print a score with color formatting
  * @param {string} label - Score label
@@ -986,68 +1325,131 @@ function printProjectContext(context) {
 }
 
 /**
- * Check thresholds and return violations
- * @param {object} result - Performance result
- * @param {object} thresholds - Threshold configuration
- * @returns {Array} Array of threshold violations
+ * Format a field metric value for display
+ * @param {string} key - Field metric id
+ * @param {number} value - Metric value
+ * @returns {string} Formatted value
  */
-function checkThresholds(result, thresholds) {
-  const violations = [];
+function formatFieldValue(key, value) {
+  return key === "cls" ? value.toFixed(2) : `${Math.round(value)} ms`;
+}
 
-  if (
-    thresholds.performance &&
-    result.scores.performance < thresholds.performance
-  ) {
-    violations.push({
-      metric: "performance",
-      actual: result.scores.performance,
-      threshold: thresholds.performance,
-      severity: "error",
-      url: result.url,
-    });
+/**
+ * Render p75 values as a sparkline (gaps for periods without data)
+ * @param {Array<number|null>} values - Values, oldest first
+ * @returns {string} Sparkline
+ */
+function sparkline(values) {
+  const bars = "▁▂▃▄▅▆▇█";
+  const known = values.filter((value) => value !== null);
+  const min = Math.min(...known);
+  const range = Math.max(...known) - min || 1;
+
+  return values
+    .map((value) =>
+      value === null
+        ? " "
+        : bars[Math.round(((value - min) / range) * (bars.length - 1))],
+    )
+    .join("");
+}
+
+/**
+ * Query the CrUX API and print field data or trends
+ * @param {object} options - Parsed CLI options
+ */
+async function runCrux(options) {
+  const apiKey = process.env.CRUX_API_KEY || process.env.PAGESPEED_API_KEY;
+  if (!apiKey) {
+    warn(
+      "CRUX_API_KEY not found. The CrUX API requires a Google API key with the Chrome UX Report API enabled.",
+    );
   }
 
-  if (thresholds.lcp && result.metrics.lcp.value > thresholds.lcp) {
-    violations.push({
-      metric: "LCP",
-      actual: Math.round(result.metrics.lcp.value),
-      threshold: thresholds.lcp,
-      severity: "error",
-      url: result.url,
-    });
+  const { createCruxClient, getCruxTrend } = await import("../dist/index.js");
+  const client = createCruxClient(apiKey, {
+    cache: { enabled: options.cache },
+  });
+
+  const target = options.origin ? new URL(options.url).origin : options.url;
+  const query = {
+    [options.origin ? "origin" : "url"]: target,
+    ...(options.formFactor && { formFactor: options.formFactor }),
+    cacheMode: options.refreshCache ? "refresh" : "default",
+  };
+
+  if (!options.json) {
+    info(
+      `Fetching CrUX ${options.history ? "history" : "data"} for ${target}...`,
+    );
   }
 
-  if (thresholds.fcp && result.metrics.fcp.value > thresholds.fcp) {
-    violations.push({
-      metric: "FCP",
-      actual: Math.round(result.metrics.fcp.value),
-      threshold: thresholds.fcp,
-      severity: "error",
-      url: result.url,
-    });
+  const data = options.history
+    ? await client.queryHistory(query)
+    : await client.queryRecord(query);
+
+  if (options.json) {
+    console.log(JSON.stringify(data ?? null, null, 2));
+    return;
   }
 
-  if (thresholds.cls && result.metrics.cls.value > thresholds.cls) {
-    violations.push({
-      metric: "CLS",
-      actual: result.metrics.cls.value.toFixed(3),
-      threshold: thresholds.cls,
-      severity: "error",
-      url: result.url,
-    });
+  if (!data) {
+    warn(
+      `CrUX has no data for this ${options.origin ? "origin" : "URL"}. Try --origin for origin-level data.`,
+    );
+    return;
   }
 
-  if (thresholds.tbt && result.metrics.tbt.value > thresholds.tbt) {
-    violations.push({
-      metric: "TBT",
-      actual: Math.round(result.metrics.tbt.value),
-      threshold: thresholds.tbt,
-      severity: "error",
-      url: result.url,
-    });
+  const formFactor =
+    data.key.formFactor === "all"
+      ? "all form factors"
+      : data.key.formFactor.toUpperCase();
+
+  console.log("");
+  log("═══════════════════════════════════════════════════════════════", "dim");
+  log(`👥 CrUX Field Data: ${target}`, "bright");
+
+  if (!options.history) {
+    const period = data.collectionPeriod;
+    log(`   ${formFactor} | ${period.firstDate} → ${period.lastDate}`, "dim");
+    log(
+      "═══════════════════════════════════════════════════════════════",
+      "dim",
+    );
+    printFieldData(data, "p75 (28-day)");
+    printSectionFooter();
+    return;
+  }
+
+  const periods = data.collectionPeriods;
+  log(
+    `   ${formFactor} | ${periods.length} weeks, ${periods[0]?.firstDate} → ${periods[periods.length - 1]?.lastDate}`,
+    "dim",
+  );
+  log("═══════════════════════════════════════════════════════════════", "dim");
+  printSectionHeader("p75 Trends", "📈", false);
+
+  for (const [key, points] of Object.entries(data.metrics)) {
+    const trend = getCruxTrend(points);
+    if (!trend) continue;
+
+    const latest = points[points.length - 1];
+    const color = getRatingColor(latest.category);
+    const change =
+      key === "cls"
+        ? trend.change.toFixed(2)
+        : `${Math.round(trend.change)} ms`;
+    const sign = trend.change > 0 ? "+" : "";
+    const arrow = { improved: "↓", regressed: "↑", unchanged: "→" }[
+      trend.direction
+    ];
+
+    console.log(
+      `   ${key.toUpperCase().padEnd(5)} ${sparkline(points.map((p) => p.p75))}  ${formatFieldValue(key, trend.first)} → ${COLORS[color]}${formatFieldValue(key, trend.last)}${COLORS.reset} ${COLORS.dim}(${arrow} ${sign}${change}, ${sign}${trend.changePercent}%)${COLORS.reset}`,
+    );
   }
 
-  return violations;
+  printSectionFooter();
 }
 
 /**
@@ -1077,7 +1479,8 @@ function parseArgs() {
   const args = process.argv.slice(2);
   const options = {
     url: null,
-    strategy: "mobile",
+    // Set by --mobile/--desktop; otherwise mobile, or the config's strategy
+    strategy: null,
     verbose: false,
     insights: false,
     diagnostics: false,
@@ -1085,10 +1488,31 @@ function parseArgs() {
     detectContext: false,
     auditExports: false,
     json: false,
+    format: "text",
+    quiet: false,
+    maxLength: null,
     ci: false,
+    strict: false,
+    thresholds: [],
     config: null,
     output: null,
     baseline: null,
+    tolerance: null,
+    current: null,
+    cache: false,
+    refreshCache: false,
+    runs: 1,
+    locale: null,
+    record: null,
+    replay: null,
+    failOnWarnings: false,
+    lhr: null,
+    provider: null,
+    budget: null,
+    command: null,
+    origin: false,
+    history: false,
+    formFactor: null,
     help: false,
     version: false,
   };
@@ -1140,14 +1564,35 @@ function parseArgs() {
       case "--json":
       case "-j":
         options.json = true;
+        options.format = "json";
+        break;
+      case "--format":
+      case "-f":
+        options.format = args[++i];
+        options.json = options.format === "json";
         break;
       case "--ci":
         options.ci = true;
         break;
+      case "--strict":
+        options.strict = true;
+        break;
+      case "--threshold":
+      case "-t":
+        options.thresholds.push(args[++i]);
+        break;
       case "--config":
-      case "-c":
-        options.config = args[++i];
+      case "-c": {
+        // Optional value: without a path the config file is looked up
+        const value = args[i + 1];
+        if (value && !value.startsWith("-") && !/^https?:\/\//.test(value)) {
+          options.config = value;
+          i++;
+        } else {
+          options.config = true;
+        }
         break;
+      }
       case "--output":
       case "-o":
         options.output = args[++i];
@@ -1156,9 +1601,76 @@ function parseArgs() {
       case "-b":
         options.baseline = args[++i];
         break;
+      case "--tolerance":
+        options.tolerance = args[++i];
+        break;
+      case "--max-length":
+        options.maxLength = Number(args[++i]);
+        break;
+      case "--cache":
+        options.cache = true;
+        break;
+      case "--refresh-cache":
+        options.cache = true;
+        options.refreshCache = true;
+        break;
+      case "--runs":
+        options.runs = Math.max(1, parseInt(args[++i], 10) || 1);
+        break;
+      case "--locale":
+        options.locale = args[++i];
+        break;
+      case "--record":
+        options.record = args[++i];
+        break;
+      case "--replay":
+        options.replay = args[++i];
+        break;
+      case "--fail-on-warnings": {
+        // Optional value: "all" or a comma-separated list of warning types
+        const value = args[i + 1];
+        if (value && /^[a-z-]+(,[a-z-]+)*$/i.test(value)) {
+          // Types are validated in main(), once the library is loaded
+          options.failOnWarnings = value === "all" ? true : value;
+          i++;
+        } else {
+          options.failOnWarnings = true;
+        }
+        break;
+      }
+      case "--lhr":
+        options.lhr = args[++i];
+        break;
+      case "--provider":
+        options.provider = args[++i];
+        break;
+      case "--budget":
+        options.budget = args[++i];
+        break;
+      case "--origin":
+        options.origin = true;
+        break;
+      case "--history":
+        options.history = true;
+        break;
+      case "--form-factor":
+        options.formFactor = args[++i];
+        break;
       default:
-        if (!arg.startsWith("-") && !options.url) {
+        if (
+          (arg === "crux" || arg === "compare") &&
+          !options.command &&
+          !options.url
+        ) {
+          options.command = arg;
+        } else if (!arg.startsWith("-") && !options.url) {
           options.url = arg;
+        } else if (
+          !arg.startsWith("-") &&
+          options.command === "compare" &&
+          !options.current
+        ) {
+          options.current = arg;
         }
     }
   }
@@ -1187,8 +1699,12 @@ function showHelp() {
   console.log("Usage: perf-check <url> [options]\n");
 
   log("Commands:", "cyan");
+  console.log("  <url>              Analyze a URL and display Core Web Vitals");
+  console.log(
+    "  crux <url>         Show real-user (CrUX) field data and weekly trends",
+  );
   console.log(
-    "  <url>              Analyze a URL and display Core Web Vitals\n",
+    "  compare <baseline> <current>  Compare two results saved with --output\n",
   );
 
   log("Options:", "cyan");
@@ -1211,12 +1727,68 @@ function showHelp() {
   console.log(
     "  --json, -j         Output structured JSON (for programmatic use)",
   );
+  console.log(
+    "  --format, -f <fmt> Output format: text (default), json, html (needs --output) or markdown",
+  );
+  console.log(
+    "  --max-length <n>   Maximum Markdown length in characters (default: 65536)",
+  );
   console.log(
     "  --ci               CI mode (exit code 1 on threshold violations)",
   );
-  console.log("  --config, -c       Path to configuration file");
+  console.log(
+    "  --threshold, -t <key=value>  Override a threshold, e.g. lcp=2500 (repeatable)",
+  );
+  console.log(
+    "  --strict           Use the strict threshold preset (scores 90+, good Core Web Vitals)",
+  );
+  console.log(
+    "  --config, -c [file]  Analyze every URL of performance.config.{js,mjs,cjs,json}",
+  );
   console.log("  --output, -o       Output results to JSON file");
-  console.log("  --baseline, -b     Compare against baseline file");
+  console.log(
+    "  --baseline, -b     Compare against results saved with --output (fails --ci on regressions)",
+  );
+  console.log(
+    "  --tolerance <spec> Noise tolerances, e.g. score=3,lcp=250,ratio=0.1",
+  );
+  console.log(
+    "  --cache            Cache PSI responses on disk (1h TTL, .cache/performance-toolkit)",
+  );
+  console.log(
+    "  --refresh-cache    Ignore cached responses and store fresh ones",
+  );
+  console.log(
+    "  --runs <n>         Run N analyses and report the median run with statistics",
+  );
+  console.log(
+    "  --locale <code>    Locale for localized audit strings (e.g. es)",
+  );
+  console.log("  --record <dir>     Record PSI responses as fixtures in <dir>");
+  console.log(
+    "  --replay <dir>     Replay PSI responses from fixtures in <dir> (no network)",
+  );
+  console.log(
+    "  --provider <name>  Analysis provider: psi (default), local or file (with --lhr)",
+  );
+  console.log(
+    "  --lhr <path>       Import a Lighthouse JSON report or .lighthouseci directory",
+  );
+  console.log(
+    "  --budget <file>    Check against a Lighthouse budget.json (fails --ci on overruns)",
+  );
+  console.log(
+    "  --fail-on-warnings [types]  With --ci, fail on run warnings (all or e.g. redirect,timeout)",
+  );
+  console.log(
+    "  --origin           (crux) Query the URL's origin instead of the page",
+  );
+  console.log(
+    "  --history          (crux) Show 25-week trends from the CrUX History API",
+  );
+  console.log(
+    "  --form-factor <type>  (crux) phone, desktop or tablet (default: all)",
+  );
   console.log("  --help, -h         Show this help message");
   console.log("  --version, -V      Show version number\n");
 
@@ -1226,11 +1798,41 @@ function showHelp() {
   console.log("  perf-check https://www.example.com --insights");
   console.log("  perf-check https://www.example.com --actionable");
   console.log("  perf-check https://www.example.com --diagnostics");
+  console.log("  perf-check https://www.example.com --runs 5 --ci");
+  console.log(
+    "  perf-check https://www.example.com --ci --strict --threshold lcp=3000",
+  );
+  console.log(
+    "  perf-check https://www.example.com --actionable --replay fixtures/psi",
+  );
+  console.log(
+    "  perf-check https://www.example.com --actionable --cache  # Re-run offline",
+  );
   console.log(
     "  perf-check --audit-exports                    # Analyze local project",
   );
   console.log("  perf-check --audit-exports --json > exports.json");
+  console.log("  perf-check --provider local http://localhost:3000 --runs 3");
+  console.log("  perf-check --lhr ./report.json --actionable");
+  console.log(
+    "  perf-check https://staging.example.com --lhr .lighthouseci --ci",
+  );
+  console.log("  perf-check https://www.example.com --budget budget.json --ci");
+  console.log("  perf-check --config performance.config.js --ci");
+  console.log(
+    "  perf-check https://www.example.com --baseline baseline.json --ci",
+  );
+  console.log("  perf-check compare baseline.json results.json");
+  console.log(
+    "  perf-check crux https://www.example.com --history --form-factor phone",
+  );
   console.log("  perf-check https://www.example.com --json > report.json");
+  console.log(
+    "  perf-check https://www.example.com --format html --output report.html",
+  );
+  console.log(
+    '  perf-check https://www.example.com --ci --format markdown >> "$GITHUB_STEP_SUMMARY"',
+  );
   console.log(
     "  perf-check https://www.example.com --ci --output results.json\n",
   );
@@ -1239,6 +1841,9 @@ function showHelp() {
   console.log(
     "  PAGESPEED_API_KEY  Google PageSpeed API key (recommended for higher rate limits)",
   );
+  console.log(
+    "  CRUX_API_KEY       API key for the crux command (default: PAGESPEED_API_KEY)",
+  );
   console.log("");
   console.log(
     "  The CLI automatically loads .env.local or .env files from the current directory.",
@@ -1476,6 +2081,538 @@ function printExportAnalysis(analysis) {
   console.log("");
 }
 
+/**
+ * Name of the provider selected on the command line or in the config file
+ * @param {object} options - Parsed CLI options
+ * @param {object|null} [config] - Loaded configuration file (--config)
+ * @returns {string} Provider name
+ */
+function getProviderName(options, config = null) {
+  return (
+    options.provider ?? (options.lhr ? "file" : (config?.provider ?? "psi"))
+  );
+}
+
+/**
+ * Settings of the selected provider
+ * @param {string} provider - Provider name
+ * @param {object} options - Parsed CLI options
+ * @param {string|undefined} apiKey - PageSpeed API key
+ * @param {object|null} [config] - Loaded configuration file (--config)
+ * @returns {object} Provider options
+ */
+function getProviderOptions(provider, options, apiKey, config = null) {
+  if (provider === "file") {
+    return { path: options.lhr };
+  }
+  if (provider !== "psi") {
+    return { ...config?.providerOptions };
+  }
+
+  const fixtures = options.replay
+    ? { mode: "replay", directory: options.replay }
+    : options.record
+      ? { mode: "record", directory: options.record }
+      : undefined;
+
+  const toolkit = config?.toolkit ?? {};
+
+  return {
+    apiKey: toolkit.apiKey ?? apiKey,
+    cache: {
+      ...toolkit.cache,
+      enabled: options.cache || (toolkit.cache?.enabled ?? false),
+    },
+    ...(toolkit.retry && { retry: toolkit.retry }),
+    ...(toolkit.rateLimit && { rateLimit: toolkit.rateLimit }),
+    cacheMode: options.refreshCache ? "refresh" : "default",
+    fixtures,
+    onQueueEvent: (event) => {
+      if (!options.quiet && event.type === "waiting" && event.waitMs > 1000) {
+        info(
+          `Rate limit reached, waiting ${Math.ceil(event.waitMs / 1000)}s for the next request slot...`,
+        );
+      }
+    },
+    ...config?.providerOptions,
+  };
+}
+
+/**
+ * Create the selected provider
+ * @param {object} options - Parsed CLI options
+ * @param {string|undefined} apiKey - PageSpeed API key
+ * @param {object|null} [config] - Loaded configuration file (--config)
+ * @returns {Promise<object>} Provider name, instance and settings
+ */
+async function createProvider(options, apiKey, config = null) {
+  const provider = getProviderName(options, config);
+
+  if (options.lhr && provider !== "file") {
+    throw new Error(
+      `--lhr imports reports with the file provider and cannot be combined with --provider ${provider}`,
+    );
+  }
+  if (provider === "file" && !options.lhr) {
+    throw new Error("The file provider needs a report: pass --lhr <path>");
+  }
+
+  // Dynamic import of the main module
+  const { getProvider } = await import("../dist/index.js");
+  const providerOptions = getProviderOptions(provider, options, apiKey, config);
+
+  return {
+    provider,
+    analyzer: getProvider(provider, providerOptions),
+    providerOptions,
+  };
+}
+
+/**
+ * Analyze the URL with the selected provider: PageSpeed Insights, local
+ * Lighthouse, imported reports (file) or a registered third-party provider
+ * @param {object} options - Parsed CLI options
+ * @param {string|undefined} apiKey - PageSpeed API key
+ * @returns {Promise<object>} Performance result
+ */
+async function analyzeWithProvider(options, apiKey) {
+  const { provider, analyzer, providerOptions } = await createProvider(
+    options,
+    apiKey,
+  );
+
+  const strategy = options.strategy ?? "mobile";
+
+  if (!options.quiet) {
+    if (provider === "file") {
+      info(`Importing Lighthouse report(s) from ${options.lhr}...`);
+    } else {
+      const runs = options.runs > 1 ? `, ${options.runs} runs` : "";
+      const via = provider === "psi" ? "" : ` with the ${provider} provider`;
+      info(`Analyzing ${options.url} (${strategy}${runs})${via}...`);
+    }
+    console.log("");
+  }
+
+  const result = await analyzer.analyze(options.url ?? "", {
+    // Imported reports keep the strategy they were run with
+    ...(provider !== "file" && { strategy }),
+    numberOfRuns: options.runs,
+    ...(options.locale && { locale: options.locale }),
+  });
+
+  const { fixtures } = providerOptions;
+  if (fixtures && !options.quiet) {
+    info(
+      fixtures.mode === "record"
+        ? `Recorded PSI response in ${fixtures.directory}`
+        : `Replayed PSI response from ${fixtures.directory}`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Threshold violations and failing run warnings of a result
+ * @param {object} result - Performance result
+ * @param {object} thresholds - Threshold configuration
+ * @param {object} options - Parsed CLI options
+ * @returns {Promise<Array>} Violations
+ */
+async function getViolations(result, thresholds, options) {
+  const { evaluateThresholds, getFailingWarnings } =
+    await import("../dist/index.js");
+
+  return [
+    ...evaluateThresholds(result, thresholds).map((violation) => ({
+      metric: violation.metric,
+      actual:
+        violation.key === "cls"
+          ? violation.current.toFixed(3)
+          : Math.round(violation.current),
+      threshold: violation.threshold,
+      severity: "error",
+      url: result.url,
+    })),
+    ...getFailingWarnings(result.warnings, options.failOnWarnings).map(
+      (warning) => ({
+        metric: `Run warning (${warning.type})`,
+        actual: warning.message,
+        threshold: "not allowed",
+        severity: "error",
+        url: result.url,
+      }),
+    ),
+  ];
+}
+
+/**
+ * Load the --baseline file and return a function comparing a result against
+ * its baseline run (same URL and strategy, or the only saved run when its
+ * URL differs, e.g. staging against production)
+ * @param {object} options - Parsed CLI options
+ * @returns {Promise<Function>} Comparison of a result, or null without a baseline run
+ */
+async function loadBaselineComparer(options) {
+  const {
+    readBaselineFile,
+    findBaselineResult,
+    compareResults,
+    parseTolerances,
+  } = await import("../dist/index.js");
+
+  const baselines = readBaselineFile(options.baseline);
+  const tolerances = parseTolerances(options.tolerance ?? "");
+
+  return (result) => {
+    const baseline =
+      findBaselineResult(baselines, result) ??
+      (baselines.length === 1 && baselines[0].strategy === result.strategy
+        ? baselines[0]
+        : undefined);
+    return baseline ? compareResults(baseline, result, tolerances) : null;
+  };
+}
+
+/**
+ * Baseline regressions as threshold violations
+ * @param {object|null} comparison - Baseline comparison
+ * @returns {Array} Violations
+ */
+function getRegressionViolations(comparison) {
+  return (comparison?.regressions ?? []).map((regression) => {
+    const format = (value) =>
+      regression.kind === "score"
+        ? value
+        : formatComparedValue(regression.id, value);
+    return {
+      metric: `${regression.kind === "score" ? regression.id : regression.id.toUpperCase()} regression (${regression.severity})`,
+      actual: format(regression.current),
+      threshold: `baseline ${format(regression.baseline)}`,
+      severity: "error",
+      url: comparison.url,
+    };
+  });
+}
+
+/**
+ * Generate the actionable report of a result, with the project context
+ * when it can be detected
+ * @param {object} result - Performance result
+ * @returns {Promise<object>} Actionable report
+ */
+async function createActionableReport(result) {
+  const { detectProjectContext, generateActionableReport } =
+    await import("../dist/index.js");
+
+  let projectContext = null;
+  try {
+    projectContext = await detectProjectContext(process.cwd());
+  } catch {
+    // Reports without context skip framework-specific notes
+  }
+  return generateActionableReport(result, projectContext);
+}
+
+/**
+ * Render a result as Markdown: the actionable report with --actionable,
+ * checked against the --ci thresholds and the --baseline run
+ * @param {object} result - Performance result
+ * @param {object} options - Parsed CLI options
+ * @param {object} checks - Thresholds (with --ci) and baseline comparison
+ * @returns {Promise<string>} Markdown
+ */
+async function renderMarkdown(result, options, { thresholds, comparison }) {
+  const { renderResultMarkdown, renderReportMarkdown } =
+    await import("../dist/index.js");
+
+  const markdownOptions = {
+    ...(options.maxLength && { maxLength: options.maxLength }),
+    ...(options.ci && { thresholds }),
+    ...(comparison && { comparison }),
+  };
+
+  return options.actionable
+    ? renderReportMarkdown(
+        await createActionableReport(result),
+        markdownOptions,
+      )
+    : renderResultMarkdown(result, markdownOptions);
+}
+
+/**
+ * Print the combined outcome of a configuration run
+ * @param {Array} outcomes - Per-URL outcomes
+ */
+function printConfigOutcome(outcomes) {
+  const passed = outcomes.filter((outcome) => outcome.passed).length;
+
+  printSectionHeader("Configuration Summary", "📋");
+  for (const outcome of outcomes) {
+    if (outcome.error) {
+      console.log(
+        `   ❌ ${truncateUrl(outcome.url)} - ${outcome.error.message}`,
+      );
+    } else if (outcome.passed) {
+      console.log(
+        `   ✅ ${truncateUrl(outcome.url)} - performance ${outcome.result.scores.performance}`,
+      );
+    } else {
+      console.log(
+        `   ❌ ${truncateUrl(outcome.url)} - ${outcome.violations.length} violation(s)`,
+      );
+    }
+  }
+  printSectionFooter();
+
+  if (passed === outcomes.length) {
+    success(`All ${outcomes.length} URL(s) passed`);
+  } else {
+    error(`${outcomes.length - passed} of ${outcomes.length} URL(s) failed`);
+  }
+}
+
+/**
+ * Analyze every URL of a performance.config file against its thresholds
+ * and URL overrides, with one combined pass/fail outcome
+ * @param {object} options - Parsed CLI options
+ * @param {string|undefined} apiKey - PageSpeed API key
+ * @returns {Promise<number>} Exit code
+ */
+async function runConfig(options, apiKey) {
+  const {
+    loadConfig,
+    resolveThresholds,
+    parseThresholds,
+    readBudgetFile,
+    evaluateBudgets,
+    formatBudgetViolation,
+    renderResultsMarkdown,
+  } = await import("../dist/index.js");
+
+  if (options.format === "html") {
+    throw new Error(
+      "--format html renders the report of a single URL and cannot be combined with --config",
+    );
+  }
+
+  const config = await loadConfig(
+    options.config === true ? undefined : options.config,
+  );
+  const { project } = config;
+  const urls = options.url ? [options.url] : project.urls;
+  // --mobile/--desktop override the config, as --threshold does
+  const strategy = options.strategy ?? project.strategy;
+  const overrides = parseThresholds(options.thresholds.join(","));
+  const budgets = options.budget ? readBudgetFile(options.budget) : null;
+  const compareToBaseline = options.baseline
+    ? await loadBaselineComparer(options)
+    : null;
+  const { provider, analyzer } = await createProvider(options, apiKey, config);
+
+  if (!options.quiet) {
+    info(
+      `Loaded ${path.relative(process.cwd(), config.filePath)}: ${urls.length} URL(s), ${strategy}`,
+    );
+    if (provider === "psi" && !config.toolkit.apiKey && !apiKey) {
+      warn(
+        "PAGESPEED_API_KEY not found. Running in free tier mode (2 requests/min limit).",
+      );
+    }
+  }
+
+  const outcomes = [];
+  for (const [index, url] of urls.entries()) {
+    if (!options.quiet) {
+      info(`[${index + 1}/${urls.length}] Analyzing ${url}...`);
+    }
+
+    try {
+      const result = await analyzer.analyze(url, {
+        // Imported reports keep the strategy they were run with
+        ...(provider !== "file" && { strategy }),
+        categories: project.categories,
+        numberOfRuns: options.runs > 1 ? options.runs : config.numberOfRuns,
+        ...((options.locale ?? config.locale) && {
+          locale: options.locale ?? config.locale,
+        }),
+      });
+      const thresholds = resolveThresholds(url, {
+        config: project,
+        strict: options.strict,
+        overrides,
+      });
+      const budgetResult = budgets ? evaluateBudgets(result, budgets) : null;
+      const comparison = compareToBaseline?.(result) ?? null;
+      const violations = [
+        ...(await getViolations(result, thresholds, options)),
+        ...(budgetResult?.violations ?? []).map((violation) => ({
+          metric: `Budget ${violation.id} ${BUDGET_KIND_LABELS[violation.kind]}`,
+          actual: violation.actual,
+          threshold: violation.budget,
+          severity: "error",
+          url: result.url,
+        })),
+        ...getRegressionViolations(comparison),
+      ];
+
+      outcomes.push({
+        url,
+        passed: violations.length === 0,
+        result,
+        thresholds,
+        violations,
+        ...(comparison && { comparison }),
+      });
+
+      if (!options.quiet) {
+        printSummary(result, budgetResult, formatBudgetViolation);
+        if (comparison) {
+          printComparison(comparison);
+        } else if (compareToBaseline) {
+          warn(`No baseline run of ${url} (${result.strategy}) to compare`);
+        }
+        printViolations(violations);
+      }
+    } catch (err) {
+      outcomes.push({
+        url,
+        passed: false,
+        error: { name: err.name, message: err.message, code: err.code },
+        violations: [],
+      });
+
+      if (!options.quiet) {
+        error(`Analysis of ${url} failed: ${err.message}`);
+      }
+    }
+  }
+
+  const passed = outcomes.every((outcome) => outcome.passed);
+  const markdown =
+    options.format === "markdown"
+      ? renderResultsMarkdown(
+          outcomes.map(({ url, result, error, thresholds, comparison }) => ({
+            url,
+            result,
+            error: error?.message,
+            thresholds,
+            comparison,
+          })),
+          { maxLength: options.maxLength ?? undefined },
+        )
+      : null;
+
+  if (markdown !== null && options.output) {
+    fs.writeFileSync(options.output, markdown);
+  } else if (options.output) {
+    const outputData = outcomes
+      .filter((outcome) => outcome.result)
+      .map(({ result }) => ({ ...result, rawResponse: undefined }));
+    fs.writeFileSync(options.output, JSON.stringify(outputData, null, 2));
+  }
+
+  if (options.json) {
+    const outputData = {
+      config: config.filePath,
+      strategy,
+      passed,
+      results: outcomes.map(({ url, result, ...outcome }) => ({
+        url,
+        ...outcome,
+        ...(result && {
+          scores: result.scores,
+          metrics: result.metrics,
+          reliable: result.reliable !== false,
+          ...(result.fieldMetrics && { fieldMetrics: result.fieldMetrics }),
+        }),
+      })),
+    };
+    console.log(JSON.stringify(outputData, null, 2));
+  } else if (options.quiet) {
+    console.log(markdown);
+  } else {
+    printConfigOutcome(outcomes);
+    if (options.output) {
+      success(
+        `${markdown !== null ? "Markdown report" : "Results"} saved to ${options.output}`,
+      );
+    }
+  }
+
+  const failOnViolation = options.ci || project.ci?.failOnViolation;
+  return !passed && failOnViolation ? 1 : 0;
+}
+
+/**
+ * Compare two saved result files (`perf-check compare <baseline> <current>`)
+ * without running an analysis
+ * @param {object} options - Parsed CLI options
+ * @returns {Promise<number>} Exit code
+ */
+async function runCompare(options) {
+  if (!options.url || !options.current) {
+    throw new Error(
+      "Usage: perf-check compare <baseline.json> <current.json> [--tolerance <spec>]",
+    );
+  }
+
+  const {
+    readBaselineFile,
+    compareResults,
+    compareWithBaseline,
+    parseTolerances,
+    renderComparisonMarkdown,
+  } = await import("../dist/index.js");
+
+  const baselines = readBaselineFile(options.url);
+  const results = readBaselineFile(options.current);
+  const tolerances = parseTolerances(options.tolerance ?? "");
+  const comparisons =
+    baselines.length === 1 && results.length === 1
+      ? [compareResults(baselines[0], results[0], tolerances)]
+      : compareWithBaseline(baselines, results, tolerances);
+
+  if (comparisons.length === 0) {
+    throw new Error(
+      `No result in ${options.current} matches a URL and strategy of ${options.url}`,
+    );
+  }
+
+  const hasRegressions = comparisons.some(
+    (comparison) => comparison.hasRegressions,
+  );
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        { baseline: options.url, hasRegressions, comparisons },
+        null,
+        2,
+      ),
+    );
+  } else if (options.format === "markdown") {
+    const markdown = renderComparisonMarkdown(comparisons, {
+      maxLength: options.maxLength ?? undefined,
+    });
+    if (options.output) {
+      fs.writeFileSync(options.output, markdown);
+      success(`Markdown comparison saved to ${options.output}`);
+    } else {
+      console.log(markdown);
+    }
+  } else {
+    for (const comparison of comparisons) {
+      log(`\n🌐 ${comparison.url} (${comparison.strategy})`, "bright");
+      printComparison(comparison);
+    }
+    console.log("");
+  }
+
+  return options.ci && hasRegressions ? 1 : 0;
+}
+
 /**
  * Main CLI entry point
  */
@@ -1492,20 +2629,61 @@ async function main() {
     process.exit(0);
   }
 
-  if (!options.url && !options.config && !options.auditExports) {
+  if (
+    !options.url &&
+    !options.config &&
+    !options.auditExports &&
+    !options.lhr
+  ) {
     error("No URL provided");
     showHelp();
     process.exit(1);
   }
 
+  if (!OUTPUT_FORMATS.includes(options.format)) {
+    error(
+      `Unknown format "${options.format}", expected ${OUTPUT_FORMATS.join(", ")}`,
+    );
+    process.exit(1);
+  }
+  if (options.format === "html" && !options.output) {
+    error("--format html writes a file: add --output <file>");
+    process.exit(1);
+  }
+  if (
+    options.maxLength !== null &&
+    !(Number.isInteger(options.maxLength) && options.maxLength > 0)
+  ) {
+    error("--max-length expects a positive number of characters");
+    process.exit(1);
+  }
+  if (typeof options.failOnWarnings === "string") {
+    const { parseWarningTypes } = await import("../dist/index.js");
+    try {
+      options.failOnWarnings = parseWarningTypes(options.failOnWarnings);
+    } catch (err) {
+      error(`--fail-on-warnings: ${err.message}`);
+      process.exit(1);
+    }
+  }
+  // Markdown printed to stdout replaces the progress output, like JSON
+  options.quiet =
+    options.json || (options.format === "markdown" && !options.output);
+
   // Load .env.local or .env file if exists (for local development)
   const loadedEnvFile = loadEnvFile();
 
   const apiKey = process.env.PAGESPEED_API_KEY;
   const runningInCI = isCI();
 
-  // Show environment info (unless in JSON mode)
-  if (!options.json) {
+  // Show environment info (unless in JSON mode or querying CrUX)
+  if (
+    !options.quiet &&
+    options.command !== "crux" &&
+    options.command !== "compare" &&
+    !options.config &&
+    getProviderName(options) === "psi"
+  ) {
     if (loadedEnvFile && apiKey) {
       info(`Loaded API key from ${loadedEnvFile}`);
     } else if (runningInCI && apiKey) {
@@ -1521,6 +2699,17 @@ async function main() {
   }
 
   try {
+    // Handle the crux command (field data only, no Lighthouse run)
+    if (options.command === "crux") {
+      await runCrux(options);
+      process.exit(0);
+    }
+
+    // Handle the compare command (two saved results, no analysis)
+    if (options.command === "compare") {
+      process.exit(await runCompare(options));
+    }
+
     // Handle --audit-exports flag (standalone, no URL required)
     if (options.auditExports) {
       if (!options.json) {
@@ -1544,19 +2733,47 @@ async function main() {
       process.exit(0);
     }
 
-    if (!options.json) {
-      info(`Analyzing ${options.url} (${options.strategy})...`);
-      console.log("");
+    // Handle --config (every URL of the configuration file)
+    if (options.config) {
+      process.exit(await runConfig(options, apiKey));
     }
 
-    // Dynamic import of the main module
-    const { analyzeUrl } = await import("../dist/index.js");
-
-    const result = await analyzeUrl(options.url, {
-      strategy: options.strategy,
-      apiKey,
+    const {
+      readBudgetFile,
+      evaluateBudgets,
+      formatBudgetViolation,
+      resolveThresholds,
+      parseThresholds,
+    } = await import("../dist/index.js");
+    const overrides = parseThresholds(options.thresholds.join(","));
+    const budgets = options.budget ? readBudgetFile(options.budget) : null;
+    const compareToBaseline = options.baseline
+      ? await loadBaselineComparer(options)
+      : null;
+
+    const result = await analyzeWithProvider(options, apiKey);
+    const budgetResult = budgets ? evaluateBudgets(result, budgets) : null;
+    const comparison = compareToBaseline?.(result) ?? null;
+    const thresholds = resolveThresholds(result.url, {
+      strict: options.strict,
+      overrides,
     });
 
+    // Everything that fails --ci, whatever the output format
+    const violations = options.ci
+      ? [
+          ...(await getViolations(result, thresholds, options)),
+          ...(budgetResult?.violations ?? []).map((violation) => ({
+            metric: `Budget ${violation.id} ${BUDGET_KIND_LABELS[violation.kind]}`,
+            actual: violation.actual,
+            threshold: violation.budget,
+            severity: "error",
+            url: result.url,
+          })),
+          ...getRegressionViolations(comparison),
+        ]
+      : [];
+
     // JSON output mode
     if (options.json) {
       let projectContext = null;
@@ -1596,6 +2813,14 @@ async function main() {
           tti: result.metrics.tti,
         },
         lcpElement: result.lcpElement,
+        ...(result.fieldMetrics && { fieldMetrics: result.fieldMetrics }),
+        reliable: result.reliable !== false,
+        warnings: result.warnings ?? [],
+        ...(result.aggregation && { aggregation: result.aggregation }),
+        ...(result.resources && { resources: result.resources }),
+        ...(budgetResult && { budget: budgetResult }),
+        ...(comparison && { comparison }),
+        ...(options.ci && { passed: violations.length === 0, violations }),
         insights: result.insights,
         opportunities: result.opportunities.map((op) => ({
           id: op.id,
@@ -1613,11 +2838,28 @@ async function main() {
         }),
       };
       console.log(JSON.stringify(outputData, null, 2));
-      process.exit(0);
+      process.exit(violations.length > 0 ? 1 : 0);
+    }
+
+    // Markdown output mode (printed for PR comments and job summaries)
+    if (options.quiet) {
+      console.log(
+        await renderMarkdown(result, options, { thresholds, comparison }),
+      );
+      process.exit(violations.length > 0 ? 1 : 0);
     }
 
     // Print summary
-    printSummary(result);
+    printSummary(result, budgetResult, formatBudgetViolation);
+
+    // Print baseline comparison
+    if (comparison) {
+      printComparison(comparison);
+    } else if (compareToBaseline) {
+      warn(
+        `No baseline run of ${result.url} (${result.strategy}) in ${options.baseline}`,
+      );
+    }
 
     // Print opportunities if verbose
     if (options.verbose && result.opportunities.length > 0) {
@@ -1711,8 +2953,20 @@ async function main() {
       }
     }
 
-    // Save output if requested
-    if (options.output) {
+    // Save the HTML report
+    if (options.format === "html") {
+      const { renderHtmlReport } = await import("../dist/index.js");
+      const report = actionableReport ?? (await createActionableReport(result));
+      fs.writeFileSync(options.output, renderHtmlReport(report));
+      success(`HTML report saved to ${options.output}`);
+    } else if (options.format === "markdown") {
+      fs.writeFileSync(
+        options.output,
+        await renderMarkdown(result, options, { thresholds, comparison }),
+      );
+      success(`Markdown report saved to ${options.output}`);
+    } else if (options.output) {
+      // Save output if requested
       const outputData = {
         ...result,
         rawResponse: undefined, // Remove raw response from output
@@ -1723,15 +2977,11 @@ async function main() {
 
     // Check thresholds in CI mode
     if (options.ci) {
-      const thresholds = {
-        performance: 50,
-        lcp: 4000,
-        fcp: 3000,
-        cls: 0.25,
-        tbt: 600,
-      };
-
-      const violations = checkThresholds(result, thresholds);
+      if (result.reliable === false) {
+        warn(
+          "Lighthouse reported run warnings: threshold results may not be trustworthy.",
+        );
+      }
       printViolations(violations);
 
       if (violations.length > 0) {
@@ -1741,15 +2991,32 @@ async function main() {
 
     process.exit(0);
   } catch (err) {
+    // Toolkit errors carry a stable code and exit code
+    const errorJson =
+      typeof err.toJSON === "function"
+        ? err.toJSON()
+        : {
+            name: err.name,
+            code: "UNKNOWN",
+            message: err.message,
+            exitCode: 1,
+          };
+
     if (options.json) {
-      console.log(JSON.stringify({ error: err.message }, null, 2));
+      console.log(JSON.stringify({ error: errorJson }, null, 2));
     } else {
       error(`Analysis failed: ${err.message}`);
+      const hint =
+        (options.command === "crux" && CRUX_ERROR_HINTS[errorJson.code]) ||
+        ERROR_HINTS[errorJson.code];
+      if (hint) {
+        info(hint);
+      }
       if (options.verbose || options.insights) {
         console.error(err);
       }
     }
-    process.exit(1);
+    process.exit(errorJson.exitCode ?? 1);
   }
 }
 
@@ -0,0 +1,170 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Checks PerformanceResults against Lighthouse-style budgets.
+ *
+ * @module budget/evaluate
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  Budget,
+  BudgetResult,
+  BudgetTimingMetric,
+  BudgetViolation,
+  CoreWebVitals,
+  PerformanceResult,
+  ResourceBudget,
+} from "../types";
+
+/** Bytes per KiB, the unit of `resourceSizes` budgets */
+const KIB = 1024;
+
+/** PerformanceResult metric of each timing budget metric */
+export const BUDGET_TIMING_METRICS: Record<
+  BudgetTimingMetric,
+  keyof CoreWebVitals
+> = {
+  "first-contentful-paint": "fcp",
+  "largest-contentful-paint": "lcp",
+  "cumulative-layout-shift": "cls",
+  "total-blocking-time": "tbt",
+  "speed-index": "si",
+  interactive: "tti",
+};
+
+/** Label and unit of each kind of violation */
+const VIOLATION_FORMATS: Record<
+  BudgetViolation["kind"],
+  { label: string; unit: string }
+> = {
+  resourceSize: { label: " size", unit: " KiB" },
+  resourceCount: { label: " count", unit: " requests" },
+  timing: { label: "", unit: " ms" },
+};
+
+/**
+ * Checks whether a budget path pattern matches a URL, as Lighthouse does:
+ * patterns match the start of the path and query, `*` matches anything and
+ * a trailing `$` requires the URL to end there
+ * @param pattern - Budget path (e.g. "/blog/*", "/checkout$")
+ * @param url - Page URL
+ */
+export function matchesBudgetPath(pattern: string, url: string): boolean {
+  let pathAndQuery: string;
+  try {
+    const parsed = new URL(url);
+    pathAndQuery = parsed.pathname + parsed.search;
+  } catch {
+    return false;
+  }
+
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(pathAndQuery);
+}
+
+/**
+ * Finds the budget that applies to a URL (the last matching one)
+ * @param budgets - Budgets in `budget.json` order
+ * @param url - Page URL
+ */
+export function getMatchingBudget(
+  budgets: Budget[],
+  url: string,
+): Budget | undefined {
+  return budgets
+    .filter((budget) => !budget.path || matchesBudgetPath(budget.path, url))
+    .pop();
+}
+
+/**
+ * Checks a result against the budget matching its URL. Works the same for
+ * PSI results, imported reports and LHCI runs.
+ * @param result - Performance result
+ * @param budgets - Budgets in `budget.json` order
+ * @returns Violations of the matching budget (passes when none matched)
+ */
+export function evaluateBudgets(
+  result: PerformanceResult,
+  budgets: Budget[],
+): BudgetResult {
+  const budget = getMatchingBudget(budgets, result.url);
+  const violations: BudgetViolation[] = [];
+  let skipped = 0;
+
+  const checkResources = (
+    kind: "resourceSize" | "resourceCount",
+    entries: ResourceBudget[] = [],
+  ): void => {
+    for (const { resourceType, budget: limit } of entries) {
+      const usage = result.resources?.[resourceType];
+      if (!usage) {
+        skipped++;
+        continue;
+      }
+
+      const actual =
+        kind === "resourceSize"
+          ? Math.round((usage.transferSize / KIB) * 10) / 10
+          : usage.requestCount;
+      if (actual > limit) {
+        violations.push(createViolation(kind, resourceType, limit, actual));
+      }
+    }
+  };
+
+  checkResources("resourceSize", budget?.resourceSizes);
+  checkResources("resourceCount", budget?.resourceCounts);
+
+  for (const { metric, budget: limit } of budget?.timings ?? []) {
+    const actual = result.metrics[BUDGET_TIMING_METRICS[metric]]?.value;
+    if (actual > limit) {
+      violations.push(createViolation("timing", metric, limit, actual));
+    }
+  }
+
+  return {
+    url: result.url,
+    ...(budget && { path: budget.path ?? "/" }),
+    passed: violations.length === 0,
+    violations,
+    skipped,
+  };
+}
+
+/**
+ * Formats a budget violation for terminal or CI output
+ * @param violation - Budget violation
+ * @returns e.g. "script size: 412.5 KiB (budget 300 KiB, +112.5 KiB)"
+ */
+export function formatBudgetViolation(violation: BudgetViolation): string {
+  const { kind, id, budget, actual, overBudget } = violation;
+  const { label, unit } = VIOLATION_FORMATS[kind];
+  const suffix = id === "cumulative-layout-shift" ? "" : unit;
+
+  return `${id}${label}: ${actual}${suffix} (budget ${budget}${suffix}, +${overBudget}${suffix})`;
+}
+
+/**
+ * Creates a violation, rounding the overrun to the measured precision
+ */
+function createViolation(
+  kind: BudgetViolation["kind"],
+  id: BudgetViolation["id"],
+  budget: number,
+  actual: number,
+): BudgetViolation {
+  return {
+    kind,
+    id,
+    budget,
+    actual,
+    overBudget: Math.round((actual - budget) * 1000) / 1000,
+  };
+}
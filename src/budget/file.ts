@@ -0,0 +1,59 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Reads and writes Lighthouse `budget.json` files.
+ *
+ * @module budget/file
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import type { Budget } from "../types";
+
+/**
+ * Validates parsed `budget.json` content
+ * @param data - Parsed JSON
+ * @param source - File path or description used in error messages
+ * @throws Error when the content is not an array of budgets
+ */
+export function parseBudgets(data: unknown, source = "budgets"): Budget[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid budgets in ${source}: expected an array`);
+  }
+
+  data.forEach((budget, index) => {
+    if (!budget || typeof budget !== "object") {
+      throw new Error(
+        `Invalid budgets in ${source}: entry ${index} is not an object`,
+      );
+    }
+    for (const key of ["resourceSizes", "resourceCounts", "timings"]) {
+      const entries = (budget as Record<string, unknown>)[key];
+      if (entries !== undefined && !Array.isArray(entries)) {
+        throw new Error(
+          `Invalid budgets in ${source}: entry ${index} ${key} must be an array`,
+        );
+      }
+    }
+  });
+
+  return data as Budget[];
+}
+
+/**
+ * Reads a Lighthouse `budget.json` file
+ * @param filePath - Path to the file
+ * @throws Error when the file is missing or invalid
+ */
+export function readBudgetFile(filePath: string): Budget[] {
+  return parseBudgets(JSON.parse(fs.readFileSync(filePath, "utf-8")), filePath);
+}
+
+/**
+ * Serializes budgets as `budget.json` content
+ * @param budgets - Budgets to write
+ */
+export function generateBudgetFile(budgets: Budget[]): string {
+  return `${JSON.stringify(budgets, null, 2)}\n`;
+}
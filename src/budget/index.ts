@@ -0,0 +1,22 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Budget module - resource size, request count and timing budgets in the
+ * Lighthouse `budget.json` format.
+ *
+ * @module budget
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+// Evaluation
+export {
+  evaluateBudgets,
+  getMatchingBudget,
+  matchesBudgetPath,
+  formatBudgetViolation,
+  BUDGET_TIMING_METRICS,
+} from "./evaluate";
+
+// budget.json files
+export { parseBudgets, readBudgetFile, generateBudgetFile } from "./file";
@@ -0,0 +1,107 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Reads saved PerformanceResults to compare new runs against.
+ *
+ * @module compare/baseline
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import type {
+  PerformanceResult,
+  ResultComparison,
+  ToleranceOverrides,
+} from "../types";
+import { normalizeUrl } from "../pagespeed/utils";
+import { compareResults } from "./compare";
+
+/**
+ * Validates saved results: one PerformanceResult (`perf-check --output`) or
+ * an array of them (`perf-check --config --output`)
+ * @param data - Parsed JSON
+ * @param source - File path or description used in error messages
+ * @throws Error when an entry is not a PerformanceResult
+ */
+export function parseBaseline(
+  data: unknown,
+  source = "baseline",
+): PerformanceResult[] {
+  const entries = Array.isArray(data) ? data : [data];
+  if (entries.length === 0) {
+    throw new Error(`Invalid baseline in ${source}: no results`);
+  }
+
+  entries.forEach((entry, index) => {
+    const label = Array.isArray(data) ? `entry ${index}` : "content";
+    const result = entry as Partial<PerformanceResult> | null;
+    const missing = !result
+      ? "a result object"
+      : typeof result.url !== "string"
+        ? "url"
+        : typeof result.strategy !== "string"
+          ? "strategy"
+          : typeof result.scores !== "object" || result.scores === null
+            ? "scores"
+            : typeof result.metrics?.lcp?.value !== "number"
+              ? "metrics"
+              : !Array.isArray(result.opportunities)
+                ? "opportunities"
+                : undefined;
+
+    if (missing) {
+      throw new Error(
+        `Invalid baseline in ${source}: ${label} is not a saved PerformanceResult (missing ${missing})`,
+      );
+    }
+  });
+
+  return entries as PerformanceResult[];
+}
+
+/**
+ * Reads results saved with `perf-check --output`
+ * @param filePath - JSON file path
+ * @throws Error when the file is missing or is not a saved result
+ */
+export function readBaselineFile(filePath: string): PerformanceResult[] {
+  return parseBaseline(
+    JSON.parse(fs.readFileSync(filePath, "utf-8")),
+    filePath,
+  );
+}
+
+/**
+ * Finds the baseline run of a result's URL and strategy
+ * @param baselines - Saved results
+ * @param result - New result
+ */
+export function findBaselineResult(
+  baselines: PerformanceResult[],
+  result: Pick<PerformanceResult, "url" | "strategy">,
+): PerformanceResult | undefined {
+  return baselines.find(
+    (baseline) =>
+      normalizeUrl(baseline.url) === normalizeUrl(result.url) &&
+      baseline.strategy === result.strategy,
+  );
+}
+
+/**
+ * Compares new results against the saved runs of the same URL and
+ * strategy. Results without a baseline run are skipped.
+ * @param baselines - Saved results
+ * @param results - New results
+ * @param tolerances - Tolerance overrides
+ */
+export function compareWithBaseline(
+  baselines: PerformanceResult[],
+  results: PerformanceResult[],
+  tolerances: ToleranceOverrides = {},
+): ResultComparison[] {
+  return results.flatMap((result) => {
+    const baseline = findBaselineResult(baselines, result);
+    return baseline ? [compareResults(baseline, result, tolerances)] : [];
+  });
+}
@@ -0,0 +1,385 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Compares a PerformanceResult against a baseline run.
+ *
+ * @module compare/compare
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  CategoryScores,
+  ComparisonTolerances,
+  CoreWebVitals,
+  DetailedInsights,
+  InsightChange,
+  InsightType,
+  ListChanges,
+  MetricChange,
+  MetricRating,
+  OpportunityChange,
+  PerformanceResult,
+  Regression,
+  ResultComparison,
+  ScoreChange,
+  ToleranceOverrides,
+} from "../types";
+import { resolveTolerances } from "./tolerances";
+
+/** Display names of the compared categories */
+const SCORE_LABELS: Record<keyof CategoryScores, string> = {
+  performance: "Performance",
+  accessibility: "Accessibility",
+  bestPractices: "Best Practices",
+  seo: "SEO",
+};
+
+/** How each insight list is keyed and measured */
+const INSIGHT_MEASURES: {
+  [K in InsightType]: {
+    unit: "ms" | "bytes";
+    key: (item: DetailedInsights[K][number]) => string;
+    cost: (item: DetailedInsights[K][number]) => number;
+  };
+} = {
+  cacheIssues: {
+    unit: "bytes",
+    key: (item) => item.url,
+    cost: (item) => item.wastedBytes,
+  },
+  imageIssues: {
+    unit: "bytes",
+    key: (item) => item.url,
+    cost: (item) => item.wastedBytes,
+  },
+  unusedJavaScript: {
+    unit: "bytes",
+    key: (item) => item.url,
+    cost: (item) => item.wastedBytes,
+  },
+  unusedCSS: {
+    unit: "bytes",
+    key: (item) => item.url,
+    cost: (item) => item.wastedBytes,
+  },
+  legacyJavaScript: {
+    unit: "bytes",
+    key: (item) => item.url,
+    cost: (item) => item.wastedBytes,
+  },
+  thirdParties: {
+    unit: "ms",
+    key: (item) => item.entity,
+    cost: (item) => item.blockingTime,
+  },
+  longTasks: {
+    unit: "ms",
+    key: (item) => item.url ?? item.attribution ?? "unattributed",
+    cost: (item) => item.duration,
+  },
+  renderBlocking: {
+    unit: "ms",
+    key: (item) => item.url,
+    cost: (item) => item.wastedMs,
+  },
+};
+
+/** Rank of each metric rating (higher is worse) */
+const RATING_RANK: Record<MetricRating, number> = {
+  good: 0,
+  "needs-improvement": 1,
+  poor: 2,
+};
+
+/**
+ * Compares a result against a baseline run of the same page. Score and
+ * metric changes within the tolerances count as unchanged; larger drops are
+ * regressions, `critical` when the rating gets worse.
+ * @param baseline - Earlier result (e.g. saved with `--output`)
+ * @param current - New result
+ * @param tolerances - Tolerance overrides
+ */
+export function compareResults(
+  baseline: PerformanceResult,
+  current: PerformanceResult,
+  tolerances: ToleranceOverrides = {},
+): ResultComparison {
+  const resolved = resolveTolerances(tolerances);
+  const scores = compareScores(baseline.scores, current.scores, resolved);
+  const metrics = compareMetrics(baseline.metrics, current.metrics, resolved);
+
+  const regressions: Regression[] = [
+    ...scores
+      .filter((change) => change.status === "regressed")
+      .map((change) => ({
+        kind: "score" as const,
+        id: change.category,
+        baseline: change.baseline as number,
+        current: change.current as number,
+        severity: change.severity ?? "warning",
+        message: `${SCORE_LABELS[change.category]} score dropped from ${change.baseline} to ${change.current} (${change.delta})`,
+      })),
+    ...metrics
+      .filter((change) => change.status === "regressed")
+      .map((change) => ({
+        kind: "metric" as const,
+        id: change.metric,
+        baseline: change.baseline,
+        current: change.current,
+        severity: change.severity ?? "warning",
+        message: formatMetricRegression(change),
+      })),
+  ];
+
+  return {
+    url: current.url,
+    strategy: current.strategy,
+    baselineTimestamp: baseline.timestamp,
+    currentTimestamp: current.timestamp,
+    scores,
+    metrics,
+    opportunities: compareOpportunities(baseline, current, resolved),
+    insights:
+      baseline.insights && current.insights
+        ? compareInsights(baseline.insights, current.insights, resolved)
+        : { new: [], resolved: [], grown: [] },
+    regressions,
+    hasRegressions: regressions.length > 0,
+  };
+}
+
+/**
+ * Compares category scores (higher is better)
+ */
+function compareScores(
+  baseline: CategoryScores,
+  current: CategoryScores,
+  tolerances: ComparisonTolerances,
+): ScoreChange[] {
+  return (Object.keys(SCORE_LABELS) as Array<keyof CategoryScores>).map(
+    (category) => {
+      const before = baseline[category];
+      const after = current[category];
+      if (before === null || after === null) {
+        return {
+          category,
+          baseline: before,
+          current: after,
+          delta: null,
+          status: "unchanged",
+        };
+      }
+
+      const delta = after - before;
+      if (delta < -tolerances.score) {
+        return {
+          category,
+          baseline: before,
+          current: after,
+          delta,
+          status: "regressed",
+          severity:
+            getScoreBand(after) > getScoreBand(before) ? "critical" : "warning",
+        };
+      }
+      return {
+        category,
+        baseline: before,
+        current: after,
+        delta,
+        status: delta > tolerances.score ? "improved" : "unchanged",
+      };
+    },
+  );
+}
+
+/**
+ * Compares lab metrics (lower is better)
+ */
+function compareMetrics(
+  baseline: CoreWebVitals,
+  current: CoreWebVitals,
+  tolerances: ComparisonTolerances,
+): MetricChange[] {
+  return (Object.keys(tolerances.metrics) as Array<keyof CoreWebVitals>).map(
+    (metric) => {
+      const before = baseline[metric];
+      const after = current[metric];
+      const delta = after.value - before.value;
+      const tolerance = Math.max(
+        tolerances.metrics[metric],
+        before.value * tolerances.metricRatio,
+      );
+      const status =
+        delta > tolerance
+          ? "regressed"
+          : delta < -tolerance
+            ? "improved"
+            : "unchanged";
+
+      return {
+        metric,
+        baseline: before.value,
+        current: after.value,
+        delta,
+        deltaRatio: before.value === 0 ? null : delta / before.value,
+        baselineRating: before.rating,
+        currentRating: after.rating,
+        status,
+        ...(status === "regressed" && {
+          severity:
+            RATING_RANK[after.rating] > RATING_RANK[before.rating]
+              ? "critical"
+              : "warning",
+        }),
+      };
+    },
+  );
+}
+
+/**
+ * Finds new, resolved and grown opportunities by audit ID
+ */
+function compareOpportunities(
+  baseline: PerformanceResult,
+  current: PerformanceResult,
+  tolerances: ComparisonTolerances,
+): ListChanges<OpportunityChange> {
+  const before = new Map(baseline.opportunities.map((op) => [op.id, op]));
+  const after = new Map(current.opportunities.map((op) => [op.id, op]));
+  const changes: ListChanges<OpportunityChange> = {
+    new: [],
+    resolved: [],
+    grown: [],
+  };
+
+  for (const [id, op] of after) {
+    const previous = before.get(id);
+    const change: OpportunityChange = {
+      id,
+      title: op.title,
+      ...(previous?.savingsMs !== undefined && {
+        baselineSavingsMs: previous.savingsMs,
+      }),
+      ...(op.savingsMs !== undefined && { currentSavingsMs: op.savingsMs }),
+      ...(previous?.savingsBytes !== undefined && {
+        baselineSavingsBytes: previous.savingsBytes,
+      }),
+      ...(op.savingsBytes !== undefined && {
+        currentSavingsBytes: op.savingsBytes,
+      }),
+    };
+
+    if (!previous) {
+      changes.new.push(change);
+    } else if (
+      (op.savingsMs ?? 0) - (previous.savingsMs ?? 0) > tolerances.savingsMs ||
+      (op.savingsBytes ?? 0) - (previous.savingsBytes ?? 0) >
+        tolerances.savingsBytes
+    ) {
+      changes.grown.push(change);
+    }
+  }
+
+  for (const [id, op] of before) {
+    if (!after.has(id)) {
+      changes.resolved.push({
+        id,
+        title: op.title,
+        ...(op.savingsMs !== undefined && { baselineSavingsMs: op.savingsMs }),
+        ...(op.savingsBytes !== undefined && {
+          baselineSavingsBytes: op.savingsBytes,
+        }),
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Finds new, resolved and grown insight items (resources, third parties,
+ * long tasks). Items sharing a key, such as long tasks of one script, are
+ * summed.
+ */
+function compareInsights(
+  baseline: DetailedInsights,
+  current: DetailedInsights,
+  tolerances: ComparisonTolerances,
+): ListChanges<InsightChange> {
+  const changes: ListChanges<InsightChange> = {
+    new: [],
+    resolved: [],
+    grown: [],
+  };
+
+  for (const type of Object.keys(INSIGHT_MEASURES) as InsightType[]) {
+    const { unit } = INSIGHT_MEASURES[type];
+    const before = measureInsights(baseline, type);
+    const after = measureInsights(current, type);
+    const tolerance =
+      unit === "ms" ? tolerances.savingsMs : tolerances.savingsBytes;
+
+    for (const [key, cost] of after) {
+      const previous = before.get(key);
+      if (previous === undefined) {
+        changes.new.push({ type, key, unit, current: cost });
+      } else if (cost - previous > tolerance) {
+        changes.grown.push({
+          type,
+          key,
+          unit,
+          baseline: previous,
+          current: cost,
+        });
+      }
+    }
+    for (const [key, cost] of before) {
+      if (!after.has(key)) {
+        changes.resolved.push({ type, key, unit, baseline: cost });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Sums the cost of an insight list by item key
+ */
+function measureInsights<K extends InsightType>(
+  insights: DetailedInsights,
+  type: K,
+): Map<string, number> {
+  const { key, cost } = INSIGHT_MEASURES[type];
+  const costs = new Map<string, number>();
+
+  for (const item of (insights[type] ?? []) as DetailedInsights[K]) {
+    const itemKey = key(item);
+    costs.set(itemKey, (costs.get(itemKey) ?? 0) + cost(item));
+  }
+  return costs;
+}
+
+/**
+ * Lighthouse score band: 0 for 90-100, 1 for 50-89, 2 below 50
+ */
+function getScoreBand(score: number): number {
+  return score >= 90 ? 0 : score >= 50 ? 1 : 2;
+}
+
+/**
+ * Describes a metric regression, e.g. "LCP rose from 2100 ms to 2600 ms
+ * (+500 ms, +23.8%)"
+ */
+function formatMetricRegression(change: MetricChange): string {
+  const format = (value: number) =>
+    change.metric === "cls" ? value.toFixed(3) : `${Math.round(value)} ms`;
+  const ratio =
+    change.deltaRatio === null
+      ? ""
+      : `, +${(change.deltaRatio * 100).toFixed(1)}%`;
+
+  return `${change.metric.toUpperCase()} rose from ${format(change.baseline)} to ${format(change.current)} (+${format(change.delta)}${ratio})`;
+}
@@ -0,0 +1,26 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Compare module - diffs new runs against saved baseline results, with
+ * noise tolerances for regressions.
+ *
+ * @module compare
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+// Comparison
+export { compareResults } from "./compare";
+export {
+  DEFAULT_TOLERANCES,
+  resolveTolerances,
+  parseTolerances,
+} from "./tolerances";
+
+// Baseline files
+export {
+  parseBaseline,
+  readBaselineFile,
+  findBaselineResult,
+  compareWithBaseline,
+} from "./baseline";
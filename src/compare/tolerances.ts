@@ -0,0 +1,83 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Noise tolerances for baseline comparisons.
+ *
+ * @module compare/tolerances
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  ComparisonTolerances,
+  CoreWebVitals,
+  ToleranceOverrides,
+} from "../types";
+import { parseNumericPairs } from "../config/pairs";
+
+/** Default tolerances, sized for typical Lighthouse run-to-run variance */
+export const DEFAULT_TOLERANCES: ComparisonTolerances = {
+  score: 2,
+  metricRatio: 0.05,
+  metrics: { lcp: 100, fcp: 100, cls: 0.01, tbt: 50, si: 100, tti: 100 },
+  savingsMs: 100,
+  savingsBytes: 10240,
+};
+
+/** Keys accepted by {@link parseTolerances} */
+const TOLERANCE_KEYS = [
+  "score",
+  "ratio",
+  "savingsMs",
+  "savingsBytes",
+  ...(Object.keys(DEFAULT_TOLERANCES.metrics) as Array<keyof CoreWebVitals>),
+] as const;
+
+/**
+ * Applies tolerance overrides to the defaults
+ * @param overrides - Tolerances to change
+ */
+export function resolveTolerances(
+  overrides: ToleranceOverrides = {},
+): ComparisonTolerances {
+  return {
+    ...DEFAULT_TOLERANCES,
+    ...overrides,
+    metrics: { ...DEFAULT_TOLERANCES.metrics, ...overrides.metrics },
+  };
+}
+
+/**
+ * Parses tolerances written as `key=value` pairs, as in
+ * `--tolerance score=3,lcp=250,ratio=0.1`. Keys are `score`, `ratio`
+ * (relative metric change), `savingsMs`, `savingsBytes` and the metric
+ * names (`lcp`, `fcp`, `cls`, `tbt`, `si`, `tti`).
+ * @param spec - Comma-separated pairs
+ * @throws Error for unknown keys or values that are not non-negative numbers
+ */
+export function parseTolerances(spec: string): ToleranceOverrides {
+  const overrides: ToleranceOverrides = {};
+  const metrics: Partial<Record<keyof CoreWebVitals, number>> = {};
+
+  for (const [key, value] of parseNumericPairs(
+    spec,
+    "tolerance",
+    TOLERANCE_KEYS,
+  )) {
+    if (key === "ratio") {
+      overrides.metricRatio = value;
+    } else if (
+      key === "score" ||
+      key === "savingsMs" ||
+      key === "savingsBytes"
+    ) {
+      overrides[key] = value;
+    } else {
+      metrics[key] = value;
+    }
+  }
+
+  return Object.keys(metrics).length > 0
+    ? { ...overrides, metrics }
+    : overrides;
+}
@@ -0,0 +1,31 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Config module - performance.config file discovery, validation and
+ * per-URL threshold resolution and evaluation.
+ *
+ * @module config
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+// Configuration files
+export {
+  CONFIG_FILE_NAMES,
+  findConfigFile,
+  loadConfig,
+  resolveConfig,
+} from "./loader";
+export { ConfigValidationError, validateConfig } from "./validation";
+
+// Thresholds
+export {
+  SCORE_THRESHOLD_KEYS,
+  METRIC_THRESHOLD_KEYS,
+  THRESHOLD_KEYS,
+  isScoreThreshold,
+  getUrlThresholds,
+  resolveThresholds,
+  parseThresholds,
+  evaluateThresholds,
+} from "./thresholds";
@@ -0,0 +1,153 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Discovers and loads performance.config files.
+ *
+ * @module config/loader
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import type { PerformanceConfig, ResolvedConfig } from "../types";
+import { getDefaultThresholds } from "../lighthouse";
+import { loadConfigModule } from "../lighthouse/config-file";
+import {
+  DEFAULT_CACHE,
+  DEFAULT_CATEGORIES,
+  DEFAULT_RETRY,
+} from "../pagespeed/constants";
+import { validateConfig } from "./validation";
+
+/** Configuration file names, in lookup order */
+export const CONFIG_FILE_NAMES = [
+  "performance.config.js",
+  "performance.config.mjs",
+  "performance.config.cjs",
+  "performance.config.json",
+];
+
+/**
+ * Looks for a configuration file in a directory and its parents, stopping
+ * at the project root (the first directory with a package.json)
+ * @param directory - Directory to start from
+ * @returns Absolute path of the file, if any
+ */
+export function findConfigFile(
+  directory: string = process.cwd(),
+): string | undefined {
+  const current = path.resolve(directory);
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(current, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  const parent = path.dirname(current);
+  if (fs.existsSync(path.join(current, "package.json")) || parent === current) {
+    return undefined;
+  }
+  return findConfigFile(parent);
+}
+
+/**
+ * Applies the toolkit defaults to a validated configuration
+ * @param config - Configuration file content
+ * @param filePath - Absolute path of the file
+ */
+export function resolveConfig(
+  config: PerformanceConfig,
+  filePath: string,
+): ResolvedConfig {
+  const strategy = config.strategy ?? "mobile";
+  const categories = config.categories ?? DEFAULT_CATEGORIES;
+  const thresholds = config.thresholds ?? getDefaultThresholds();
+
+  return {
+    filePath,
+    project: {
+      urls: config.urls,
+      strategy,
+      categories,
+      thresholds,
+      ...(config.urlThresholds && { urlThresholds: config.urlThresholds }),
+      ...(config.ci && {
+        ci: {
+          failOnViolation: false,
+          commentOnPR: false,
+          uploadToDashboard: false,
+          ...config.ci,
+        },
+      }),
+    },
+    toolkit: {
+      apiKey: config.apiKey,
+      defaultStrategy: strategy,
+      defaultCategories: categories,
+      defaultThresholds: thresholds,
+      extractInsights: true,
+      // A cache section turns caching on unless it says otherwise
+      ...(config.cache && {
+        cache: { ...DEFAULT_CACHE, enabled: true, ...config.cache },
+      }),
+      ...(config.retry && { retry: { ...DEFAULT_RETRY, ...config.retry } }),
+      ...(config.rateLimit && {
+        rateLimit: { enabled: true, ...config.rateLimit },
+      }),
+    },
+    provider: config.provider ?? "psi",
+    providerOptions: config.providerOptions ?? {},
+    numberOfRuns: config.numberOfRuns ?? 1,
+    locale: config.locale,
+  };
+}
+
+/**
+ * Loads, validates and resolves a configuration file
+ * @param filePath - File to load; found with `findConfigFile()` when omitted
+ * @param directory - Directory relative paths and the lookup start from
+ * @throws Error when no file is found or it cannot be loaded, and
+ *   ConfigValidationError when its content is invalid
+ */
+export async function loadConfig(
+  filePath?: string,
+  directory: string = process.cwd(),
+): Promise<ResolvedConfig> {
+  const absolutePath = filePath
+    ? path.resolve(directory, filePath)
+    : findConfigFile(directory);
+
+  if (!absolutePath) {
+    throw new Error(
+      `No configuration file found in ${path.resolve(directory)}, ` +
+        `expected one of ${CONFIG_FILE_NAMES.join(", ")}`,
+    );
+  }
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Configuration file not found: ${filePath}`);
+  }
+
+  const extension = path.extname(absolutePath).toLowerCase();
+  if (![".js", ".mjs", ".cjs", ".json"].includes(extension)) {
+    throw new Error(
+      `Unsupported configuration file ${filePath}, expected a .js, .mjs, .cjs or .json file`,
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = await loadConfigModule(absolutePath);
+  } catch (error) {
+    throw new Error(
+      `Could not load ${filePath ?? absolutePath}: ${(error as Error).message}`,
+    );
+  }
+
+  return resolveConfig(
+    validateConfig(data, filePath ?? path.basename(absolutePath)),
+    absolutePath,
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Parsing of `key=value` flag values (`--threshold`, `--tolerance`).
+ *
+ * @module config/pairs
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+/**
+ * Parses comma-separated `key=value` pairs with non-negative number values,
+ * as in `lcp=2500,performance=90`
+ * @param spec - Comma-separated pairs
+ * @param label - What a pair sets, for error messages (e.g. "threshold")
+ * @param keys - Accepted keys
+ * @param isScore - Keys whose values are 0-100 scores
+ * @returns Parsed pairs, in order
+ * @throws Error for unknown keys, negative values or scores above 100
+ */
+export function parseNumericPairs<K extends string>(
+  spec: string,
+  label: string,
+  keys: readonly K[],
+  isScore: (key: K) => boolean = () => false,
+): Array<[K, number]> {
+  const pairs: Array<[K, number]> = [];
+
+  for (const pair of spec.split(",").filter(Boolean)) {
+    const [key, raw] = pair.split("=").map((part) => part.trim());
+    if (!keys.includes(key as K)) {
+      throw new Error(
+        `Unknown ${label} "${key}", expected one of ${keys.join(", ")}`,
+      );
+    }
+
+    const value = Number(raw);
+    const score = isScore(key as K);
+    if (
+      raw === undefined ||
+      raw === "" ||
+      !Number.isFinite(value) ||
+      value < 0 ||
+      (score && value > 100)
+    ) {
+      throw new Error(
+        `Invalid ${label} "${pair}": expected ${score ? "a score from 0 to 100" : "a non-negative number"}`,
+      );
+    }
+    pairs.push([key as K, value]);
+  }
+
+  return pairs;
+}
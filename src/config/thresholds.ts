@@ -0,0 +1,215 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Threshold keys, per-URL threshold resolution and evaluation.
+ *
+ * @module config/thresholds
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import { getDefaultThresholds } from "../lighthouse";
+import type {
+  MetricRating,
+  PerformanceResult,
+  PerformanceThresholds,
+  ProjectConfig,
+  ThresholdResolutionOptions,
+  ThresholdViolation,
+} from "../types";
+import { parseNumericPairs } from "./pairs";
+
+/** Thresholds that are minimum 0-100 category scores */
+export const SCORE_THRESHOLD_KEYS: ReadonlyArray<keyof PerformanceThresholds> =
+  ["performance", "accessibility", "bestPractices", "seo"];
+
+/** Thresholds that are maximum metric values (milliseconds, CLS unitless) */
+export const METRIC_THRESHOLD_KEYS: ReadonlyArray<keyof PerformanceThresholds> =
+  ["lcp", "fcp", "cls", "tbt", "tti", "si", "inp", "ttfb"];
+
+/** Every PerformanceThresholds key */
+export const THRESHOLD_KEYS: ReadonlyArray<keyof PerformanceThresholds> = [
+  ...SCORE_THRESHOLD_KEYS,
+  ...METRIC_THRESHOLD_KEYS,
+];
+
+/**
+ * Checks whether a threshold is a minimum score rather than a maximum value
+ */
+export function isScoreThreshold(key: keyof PerformanceThresholds): boolean {
+  return SCORE_THRESHOLD_KEYS.includes(key);
+}
+
+/**
+ * Resolves the thresholds a URL must meet. Each `urlThresholds` pattern
+ * matching the URL is merged over the base thresholds; when several match,
+ * the strictest value of each threshold wins, as LHCI requires a URL to pass
+ * every matching `assertMatrix` entry.
+ * @param config - Base thresholds and URL overrides
+ * @param url - Analyzed URL
+ */
+export function getUrlThresholds(
+  config: Pick<ProjectConfig, "thresholds" | "urlThresholds">,
+  url: string,
+): PerformanceThresholds {
+  const { thresholds, urlThresholds = {} } = config;
+  const entries = Object.entries(urlThresholds)
+    .filter(([pattern]) => new RegExp(pattern).test(url))
+    .map(([, overrides]) => ({ ...thresholds, ...overrides }));
+
+  return entries.length === 0
+    ? { ...thresholds }
+    : getStrictestThresholds(entries);
+}
+
+/**
+ * Resolves the thresholds a URL is checked against: the project thresholds
+ * and URL overrides (or the default preset), raised to the strict preset
+ * with `strict`, then the explicit overrides
+ * @param url - Analyzed URL
+ * @param options - Threshold sources
+ */
+export function resolveThresholds(
+  url: string,
+  options: ThresholdResolutionOptions = {},
+): PerformanceThresholds {
+  const { config, strict = false, overrides = {} } = options;
+  const base = config
+    ? getUrlThresholds(config, url)
+    : getDefaultThresholds(strict);
+  const thresholds =
+    strict && config
+      ? getStrictestThresholds([base, getDefaultThresholds(true)])
+      : base;
+
+  return { ...thresholds, ...overrides };
+}
+
+/**
+ * Parses thresholds written as `key=value` pairs, as in
+ * `--threshold lcp=2500,performance=90`. Keys are the PerformanceThresholds
+ * fields.
+ * @param spec - Comma-separated pairs
+ * @throws Error for unknown keys, negative values or scores above 100
+ */
+export function parseThresholds(spec: string): PerformanceThresholds {
+  return Object.fromEntries(
+    parseNumericPairs(spec, "threshold", THRESHOLD_KEYS, isScoreThreshold),
+  );
+}
+
+/**
+ * Checks a result against thresholds. Scores are minimums and metrics are
+ * maximums; `inp` and `ttfb` use the field (CrUX) p75, the other metrics the
+ * lab values. Scores of categories that were not analyzed and field metrics
+ * without data are skipped. Violations in the poor range (scores below 50,
+ * metrics rated poor) are `critical`.
+ * @param result - Performance result
+ * @param thresholds - Thresholds to meet
+ */
+export function evaluateThresholds(
+  result: PerformanceResult,
+  thresholds: PerformanceThresholds,
+): ThresholdViolation[] {
+  const violations: ThresholdViolation[] = [];
+
+  for (const key of THRESHOLD_KEYS) {
+    const threshold = thresholds[key];
+    const measured = threshold === undefined ? null : measure(result, key);
+    if (threshold === undefined || measured === null) continue;
+
+    const { value, rating } = measured;
+    const label = THRESHOLD_LABELS[key];
+    if (isScoreThreshold(key)) {
+      if (value >= threshold) continue;
+      violations.push({
+        key,
+        metric: label,
+        current: value,
+        threshold,
+        difference: threshold - value,
+        severity: value < 50 ? "critical" : "warning",
+        message: `${label} is ${value}, below the ${threshold} threshold`,
+      });
+    } else if (value > threshold) {
+      const format = (n: number) =>
+        key === "cls" ? n.toFixed(3) : `${Math.round(n)} ms`;
+      violations.push({
+        key,
+        metric: label,
+        current: value,
+        threshold,
+        difference: value - threshold,
+        severity: rating === "poor" ? "critical" : "warning",
+        message: `${label} is ${format(value)}, above the ${format(threshold)} threshold`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/** Display names of the thresholds */
+const THRESHOLD_LABELS: Record<keyof PerformanceThresholds, string> = {
+  performance: "Performance score",
+  accessibility: "Accessibility score",
+  bestPractices: "Best Practices score",
+  seo: "SEO score",
+  lcp: "LCP",
+  fcp: "FCP",
+  cls: "CLS",
+  tbt: "TBT",
+  tti: "TTI",
+  si: "SI",
+  inp: "INP (field)",
+  ttfb: "TTFB (field)",
+};
+
+/**
+ * Keeps the strictest value of each threshold: the highest score and the
+ * lowest metric value
+ */
+function getStrictestThresholds(
+  entries: PerformanceThresholds[],
+): PerformanceThresholds {
+  const resolved: PerformanceThresholds = {};
+  for (const key of THRESHOLD_KEYS) {
+    const values = entries
+      .map((entry) => entry[key])
+      .filter((value): value is number => value !== undefined);
+    if (values.length > 0) {
+      resolved[key] = isScoreThreshold(key)
+        ? Math.max(...values)
+        : Math.min(...values);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Value a threshold is checked against, or null when the result has none
+ */
+function measure(
+  result: PerformanceResult,
+  key: keyof PerformanceThresholds,
+): { value: number; rating?: MetricRating } | null {
+  switch (key) {
+    case "performance":
+    case "accessibility":
+    case "bestPractices":
+    case "seo": {
+      const score = result.scores[key];
+      return score === null || score === undefined ? null : { value: score };
+    }
+    case "inp":
+    case "ttfb": {
+      const field = result.fieldMetrics?.metrics[key];
+      return field ? { value: field.p75, rating: field.category } : null;
+    }
+    default:
+      return {
+        value: result.metrics[key].value,
+        rating: result.metrics[key].rating,
+      };
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Schema validation for performance.config files.
+ *
+ * @module config/validation
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { PerformanceConfig, PerformanceThresholds } from "../types";
+import { DEFAULT_CATEGORIES } from "../pagespeed/constants";
+import { findSimilar } from "../pagespeed/utils";
+import { THRESHOLD_KEYS, isScoreThreshold } from "./thresholds";
+
+/** Options a configuration file may set */
+const CONFIG_KEYS: ReadonlyArray<keyof PerformanceConfig> = [
+  "urls",
+  "strategy",
+  "categories",
+  "thresholds",
+  "urlThresholds",
+  "ci",
+  "numberOfRuns",
+  "locale",
+  "provider",
+  "providerOptions",
+  "apiKey",
+  "cache",
+  "retry",
+  "rateLimit",
+];
+
+/** Settings of the `ci` section */
+const CI_KEYS = ["failOnViolation", "commentOnPR", "uploadToDashboard"];
+
+/** Sections holding provider or PSI client settings */
+const OBJECT_KEYS: ReadonlyArray<keyof PerformanceConfig> = [
+  "providerOptions",
+  "cache",
+  "retry",
+  "rateLimit",
+];
+
+/**
+ * Configuration file content does not match the schema
+ */
+export class ConfigValidationError extends Error {
+  /** File path or description of the configuration */
+  readonly source: string;
+  /** Every problem found, one per setting */
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(
+      `Invalid configuration in ${source}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`,
+    );
+    this.name = "ConfigValidationError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates the content of a configuration file, reporting every problem
+ * at once
+ * @param data - Loaded configuration (module export or parsed JSON)
+ * @param source - File path or description used in error messages
+ * @throws ConfigValidationError when the content does not match the schema
+ */
+export function validateConfig(
+  data: unknown,
+  source = "config",
+): PerformanceConfig {
+  if (!isObject(data)) {
+    throw new ConfigValidationError(source, [
+      'expected an object with a urls array, e.g. { urls: ["https://example.com"] }',
+    ]);
+  }
+
+  const issues: string[] = [];
+
+  for (const key of Object.keys(data)) {
+    if (!(CONFIG_KEYS as readonly string[]).includes(key)) {
+      issues.push(unknownKey(key, CONFIG_KEYS));
+    }
+  }
+
+  if (!Array.isArray(data.urls) || data.urls.length === 0) {
+    issues.push("urls: expected a non-empty array of URLs");
+  } else {
+    data.urls.forEach((url, index) => {
+      if (!isHttpUrl(url)) {
+        issues.push(
+          `urls[${index}]: ${JSON.stringify(url)} is not an http(s) URL`,
+        );
+      }
+    });
+  }
+
+  if (
+    data.strategy !== undefined &&
+    data.strategy !== "mobile" &&
+    data.strategy !== "desktop"
+  ) {
+    issues.push(
+      `strategy: expected "mobile" or "desktop", got ${JSON.stringify(data.strategy)}`,
+    );
+  }
+
+  if (data.categories !== undefined) {
+    if (!Array.isArray(data.categories)) {
+      issues.push("categories: expected an array");
+    } else {
+      data.categories.forEach((category, index) => {
+        if (!(DEFAULT_CATEGORIES as unknown[]).includes(category)) {
+          issues.push(
+            `categories[${index}]: expected one of ${DEFAULT_CATEGORIES.join(", ")}, got ${JSON.stringify(category)}`,
+          );
+        }
+      });
+    }
+  }
+
+  if (data.thresholds !== undefined) {
+    validateThresholds(data.thresholds, "thresholds", issues);
+  }
+
+  if (data.urlThresholds !== undefined) {
+    if (!isObject(data.urlThresholds)) {
+      issues.push(
+        "urlThresholds: expected an object of thresholds keyed by URL pattern",
+      );
+    } else {
+      for (const [pattern, thresholds] of Object.entries(data.urlThresholds)) {
+        const label = `urlThresholds[${JSON.stringify(pattern)}]`;
+        try {
+          new RegExp(pattern);
+        } catch {
+          issues.push(`${label}: not a valid regular expression`);
+        }
+        validateThresholds(thresholds, label, issues);
+      }
+    }
+  }
+
+  if (data.ci !== undefined) {
+    if (!isObject(data.ci)) {
+      issues.push("ci: expected an object");
+    } else {
+      for (const [key, value] of Object.entries(data.ci)) {
+        if (!CI_KEYS.includes(key)) {
+          issues.push(`ci.${unknownKey(key, CI_KEYS)}`);
+        } else if (typeof value !== "boolean") {
+          issues.push(`ci.${key}: expected true or false`);
+        }
+      }
+    }
+  }
+
+  if (
+    data.numberOfRuns !== undefined &&
+    (!Number.isInteger(data.numberOfRuns) || (data.numberOfRuns as number) < 1)
+  ) {
+    issues.push("numberOfRuns: expected a positive integer");
+  }
+
+  for (const key of ["locale", "provider", "apiKey"]) {
+    if (
+      data[key] !== undefined &&
+      (typeof data[key] !== "string" || data[key] === "")
+    ) {
+      issues.push(`${key}: expected a non-empty string`);
+    }
+  }
+
+  for (const key of OBJECT_KEYS) {
+    if (data[key] !== undefined && !isObject(data[key])) {
+      issues.push(`${key}: expected an object`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+
+  return data as unknown as PerformanceConfig;
+}
+
+/**
+ * Validates a thresholds object: known keys, non-negative numbers and
+ * scores of at most 100
+ */
+function validateThresholds(
+  value: unknown,
+  label: string,
+  issues: string[],
+): void {
+  if (!isObject(value)) {
+    issues.push(`${label}: expected an object`);
+    return;
+  }
+
+  for (const [key, threshold] of Object.entries(value)) {
+    if (!(THRESHOLD_KEYS as readonly string[]).includes(key)) {
+      issues.push(`${label}.${unknownKey(key, THRESHOLD_KEYS)}`);
+      continue;
+    }
+
+    const isScore = isScoreThreshold(key as keyof PerformanceThresholds);
+    if (
+      typeof threshold !== "number" ||
+      !Number.isFinite(threshold) ||
+      threshold < 0 ||
+      (isScore && threshold > 100)
+    ) {
+      issues.push(
+        `${label}.${key}: expected ${isScore ? "a score from 0 to 100" : "a non-negative number"}, got ${JSON.stringify(threshold)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Describes an unknown key, suggesting the closest known one
+ */
+function unknownKey(key: string, known: readonly string[]): string {
+  const suggestion = findSimilar(key, known);
+  return suggestion
+    ? `${key}: unknown option, did you mean "${suggestion}"?`
+    : `${key}: unknown option, expected one of ${known.join(", ")}`;
+}
+
+/**
+ * Checks for an absolute http(s) URL
+ */
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks for a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,246 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Chrome UX Report (CrUX) API client for real-user records and history.
+ *
+ * @module crux/client
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import { createHash } from "crypto";
+import path from "path";
+import type {
+  CruxApiHistoryResponse,
+  CruxApiRecordResponse,
+  CruxClientOptions,
+  CruxHistory,
+  CruxHistoryQuery,
+  CruxQuery,
+  CruxRecord,
+  RetryConfig,
+  TransportConfig,
+} from "../types";
+import { DEFAULT_CACHE, DEFAULT_RETRY } from "../pagespeed/constants";
+import { ResponseCache } from "../pagespeed/cache";
+import { MalformedResponseError, PageSpeedApiError } from "../pagespeed/errors";
+import { fetchWithTimeout } from "../pagespeed/http";
+import { withRetry } from "../pagespeed/retry";
+import {
+  CRUX_API_NAME,
+  CRUX_API_URL,
+  CRUX_CACHE_SUBDIRECTORY,
+  CRUX_DEFAULT_TIMEOUT,
+  CRUX_METRIC_NAMES,
+} from "./constants";
+import { transformHistory, transformRecord } from "./transform";
+
+/**
+ * CrUX API method
+ */
+type CruxMethod = "queryRecord" | "queryHistoryRecord";
+
+/**
+ * Chrome UX Report API client. Shares the retry policy, response cache,
+ * transport and typed errors of {@link PageSpeedClient}; responses are cached
+ * in a `crux` subdirectory and errors name the CrUX API.
+ */
+export class CruxClient {
+  private apiKey?: string;
+  private timeout: number;
+  private retry: RetryConfig;
+  private cache?: ResponseCache<unknown>;
+  private transport: TransportConfig;
+
+  /**
+   * Creates a new CrUX client
+   * @param apiKey - Google API key with the Chrome UX Report API enabled
+   * @param timeout - Request timeout in milliseconds
+   * @param options - Client options (retry policy, response cache, HTTP
+   *   transport)
+   */
+  constructor(
+    apiKey?: string,
+    timeout = CRUX_DEFAULT_TIMEOUT,
+    options: CruxClientOptions = {},
+  ) {
+    this.apiKey = apiKey;
+    this.timeout = timeout;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.transport = options.transport ?? {};
+
+    const cache = { ...DEFAULT_CACHE, ...options.cache };
+    if (cache.enabled) {
+      this.cache = new ResponseCache(
+        path.join(cache.directory, CRUX_CACHE_SUBDIRECTORY),
+        cache.ttl,
+      );
+    }
+  }
+
+  /**
+   * Gets real-user data for the latest 28-day collection period
+   * @param query - URL or origin, form factor and metrics
+   * @returns Typed record, or undefined when CrUX has no data for the query
+   */
+  async queryRecord(query: CruxQuery): Promise<CruxRecord | undefined> {
+    const data = await this.request<CruxApiRecordResponse>(
+      "queryRecord",
+      query,
+    );
+    return data && transformRecord(data);
+  }
+
+  /**
+   * Gets weekly real-user time series (25 collection periods by default)
+   * @param query - URL or origin, form factor, metrics and period count
+   * @returns Typed history, or undefined when CrUX has no data for the query
+   */
+  async queryHistory(
+    query: CruxHistoryQuery,
+  ): Promise<CruxHistory | undefined> {
+    const data = await this.request<CruxApiHistoryResponse>(
+      "queryHistoryRecord",
+      query,
+    );
+    return data && transformHistory(data);
+  }
+
+  /**
+   * Removes all cached CrUX responses (no-op when caching is disabled)
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Sends a CrUX query, using the response cache when enabled
+   */
+  private async request<T extends { record: unknown }>(
+    method: CruxMethod,
+    query: CruxHistoryQuery,
+  ): Promise<T | undefined> {
+    const { cacheMode = "default", signal } = query;
+    const body = buildRequestBody(query);
+    const cacheKey = createCruxRequestKey(method, body);
+    const cache = cacheMode === "bypass" ? undefined : this.cache;
+
+    const cached =
+      cacheMode === "default" ? (cache?.get(cacheKey) as T) : undefined;
+    if (cached) return cached;
+
+    const params = this.apiKey ? `?key=${encodeURIComponent(this.apiKey)}` : "";
+    const apiUrl = `${this.transport.baseUrl ?? CRUX_API_URL}:${method}${params}`;
+
+    let data: T;
+    try {
+      data = await withRetry(
+        () =>
+          fetchWithTimeout(
+            apiUrl,
+            {
+              timeout: this.timeout,
+              transport: this.transport,
+              signal,
+              method: "POST",
+              body,
+              apiName: CRUX_API_NAME,
+            },
+            parseResponse<T>,
+          ),
+        this.retry,
+        { signal },
+      );
+    } catch (error) {
+      // CrUX answers 404 when it has no data for the URL or origin
+      if (error instanceof PageSpeedApiError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    cache?.set(cacheKey, data, { method, ...body });
+    return data;
+  }
+}
+
+/**
+ * Builds the CrUX API request body
+ * @throws Error unless exactly one of `url` and `origin` is set
+ */
+function buildRequestBody(query: CruxHistoryQuery): Record<string, unknown> {
+  const { url, origin, formFactor, metrics, collectionPeriodCount } = query;
+
+  if (Boolean(url) === Boolean(origin)) {
+    throw new Error("CrUX queries need either a url or an origin");
+  }
+
+  const names = (metrics ?? Object.keys(CRUX_METRIC_NAMES)) as Array<
+    keyof typeof CRUX_METRIC_NAMES
+  >;
+
+  return {
+    ...(url ? { url } : { origin }),
+    ...(formFactor && { formFactor: formFactor.toUpperCase() }),
+    metrics: names.map((name) => CRUX_METRIC_NAMES[name]),
+    ...(collectionPeriodCount && { collectionPeriodCount }),
+  };
+}
+
+/**
+ * Creates a stable cache key for a CrUX request
+ */
+function createCruxRequestKey(
+  method: CruxMethod,
+  body: Record<string, unknown>,
+): string {
+  const normalized = {
+    method,
+    ...body,
+    metrics: [...(body.metrics as string[])].sort(),
+  };
+
+  return createHash("sha256")
+    .update(JSON.stringify(normalized))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Parses a successful response body, rejecting unusable payloads
+ */
+async function parseResponse<T extends { record: unknown }>(
+  response: Response,
+): Promise<T> {
+  let data: T;
+  try {
+    data = (await response.json()) as T;
+  } catch (error) {
+    throw new MalformedResponseError("body is not valid JSON", {
+      cause: error,
+      apiName: CRUX_API_NAME,
+    });
+  }
+
+  if (!data?.record) {
+    throw new MalformedResponseError("missing record", {
+      apiName: CRUX_API_NAME,
+    });
+  }
+
+  return data;
+}
+
+/**
+ * Creates a configured CrUX client instance
+ * @param apiKey - Google API key with the Chrome UX Report API enabled
+ * @param options - Client options (retry policy, response cache, HTTP
+ *   transport)
+ * @returns Configured CruxClient instance
+ */
+export function createCruxClient(
+  apiKey?: string,
+  options: CruxClientOptions = {},
+): CruxClient {
+  return new CruxClient(apiKey, CRUX_DEFAULT_TIMEOUT, options);
+}
@@ -0,0 +1,50 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Chrome UX Report (CrUX) API constants.
+ *
+ * @module crux/constants
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { FieldMetricId } from "../types";
+
+/** CrUX API records base URL (methods are appended as `:queryRecord`) */
+export const CRUX_API_URL = "https://chromeuxreport.googleapis.com/v1/records";
+
+/** Default CrUX request timeout in milliseconds */
+export const CRUX_DEFAULT_TIMEOUT = 30000;
+
+/** API name used in CrUX error messages */
+export const CRUX_API_NAME = "CrUX API";
+
+/**
+ * Subdirectory of the cache directory for CrUX responses, so clearing the
+ * CrUX or PageSpeed cache leaves the other one alone
+ */
+export const CRUX_CACHE_SUBDIRECTORY = "crux";
+
+/** CrUX API metric names, by field metric */
+export const CRUX_METRIC_NAMES: Record<FieldMetricId, string> = {
+  lcp: "largest_contentful_paint",
+  inp: "interaction_to_next_paint",
+  cls: "cumulative_layout_shift",
+  fcp: "first_contentful_paint",
+  ttfb: "experimental_time_to_first_byte",
+};
+
+/**
+ * Core Web Vitals rating boundaries applied to p75 values: `good` is the
+ * highest good value, anything above `poor` is rated poor
+ */
+export const FIELD_METRIC_THRESHOLDS: Record<
+  FieldMetricId,
+  { good: number; poor: number }
+> = {
+  lcp: { good: 2500, poor: 4000 },
+  inp: { good: 200, poor: 500 },
+  cls: { good: 0.1, poor: 0.25 },
+  fcp: { good: 1800, poor: 3000 },
+  ttfb: { good: 800, poor: 1800 },
+};
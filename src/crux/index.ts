@@ -0,0 +1,30 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * CrUX module - Chrome UX Report API client for real-user data and history.
+ *
+ * @module crux
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+// Main client
+export { CruxClient, createCruxClient } from "./client";
+
+// Transforms
+export {
+  transformRecord,
+  transformHistory,
+  getCruxTrend,
+  rateFieldValue,
+} from "./transform";
+
+// Constants
+export {
+  CRUX_API_URL,
+  CRUX_API_NAME,
+  CRUX_CACHE_SUBDIRECTORY,
+  CRUX_DEFAULT_TIMEOUT,
+  CRUX_METRIC_NAMES,
+  FIELD_METRIC_THRESHOLDS,
+} from "./constants";
@@ -0,0 +1,191 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Transforms raw CrUX API responses into typed records and time series.
+ *
+ * @module crux/transform
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  CruxApiCollectionPeriod,
+  CruxApiDate,
+  CruxApiHistoryResponse,
+  CruxApiKey,
+  CruxApiRecordResponse,
+  CruxCollectionPeriod,
+  CruxHistory,
+  CruxRecord,
+  CruxRecordKey,
+  CruxTimeseriesPoint,
+  CruxTrend,
+  FieldMetricId,
+  MetricRating,
+} from "../types";
+import { CRUX_METRIC_NAMES, FIELD_METRIC_THRESHOLDS } from "./constants";
+
+/**
+ * Rates a p75 value against the Core Web Vitals boundaries
+ */
+export function rateFieldValue(
+  metric: FieldMetricId,
+  value: number,
+): MetricRating {
+  const { good, poor } = FIELD_METRIC_THRESHOLDS[metric];
+  if (value <= good) return "good";
+  if (value <= poor) return "needs-improvement";
+  return "poor";
+}
+
+/**
+ * Transforms a `records:queryRecord` response
+ */
+export function transformRecord(response: CruxApiRecordResponse): CruxRecord {
+  const { key, metrics, collectionPeriod } = response.record;
+  const record: CruxRecord = {
+    key: toRecordKey(key),
+    metrics: {},
+    collectionPeriod: toCollectionPeriod(collectionPeriod),
+  };
+
+  for (const [id, name] of metricEntries()) {
+    const metric = metrics[name];
+    const p75 = toNumber(metric?.percentiles?.p75);
+    if (!metric || p75 === null) continue;
+
+    const [good, needsImprovement, poor] = (metric.histogram ?? []).map(
+      (bin) => bin.density ?? 0,
+    );
+    record.metrics[id] = {
+      p75,
+      distribution: {
+        good: good ?? 0,
+        needsImprovement: needsImprovement ?? 0,
+        poor: poor ?? 0,
+      },
+      category: rateFieldValue(id, p75),
+    };
+  }
+
+  return record;
+}
+
+/**
+ * Transforms a `records:queryHistoryRecord` response. Periods with too
+ * little data keep their slot with null values so series stay aligned.
+ */
+export function transformHistory(
+  response: CruxApiHistoryResponse,
+): CruxHistory {
+  const { key, metrics, collectionPeriods } = response.record;
+  const periods = collectionPeriods.map(toCollectionPeriod);
+  const history: CruxHistory = {
+    key: toRecordKey(key),
+    metrics: {},
+    collectionPeriods: periods,
+  };
+
+  for (const [id, name] of metricEntries()) {
+    const metric = metrics[name];
+    if (!metric) continue;
+
+    history.metrics[id] = periods.map((period, index): CruxTimeseriesPoint => {
+      const p75 = toNumber(metric.percentilesTimeseries?.p75s[index]);
+      const densities = (metric.histogramTimeseries ?? []).map((bin) =>
+        toNumber(bin.densities[index]),
+      );
+      const complete =
+        densities.length === 3 && densities.every((d) => d !== null);
+
+      return {
+        ...period,
+        p75,
+        distribution: complete
+          ? {
+              good: densities[0] as number,
+              needsImprovement: densities[1] as number,
+              poor: densities[2] as number,
+            }
+          : null,
+        category: p75 === null ? null : rateFieldValue(id, p75),
+      };
+    });
+  }
+
+  return history;
+}
+
+/**
+ * Computes the p75 change between the first and last periods with data
+ * @returns Trend, or undefined with fewer than two periods of data
+ */
+export function getCruxTrend(
+  points: CruxTimeseriesPoint[],
+): CruxTrend | undefined {
+  const values = points
+    .map((point) => point.p75)
+    .filter((p75): p75 is number => p75 !== null);
+  if (values.length < 2) return undefined;
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const change = last - first;
+
+  return {
+    first,
+    last,
+    change,
+    changePercent: first === 0 ? 0 : Math.round((change / first) * 1000) / 10,
+    direction: change < 0 ? "improved" : change > 0 ? "regressed" : "unchanged",
+  };
+}
+
+/**
+ * Lists field metrics with their CrUX API names
+ */
+function metricEntries(): Array<[FieldMetricId, string]> {
+  return Object.entries(CRUX_METRIC_NAMES) as Array<[FieldMetricId, string]>;
+}
+
+/**
+ * Converts an API record key (form factors are upper case)
+ */
+function toRecordKey(key: CruxApiKey): CruxRecordKey {
+  return {
+    ...(key.url && { url: key.url }),
+    ...(key.origin && { origin: key.origin }),
+    formFactor: key.formFactor
+      ? (key.formFactor.toLowerCase() as CruxRecordKey["formFactor"])
+      : "all",
+  };
+}
+
+/**
+ * Converts an API collection period to ISO dates
+ */
+function toCollectionPeriod(
+  period: CruxApiCollectionPeriod,
+): CruxCollectionPeriod {
+  return {
+    firstDate: formatDate(period.firstDate),
+    lastDate: formatDate(period.lastDate),
+  };
+}
+
+/**
+ * Formats an API date as YYYY-MM-DD
+ */
+function formatDate({ year, month, day }: CruxApiDate): string {
+  const pad = (value: number): string => String(value).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Parses numeric API values (CLS percentiles are strings, gaps are "NaN")
+ */
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
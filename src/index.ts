@@ -30,7 +30,7 @@
  *   process.env.PAGESPEED_API_KEY
  * ).withAssertions(getDefaultThresholds());
  *
- * const exitCode = await runner.run();
+ * const { success, failedAssertions } = await runner.run();
  * ```
  */
 
@@ -38,9 +38,69 @@
 export {
   PageSpeedClient,
   createPageSpeedClient,
-  analyzeUrl,
+  analyzeUrls,
+  createBatchJobs,
+  aggregateResults,
+  getFailingWarnings,
+  parseWarningTypes,
+  extractFieldData,
+  PageSpeedError,
+  PageSpeedApiError,
+  QuotaExceededError,
+  InvalidApiKeyError,
+  DocumentRequestError,
+  TimeoutError,
+  MalformedResponseError,
+  FixtureNotFoundError,
+  InvalidLighthouseReportError,
+  ERROR_EXIT_CODES,
 } from "./pagespeed";
 
+// CrUX API exports
+export { CruxClient, createCruxClient, getCruxTrend } from "./crux";
+
+// Budget exports
+export {
+  evaluateBudgets,
+  formatBudgetViolation,
+  readBudgetFile,
+  generateBudgetFile,
+} from "./budget";
+
+// Baseline comparison exports
+export {
+  compareResults,
+  compareWithBaseline,
+  readBaselineFile,
+  findBaselineResult,
+  parseTolerances,
+  DEFAULT_TOLERANCES,
+} from "./compare";
+
+// Configuration file exports
+export {
+  loadConfig,
+  findConfigFile,
+  validateConfig,
+  getUrlThresholds,
+  resolveThresholds,
+  parseThresholds,
+  evaluateThresholds,
+  ConfigValidationError,
+} from "./config";
+
+// Analysis provider exports
+export {
+  analyzeUrl,
+  registerProvider,
+  unregisterProvider,
+  listProviders,
+  getProvider,
+  createPSIProvider,
+  createLocalProvider,
+  createFileProvider,
+} from "./providers";
+
 // Lighthouse CI exports
 export {
   LighthouseRunner,
@@ -48,6 +108,15 @@ export {
   createPSIRunner,
   createHybridRunners,
   getDefaultThresholds,
+  importLighthouseResult,
+  importLighthouseReport,
+  importLighthouseReports,
+  readLHCIResults,
+  formatAssertionResult,
+  readLHCIConfigFile,
+  LocalLighthouseRunner,
+  createLocalRunner,
+  analyzeLocalUrl,
 } from "./lighthouse";
 
 // Project Context Detection exports
@@ -62,6 +131,13 @@ export {
   ActionableReportGenerator,
   createReportGenerator,
   generateActionableReport,
+  generateReportForUrl,
+  renderHtmlReport,
+  DEFAULT_MARKDOWN_MAX_LENGTH,
+  renderComparisonMarkdown,
+  renderReportMarkdown,
+  renderResultMarkdown,
+  renderResultsMarkdown,
 } from "./report";
 
 // Bundle Analysis exports
@@ -83,19 +159,56 @@ export type {
   // Core types
   CoreWebVitals,
   MetricValue,
+  MetricStats,
+  FieldMetricId,
+  FieldMetricDistribution,
+  FieldMetric,
+  FieldData,
   Strategy,
   Category,
   // PageSpeed types
   PageSpeedOptions,
+  PageSpeedClientOptions,
+  CacheMode,
+  RequestKeyInput,
+  QueueEvent,
+  RetryAttempt,
+  PageSpeedErrorCode,
+  PageSpeedErrorJSON,
+  PageSpeedApiErrorDetails,
+  GoogleApiErrorBody,
+  BatchJob,
+  BatchOptions,
+  BatchProgress,
+  BatchJobError,
+  BatchJobResult,
+  BatchResult,
   PageSpeedResponse,
   LoadingExperience,
   LighthouseResult,
+  LighthouseRuntimeError,
+  LighthouseEntity,
   LighthouseCategories,
   LighthouseCategory,
   LighthouseAudit,
   AuditDetails,
+  // CrUX types
+  CruxFormFactor,
+  CruxQuery,
+  CruxHistoryQuery,
+  CruxClientOptions,
+  CruxRecordKey,
+  CruxCollectionPeriod,
+  CruxRecord,
+  CruxTimeseriesPoint,
+  CruxHistory,
+  CruxTrend,
   // Result types
   PerformanceResult,
+  PerformanceResultSource,
+  RunAggregation,
+  RunWarning,
+  RunWarningType,
   CategoryScores,
   LCPElement,
   LCPBreakdown,
@@ -110,15 +223,79 @@ export type {
   ThirdPartyIssue,
   LongTask,
   RenderBlockingResource,
+  // Budget types
+  Budget,
+  BudgetResourceType,
+  BudgetTimingMetric,
+  ResourceBudget,
+  TimingBudget,
+  ResourceUsage,
+  ResourceSummary,
+  BudgetViolation,
+  BudgetViolationKind,
+  BudgetResult,
+  // Provider types
+  AnalysisOptions,
+  AnalysisProvider,
+  ProviderOptions,
+  AnalysisProviderFactory,
+  ProviderSelection,
+  PSIProviderOptions,
+  LocalProviderOptions,
+  FileProviderOptions,
+  BuiltInProviderOptions,
+  BuiltInProviderName,
+  // Comparison types
+  ComparisonTolerances,
+  ToleranceOverrides,
+  ChangeStatus,
+  RegressionSeverity,
+  ScoreChange,
+  MetricChange,
+  OpportunityChange,
+  InsightType,
+  InsightChange,
+  ListChanges,
+  Regression,
+  ResultComparison,
   // Lighthouse CI types
   LHCIMethod,
   LHCIOptions,
+  LHCIAssertionLevel,
+  LHCIAggregationMethod,
+  LHCIAssertionOptions,
+  LHCIAssertion,
   LHCIAssertions,
+  LHCIAssertMatrixEntry,
+  LHCIAssertionConfig,
+  LHCIAuthScriptOptions,
+  LHCIConfigFormat,
+  LHCIServerOptions,
   LHCIConfig,
+  LHCIAssertionResult,
+  LHCIUrlResult,
+  LHCIResults,
+  LHCIRunResult,
+  ReadLHCIResultsOptions,
+  LocalThrottlingProfile,
+  LocalThrottlingMethod,
+  LocalThrottlingSettings,
+  LocalRunnerOptions,
+  LocalLighthouseOptions,
   // Configuration types
   PerformanceThresholds,
+  ThresholdResolutionOptions,
   ProjectConfig,
+  PerformanceConfig,
+  ResolvedConfig,
   ToolkitConfig,
+  CacheConfig,
+  RetryConfig,
+  RateLimitConfig,
+  FixtureConfig,
+  FixtureMode,
+  TransportConfig,
+  QuotaProfile,
   // CLI types
   CLIOptions,
   CLIResult,
@@ -137,6 +314,10 @@ export type {
   FrameworkSpecificNote,
   NextStep,
   ActionableReport,
+  FieldDataSummary,
+  HtmlReportOptions,
+  MarkdownReportOptions,
+  MarkdownResultEntry,
   // Bundle types
   BundleAnalyzerOptions,
   BundleAnalysisResult,
@@ -0,0 +1,131 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Maps PerformanceThresholds to Lighthouse CI assertions.
+ *
+ * @module lighthouse/assertions
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  LHCIAssertionConfig,
+  LHCIAssertions,
+  LHCIAssertMatrixEntry,
+  LHCIConfig,
+  PerformanceThresholds,
+} from "../types";
+
+/**
+ * Lighthouse audit asserted for each threshold. Scores are 0-100 in
+ * thresholds and 0-1 in LHCI. INP and TTFB thresholds apply to the CrUX
+ * field p75 (see `evaluateThresholds`), so they are not asserted against
+ * lab audits by LHCI.
+ */
+export const THRESHOLD_ASSERTIONS: Record<
+  Exclude<keyof PerformanceThresholds, "inp" | "ttfb">,
+  { auditId: string; option: "minScore" | "maxNumericValue"; scale: number }
+> = {
+  performance: {
+    auditId: "categories:performance",
+    option: "minScore",
+    scale: 100,
+  },
+  accessibility: {
+    auditId: "categories:accessibility",
+    option: "minScore",
+    scale: 100,
+  },
+  bestPractices: {
+    auditId: "categories:best-practices",
+    option: "minScore",
+    scale: 100,
+  },
+  seo: { auditId: "categories:seo", option: "minScore", scale: 100 },
+  lcp: {
+    auditId: "largest-contentful-paint",
+    option: "maxNumericValue",
+    scale: 1,
+  },
+  fcp: {
+    auditId: "first-contentful-paint",
+    option: "maxNumericValue",
+    scale: 1,
+  },
+  cls: {
+    auditId: "cumulative-layout-shift",
+    option: "maxNumericValue",
+    scale: 1,
+  },
+  tbt: { auditId: "total-blocking-time", option: "maxNumericValue", scale: 1 },
+  tti: { auditId: "interactive", option: "maxNumericValue", scale: 1 },
+  si: { auditId: "speed-index", option: "maxNumericValue", scale: 1 },
+};
+
+/**
+ * Builds LHCI assertions for a set of thresholds
+ * @param thresholds - Thresholds to assert
+ * @param config - Default and per-metric levels
+ */
+export function buildAssertions(
+  thresholds: Partial<PerformanceThresholds>,
+  config: Pick<LHCIAssertionConfig, "level" | "levels"> = {},
+): LHCIAssertions {
+  const assertions: LHCIAssertions = {};
+
+  for (const [metric, { auditId, option, scale }] of Object.entries(
+    THRESHOLD_ASSERTIONS,
+  )) {
+    const value = thresholds[metric as keyof typeof THRESHOLD_ASSERTIONS];
+    if (value === undefined) continue;
+
+    const level =
+      config.levels?.[metric as keyof PerformanceThresholds] ??
+      config.level ??
+      "error";
+    assertions[auditId] = [level, { [option]: value / scale }];
+  }
+
+  return assertions;
+}
+
+/**
+ * Builds the LHCI `assert` section. URL overrides turn it into an
+ * `assertMatrix`: one entry per pattern with the overrides merged over the
+ * base thresholds, plus one with the base thresholds for every other URL.
+ * A URL matching several patterns must pass each matching entry.
+ * @param thresholds - Base thresholds
+ * @param config - Levels, aggregation method and URL overrides
+ */
+export function buildAssertConfig(
+  thresholds: PerformanceThresholds,
+  config: LHCIAssertionConfig = {},
+): NonNullable<LHCIConfig["ci"]["assert"]> {
+  const { aggregationMethod, urlThresholds = {} } = config;
+  const patterns = Object.keys(urlThresholds);
+
+  if (patterns.length === 0) {
+    return {
+      assertions: buildAssertions(thresholds, config),
+      ...(aggregationMethod && { aggregationMethod }),
+    };
+  }
+
+  const entry = (
+    matchingUrlPattern: string,
+    entryThresholds: Partial<PerformanceThresholds>,
+  ): LHCIAssertMatrixEntry => ({
+    matchingUrlPattern,
+    assertions: buildAssertions(entryThresholds, config),
+    ...(aggregationMethod && { aggregationMethod }),
+  });
+
+  return {
+    assertMatrix: [
+      entry(`^(?!.*(?:${patterns.join("|")}))`, thresholds),
+      ...patterns.map((pattern) =>
+        entry(pattern, { ...thresholds, ...urlThresholds[pattern] }),
+      ),
+    ],
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Reads and writes lighthouserc files in every format LHCI accepts.
+ *
+ * @module lighthouse/config-file
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { LHCIConfig, LHCIConfigFormat } from "../types";
+
+/** Config format of each lighthouserc extension (`.js` depends on the package type) */
+export const LHCI_CONFIG_EXTENSIONS: Record<string, LHCIConfigFormat> = {
+  ".cjs": "cjs",
+  ".mjs": "esm",
+  ".json": "json",
+  ".yml": "yaml",
+  ".yaml": "yaml",
+};
+
+/** Subset of the optional `yaml` package used for YAML lighthouserc files */
+interface YamlModule {
+  parse: (source: string) => unknown;
+  stringify: (value: unknown) => string;
+}
+
+/** Type annotation for the JavaScript formats */
+const CONFIG_TYPE_COMMENT =
+  "/** @type {import('@lhci/cli').LighthouseConfig} */";
+
+/**
+ * Picks the config format from a file extension. `.js` files are ESM when
+ * the nearest package.json has `"type": "module"` and CommonJS otherwise.
+ * @param filePath - lighthouserc path
+ * @throws Error for unsupported extensions
+ */
+export function getLHCIConfigFormat(filePath: string): LHCIConfigFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".js") {
+    return isModulePackage(path.dirname(path.resolve(filePath)))
+      ? "esm"
+      : "cjs";
+  }
+
+  const format = LHCI_CONFIG_EXTENSIONS[extension];
+  if (!format) {
+    throw new Error(
+      `Unsupported lighthouserc extension "${extension}" in ${filePath}, ` +
+        `expected .js, ${Object.keys(LHCI_CONFIG_EXTENSIONS).join(", ")}`,
+    );
+  }
+  return format;
+}
+
+/**
+ * Serializes a configuration as lighthouserc content
+ * @param config - LHCI configuration
+ * @param format - Output format
+ * @throws Error for YAML when the optional `yaml` package is not installed
+ */
+export function generateLHCIConfigFile(
+  config: LHCIConfig,
+  format: LHCIConfigFormat = "cjs",
+): string {
+  const json = JSON.stringify(config, null, 2);
+
+  switch (format) {
+    case "cjs":
+      return `${CONFIG_TYPE_COMMENT}\nmodule.exports = ${json};\n`;
+    case "esm":
+      return `${CONFIG_TYPE_COMMENT}\nexport default ${json};\n`;
+    case "json":
+      return `${json}\n`;
+    case "yaml":
+      return loadYaml().stringify(JSON.parse(json));
+    default:
+      throw new Error(`Unsupported lighthouserc format: ${format}`);
+  }
+}
+
+/**
+ * Writes a lighthouserc file, creating its directory if needed
+ * @param config - LHCI configuration
+ * @param filePath - Destination path
+ * @param format - Output format (chosen from the extension when omitted)
+ */
+export function writeLHCIConfigFile(
+  config: LHCIConfig,
+  filePath: string,
+  format: LHCIConfigFormat = getLHCIConfigFormat(filePath),
+): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, generateLHCIConfigFile(config, format));
+}
+
+/**
+ * Validates a loaded configuration. Options the toolkit does not model are
+ * kept as they are, so files round-trip.
+ * @param data - Parsed configuration
+ * @param source - File path or description used in error messages
+ * @throws Error when there is no `ci` object
+ */
+export function parseLHCIConfig(data: unknown, source = "config"): LHCIConfig {
+  const ci = isObject(data) ? data.ci : undefined;
+  if (!isObject(ci)) {
+    throw new Error(`Invalid lighthouserc in ${source}: missing "ci" object`);
+  }
+
+  for (const key of ["collect", "assert", "upload"]) {
+    if (ci[key] !== undefined && !isObject(ci[key])) {
+      throw new Error(
+        `Invalid lighthouserc in ${source}: "ci.${key}" must be an object`,
+      );
+    }
+  }
+
+  const config = data as unknown as LHCIConfig;
+  config.ci.collect ??= {} as LHCIConfig["ci"]["collect"];
+  return config;
+}
+
+/**
+ * Loads a lighthouserc file in any supported format
+ * @param filePath - lighthouserc path
+ * @throws Error when the file is missing, unparsable or invalid
+ */
+export async function readLHCIConfigFile(
+  filePath: string,
+): Promise<LHCIConfig> {
+  return parseLHCIConfig(await loadConfigModule(filePath), filePath);
+}
+
+/**
+ * Loads the data of a JavaScript, JSON or YAML configuration file: the
+ * `module.exports` or default export, or the parsed document
+ * @param filePath - Configuration file path
+ * @throws Error when the file is missing, unparsable or has an unsupported
+ *   extension, or for YAML when the optional `yaml` package is not installed
+ */
+export async function loadConfigModule(filePath: string): Promise<unknown> {
+  const absolutePath = path.resolve(filePath);
+
+  switch (getLHCIConfigFormat(absolutePath)) {
+    case "json":
+      return JSON.parse(fs.readFileSync(absolutePath, "utf-8"));
+    case "yaml":
+      return loadYaml().parse(fs.readFileSync(absolutePath, "utf-8"));
+    case "cjs": {
+      // Bypass the require cache so edited files are read again
+      const load = createRequire(absolutePath);
+      delete load.cache[absolutePath];
+      return load(absolutePath);
+    }
+    case "esm":
+      return (await import(pathToFileURL(absolutePath).href)).default;
+  }
+}
+
+/**
+ * Loads the optional `yaml` package. It is resolved from the working
+ * directory, where the project installs its peer dependencies, so that
+ * `generateLHCIConfigFile()` can stay synchronous in both builds.
+ * @throws Error when the package is not installed
+ */
+function loadYaml(): YamlModule {
+  try {
+    return createRequire(path.join(process.cwd(), "package.json"))(
+      "yaml",
+    ) as YamlModule;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "MODULE_NOT_FOUND") {
+      throw new Error(
+        "YAML lighthouserc files need the yaml package. " +
+          "Install it with: npm install -D yaml",
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks whether the nearest package.json declares `"type": "module"`
+ */
+function isModulePackage(directory: string): boolean {
+  const packagePath = path.join(directory, "package.json");
+  if (fs.existsSync(packagePath)) {
+    try {
+      return (
+        JSON.parse(fs.readFileSync(packagePath, "utf-8")).type === "module"
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  const parent = path.dirname(directory);
+  return parent !== directory && isModulePackage(parent);
+}
+
+/**
+ * Checks for a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,175 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Imports local Lighthouse JSON reports (LHR) as PerformanceResults.
+ *
+ * @module lighthouse/import
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import type { LighthouseResult, PerformanceResult, Strategy } from "../types";
+import { aggregateResults } from "../pagespeed/aggregate";
+import { InvalidLighthouseReportError } from "../pagespeed/errors";
+import { createPerformanceResult } from "../pagespeed/transform";
+
+/** Oldest Lighthouse major version whose audits the extractors understand */
+export const MIN_LIGHTHOUSE_VERSION = 10;
+
+/** File names Lighthouse CI uses for reports in `.lighthouseci` */
+const LHCI_REPORT_PATTERN = /^lhr-.*\.json$/;
+
+/**
+ * Validates that a parsed JSON value is a supported Lighthouse report
+ * @param data - Parsed JSON
+ * @param source - File path or description used in error messages
+ * @throws InvalidLighthouseReportError for other JSON or old Lighthouse versions
+ */
+export function parseLighthouseResult(
+  data: unknown,
+  source = "report",
+): LighthouseResult {
+  const lhr = data as Partial<LighthouseResult> | null;
+
+  if (!lhr || typeof lhr !== "object" || Array.isArray(lhr)) {
+    throw new InvalidLighthouseReportError(source, "expected a JSON object");
+  }
+
+  if (typeof lhr.lighthouseVersion !== "string") {
+    throw new InvalidLighthouseReportError(
+      source,
+      "missing lighthouseVersion (not a Lighthouse JSON report?)",
+    );
+  }
+
+  const major = parseInt(lhr.lighthouseVersion, 10);
+  if (!(major >= MIN_LIGHTHOUSE_VERSION)) {
+    throw new InvalidLighthouseReportError(
+      source,
+      `Lighthouse ${lhr.lighthouseVersion} is not supported (requires ${MIN_LIGHTHOUSE_VERSION}+)`,
+    );
+  }
+
+  if (!lhr.audits || typeof lhr.audits !== "object") {
+    throw new InvalidLighthouseReportError(source, "missing audits");
+  }
+
+  if (!lhr.categories || typeof lhr.categories !== "object") {
+    throw new InvalidLighthouseReportError(source, "missing categories");
+  }
+
+  return lhr as LighthouseResult;
+}
+
+/**
+ * Converts a Lighthouse report into a PerformanceResult
+ * @param lhr - Lighthouse result
+ * @param options - Strategy override (read from `configSettings` otherwise)
+ */
+export function importLighthouseResult(
+  lhr: LighthouseResult,
+  options: { strategy?: Strategy } = {},
+): PerformanceResult {
+  const url = lhr.requestedUrl ?? lhr.finalDisplayedUrl ?? lhr.finalUrl;
+
+  return createPerformanceResult(lhr, {
+    url,
+    strategy: options.strategy ?? lhr.configSettings?.formFactor ?? "mobile",
+    timestamp: lhr.fetchTime,
+  });
+}
+
+/**
+ * Reads and validates a single Lighthouse JSON report
+ * @param filePath - Path to the report (e.g. `lighthouse --output json`)
+ * @throws InvalidLighthouseReportError when the file is not a usable report
+ */
+export function readLighthouseReport(filePath: string): LighthouseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new InvalidLighthouseReportError(filePath, (error as Error).message, {
+      cause: error,
+    });
+  }
+
+  return parseLighthouseResult(data, filePath);
+}
+
+/**
+ * Reads and imports a single Lighthouse JSON report
+ * @param filePath - Path to the report (e.g. `lighthouse --output json`)
+ * @throws InvalidLighthouseReportError when the file is not a usable report
+ */
+export function importLighthouseReport(filePath: string): PerformanceResult {
+  return importLighthouseResult(readLighthouseReport(filePath));
+}
+
+/**
+ * Lists Lighthouse CI report files (`lhr-*.json`) in a directory, oldest first
+ * @param directory - Directory such as `.lighthouseci`
+ */
+export function listLighthouseReports(directory: string): string[] {
+  return fs
+    .readdirSync(directory)
+    .filter((file) => LHCI_REPORT_PATTERN.test(file))
+    .sort()
+    .map((file) => path.join(directory, file));
+}
+
+/**
+ * Combines runs of the same URL and strategy around the median run
+ * @param runs - Imported runs (at least one)
+ * @returns The median run with aggregation statistics, or the only run
+ */
+export function aggregateRuns(runs: PerformanceResult[]): PerformanceResult {
+  return runs.length === 1 ? runs[0] : aggregateResults(runs);
+}
+
+/**
+ * Imports a report file, or every `lhr-*.json` report in a directory such
+ * as `.lighthouseci`. Several runs of the same URL and strategy are combined
+ * around the median run, as {@link aggregateResults} does for PSI runs.
+ * @param reportPath - Report file or directory
+ * @param options - Set `aggregate: false` to keep every run
+ * @returns One result per URL and strategy (or per report without aggregation)
+ */
+export function importLighthouseReports(
+  reportPath: string,
+  options: { aggregate?: boolean } = {},
+): PerformanceResult[] {
+  const { aggregate = true } = options;
+
+  if (!fs.existsSync(reportPath)) {
+    throw new InvalidLighthouseReportError(
+      reportPath,
+      "no such file or directory",
+    );
+  }
+
+  if (!fs.statSync(reportPath).isDirectory()) {
+    return [importLighthouseReport(reportPath)];
+  }
+
+  const files = listLighthouseReports(reportPath);
+  if (files.length === 0) {
+    throw new InvalidLighthouseReportError(
+      reportPath,
+      "no lhr-*.json reports found",
+    );
+  }
+
+  const results = files.map((file) => importLighthouseReport(file));
+  if (!aggregate) return results;
+
+  const groups = new Map<string, PerformanceResult[]>();
+  for (const result of results) {
+    const key = `${result.strategy} ${result.url}`;
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+
+  return [...groups.values()].map(aggregateRuns);
+}
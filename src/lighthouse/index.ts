@@ -9,17 +9,38 @@
  */
 
 import type {
-  LHCIAssertions,
+  Budget,
+  LHCIAssertionConfig,
+  LHCIAuthScriptOptions,
   LHCIConfig,
+  LHCIConfigFormat,
   LHCIOptions,
+  LHCIRunResult,
+  LHCIServerOptions,
   PerformanceThresholds,
 } from "../types";
+import { generateBudgetFile } from "../budget/file";
+import { buildAssertConfig } from "./assertions";
+import {
+  generateLHCIConfigFile,
+  readLHCIConfigFile,
+  writeLHCIConfigFile,
+} from "./config-file";
+import { readLHCIResults } from "./results";
+import {
+  assertNodeMethod,
+  serializeCookies,
+  validateHeaders,
+  validateScriptPath,
+  validateServerOptions,
+} from "./validation";
 
 /**
  * Lighthouse CI Runner for programmatic execution
  */
 export class LighthouseRunner {
   private config: LHCIConfig;
+  private budgets?: Budget[];
 
   /**
    * Creates a new Lighthouse runner
@@ -29,6 +50,30 @@ export class LighthouseRunner {
     this.config = this.buildConfig(options);
   }
 
+  /**
+   * Creates a runner from an existing LHCI configuration. Options the
+   * toolkit does not model are kept and written back by `writeConfigFile()`.
+   * @param config - LHCI configuration (copied, not referenced)
+   * @returns Runner that can be extended with the fluent methods
+   */
+  static fromConfig(config: LHCIConfig): LighthouseRunner {
+    const runner = new LighthouseRunner({ urls: [] });
+    runner.config = structuredClone(config);
+    runner.budgets = runner.config.ci.collect.settings?.budgets;
+    return runner;
+  }
+
+  /**
+   * Creates a runner from a lighthouserc file (.js, .cjs, .mjs, .json,
+   * .yml or .yaml)
+   * @param filePath - lighthouserc path
+   * @returns Runner that can be extended with the fluent methods
+   * @throws Error when the file is missing, unparsable or invalid
+   */
+  static async fromConfigFile(filePath: string): Promise<LighthouseRunner> {
+    return LighthouseRunner.fromConfig(await readLHCIConfigFile(filePath));
+  }
+
   /**
    * Builds LHCI configuration from options
    */
@@ -79,61 +124,129 @@ export class LighthouseRunner {
   /**
    * Adds assertion thresholds to the configuration
    * @param thresholds - Performance thresholds to assert
+   * @param options - Levels, aggregation method and per-URL overrides
    * @returns This runner instance for chaining
    */
-  withAssertions(thresholds: PerformanceThresholds): this {
-    const assertions: LHCIAssertions = {};
-
-    if (thresholds.performance !== undefined) {
-      assertions["categories:performance"] = [
-        "error",
-        { minScore: thresholds.performance / 100 },
-      ];
-    }
-    if (thresholds.accessibility !== undefined) {
-      assertions["categories:accessibility"] = [
-        "error",
-        { minScore: thresholds.accessibility / 100 },
-      ];
-    }
-    if (thresholds.bestPractices !== undefined) {
-      assertions["categories:best-practices"] = [
-        "error",
-        { minScore: thresholds.bestPractices / 100 },
-      ];
-    }
-    if (thresholds.seo !== undefined) {
-      assertions["categories:seo"] = [
-        "error",
-        { minScore: thresholds.seo / 100 },
-      ];
-    }
-    if (thresholds.lcp !== undefined) {
-      assertions["largest-contentful-paint"] = [
-        "error",
-        { maxNumericValue: thresholds.lcp },
-      ];
+  withAssertions(
+    thresholds: PerformanceThresholds,
+    options: LHCIAssertionConfig = {},
+  ): this {
+    this.config.ci.assert = buildAssertConfig(thresholds, options);
+    return this;
+  }
+
+  /**
+   * Adds resource and timing budgets, passed to Lighthouse as the `budgets`
+   * setting and checked against each URL's representative run by `run()`
+   * @param budgets - Budgets in the Lighthouse `budget.json` format
+   * @returns This runner instance for chaining
+   */
+  withBudgets(budgets: Budget[]): this {
+    this.budgets = budgets;
+    this.config.ci.collect.settings = {
+      ...this.config.ci.collect.settings,
+      budgets,
+    };
+    return this;
+  }
+
+  /**
+   * Runs a Puppeteer script before each URL is audited, e.g. to log in to
+   * pages behind authentication. The script exports
+   * `async (browser, { url }) => {}`.
+   * @param scriptPath - Path to the script (.js, .cjs or .mjs)
+   * @param options - Puppeteer launch options
+   * @returns This runner instance for chaining
+   * @throws Error for PSI runners or when the script does not exist
+   */
+  withAuthScript(
+    scriptPath: string,
+    options: LHCIAuthScriptOptions = {},
+  ): this {
+    assertNodeMethod(this.config.ci.collect.method, "withAuthScript()");
+    validateScriptPath(scriptPath);
+
+    this.config.ci.collect.puppeteerScript = scriptPath;
+    if (options.launchOptions) {
+      this.config.ci.collect.puppeteerLaunchOptions = options.launchOptions;
     }
-    if (thresholds.fcp !== undefined) {
-      assertions["first-contentful-paint"] = [
-        "error",
-        { maxNumericValue: thresholds.fcp },
-      ];
+    return this;
+  }
+
+  /**
+   * Starts a server before collecting and stops it afterwards
+   * @param command - Command that starts the server (e.g. "npm run start")
+   * @param options - Ready pattern and timeout
+   * @returns This runner instance for chaining
+   * @throws Error for an empty command, invalid pattern or timeout
+   */
+  withServer(command: string, options: LHCIServerOptions = {}): this {
+    const { readyPattern, readyTimeout } = options;
+    validateServerOptions(command, readyPattern, readyTimeout);
+
+    const { collect } = this.config.ci;
+    collect.startServerCommand = command;
+    if (readyPattern !== undefined) {
+      collect.startServerReadyPattern = readyPattern;
     }
-    if (thresholds.cls !== undefined) {
-      assertions["cumulative-layout-shift"] = [
-        "error",
-        { maxNumericValue: thresholds.cls },
-      ];
+    if (readyTimeout !== undefined) {
+      collect.startServerReadyTimeout = readyTimeout;
     }
-    if (thresholds.tbt !== undefined) {
-      assertions["total-blocking-time"] = [
-        "error",
-        { maxNumericValue: thresholds.tbt },
-      ];
+    return this;
+  }
+
+  /**
+   * Sends extra headers with every request (e.g. `Authorization`),
+   * merged with previously set headers
+   * @param headers - Header names and values
+   * @returns This runner instance for chaining
+   * @throws Error for PSI runners or invalid headers
+   */
+  withHeaders(headers: Record<string, string>): this {
+    assertNodeMethod(this.config.ci.collect.method, "withHeaders()");
+    validateHeaders(headers);
+
+    this.config.ci.collect.settings = {
+      ...this.config.ci.collect.settings,
+      extraHeaders: {
+        ...this.config.ci.collect.settings?.extraHeaders,
+        ...headers,
+      },
+    };
+    return this;
+  }
+
+  /**
+   * Sends cookies with every request, appended to the `Cookie` header
+   * @param cookies - Cookie names and values
+   * @returns This runner instance for chaining
+   * @throws Error for PSI runners or invalid cookies
+   */
+  withCookies(cookies: Record<string, string>): this {
+    assertNodeMethod(this.config.ci.collect.method, "withCookies()");
+    const cookieHeader = serializeCookies(cookies);
+    if (!cookieHeader) {
+      return this;
     }
 
-    this.config.ci.assert = { assertions };
+    const existing = this.config.ci.collect.settings?.extraHeaders?.Cookie;
+    return this.withHeaders({
+      Cookie: existing ? `${existing}; ${cookieHeader}` : cookieHeader,
+    });
+  }
+
+  /**
+   * Keeps cookies, cache and storage between runs, so a session set up by
+   * the auth script survives
+   * @returns This runner instance for chaining
+   * @throws Error for PSI runners
+   */
+  disableStorageReset(): this {
+    assertNodeMethod(this.config.ci.collect.method, "disableStorageReset()");
+    this.config.ci.collect.settings = {
+      ...this.config.ci.collect.settings,
+      disableStorageReset: true,
+    };
     return this;
   }
 
@@ -165,16 +278,21 @@ export class LighthouseRunner {
 
   /**
    * Runs Lighthouse CI with the configured options
-   * @returns Promise resolving to exit code (0 for success)
+   * @returns Collected runs per URL, the representative (median) run, assertion
+   *   outcomes and upload links, read from `.lighthouseci`
    */
-  async run(): Promise<number> {
+  async run(): Promise<LHCIRunResult> {
+    // File timestamps are coarser than the system clock, allow some slack
+    const startedAt = new Date(Date.now() - 1000);
+    let success: boolean;
+
     // Dynamic import to avoid requiring @lhci/cli at module load time
     try {
       const { autorun } = await import("@lhci/cli");
 
       // Run with the ci config
       const result = await autorun(this.config.ci);
-      return result.success ? 0 : 1;
+      success = result.success;
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === "MODULE_NOT_FOUND") {
         throw new Error(
@@ -184,17 +302,39 @@ export class LighthouseRunner {
       }
       throw error;
     }
+
+    const results = readLHCIResults(undefined, {
+      since: startedAt,
+      budgets: this.budgets,
+    });
+    return { ...results, success, exitCode: success ? 0 : 1 };
   }
 
   /**
-   * Generates a lighthouserc.js configuration file content
+   * Generates lighthouserc configuration file content
+   * @param format - File format (CommonJS `lighthouserc.js` by default)
    * @returns Configuration file content as string
    */
-  generateConfigFile(): string {
-    const configContent = `/** @type {import('@lhci/cli').LighthouseConfig} */
-module.exports = ${JSON.stringify(this.config, null, 2)};
-`;
-    return configContent;
+  generateConfigFile(format: LHCIConfigFormat = "cjs"): string {
+    return generateLHCIConfigFile(this.config, format);
+  }
+
+  /**
+   * Writes a lighthouserc file
+   * @param filePath - Destination, e.g. "lighthouserc.json" or ".lighthouserc.yml"
+   * @param format - File format (chosen from the extension when omitted;
+   *   `.js` follows the nearest package.json `type`)
+   */
+  writeConfigFile(filePath: string, format?: LHCIConfigFormat): void {
+    writeLHCIConfigFile(this.config, filePath, format);
+  }
+
+  /**
+   * Generates a budget.json file content for the configured budgets
+   * @returns Budget file content as string (an empty array without budgets)
+   */
+  generateBudgetFile(): string {
+    return generateBudgetFile(this.budgets ?? []);
   }
 }
 
@@ -278,6 +418,8 @@ export function getDefaultThresholds(strict = false): PerformanceThresholds {
       fcp: 1800,
       cls: 0.1,
       tbt: 200,
+      inp: 200,
+      ttfb: 800,
     };
   }
 
@@ -290,5 +432,37 @@ export function getDefaultThresholds(strict = false): PerformanceThresholds {
     fcp: 3000,
     cls: 0.25,
     tbt: 600,
+    inp: 500,
+    ttfb: 1800,
   };
 }
+
+// Local report import
+export {
+  MIN_LIGHTHOUSE_VERSION,
+  parseLighthouseResult,
+  importLighthouseResult,
+  importLighthouseReport,
+  importLighthouseReports,
+} from "./import";
+
+// LHCI run results
+export { LHCI_DIR, readLHCIResults, formatAssertionResult } from "./results";
+
+// lighthouserc files
+export {
+  LHCI_CONFIG_EXTENSIONS,
+  getLHCIConfigFormat,
+  generateLHCIConfigFile,
+  writeLHCIConfigFile,
+  parseLHCIConfig,
+  readLHCIConfigFile,
+} from "./config-file";
+
+// Local Lighthouse runs without @lhci/cli
+export {
+  LocalLighthouseRunner,
+  LOCAL_THROTTLING_PROFILES,
+  createLocalRunner,
+  analyzeLocalUrl,
+} from "./local";
@@ -0,0 +1,247 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Local Lighthouse runner - drives `lighthouse` and `chrome-launcher`
+ * directly, without @lhci/cli.
+ *
+ * @module lighthouse/local
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  LighthouseResult,
+  LocalLighthouseOptions,
+  LocalRunnerOptions,
+  LocalThrottlingProfile,
+  LocalThrottlingSettings,
+  PerformanceResult,
+} from "../types";
+import { DEFAULT_CATEGORIES } from "../pagespeed/constants";
+import {
+  DocumentRequestError,
+  InvalidLighthouseReportError,
+  isDocumentRequestErrorCode,
+} from "../pagespeed/errors";
+import { createPerformanceResult } from "../pagespeed/transform";
+import { stripUndefined } from "../pagespeed/utils";
+import { aggregateRuns } from "./import";
+
+/** Throttling values of each Lighthouse preset */
+export const LOCAL_THROTTLING_PROFILES: Record<
+  LocalThrottlingProfile,
+  LocalThrottlingSettings
+> = {
+  mobileSlow4G: {
+    rttMs: 150,
+    throughputKbps: 1638.4,
+    requestLatencyMs: 562.5,
+    downloadThroughputKbps: 1474.56,
+    uploadThroughputKbps: 675,
+    cpuSlowdownMultiplier: 4,
+  },
+  mobileRegular3G: {
+    rttMs: 300,
+    throughputKbps: 700,
+    requestLatencyMs: 1125,
+    downloadThroughputKbps: 630,
+    uploadThroughputKbps: 630,
+    cpuSlowdownMultiplier: 4,
+  },
+  desktopDense4G: {
+    rttMs: 40,
+    throughputKbps: 10240,
+    requestLatencyMs: 0,
+    downloadThroughputKbps: 0,
+    uploadThroughputKbps: 0,
+    cpuSlowdownMultiplier: 1,
+  },
+  none: {
+    rttMs: 0,
+    throughputKbps: 0,
+    requestLatencyMs: 0,
+    downloadThroughputKbps: 0,
+    uploadThroughputKbps: 0,
+    cpuSlowdownMultiplier: 1,
+  },
+};
+
+/** Default Chrome flags, as for LHCI node runs */
+const DEFAULT_CHROME_FLAGS = ["--headless", "--no-sandbox"];
+
+/** Subset of the `lighthouse` module used by the runner */
+interface LighthouseModule {
+  default: (
+    url: string,
+    flags: Record<string, unknown>,
+    config?: unknown,
+  ) => Promise<{ lhr: LighthouseResult } | undefined>;
+  desktopConfig: unknown;
+}
+
+/** Subset of the `chrome-launcher` module used by the runner */
+interface ChromeLauncherModule {
+  launch: (options: {
+    chromeFlags?: string[];
+    chromePath?: string;
+  }) => Promise<{ port: number; kill: () => unknown }>;
+}
+
+/**
+ * Runs Lighthouse against local Chrome, e.g. for `http://localhost:3000`,
+ * returning the same PerformanceResults as PageSpeedClient
+ */
+export class LocalLighthouseRunner {
+  private options: LocalRunnerOptions;
+
+  /**
+   * Creates a new local runner
+   * @param options - Chrome and throttling defaults for every analysis
+   */
+  constructor(options: LocalRunnerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Analyzes a URL with local Chrome. Chrome is launched once for all runs
+   * and closed afterwards; with `numberOfRuns` above 1 the runs are
+   * aggregated around the representative (median) run.
+   * @param options - Analysis options
+   * @returns Performance analysis result
+   * @throws Error when lighthouse or chrome-launcher is not installed
+   * @throws DocumentRequestError when Lighthouse could not load the page
+   * @throws InvalidLighthouseReportError when Lighthouse returned no report
+   */
+  async analyze(options: LocalLighthouseOptions): Promise<PerformanceResult> {
+    const {
+      url,
+      strategy = "mobile",
+      categories = DEFAULT_CATEGORIES,
+      numberOfRuns = 1,
+      locale,
+      timeout,
+      chromeFlags = this.options.chromeFlags ?? DEFAULT_CHROME_FLAGS,
+      chromePath = this.options.chromePath,
+      throttling = this.options.throttling,
+      throttlingMethod = this.options.throttlingMethod,
+    } = options;
+
+    const { lighthouse, desktopConfig, launch } = await loadModules();
+    const chrome = await launch({ chromeFlags, chromePath });
+
+    try {
+      const flags = stripUndefined({
+        port: chrome.port,
+        output: "json",
+        logLevel: "error",
+        onlyCategories: categories,
+        locale,
+        maxWaitForLoad: timeout,
+        throttling:
+          typeof throttling === "string"
+            ? LOCAL_THROTTLING_PROFILES[throttling]
+            : throttling,
+        throttlingMethod:
+          throttlingMethod ?? (throttling === "none" ? "provided" : undefined),
+      });
+      const config = strategy === "desktop" ? desktopConfig : undefined;
+
+      const results: PerformanceResult[] = [];
+      for (let run = 0; run < Math.max(numberOfRuns, 1); run++) {
+        const runnerResult = await lighthouse(url, flags, config);
+        if (!runnerResult?.lhr) {
+          throw new InvalidLighthouseReportError(
+            `for ${url}`,
+            "Lighthouse returned no result",
+          );
+        }
+
+        const { lhr } = runnerResult;
+        const { runtimeError } = lhr;
+        if (isDocumentRequestErrorCode(runtimeError?.code)) {
+          throw new DocumentRequestError(
+            0,
+            "",
+            undefined,
+            {
+              apiMessage: runtimeError?.message,
+              runtimeErrorCode: runtimeError?.code,
+            },
+            `Lighthouse could not load ${url}: ${runtimeError?.message ?? runtimeError?.code}`,
+          );
+        }
+
+        results.push(
+          createPerformanceResult(lhr, {
+            url,
+            strategy,
+            timestamp: lhr.fetchTime,
+          }),
+        );
+      }
+
+      return aggregateRuns(results);
+    } finally {
+      await chrome.kill();
+    }
+  }
+}
+
+/**
+ * Loads the optional lighthouse and chrome-launcher packages
+ */
+async function loadModules(): Promise<{
+  lighthouse: LighthouseModule["default"];
+  desktopConfig: unknown;
+  launch: ChromeLauncherModule["launch"];
+}> {
+  try {
+    const lighthouseModule =
+      (await import("lighthouse")) as unknown as LighthouseModule;
+    const launcherModule = (await import("chrome-launcher")) as unknown as
+      ChromeLauncherModule | { default: ChromeLauncherModule };
+
+    return {
+      lighthouse: lighthouseModule.default,
+      desktopConfig: lighthouseModule.desktopConfig,
+      // CommonJS builds of chrome-launcher only expose a default export
+      launch:
+        "launch" in launcherModule
+          ? launcherModule.launch
+          : launcherModule.default.launch,
+    };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "MODULE_NOT_FOUND" || code === "ERR_MODULE_NOT_FOUND") {
+      throw new Error(
+        "Local Lighthouse runs need the lighthouse and chrome-launcher packages. " +
+          "Install them with: npm install -D lighthouse chrome-launcher",
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates a local Lighthouse runner
+ * @param options - Chrome and throttling defaults
+ * @returns Configured LocalLighthouseRunner
+ */
+export function createLocalRunner(
+  options: LocalRunnerOptions = {},
+): LocalLighthouseRunner {
+  return new LocalLighthouseRunner(options);
+}
+
+/**
+ * Quick function to analyze a single URL with local Chrome
+ * @param url - URL to analyze
+ * @param options - Analysis options
+ * @returns Performance result
+ */
+export async function analyzeLocalUrl(
+  url: string,
+  options: Omit<LocalLighthouseOptions, "url"> = {},
+): Promise<PerformanceResult> {
+  return new LocalLighthouseRunner().analyze({ url, ...options });
+}
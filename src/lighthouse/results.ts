@@ -0,0 +1,111 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Reads the reports, assertion results and upload links LHCI writes to
+ * `.lighthouseci`.
+ *
+ * @module lighthouse/results
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import type {
+  LHCIAssertionResult,
+  LHCIResults,
+  LHCIUrlResult,
+  LighthouseResult,
+  ReadLHCIResultsOptions,
+} from "../types";
+import {
+  aggregateRuns,
+  importLighthouseResult,
+  listLighthouseReports,
+  readLighthouseReport,
+} from "./import";
+import { evaluateBudgets } from "../budget/evaluate";
+
+/** Directory LHCI saves reports to, relative to the working directory */
+export const LHCI_DIR = ".lighthouseci";
+
+/**
+ * Reads the results of the last LHCI run
+ * @param directory - LHCI directory (`.lighthouseci` in the working directory)
+ * @param options - Read options
+ * @returns Per-URL runs, representative runs, assertion outcomes and links
+ */
+export function readLHCIResults(
+  directory = path.join(process.cwd(), LHCI_DIR),
+  options: ReadLHCIResultsOptions = {},
+): LHCIResults {
+  const reports = fs.existsSync(directory)
+    ? listLighthouseReports(directory).map(readLighthouseReport)
+    : [];
+  const assertionResults =
+    readJsonFile<LHCIAssertionResult[]>(
+      path.join(directory, "assertion-results.json"),
+      options.since,
+    ) ?? [];
+  const links =
+    readJsonFile<Record<string, string>>(
+      path.join(directory, "links.json"),
+      options.since,
+    ) ?? {};
+
+  // LHCI groups runs, assertions and links by final URL
+  const groups = new Map<string, LighthouseResult[]>();
+  for (const lhr of reports) {
+    groups.set(lhr.finalUrl, [...(groups.get(lhr.finalUrl) ?? []), lhr]);
+  }
+
+  const urls = [...groups].map(([url, lhrs]): LHCIUrlResult => {
+    const runs = lhrs.map((lhr) => importLighthouseResult(lhr));
+    const representative = aggregateRuns(runs);
+    const urlAssertions = assertionResults.filter((a) => a.url === url);
+
+    return {
+      url,
+      runs,
+      representative,
+      assertionResults: urlAssertions,
+      passed: !urlAssertions.some((a) => !a.passed && a.level === "error"),
+      ...(links[url] && { reportUrl: links[url] }),
+      ...(options.budgets && {
+        budget: evaluateBudgets(representative, options.budgets),
+      }),
+    };
+  });
+
+  return {
+    directory,
+    urls,
+    failedAssertions: assertionResults.filter((a) => !a.passed),
+    links,
+  };
+}
+
+/**
+ * Formats an assertion outcome the way LHCI prints it
+ * @param result - Assertion result
+ * @returns e.g. "largest-contentful-paint maxNumericValue: expected <=2500, found 3120"
+ */
+export function formatAssertionResult(result: LHCIAssertionResult): string {
+  const audit = result.auditProperty
+    ? `${result.auditId}.${result.auditProperty}`
+    : result.auditId;
+  // LHCI serializes the NaN of audits without a value as null
+  const found = result.actual ?? "no value";
+
+  return `${audit} ${result.name}: expected ${result.operator}${result.expected}, found ${found}`;
+}
+
+/**
+ * Reads a JSON file LHCI writes, skipping missing or stale files
+ */
+function readJsonFile<T>(filePath: string, since?: Date): T | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  if (since && fs.statSync(filePath).mtime < since) return undefined;
+
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+}
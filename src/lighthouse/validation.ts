@@ -0,0 +1,125 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Validation of LHCI collect settings set through LighthouseRunner.
+ *
+ * @module lighthouse/validation
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import type { LHCIMethod } from "../types";
+
+/** RFC 7230 token characters, valid in header and cookie names */
+const TOKEN_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** Characters that would split a header value into several headers */
+const LINE_BREAK_PATTERN = /[\r\n]/;
+
+/** File extensions Node can run as a Puppeteer script */
+const SCRIPT_EXTENSIONS = [".js", ".cjs", ".mjs"];
+
+/**
+ * Ensures a setting is only used with local Chrome runs
+ * @param method - Runner method (LHCI defaults to "node")
+ * @param setting - Setting name for the error message
+ * @throws Error for the PSI method, which runs on Google's servers
+ */
+export function assertNodeMethod(
+  method: LHCIMethod | undefined,
+  setting: string,
+): void {
+  if (method === "psi") {
+    throw new Error(
+      `${setting} requires the "node" method: PSI runs cannot log in or send custom headers`,
+    );
+  }
+}
+
+/**
+ * Validates a Puppeteer script path
+ * @param scriptPath - Path to the script
+ * @throws Error when the file does not exist or is not JavaScript
+ */
+export function validateScriptPath(scriptPath: string): void {
+  if (!SCRIPT_EXTENSIONS.includes(path.extname(scriptPath))) {
+    throw new Error(
+      `Puppeteer script must be a ${SCRIPT_EXTENSIONS.join(", ")} file: ${scriptPath}`,
+    );
+  }
+  if (!fs.existsSync(scriptPath)) {
+    throw new Error(`Puppeteer script not found: ${scriptPath}`);
+  }
+}
+
+/**
+ * Validates server startup settings
+ * @param command - Server start command
+ * @param readyPattern - Ready pattern (must be a valid regular expression)
+ * @param readyTimeout - Ready timeout in milliseconds
+ * @throws Error for an empty command, invalid pattern or timeout
+ */
+export function validateServerOptions(
+  command: string,
+  readyPattern?: string,
+  readyTimeout?: number,
+): void {
+  if (!command.trim()) {
+    throw new Error("Server start command must not be empty");
+  }
+  if (readyPattern !== undefined) {
+    try {
+      new RegExp(readyPattern);
+    } catch (error) {
+      throw new Error(
+        `Invalid server ready pattern: ${(error as Error).message}`,
+      );
+    }
+  }
+  if (
+    readyTimeout !== undefined &&
+    (!Number.isInteger(readyTimeout) || readyTimeout <= 0)
+  ) {
+    throw new Error(
+      `Server ready timeout must be a positive integer, got ${readyTimeout}`,
+    );
+  }
+}
+
+/**
+ * Validates request headers
+ * @param headers - Header names and values
+ * @throws Error for invalid names or values containing line breaks
+ */
+export function validateHeaders(headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!TOKEN_PATTERN.test(name)) {
+      throw new Error(`Invalid header name: "${name}"`);
+    }
+    if (typeof value !== "string" || LINE_BREAK_PATTERN.test(value)) {
+      throw new Error(`Invalid value for header "${name}"`);
+    }
+  }
+}
+
+/**
+ * Validates cookies and serializes them as a `Cookie` header value
+ * @param cookies - Cookie names and values
+ * @returns e.g. "session=abc; locale=en"
+ * @throws Error for invalid names or values
+ */
+export function serializeCookies(cookies: Record<string, string>): string {
+  return Object.entries(cookies)
+    .map(([name, value]) => {
+      if (!TOKEN_PATTERN.test(name)) {
+        throw new Error(`Invalid cookie name: "${name}"`);
+      }
+      if (typeof value !== "string" || /[;,\s"\\]/.test(value)) {
+        throw new Error(`Invalid value for cookie "${name}"`);
+      }
+      return `${name}=${value}`;
+    })
+    .join("; ");
+}
@@ -0,0 +1,179 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Multi-run aggregation: representative run selection and metric statistics.
+ *
+ * @module pagespeed/aggregate
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  CategoryScores,
+  CoreWebVitals,
+  MetricStats,
+  PerformanceResult,
+  RunAggregation,
+} from "../types";
+
+/**
+ * Gets the median of a list of numbers (mean of the middle pair when even)
+ */
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Gets a percentile (0-100) using linear interpolation between ranks
+ */
+function getPercentile(sorted: number[], percentile: number): number {
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Computes min/median/p75/max and standard deviation for a set of values
+ * @param values - Metric values (at least one)
+ */
+export function computeMetricStats(values: number[]): MetricStats {
+  if (values.length === 0) {
+    throw new Error("Cannot compute statistics for an empty set of values");
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance =
+    sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+
+  return {
+    min: sorted[0],
+    median: getMedian(sorted),
+    p75: getPercentile(sorted, 75),
+    max: sorted[sorted.length - 1],
+    stdDev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Checks whether a run can be aggregated: it has both FCP and TTI and no
+ * runtime error
+ */
+function isValidRun(result: PerformanceResult): boolean {
+  return (
+    result.metrics.fcp.value > 0 &&
+    result.metrics.tti.value > 0 &&
+    !result.warnings?.some((w) => w.type === "runtime-error")
+  );
+}
+
+/**
+ * Selects the representative run the way Lighthouse does: among runs with
+ * both FCP and TTI and no runtime error, the one closest to the median FCP
+ * and median TTI, with ties broken by the lowest TTI. With fewer than three
+ * valid runs the first valid run is used.
+ * @param results - Results of each run
+ * @returns Index of the representative run
+ */
+export function selectRepresentativeRun(results: PerformanceResult[]): number {
+  const valid = results
+    .map((result, index) => ({
+      index,
+      fcp: result.metrics.fcp.value,
+      tti: result.metrics.tti.value,
+      valid: isValidRun(result),
+    }))
+    .filter((run) => run.valid);
+
+  if (valid.length === 0) {
+    throw new Error(
+      "No runs with both FCP and TTI and without runtime errors to aggregate",
+    );
+  }
+
+  if (valid.length < 3) {
+    return valid[0].index;
+  }
+
+  const medianFcp = getMedian(valid.map((run) => run.fcp));
+  const medianTti = getMedian(valid.map((run) => run.tti));
+  const distance = (run: (typeof valid)[number]): number =>
+    (medianFcp - run.fcp) ** 2 + (medianTti - run.tti) ** 2;
+
+  const [closest] = [...valid].sort(
+    (a, b) => distance(a) - distance(b) || a.tti - b.tti,
+  );
+
+  return closest.index;
+}
+
+/**
+ * Aggregates several runs of the same URL/strategy into one result.
+ * The representative run provides the reported values; statistics for every
+ * metric and category score over the valid runs (see
+ * {@link selectRepresentativeRun}) are attached under `aggregation`, with the
+ * number of runs left out. When no run is valid (e.g. every run hit a
+ * runtime error), the first run is returned, marked unreliable, with every
+ * run counted as discarded and no statistics.
+ * @param results - Results of each run (at least one)
+ * @returns Representative result with aggregation statistics
+ */
+export function aggregateResults(
+  results: PerformanceResult[],
+): PerformanceResult {
+  const valid = results.filter(isValidRun);
+  if (valid.length === 0) {
+    return {
+      ...results[0],
+      reliable: false,
+      aggregation: {
+        runs: results.length,
+        discardedRuns: results.length,
+        representativeRun: 0,
+        metrics: {},
+        scores: {},
+      },
+    };
+  }
+
+  const representativeRun = selectRepresentativeRun(results);
+
+  const metricKeys = Object.keys(results[representativeRun].metrics) as Array<
+    keyof CoreWebVitals
+  >;
+  const metrics = Object.fromEntries(
+    metricKeys.map((key) => [
+      key,
+      computeMetricStats(valid.map((result) => result.metrics[key].value)),
+    ]),
+  ) as RunAggregation["metrics"];
+
+  const scores: RunAggregation["scores"] = {};
+  const scoreKeys = Object.keys(results[representativeRun].scores) as Array<
+    keyof CategoryScores
+  >;
+  for (const key of scoreKeys) {
+    const values = valid.map((result) => result.scores[key]);
+    if (values.every((value): value is number => value !== null)) {
+      scores[key] = computeMetricStats(values);
+    }
+  }
+
+  return {
+    ...results[representativeRun],
+    aggregation: {
+      runs: results.length,
+      discardedRuns: results.length - valid.length,
+      representativeRun,
+      metrics,
+      scores,
+    },
+  };
+}
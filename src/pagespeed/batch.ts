@@ -0,0 +1,155 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Batch runner for analyzing many URL x strategy jobs with bounded concurrency.
+ *
+ * @module pagespeed/batch
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  BatchJob,
+  BatchJobError,
+  BatchJobResult,
+  BatchOptions,
+  BatchProgress,
+  BatchResult,
+  PageSpeedOptions,
+  PerformanceResult,
+  Strategy,
+} from "../types";
+import { DEFAULT_BATCH_CONCURRENCY } from "./constants";
+import { PageSpeedApiError, PageSpeedError } from "./errors";
+
+/**
+ * Creates the URL x strategy cross product of batch jobs
+ * @param urls - URLs to analyze
+ * @param strategies - Strategies to run for each URL
+ * @param options - Options applied to every job
+ */
+export function createBatchJobs(
+  urls: string[],
+  strategies: Strategy[] = ["mobile"],
+  options: Omit<PageSpeedOptions, "url" | "strategy"> = {},
+): BatchJob[] {
+  return urls.flatMap((url) =>
+    strategies.map((strategy) => ({ ...options, url, strategy })),
+  );
+}
+
+/**
+ * Checks whether a value has the shape of an error
+ */
+function isErrorLike(value: unknown): value is Error {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Error).name === "string" &&
+    typeof (value as Error).message === "string"
+  );
+}
+
+/**
+ * Converts any thrown value into a structured job error
+ */
+export function toBatchJobError(error: unknown): BatchJobError {
+  // Abort reasons are DOMExceptions, which may come from another realm
+  if (!isErrorLike(error)) {
+    return { name: "Error", message: String(error) };
+  }
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error instanceof PageSpeedError && { code: error.code }),
+    ...(error instanceof PageSpeedApiError && { status: error.status }),
+    ...(error instanceof PageSpeedError &&
+      error.attempts.length > 0 && { attempts: error.attempts }),
+  };
+}
+
+/**
+ * Runs batch jobs through the given analyze function.
+ * Individual failures are collected instead of rejecting the whole batch.
+ * Once `options.signal` is aborted, running jobs receive the abort and
+ * pending jobs are recorded as failed without being started.
+ */
+export async function runBatch(
+  jobs: Array<BatchJob | string>,
+  analyze: (job: BatchJob) => Promise<PerformanceResult>,
+  options: BatchOptions = {},
+): Promise<BatchResult> {
+  const {
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    defaults = {},
+    onProgress,
+    onJobComplete,
+    signal,
+  } = options;
+
+  const normalized: BatchJob[] = jobs.map((job) =>
+    typeof job === "string"
+      ? { ...defaults, url: job }
+      : { ...defaults, ...job },
+  );
+  const outcomes: BatchJobResult[] = new Array(normalized.length);
+  const progress: BatchProgress = {
+    total: normalized.length,
+    completed: 0,
+    succeeded: 0,
+    failed: 0,
+  };
+  const startedAt = Date.now();
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < normalized.length) {
+      const index = next++;
+      const job = normalized[index];
+      const jobStartedAt = Date.now();
+      let outcome: BatchJobResult;
+
+      try {
+        signal?.throwIfAborted();
+        const result = await analyze(
+          signal ? { ...job, signal: job.signal ?? signal } : job,
+        );
+        outcome = {
+          index,
+          job,
+          success: true,
+          result,
+          durationMs: Date.now() - jobStartedAt,
+        };
+        progress.succeeded++;
+      } catch (error) {
+        outcome = {
+          index,
+          job,
+          success: false,
+          error: toBatchJobError(error),
+          durationMs: Date.now() - jobStartedAt,
+        };
+        progress.failed++;
+      }
+
+      progress.completed++;
+      outcomes[index] = outcome;
+      onJobComplete?.(outcome);
+      onProgress?.({ ...progress });
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, concurrency), normalized.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return {
+    jobs: outcomes,
+    results: outcomes
+      .filter((o) => o.success)
+      .map((o) => o.result as PerformanceResult),
+    failures: outcomes.filter((o) => !o.success),
+    summary: { ...progress, durationMs: Date.now() - startedAt },
+  };
+}
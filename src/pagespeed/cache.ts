@@ -0,0 +1,136 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * On-disk cache for raw API responses with TTL expiration.
+ *
+ * @module pagespeed/cache
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { RequestKeyInput } from "../types";
+
+/**
+ * Cache entry as stored on disk
+ */
+interface CacheEntry<T> {
+  key: string;
+  createdAt: string;
+  expiresAt: string;
+  request?: unknown;
+  data: T;
+}
+
+/**
+ * Creates a stable key for a PageSpeed request.
+ * API keys are intentionally excluded so cached data is shared across keys.
+ */
+export function createRequestKey(input: RequestKeyInput): string {
+  const normalized = {
+    url: input.url,
+    strategy: input.strategy,
+    categories: [...input.categories].sort(),
+    locale: input.locale ?? null,
+  };
+
+  return createHash("sha256")
+    .update(JSON.stringify(normalized))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * File-system cache storing one JSON file per key
+ */
+export class ResponseCache<T> {
+  private directory: string;
+  private ttl: number;
+
+  /**
+   * Creates a new response cache
+   * @param directory - Directory for cache files (created on first write)
+   * @param ttl - Time-to-live in seconds
+   */
+  constructor(directory: string, ttl: number) {
+    this.directory = path.resolve(directory);
+    this.ttl = ttl;
+  }
+
+  /**
+   * Gets a cached value, or undefined when missing or expired
+   */
+  get(key: string, now: number = Date.now()): T | undefined {
+    const filePath = this.getFilePath(key);
+
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const entry = JSON.parse(
+        fs.readFileSync(filePath, "utf-8"),
+      ) as CacheEntry<T>;
+
+      if (Date.parse(entry.expiresAt) <= now) {
+        this.delete(key);
+        return undefined;
+      }
+
+      return entry.data;
+    } catch {
+      // Corrupted entries are treated as misses
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a value under the given key
+   * @param request - Optional request description saved for debugging
+   */
+  set(key: string, data: T, request?: unknown, now: number = Date.now()): void {
+    const entry: CacheEntry<T> = {
+      key,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttl * 1000).toISOString(),
+      request,
+      data,
+    };
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.getFilePath(key), JSON.stringify(entry));
+  }
+
+  /**
+   * Removes a single entry
+   */
+  delete(key: string): void {
+    fs.rmSync(this.getFilePath(key), { force: true });
+  }
+
+  /**
+   * Removes every entry in the cache directory
+   */
+  clear(): void {
+    if (!fs.existsSync(this.directory)) return;
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (file.endsWith(".json")) {
+        fs.rmSync(path.join(this.directory, file), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Gets the cache directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -9,21 +9,42 @@
  */
 
 import type {
+  BatchJob,
+  BatchOptions,
+  BatchResult,
   Category,
+  FixtureMode,
+  PageSpeedClientOptions,
   PageSpeedOptions,
   PageSpeedResponse,
   PerformanceResult,
+  RetryConfig,
   Strategy,
+  TransportConfig,
 } from "../types";
-import { PSI_API_URL, DEFAULT_TIMEOUT, DEFAULT_CATEGORIES } from "./constants";
 import {
-  extractScores,
-  extractMetrics,
-  extractLCPElement,
-  extractOpportunities,
-  extractDiagnostics,
-} from "./extractors";
-import { extractDetailedInsights } from "./insights";
+  PSI_API_URL,
+  DEFAULT_TIMEOUT,
+  DEFAULT_CATEGORIES,
+  DEFAULT_RETRY,
+  DEFAULT_CACHE,
+  DEFAULT_FIXTURES,
+  RATE_LIMIT_PROFILES,
+} from "./constants";
+import { aggregateResults } from "./aggregate";
+import { runBatch } from "./batch";
+import { ResponseCache, createRequestKey } from "./cache";
+import {
+  DocumentRequestError,
+  MalformedResponseError,
+  isDocumentRequestErrorCode,
+} from "./errors";
+import { FixtureStore } from "./fixtures";
+import { fetchWithTimeout } from "./http";
+import { RateLimiter } from "./rate-limiter";
+import { withRetry } from "./retry";
+import { createPerformanceResult } from "./transform";
+import { stripUndefined } from "./utils";
 
 /**
  * PageSpeed Insights API client for fetching performance data
@@ -31,40 +52,176 @@ import { extractDetailedInsights } from "./insights";
 export class PageSpeedClient {
   private apiKey?: string;
   private timeout: number;
+  private retry: RetryConfig;
+  private cache?: ResponseCache<PageSpeedResponse>;
+  private limiter?: RateLimiter;
+  private fixtureMode: FixtureMode;
+  private fixtures?: FixtureStore;
+  private transport: TransportConfig;
 
   /**
    * Creates a new PageSpeed client
    * @param apiKey - Optional API key for higher rate limits
    * @param timeout - Request timeout in milliseconds
+   * @param options - Client options (retry policy, response cache, rate limit,
+   *   record/replay fixtures, HTTP transport)
    */
-  constructor(apiKey?: string, timeout = DEFAULT_TIMEOUT) {
+  constructor(
+    apiKey?: string,
+    timeout = DEFAULT_TIMEOUT,
+    options: PageSpeedClientOptions = {},
+  ) {
     this.apiKey = apiKey;
     this.timeout = timeout;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.transport = options.transport ?? {};
+
+    const cache = { ...DEFAULT_CACHE, ...options.cache };
+    if (cache.enabled) {
+      this.cache = new ResponseCache(cache.directory, cache.ttl);
+    }
+
+    const { enabled = true, ...rateLimit } = options.rateLimit ?? {};
+    if (enabled) {
+      const profile = rateLimit.profile ?? (apiKey ? "keyed" : "unkeyed");
+      this.limiter = new RateLimiter({
+        ...RATE_LIMIT_PROFILES[profile],
+        ...stripUndefined(rateLimit),
+        onEvent: options.onQueueEvent,
+      });
+    }
+
+    const fixtures = { ...DEFAULT_FIXTURES, ...options.fixtures };
+    this.fixtureMode = fixtures.mode;
+    if (fixtures.mode !== "passthrough") {
+      this.fixtures = new FixtureStore(fixtures.directory);
+    }
   }
 
   /**
-   * Analyzes a URL using PageSpeed Insights API
+   * Analyzes a URL using PageSpeed Insights API.
+   * With `numberOfRuns` above 1 the runs are made sequentially, bypassing the
+   * cache, and aggregated around the representative (median) run.
    * @param options - Analysis options
    * @returns Performance analysis result
    */
   async analyze(options: PageSpeedOptions): Promise<PerformanceResult> {
+    const { numberOfRuns = 1, ...runOptions } = options;
+
+    if (numberOfRuns <= 1) {
+      return this.analyzeOnce(runOptions);
+    }
+
+    const results: PerformanceResult[] = [];
+    for (let run = 0; run < numberOfRuns; run++) {
+      results.push(
+        await this.analyzeOnce({ ...runOptions, cacheMode: "bypass" }),
+      );
+    }
+
+    return aggregateResults(results);
+  }
+
+  /**
+   * Runs a single analysis, using the response cache when enabled
+   */
+  private async analyzeOnce(
+    options: PageSpeedOptions,
+  ): Promise<PerformanceResult> {
     const {
       url,
       strategy = "mobile",
       categories = DEFAULT_CATEGORIES,
       apiKey = this.apiKey,
       timeout = this.timeout,
+      retry,
+      cacheMode = "default",
+      locale,
+      utmCampaign,
+      utmSource,
+      captchaToken,
+      signal,
     } = options;
 
-    const apiUrl = this.buildApiUrl(url, strategy, categories, apiKey);
-    const response = await this.fetchWithTimeout(apiUrl, timeout);
-    const data = (await response.json()) as PageSpeedResponse;
+    const request = { url, strategy, categories, locale };
+    const cacheKey = createRequestKey(request);
+
+    // Replay never touches the cache or the network
+    if (this.fixtureMode === "replay" && this.fixtures) {
+      return this.transformResponse(
+        this.fixtures.load(cacheKey),
+        url,
+        strategy,
+      );
+    }
+
+    const cache = cacheMode === "bypass" ? undefined : this.cache;
+    const recorder = this.fixtureMode === "record" ? this.fixtures : undefined;
+
+    const cached = cacheMode === "default" ? cache?.get(cacheKey) : undefined;
+    if (cached) {
+      recorder?.save(cacheKey, cached, request);
+      return this.transformResponse(cached, url, strategy);
+    }
+
+    const apiUrl = this.buildApiUrl(url, strategy, categories, apiKey, {
+      locale,
+      utmCampaign,
+      utmSource,
+      captchaToken,
+    });
+    const fetchJson = (): Promise<PageSpeedResponse> =>
+      fetchWithTimeout(
+        apiUrl,
+        { timeout, transport: this.transport, signal },
+        (response) => this.parseResponse(response),
+      );
+
+    // Each attempt takes its own slot, backoff waits happen outside the queue
+    const data = await withRetry(
+      () =>
+        this.limiter ? this.limiter.schedule(fetchJson, signal) : fetchJson(),
+      { ...this.retry, ...retry },
+      { signal },
+    );
+
+    cache?.set(cacheKey, data, request);
+    recorder?.save(cacheKey, data, request);
 
     return this.transformResponse(data, url, strategy);
   }
 
   /**
-   * Analyzes a URL for both mobile and desktop
+   * Analyzes a list of URL x strategy jobs with bounded concurrency.
+   * Failed jobs are reported in the result set instead of rejecting the batch.
+   * @param jobs - Jobs (or plain URLs, analyzed with the default strategy)
+   * @param options - Concurrency, shared job options and progress callbacks
+   * @returns Successful results alongside structured per-job errors
+   */
+  async analyzeUrls(
+    jobs: Array<BatchJob | string>,
+    options: BatchOptions = {},
+  ): Promise<BatchResult> {
+    return runBatch(jobs, (job) => this.analyze(job), options);
+  }
+
+  /**
+   * Gets request queue statistics (undefined when rate limiting is disabled)
+   */
+  getQueueStats():
+    { queueDepth: number; active: number; tokens: number } | undefined {
+    return this.limiter?.getStats();
+  }
+
+  /**
+   * Removes all cached responses (no-op when caching is disabled)
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Analyzes a URL for both mobile and desktop (throttled by the rate limiter)
    * @param url - URL to analyze
    * @param categories - Categories to analyze
    * @returns Object with mobile and desktop results
@@ -89,6 +246,10 @@ export class PageSpeedClient {
     strategy: Strategy,
     categories: Category[],
     apiKey?: string,
+    extra: Pick<
+      PageSpeedOptions,
+      "locale" | "utmCampaign" | "utmSource" | "captchaToken"
+    > = {},
   ): string {
     const params = new URLSearchParams();
     params.append("url", url);
@@ -103,32 +264,53 @@ export class PageSpeedClient {
       params.append("key", apiKey);
     }
 
-    return `${PSI_API_URL}?${params.toString()}`;
+    const optional: Record<string, string | undefined> = {
+      locale: extra.locale,
+      utm_campaign: extra.utmCampaign,
+      utm_source: extra.utmSource,
+      captchaToken: extra.captchaToken,
+    };
+    for (const [name, value] of Object.entries(optional)) {
+      if (value) {
+        params.append(name, value);
+      }
+    }
+
+    return `${this.transport.baseUrl ?? PSI_API_URL}?${params.toString()}`;
   }
 
   /**
-   * Fetches URL with timeout using AbortController
+   * Parses a successful response body, rejecting unusable payloads
    */
-  private async fetchWithTimeout(
-    url: string,
-    timeout: number,
-  ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
+  private async parseResponse(response: Response): Promise<PageSpeedResponse> {
+    let data: PageSpeedResponse;
     try {
-      const response = await fetch(url, { signal: controller.signal });
+      data = (await response.json()) as PageSpeedResponse;
+    } catch (error) {
+      throw new MalformedResponseError("body is not valid JSON", {
+        cause: error,
+      });
+    }
 
-      if (!response.ok) {
-        throw new Error(
-          `PageSpeed API error: ${response.status} ${response.statusText}`,
-        );
-      }
+    if (!data?.lighthouseResult?.audits) {
+      throw new MalformedResponseError("missing lighthouseResult");
+    }
 
-      return response;
-    } finally {
-      clearTimeout(timeoutId);
+    // PSI may answer 200 for pages Lighthouse could not load at all
+    const { runtimeError } = data.lighthouseResult;
+    if (isDocumentRequestErrorCode(runtimeError?.code)) {
+      throw new DocumentRequestError(
+        response.status,
+        response.statusText,
+        undefined,
+        {
+          apiMessage: runtimeError?.message,
+          runtimeErrorCode: runtimeError?.code,
+        },
+      );
     }
+
+    return data;
   }
 
   /**
@@ -139,19 +321,14 @@ export class PageSpeedClient {
     url: string,
     strategy: Strategy,
   ): PerformanceResult {
-    const { lighthouseResult, loadingExperience } = data;
-
     return {
-      url,
-      strategy,
-      timestamp: data.analysisUTCTimestamp,
-      scores: extractScores(lighthouseResult),
-      metrics: extractMetrics(lighthouseResult),
-      lcpElement: extractLCPElement(lighthouseResult),
-      opportunities: extractOpportunities(lighthouseResult),
-      diagnostics: extractDiagnostics(lighthouseResult),
-      insights: extractDetailedInsights(lighthouseResult.audits, url),
-      fieldData: loadingExperience,
+      ...createPerformanceResult(data.lighthouseResult, {
+        url,
+        strategy,
+        timestamp: data.analysisUTCTimestamp,
+        loadingExperience: data.loadingExperience,
+        originLoadingExperience: data.originLoadingExperience,
+      }),
       rawResponse: data,
     };
   }
@@ -160,14 +337,19 @@ export class PageSpeedClient {
 /**
  * Creates a configured PageSpeed client instance
  * @param apiKey - Optional API key
+ * @param options - Client options (retry policy, response cache, rate limit,
+ *   record/replay fixtures, HTTP transport)
  * @returns Configured PageSpeedClient instance
  */
-export function createPageSpeedClient(apiKey?: string): PageSpeedClient {
-  return new PageSpeedClient(apiKey);
+export function createPageSpeedClient(
+  apiKey?: string,
+  options: PageSpeedClientOptions = {},
+): PageSpeedClient {
+  return new PageSpeedClient(apiKey, DEFAULT_TIMEOUT, options);
 }
 
 /**
- * Quick function to analyze a single URL
+ * Quick function to analyze a single URL with PageSpeed Insights
  * @param url - URL to analyze
  * @param options - Analysis options
  * @returns Performance result
@@ -179,3 +361,20 @@ export async function analyzeUrl(
   const client = new PageSpeedClient(options.apiKey, options.timeout);
   return client.analyze({ url, ...options });
 }
+
+/**
+ * Quick function to analyze many URLs in one batch
+ * @param jobs - Jobs (or plain URLs)
+ * @param options - Batch options (`defaults.apiKey` configures the client)
+ * @returns Batch result set
+ */
+export async function analyzeUrls(
+  jobs: Array<BatchJob | string>,
+  options: BatchOptions = {},
+): Promise<BatchResult> {
+  const client = new PageSpeedClient(
+    options.defaults?.apiKey,
+    options.defaults?.timeout,
+  );
+  return client.analyzeUrls(jobs, options);
+}
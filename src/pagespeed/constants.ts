@@ -8,7 +8,18 @@
  * @license PolyForm-Noncommercial-1.0.0
  */
 
-import type { Category } from "../types";
+import type {
+  BudgetResourceType,
+  CacheConfig,
+  Category,
+  FieldMetricId,
+  FixtureConfig,
+  PageSpeedErrorCode,
+  QuotaProfile,
+  RateLimitConfig,
+  RunWarningType,
+  RetryConfig,
+} from "../types";
 
 /** PageSpeed Insights API base URL */
 export const PSI_API_URL =
@@ -17,6 +28,146 @@ export const PSI_API_URL =
 /** Default request timeout in milliseconds */
 export const DEFAULT_TIMEOUT = 60000;
 
+/** Default number of batch jobs in progress at once */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/** Default retry policy for transient API failures */
+export const DEFAULT_RETRY: RetryConfig = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+  maxDelay: 60000,
+};
+
+/** Default response cache settings (disabled unless enabled explicitly) */
+export const DEFAULT_CACHE: Required<CacheConfig> = {
+  enabled: false,
+  ttl: 3600,
+  directory: ".cache/performance-toolkit",
+};
+
+/** Default record/replay settings (fixtures ignored unless a mode is set) */
+export const DEFAULT_FIXTURES: Required<FixtureConfig> = {
+  mode: "passthrough",
+  directory: "fixtures/pagespeed",
+};
+
+/** Rate limiting defaults per PSI quota tier */
+export const RATE_LIMIT_PROFILES: Record<
+  QuotaProfile,
+  Required<
+    Pick<RateLimitConfig, "requestsPerMinute" | "maxConcurrent" | "burst">
+  >
+> = {
+  // Free tier without API key
+  unkeyed: { requestsPerMinute: 2, maxConcurrent: 2, burst: 2 },
+  // Default Google Cloud quota: 240 queries/minute
+  keyed: { requestsPerMinute: 240, maxConcurrent: 4, burst: 10 },
+};
+
+/** HTTP status codes considered transient (5xx is always retried) */
+export const RETRYABLE_STATUS_CODES = [408, 429] as const;
+
+/** Network error codes considered transient */
+export const RETRYABLE_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+] as const;
+
+/**
+ * Lighthouse runtime error codes meaning the page itself could not be
+ * loaded or painted (the analysis has no usable data)
+ */
+export const DOCUMENT_REQUEST_ERROR_CODES = [
+  "FAILED_DOCUMENT_REQUEST",
+  "ERRORED_DOCUMENT_REQUEST",
+  "DNS_FAILURE",
+  "NO_FCP",
+  "NOT_HTML",
+  "PAGE_HUNG",
+  "INSECURE_DOCUMENT_REQUEST",
+  "CHROME_INTERSTITIAL_ERROR",
+] as const;
+
+/** Google error reasons reported when the request quota is exhausted */
+export const QUOTA_ERROR_REASONS = [
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "quotaExceeded",
+  "dailyLimitExceeded",
+  "RATE_LIMIT_EXCEEDED",
+  "RESOURCE_EXHAUSTED",
+] as const;
+
+/** Google error reasons reported for unusable API keys */
+export const API_KEY_ERROR_REASONS = [
+  "keyInvalid",
+  "keyExpired",
+  "API_KEY_INVALID",
+  "API_KEY_EXPIRED",
+  "API_KEY_SERVICE_BLOCKED",
+  "API_KEY_HTTP_REFERRER_BLOCKED",
+  "API_KEY_IP_ADDRESS_BLOCKED",
+] as const;
+
+/** Stable CLI exit codes per error code (1 is also used for failed thresholds) */
+export const ERROR_EXIT_CODES: Record<PageSpeedErrorCode, number> = {
+  UNKNOWN: 1,
+  API_ERROR: 2,
+  QUOTA_EXCEEDED: 3,
+  INVALID_API_KEY: 4,
+  DOCUMENT_REQUEST_FAILED: 5,
+  TIMEOUT: 6,
+  MALFORMED_RESPONSE: 7,
+  FIXTURE_NOT_FOUND: 8,
+  INVALID_LIGHTHOUSE_REPORT: 9,
+};
+
+/** Every run warning type, in the order warnings are reported */
+export const RUN_WARNING_TYPES: readonly RunWarningType[] = [
+  "runtime-error",
+  "redirect",
+  "throttling",
+  "timeout",
+  "storage",
+  "other",
+];
+
+/** Message patterns used to categorize Lighthouse run warnings */
+export const RUN_WARNING_PATTERNS: Array<{
+  type: Exclude<RunWarningType, "runtime-error" | "other">;
+  pattern: RegExp;
+}> = [
+  { type: "redirect", pattern: /redirected/i },
+  { type: "throttling", pattern: /slower CPU|throttl/i },
+  { type: "timeout", pattern: /too slowly|timed out|time limit/i },
+  { type: "storage", pattern: /stored data|IndexedDB|local storage/i },
+];
+
+/** CrUX metric keys in `loadingExperience.metrics`, by field metric */
+export const CRUX_METRIC_KEYS: Record<FieldMetricId, string> = {
+  lcp: "LARGEST_CONTENTFUL_PAINT_MS",
+  inp: "INTERACTION_TO_NEXT_PAINT",
+  cls: "CUMULATIVE_LAYOUT_SHIFT_SCORE",
+  fcp: "FIRST_CONTENTFUL_PAINT_MS",
+  ttfb: "EXPERIMENTAL_TIME_TO_FIRST_BYTE",
+};
+
+/** Budget resource type of each `network-requests` resource type */
+export const NETWORK_RESOURCE_TYPES: Record<string, BudgetResourceType> = {
+  Document: "document",
+  Script: "script",
+  Stylesheet: "stylesheet",
+  Image: "image",
+  Media: "media",
+  Font: "font",
+};
+
 /** Default categories to analyze */
 export const DEFAULT_CATEGORIES: Category[] = [
   "performance",
@@ -0,0 +1,335 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Error classes for PageSpeed API failures.
+ *
+ * @module pagespeed/errors
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  GoogleApiErrorBody,
+  PageSpeedApiErrorDetails,
+  PageSpeedErrorCode,
+  PageSpeedErrorJSON,
+  RetryAttempt,
+} from "../types";
+import {
+  API_KEY_ERROR_REASONS,
+  DOCUMENT_REQUEST_ERROR_CODES,
+  ERROR_EXIT_CODES,
+  QUOTA_ERROR_REASONS,
+} from "./constants";
+
+/**
+ * Base error for PageSpeed client failures
+ */
+export class PageSpeedError extends Error {
+  /** Stable error code */
+  readonly code: PageSpeedErrorCode = "UNKNOWN";
+  /** Every attempt made before the client gave up */
+  attempts: RetryAttempt[] = [];
+  /** Underlying error, if this error wraps another one */
+  readonly cause?: unknown;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = "PageSpeedError";
+    this.cause = options.cause;
+  }
+
+  /**
+   * CLI exit code for this error
+   */
+  get exitCode(): number {
+    return ERROR_EXIT_CODES[this.code];
+  }
+
+  /**
+   * Serializes the error for JSON output
+   */
+  toJSON(): PageSpeedErrorJSON {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      exitCode: this.exitCode,
+      attempts: this.attempts,
+    };
+  }
+}
+
+/**
+ * Non-OK HTTP response from the PageSpeed API
+ */
+export class PageSpeedApiError extends PageSpeedError {
+  readonly code: PageSpeedErrorCode = "API_ERROR";
+  /** HTTP status code */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string;
+  /** Delay requested by the Retry-After header in ms */
+  readonly retryAfterMs?: number;
+  /** Message from the Google error body */
+  readonly apiMessage?: string;
+  /** Most specific Google error reason */
+  readonly reason?: string;
+  /** Lighthouse runtime error code */
+  readonly runtimeErrorCode?: string;
+
+  constructor(
+    status: number,
+    statusText: string,
+    retryAfterMs?: number,
+    details: PageSpeedApiErrorDetails = {},
+  ) {
+    super(
+      `${details.apiName ?? "PageSpeed API"} error: ${status} ${statusText}` +
+        (details.apiMessage ? ` - ${details.apiMessage}` : ""),
+    );
+    this.name = "PageSpeedApiError";
+    this.status = status;
+    this.statusText = statusText;
+    this.retryAfterMs = retryAfterMs;
+    this.apiMessage = details.apiMessage;
+    this.reason = details.reason;
+    this.runtimeErrorCode = details.runtimeErrorCode;
+  }
+
+  toJSON(): PageSpeedErrorJSON {
+    return {
+      ...super.toJSON(),
+      status: this.status,
+      ...(this.apiMessage && { apiMessage: this.apiMessage }),
+      ...(this.reason && { reason: this.reason }),
+      ...(this.runtimeErrorCode && { runtimeErrorCode: this.runtimeErrorCode }),
+    };
+  }
+}
+
+/**
+ * Request quota exhausted (HTTP 429 or a quota error reason)
+ */
+export class QuotaExceededError extends PageSpeedApiError {
+  readonly code: PageSpeedErrorCode = "QUOTA_EXCEEDED";
+
+  constructor(
+    status: number,
+    statusText: string,
+    retryAfterMs?: number,
+    details: PageSpeedApiErrorDetails = {},
+  ) {
+    super(status, statusText, retryAfterMs, details);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * API key rejected (invalid, expired or restricted)
+ */
+export class InvalidApiKeyError extends PageSpeedApiError {
+  readonly code: PageSpeedErrorCode = "INVALID_API_KEY";
+
+  constructor(
+    status: number,
+    statusText: string,
+    retryAfterMs?: number,
+    details: PageSpeedApiErrorDetails = {},
+  ) {
+    super(status, statusText, retryAfterMs, details);
+    this.name = "InvalidApiKeyError";
+  }
+}
+
+/**
+ * Lighthouse could not load the analyzed page (FAILED_DOCUMENT_REQUEST,
+ * NO_FCP, DNS_FAILURE, ...). Not retried.
+ */
+export class DocumentRequestError extends PageSpeedApiError {
+  readonly code: PageSpeedErrorCode = "DOCUMENT_REQUEST_FAILED";
+
+  /**
+   * @param message - Replaces the PageSpeed API message, for local
+   *   Lighthouse runs (which have no HTTP status)
+   */
+  constructor(
+    status: number,
+    statusText: string,
+    retryAfterMs?: number,
+    details: PageSpeedApiErrorDetails = {},
+    message?: string,
+  ) {
+    super(status, statusText, retryAfterMs, details);
+    this.name = "DocumentRequestError";
+    if (message) {
+      this.message = message;
+    }
+  }
+}
+
+/**
+ * Request exceeded the client timeout
+ */
+export class TimeoutError extends PageSpeedError {
+  readonly code: PageSpeedErrorCode = "TIMEOUT";
+  /** Timeout that was exceeded in ms */
+  readonly timeoutMs: number;
+
+  constructor(
+    timeoutMs: number,
+    options: { cause?: unknown; apiName?: string } = {},
+  ) {
+    super(
+      `${options.apiName ?? "PageSpeed API"} request timed out after ${timeoutMs}ms`,
+      options,
+    );
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+
+  toJSON(): PageSpeedErrorJSON {
+    return { ...super.toJSON(), timeoutMs: this.timeoutMs };
+  }
+}
+
+/**
+ * Response body is not a usable PageSpeed response
+ */
+export class MalformedResponseError extends PageSpeedError {
+  readonly code: PageSpeedErrorCode = "MALFORMED_RESPONSE";
+
+  constructor(
+    message: string,
+    options: { cause?: unknown; apiName?: string } = {},
+  ) {
+    super(
+      `Malformed ${options.apiName ?? "PageSpeed API"} response: ${message}`,
+      options,
+    );
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * Replay mode found no recorded fixture for the request
+ */
+export class FixtureNotFoundError extends PageSpeedError {
+  readonly code: PageSpeedErrorCode = "FIXTURE_NOT_FOUND";
+  /** Request key the fixture was looked up by */
+  readonly key: string;
+  /** Path of the missing fixture file */
+  readonly filePath: string;
+
+  constructor(key: string, filePath: string) {
+    super(`No recorded fixture for request ${key} (${filePath})`);
+    this.name = "FixtureNotFoundError";
+    this.key = key;
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Lighthouse report file is unreadable, unsupported or not an LHR
+ */
+export class InvalidLighthouseReportError extends PageSpeedError {
+  readonly code: PageSpeedErrorCode = "INVALID_LIGHTHOUSE_REPORT";
+  /** Report file path or description */
+  readonly source: string;
+
+  constructor(
+    source: string,
+    message: string,
+    options: { cause?: unknown } = {},
+  ) {
+    super(`Invalid Lighthouse report ${source}: ${message}`, options);
+    this.name = "InvalidLighthouseReportError";
+    this.source = source;
+  }
+}
+
+/**
+ * Checks whether a Lighthouse runtime error code means the page failed to load
+ */
+export function isDocumentRequestErrorCode(code: string | undefined): boolean {
+  return (
+    code !== undefined &&
+    (DOCUMENT_REQUEST_ERROR_CODES as readonly string[]).includes(code)
+  );
+}
+
+/**
+ * Error object of a Google API error body
+ */
+type GoogleApiError = NonNullable<GoogleApiErrorBody["error"]>;
+
+/**
+ * Reads the error object from a raw Google API error body, if any
+ */
+function readGoogleApiError(
+  body: string | undefined,
+): GoogleApiError | undefined {
+  if (!body) return undefined;
+
+  try {
+    return (JSON.parse(body) as GoogleApiErrorBody).error;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collects every error reason, most specific first: ErrorInfo details,
+ * then legacy reasons, then the canonical status
+ */
+function collectReasons(error: GoogleApiError): string[] {
+  return [
+    ...(error.details ?? []).map((detail) => detail.reason),
+    ...(error.errors ?? []).map((entry) => entry.reason),
+    error.status,
+  ].filter((reason): reason is string => Boolean(reason));
+}
+
+/**
+ * Creates the most specific error for a failed PageSpeed API response
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param body - Raw response body (Google JSON error body)
+ * @param retryAfterMs - Delay requested by the Retry-After header
+ * @param apiName - Name of the failing API in messages
+ */
+export function createApiError(
+  status: number,
+  statusText: string,
+  body?: string,
+  retryAfterMs?: number,
+  apiName?: string,
+): PageSpeedApiError {
+  const error = readGoogleApiError(body);
+  const reasons = error ? collectReasons(error) : [];
+  const details: PageSpeedApiErrorDetails = {
+    apiName,
+    apiMessage: error?.message,
+    reason: reasons[0],
+    runtimeErrorCode: error?.message?.match(
+      /Lighthouse returned error: ([A-Z_]+)/,
+    )?.[1],
+  };
+
+  const matches = (known: readonly string[]): boolean =>
+    reasons.some((reason) => known.includes(reason));
+
+  if (isDocumentRequestErrorCode(details.runtimeErrorCode)) {
+    return new DocumentRequestError(status, statusText, retryAfterMs, details);
+  }
+
+  if (status === 429 || matches(QUOTA_ERROR_REASONS)) {
+    return new QuotaExceededError(status, statusText, retryAfterMs, details);
+  }
+
+  if (matches(API_KEY_ERROR_REASONS)) {
+    return new InvalidApiKeyError(status, statusText, retryAfterMs, details);
+  }
+
+  return new PageSpeedApiError(status, statusText, retryAfterMs, details);
+}
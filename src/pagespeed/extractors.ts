@@ -9,15 +9,31 @@
  */
 
 import type {
+  BudgetResourceType,
   CoreWebVitals,
   CategoryScores,
   Diagnostic,
+  FieldData,
+  FieldMetric,
   LCPElement,
+  LoadingExperience,
+  MetricRating,
   MetricValue,
   Opportunity,
   PageSpeedResponse,
+  ResourceSummary,
+  RunWarning,
+  RunWarningType,
 } from "../types";
-import { OPPORTUNITY_AUDITS, DIAGNOSTIC_AUDITS } from "./constants";
+import {
+  CRUX_METRIC_KEYS,
+  OPPORTUNITY_AUDITS,
+  DIAGNOSTIC_AUDITS,
+  NETWORK_RESOURCE_TYPES,
+  RUN_WARNING_PATTERNS,
+  RUN_WARNING_TYPES,
+} from "./constants";
+import { findSimilar, getHostDomain, getRootDomain } from "./utils";
 
 type LighthouseResult = PageSpeedResponse["lighthouseResult"];
 type LighthouseAudit = LighthouseResult["audits"][string];
@@ -166,3 +182,253 @@ export function extractDiagnostics(result: LighthouseResult): Diagnostic[] {
 
   return diagnostics;
 }
+
+/**
+ * Extracts the runtime error and run warnings as structured warnings
+ */
+export function extractRunWarnings(result: LighthouseResult): RunWarning[] {
+  const warnings: RunWarning[] = [];
+
+  if (result.runtimeError) {
+    warnings.push({
+      type: "runtime-error",
+      source: "runtimeError",
+      code: result.runtimeError.code,
+      message: result.runtimeError.message,
+    });
+  }
+
+  for (const message of result.runWarnings ?? []) {
+    const match = RUN_WARNING_PATTERNS.find(({ pattern }) =>
+      pattern.test(message),
+    );
+    warnings.push({
+      type: match?.type ?? "other",
+      source: "runWarnings",
+      message,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Gets the warnings that should fail a run
+ * @param warnings - Warnings from the result
+ * @param failOn - `true` for every warning, or the warning types that fail
+ */
+export function getFailingWarnings(
+  warnings: RunWarning[] = [],
+  failOn: boolean | RunWarningType[] = false,
+): RunWarning[] {
+  if (failOn === false) return [];
+  if (failOn === true) return warnings;
+  return warnings.filter((warning) => failOn.includes(warning.type));
+}
+
+/**
+ * Parses a comma-separated list of run warning types
+ * @param value - Warning types, e.g. "redirect,throttling"
+ * @returns The warning types
+ * @throws Error naming the first unknown type, with the closest known one
+ */
+export function parseWarningTypes(value: string): RunWarningType[] {
+  const types = value.split(",").map((type) => type.trim());
+
+  for (const type of types) {
+    if (RUN_WARNING_TYPES.includes(type as RunWarningType)) continue;
+    const suggestion = findSimilar(type, RUN_WARNING_TYPES);
+    throw new Error(
+      suggestion
+        ? `Unknown warning type "${type}", did you mean "${suggestion}"?`
+        : `Unknown warning type "${type}", expected one of ${RUN_WARNING_TYPES.join(", ")}`,
+    );
+  }
+
+  return types as RunWarningType[];
+}
+
+/**
+ * Maps a CrUX category to a metric rating
+ */
+function toMetricRating(
+  category: string | undefined,
+): MetricRating | undefined {
+  switch (category) {
+    case "FAST":
+      return "good";
+    case "AVERAGE":
+      return "needs-improvement";
+    case "SLOW":
+      return "poor";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether a loading experience has any metric data
+ */
+function hasFieldMetrics(experience?: LoadingExperience): boolean {
+  return Object.keys(experience?.metrics ?? {}).length > 0;
+}
+
+/**
+ * Extracts typed field data from one loading experience
+ */
+function toFieldData(
+  experience: LoadingExperience,
+  source: FieldData["source"],
+): FieldData {
+  const metrics: FieldData["metrics"] = {};
+
+  for (const [id, key] of Object.entries(CRUX_METRIC_KEYS)) {
+    const metric = experience.metrics[key];
+    const category = toMetricRating(metric?.category);
+    if (!metric || !category) continue;
+
+    const [good, needsImprovement, poor] = metric.distributions.map(
+      (bucket) => bucket.proportion,
+    );
+    const fieldMetric: FieldMetric = {
+      // CrUX reports CLS multiplied by 100
+      p75: id === "cls" ? metric.percentile / 100 : metric.percentile,
+      distribution: {
+        good: good ?? 0,
+        needsImprovement: needsImprovement ?? 0,
+        poor: poor ?? 0,
+      },
+      category,
+    };
+    metrics[id as keyof FieldData["metrics"]] = fieldMetric;
+  }
+
+  return {
+    source,
+    id: experience.id ?? experience.initial_url,
+    overallCategory: toMetricRating(experience.overall_category),
+    metrics,
+  };
+}
+
+/**
+ * Extracts real-user Core Web Vitals (LCP, INP, CLS, FCP, TTFB), falling back
+ * to origin data when the URL has no CrUX data of its own
+ * @returns Field data, or undefined when neither URL nor origin data exists
+ */
+export function extractFieldData(
+  response: Pick<
+    PageSpeedResponse,
+    "loadingExperience" | "originLoadingExperience"
+  >,
+): FieldData | undefined {
+  const { loadingExperience, originLoadingExperience } = response;
+
+  if (
+    hasFieldMetrics(loadingExperience) &&
+    !loadingExperience.origin_fallback
+  ) {
+    return toFieldData(loadingExperience, "url");
+  }
+
+  if (hasFieldMetrics(originLoadingExperience)) {
+    return toFieldData(originLoadingExperience as LoadingExperience, "origin");
+  }
+
+  // Origin data returned in place of URL data, without a separate origin block
+  if (hasFieldMetrics(loadingExperience)) {
+    return toFieldData(loadingExperience, "origin");
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts requests and transfer sizes per resource type from the
+ * `resource-summary` audit, or tallies them from `network-requests` when the
+ * report has no summary
+ * @returns Resource summary, or undefined when neither audit has items
+ */
+export function extractResourceSummary(
+  result: LighthouseResult,
+): ResourceSummary | undefined {
+  const summaryItems = result.audits["resource-summary"]?.details?.items;
+  if (summaryItems?.length) {
+    const summary = createEmptyResourceSummary();
+    for (const item of summaryItems) {
+      const type = item.resourceType as BudgetResourceType;
+      if (!(type in summary)) continue;
+      summary[type] = {
+        requestCount: Number(item.requestCount) || 0,
+        transferSize: Number(item.transferSize) || 0,
+      };
+    }
+    return summary;
+  }
+
+  const requests = result.audits["network-requests"]?.details?.items;
+  if (!requests?.length) return undefined;
+
+  const summary = createEmptyResourceSummary();
+  const isThirdParty = createThirdPartyCheck(result);
+  for (const request of requests) {
+    const transferSize = Number(request.transferSize) || 0;
+    const types: BudgetResourceType[] = [
+      "total",
+      NETWORK_RESOURCE_TYPES[request.resourceType as string] ?? "other",
+    ];
+    if (isThirdParty(request)) types.push("third-party");
+
+    for (const type of types) {
+      summary[type].requestCount += 1;
+      summary[type].transferSize += transferSize;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Creates a resource summary with zero requests for every type
+ */
+function createEmptyResourceSummary(): ResourceSummary {
+  const types: BudgetResourceType[] = [
+    "total",
+    "document",
+    "script",
+    "stylesheet",
+    "image",
+    "media",
+    "font",
+    "other",
+    "third-party",
+  ];
+  return Object.fromEntries(
+    types.map((type) => [type, { requestCount: 0, transferSize: 0 }]),
+  ) as ResourceSummary;
+}
+
+/**
+ * Creates a check for third-party requests. Uses Lighthouse's entity
+ * classification when present, the page's root domain otherwise.
+ */
+function createThirdPartyCheck(
+  result: LighthouseResult,
+): (request: Record<string, unknown>) => boolean {
+  const firstPartyEntities = new Set(
+    (result.entities ?? [])
+      .filter((entity) => entity.isFirstParty)
+      .map((entity) => entity.name),
+  );
+  const pageDomain = getRootDomain(
+    getHostDomain(result.finalDisplayedUrl ?? result.finalUrl),
+  );
+
+  return (request) => {
+    if (firstPartyEntities.size > 0 && typeof request.entity === "string") {
+      return !firstPartyEntities.has(request.entity);
+    }
+    const host = getHostDomain(String(request.url ?? ""));
+    return host !== "" && getRootDomain(host) !== pageDomain;
+  };
+}
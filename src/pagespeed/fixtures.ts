@@ -0,0 +1,99 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Fixture store for recording and replaying raw API responses.
+ *
+ * @module pagespeed/fixtures
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import type { PageSpeedResponse, RequestKeyInput } from "../types";
+import { FixtureNotFoundError } from "./errors";
+
+/**
+ * Fixture as stored on disk
+ */
+interface FixtureFile {
+  key: string;
+  recordedAt: string;
+  request: RequestKeyInput;
+  response: PageSpeedResponse;
+}
+
+/**
+ * Directory of recorded responses, one pretty-printed JSON file per request
+ * key. Unlike the response cache, fixtures never expire and are meant to be
+ * committed or shared.
+ */
+export class FixtureStore {
+  private directory: string;
+
+  /**
+   * Creates a new fixture store
+   * @param directory - Fixtures directory (created on first write)
+   */
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Loads a recorded response
+   * @throws FixtureNotFoundError when no fixture exists for the key
+   */
+  load(key: string): PageSpeedResponse {
+    const filePath = this.getFilePath(key);
+
+    if (!fs.existsSync(filePath)) {
+      throw new FixtureNotFoundError(key, filePath);
+    }
+
+    const fixture = JSON.parse(
+      fs.readFileSync(filePath, "utf-8"),
+    ) as FixtureFile;
+
+    return fixture.response;
+  }
+
+  /**
+   * Records a response, replacing any previous fixture for the key
+   */
+  save(
+    key: string,
+    response: PageSpeedResponse,
+    request: RequestKeyInput,
+  ): void {
+    const fixture: FixtureFile = {
+      key,
+      recordedAt: new Date().toISOString(),
+      request,
+      response,
+    };
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(
+      this.getFilePath(key),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+    );
+  }
+
+  /**
+   * Checks whether a fixture exists for the key
+   */
+  has(key: string): boolean {
+    return fs.existsSync(this.getFilePath(key));
+  }
+
+  /**
+   * Gets the fixtures directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Shared HTTP helpers for Google API clients.
+ *
+ * @module pagespeed/http
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { TransportConfig } from "../types";
+import { TimeoutError, createApiError } from "./errors";
+import { parseRetryAfter } from "./retry";
+
+/**
+ * Request options for {@link fetchWithTimeout}
+ */
+export interface FetchWithTimeoutOptions {
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** Transport overrides (custom fetch, extra headers) */
+  transport?: TransportConfig;
+  /** Caller-owned signal, linked to the timeout controller */
+  signal?: AbortSignal;
+  /** HTTP method (GET by default) */
+  method?: string;
+  /** JSON request body */
+  body?: unknown;
+  /** Name of the API in error messages (default: "PageSpeed API") */
+  apiName?: string;
+}
+
+/**
+ * Fetches a URL with a timeout through the configured transport (global
+ * fetch by default) and parses the response. The timeout and signal cover
+ * reading the body too. Non-OK responses are thrown as typed API errors.
+ * @param url - Request URL
+ * @param options - Timeout, transport, signal and request body
+ * @param parse - Reads and validates the body of an OK response
+ * @throws TimeoutError when the timeout is exceeded
+ */
+export async function fetchWithTimeout<T>(
+  url: string,
+  options: FetchWithTimeoutOptions,
+  parse: (response: Response) => Promise<T>,
+): Promise<T> {
+  const { timeout, transport = {}, signal, method, body, apiName } = options;
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = (): void => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const fetchImpl = transport.fetch ?? fetch;
+    const response = await fetchImpl(url, {
+      ...(method && { method }),
+      headers:
+        body === undefined
+          ? transport.headers
+          : { "Content-Type": "application/json", ...transport.headers },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text?.().catch(() => undefined);
+      throw createApiError(
+        response.status,
+        response.statusText,
+        text,
+        parseRetryAfter(response.headers?.get("retry-after")),
+        apiName,
+      );
+    }
+
+    return await parse(response);
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(timeout, { cause: error, apiName });
+    }
+    // Aborts while reading the body surface as parse errors
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -9,7 +9,58 @@
  */
 
 // Main client
-export { PageSpeedClient, createPageSpeedClient, analyzeUrl } from "./client";
+export {
+  PageSpeedClient,
+  createPageSpeedClient,
+  analyzeUrl,
+  analyzeUrls,
+} from "./client";
+
+// Result transform
+export { createPerformanceResult } from "./transform";
+
+// Batch analysis
+export { runBatch, createBatchJobs, toBatchJobError } from "./batch";
+
+// Multi-run aggregation
+export {
+  aggregateResults,
+  computeMetricStats,
+  selectRepresentativeRun,
+} from "./aggregate";
+
+// Errors
+export {
+  PageSpeedError,
+  PageSpeedApiError,
+  QuotaExceededError,
+  InvalidApiKeyError,
+  DocumentRequestError,
+  TimeoutError,
+  MalformedResponseError,
+  FixtureNotFoundError,
+  InvalidLighthouseReportError,
+  createApiError,
+  isDocumentRequestErrorCode,
+} from "./errors";
+
+// Retry helpers
+export {
+  withRetry,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  getBackoffDelay,
+} from "./retry";
+
+// Rate limiting
+export { RateLimiter } from "./rate-limiter";
+
+// Response cache
+export { ResponseCache, createRequestKey } from "./cache";
+
+// Record/replay fixtures
+export { FixtureStore } from "./fixtures";
 
 // Extractors (for advanced usage)
 export {
@@ -19,6 +70,11 @@ export {
   extractLCPElement,
   extractOpportunities,
   extractDiagnostics,
+  extractRunWarnings,
+  extractFieldData,
+  extractResourceSummary,
+  getFailingWarnings,
+  parseWarningTypes,
 } from "./extractors";
 
 // Detailed insights extractors
@@ -48,6 +104,16 @@ export {
   PSI_API_URL,
   DEFAULT_TIMEOUT,
   DEFAULT_CATEGORIES,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_RETRY,
+  DEFAULT_CACHE,
+  DEFAULT_FIXTURES,
+  RATE_LIMIT_PROFILES,
+  DOCUMENT_REQUEST_ERROR_CODES,
+  ERROR_EXIT_CODES,
+  RUN_WARNING_TYPES,
+  RUN_WARNING_PATTERNS,
+  CRUX_METRIC_KEYS,
   OPPORTUNITY_AUDITS,
   DIAGNOSTIC_AUDITS,
   THIRD_PARTY_PATTERNS,
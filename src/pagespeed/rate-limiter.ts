@@ -0,0 +1,159 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Token-bucket rate limiter with a concurrency-bounded request queue.
+ *
+ * @module pagespeed/rate-limiter
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { QueueEvent } from "../types";
+
+/**
+ * Queued task waiting for a token and a free slot
+ */
+interface QueuedTask {
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/**
+ * Rate limiter combining a token bucket (sustained rate + burst) with a
+ * maximum number of in-flight requests. Tasks run in FIFO order.
+ */
+export class RateLimiter {
+  private readonly ratePerMs: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private readonly onEvent?: (event: QueueEvent) => void;
+
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private queue: QueuedTask[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a new rate limiter
+   * @param options.requestsPerMinute - Sustained request rate
+   * @param options.maxConcurrent - Maximum tasks in flight
+   * @param options.burst - Token bucket capacity
+   * @param options.onEvent - Queue event listener
+   */
+  constructor(options: {
+    requestsPerMinute: number;
+    maxConcurrent: number;
+    burst: number;
+    onEvent?: (event: QueueEvent) => void;
+  }) {
+    this.ratePerMs = options.requestsPerMinute / 60000;
+    this.burst = Math.max(1, options.burst);
+    this.maxConcurrent = Math.max(1, options.maxConcurrent);
+    this.onEvent = options.onEvent;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Schedules a task, resolving with its result once it has run
+   * @param signal - Removes the task from the queue when aborted before it starts
+   */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = (): void => {
+        const index = this.queue.indexOf(queued);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+
+      const queued: QueuedTask = {
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.emit("completed");
+              this.drain();
+            });
+        },
+      };
+
+      this.queue.push(queued);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.emit("queued");
+      this.drain();
+    });
+  }
+
+  /**
+   * Gets current queue statistics
+   */
+  getStats(): { queueDepth: number; active: number; tokens: number } {
+    this.refill();
+    return {
+      queueDepth: this.queue.length,
+      active: this.active,
+      tokens: Math.floor(this.tokens),
+    };
+  }
+
+  /**
+   * Starts queued tasks while tokens and slots are available
+   */
+  private drain(): void {
+    // A timer is already pending for the next token
+    if (this.timer) return;
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      this.refill();
+
+      if (this.tokens < 1) {
+        const waitMs = Math.ceil((1 - this.tokens) / this.ratePerMs);
+        this.emit("waiting", waitMs);
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, waitMs);
+        return;
+      }
+
+      const task = this.queue.shift() as QueuedTask;
+      this.tokens -= 1;
+      this.active++;
+      this.emit("started", Date.now() - task.enqueuedAt);
+      task.start();
+    }
+  }
+
+  /**
+   * Adds tokens accrued since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + (now - this.lastRefill) * this.ratePerMs,
+    );
+    this.lastRefill = now;
+  }
+
+  private emit(type: QueueEvent["type"], waitMs?: number): void {
+    this.onEvent?.({
+      type,
+      queueDepth: this.queue.length,
+      active: this.active,
+      ...(waitMs !== undefined && { waitMs }),
+    });
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Retry helpers with exponential backoff for transient API failures.
+ *
+ * @module pagespeed/retry
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { RetryAttempt, RetryConfig } from "../types";
+import { RETRYABLE_NETWORK_CODES, RETRYABLE_STATUS_CODES } from "./constants";
+import {
+  DocumentRequestError,
+  PageSpeedApiError,
+  PageSpeedError,
+} from "./errors";
+
+/**
+ * Checks whether an HTTP status code is transient
+ */
+export function isRetryableStatus(status: number): boolean {
+  return (
+    status >= 500 ||
+    (RETRYABLE_STATUS_CODES as readonly number[]).includes(status)
+  );
+}
+
+/**
+ * Checks whether an error is transient and worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  // The analyzed page failed to load, retrying would burn quota
+  if (error instanceof DocumentRequestError) {
+    return false;
+  }
+
+  if (error instanceof PageSpeedApiError) {
+    return isRetryableStatus(error.status);
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // Client timeouts (TimeoutError) and aborted fetches
+  if (error.name === "AbortError" || error.name === "TimeoutError") {
+    return true;
+  }
+
+  // Node's fetch reports network failures as TypeError with a coded cause
+  const { cause } = error as { cause?: { code?: string } };
+  const code = (error as NodeJS.ErrnoException).code ?? cause?.code;
+  if (code && (RETRYABLE_NETWORK_CODES as readonly string[]).includes(code)) {
+    return true;
+  }
+
+  return error.name === "TypeError" && error.message === "fetch failed";
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Calculates the backoff delay before the given retry (1-based attempt)
+ */
+export function getBackoffDelay(attempt: number, config: RetryConfig): number {
+  const delay =
+    config.initialDelay * Math.pow(config.backoffMultiplier, attempt - 1);
+  return config.maxDelay !== undefined
+    ? Math.min(delay, config.maxDelay)
+    : delay;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ * @param signal - Rejects early with the abort reason when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff.
+ * When every attempt fails, the last error is thrown with the full attempt
+ * history attached.
+ * @param hooks.onRetry - Called before waiting for the next attempt
+ * @param hooks.signal - Stops retrying (and waiting) once aborted
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  config: RetryConfig,
+  hooks: {
+    onRetry?: (attempt: RetryAttempt) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<T> {
+  const attempts: RetryAttempt[] = [];
+  const maxAttempts = Math.max(1, config.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      // Caller cancellations are never retried
+      const retryable = !hooks.signal?.aborted && isRetryableError(error);
+      const record: RetryAttempt = {
+        attempt,
+        error: error instanceof Error ? error.message : String(error),
+        status: error instanceof PageSpeedApiError ? error.status : undefined,
+        retryable,
+        timestamp: new Date().toISOString(),
+      };
+      attempts.push(record);
+
+      if (!retryable || attempt >= maxAttempts) {
+        throw attachAttempts(error, attempts);
+      }
+
+      // Retry-After takes precedence over the computed backoff
+      const retryAfter =
+        error instanceof PageSpeedApiError ? error.retryAfterMs : undefined;
+      let delay = retryAfter ?? getBackoffDelay(attempt, config);
+      if (config.maxDelay !== undefined) {
+        delay = Math.min(delay, config.maxDelay);
+      }
+      record.delayMs = delay;
+
+      hooks.onRetry?.(record);
+      try {
+        await sleep(delay, hooks.signal);
+      } catch (abortError) {
+        throw attachAttempts(abortError, attempts);
+      }
+    }
+  }
+}
+
+/**
+ * Attaches the attempt history to the error, wrapping non-toolkit errors
+ */
+function attachAttempts(
+  error: unknown,
+  attempts: RetryAttempt[],
+): PageSpeedError {
+  const wrapped =
+    error instanceof PageSpeedError
+      ? error
+      : new PageSpeedError(
+          error instanceof Error ? error.message : String(error),
+          { cause: error },
+        );
+  wrapped.attempts = attempts;
+  return wrapped;
+}
@@ -0,0 +1,64 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Builds PerformanceResults from Lighthouse results.
+ *
+ * @module pagespeed/transform
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  LighthouseResult,
+  PerformanceResult,
+  PerformanceResultSource,
+} from "../types";
+import {
+  extractDiagnostics,
+  extractFieldData,
+  extractLCPElement,
+  extractMetrics,
+  extractOpportunities,
+  extractRunWarnings,
+  extractResourceSummary,
+  extractScores,
+} from "./extractors";
+import { extractDetailedInsights } from "./insights";
+
+/**
+ * Runs every extractor over a Lighthouse result
+ * @param lighthouseResult - Lighthouse result (from PSI or a local run)
+ * @param source - URL, strategy, timestamp and optional CrUX data
+ * @returns Performance result without the raw response
+ */
+export function createPerformanceResult(
+  lighthouseResult: LighthouseResult,
+  source: PerformanceResultSource,
+): PerformanceResult {
+  const { url, strategy, timestamp, loadingExperience } = source;
+  const fieldMetrics = loadingExperience
+    ? extractFieldData({
+        loadingExperience,
+        originLoadingExperience: source.originLoadingExperience,
+      })
+    : undefined;
+  const warnings = extractRunWarnings(lighthouseResult);
+  const resources = extractResourceSummary(lighthouseResult);
+
+  return {
+    url,
+    strategy,
+    timestamp,
+    scores: extractScores(lighthouseResult),
+    metrics: extractMetrics(lighthouseResult),
+    lcpElement: extractLCPElement(lighthouseResult),
+    opportunities: extractOpportunities(lighthouseResult),
+    diagnostics: extractDiagnostics(lighthouseResult),
+    ...(resources && { resources }),
+    insights: extractDetailedInsights(lighthouseResult.audits, url),
+    ...(loadingExperience && { fieldData: loadingExperience }),
+    ...(fieldMetrics && { fieldMetrics }),
+    warnings,
+    reliable: warnings.length === 0,
+  };
+}
@@ -101,3 +101,83 @@ export function getHostDomain(url: string): string {
     return "";
   }
 }
+
+/**
+ * Gets the last two labels of a hostname ("cdn.example.com" -> "example.com").
+ * An approximation of the registrable domain that ignores public suffixes
+ * such as "co.uk".
+ * @param hostname - Hostname to shorten
+ * @returns The root domain
+ */
+export function getRootDomain(hostname: string): string {
+  return hostname.split(".").slice(-2).join(".");
+}
+
+/**
+ * Removes undefined values so they don't override defaults when spreading
+ * or passing options on (e.g. to Lighthouse)
+ * @param value - Object with optional values
+ * @returns Copy without the undefined values
+ */
+export function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * Finds the candidate closest to a mistyped value (same text in another
+ * case, or at most two edits away)
+ * @param value - Value that matched no candidate
+ * @param candidates - Accepted values
+ * @returns The closest candidate, or `undefined` when none is close
+ */
+export function findSimilar(
+  value: string,
+  candidates: readonly string[],
+): string | undefined {
+  return candidates.find(
+    (candidate) =>
+      candidate.toLowerCase() === value.toLowerCase() ||
+      editDistance(candidate, value) <= 2,
+  );
+}
+
+/**
+ * Normalizes a URL for comparison (host case, and a trailing slash so that
+ * `/page` and `/page/` match while a bare origin keeps its `/`)
+ * @param url - URL to normalize
+ * @returns Normalized URL, or the input when it is not a valid URL
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,39 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Single-URL analysis with any provider.
+ *
+ * @module providers/analyze
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  PageSpeedOptions,
+  PerformanceResult,
+  ProviderSelection,
+} from "../types";
+import { analyzeUrl as analyzeUrlWithPSI } from "../pagespeed/client";
+import { resolveProvider } from "./registry";
+
+/**
+ * Quick function to analyze a single URL
+ * @param url - URL to analyze
+ * @param options - Analysis options, plus an optional provider other than
+ *   PSI (e.g. `{ provider: "local" }` for `http://localhost:3000`)
+ * @returns Performance result
+ */
+export async function analyzeUrl(
+  url: string,
+  options: Omit<PageSpeedOptions, "url"> & ProviderSelection = {},
+): Promise<PerformanceResult> {
+  const { provider, providerOptions, ...analysisOptions } = options;
+  if (provider && provider !== "psi") {
+    return resolveProvider(provider, providerOptions).analyze(
+      url,
+      analysisOptions,
+    );
+  }
+
+  return analyzeUrlWithPSI(url, analysisOptions);
+}
@@ -0,0 +1,79 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Lighthouse report import provider.
+ *
+ * @module providers/file
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  AnalysisOptions,
+  AnalysisProvider,
+  FileProviderOptions,
+  PerformanceResult,
+} from "../types";
+import { importLighthouseReports } from "../lighthouse/import";
+import { normalizeUrl } from "../pagespeed/utils";
+
+/**
+ * Reads results from a Lighthouse JSON report or `.lighthouseci` directory
+ * instead of running Lighthouse
+ */
+export class FileProvider implements AnalysisProvider {
+  readonly name = "file";
+  private path: string;
+
+  /**
+   * Creates a new file provider
+   * @param options - Report file or directory (checked at runtime, since
+   *   registry and CLI settings are untyped)
+   * @throws Error when no path is given
+   */
+  constructor(options: Partial<FileProviderOptions> = {}) {
+    if (!options.path) {
+      throw new Error(
+        'The "file" provider needs the path of a Lighthouse report',
+      );
+    }
+    this.path = options.path;
+  }
+
+  /**
+   * Finds the imported result for a URL
+   * @param url - Report URL (may be empty when there is a single report)
+   * @param options - Analysis options (only `strategy` is used, as a filter)
+   * @throws Error when no report, or several reports, match
+   */
+  async analyze(
+    url: string,
+    options: AnalysisOptions = {},
+  ): Promise<PerformanceResult> {
+    const results = importLighthouseReports(this.path);
+    const matches = results.filter(
+      (result) =>
+        (!url || normalizeUrl(result.url) === normalizeUrl(url)) &&
+        (!options.strategy || result.strategy === options.strategy),
+    );
+
+    if (matches.length !== 1) {
+      const found = results.map((r) => `${r.url} (${r.strategy})`).join(", ");
+      throw new Error(
+        matches.length === 0
+          ? `No report for ${url || "the requested URL"} in ${this.path}. Found: ${found}`
+          : `${this.path} has reports for several URLs, pass one of: ${found}`,
+      );
+    }
+
+    return matches[0];
+  }
+}
+
+/**
+ * Creates a Lighthouse report import provider
+ * @param options - Report file or directory
+ */
+export function createFileProvider(options: FileProviderOptions): FileProvider {
+  return new FileProvider(options);
+}
@@ -0,0 +1,28 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Providers module - one interface for PSI, local Lighthouse and imported
+ * reports, with a registry for third-party providers.
+ *
+ * @module providers
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+// Registry
+export {
+  BUILT_IN_PROVIDERS,
+  registerProvider,
+  unregisterProvider,
+  listProviders,
+  getProvider,
+  resolveProvider,
+} from "./registry";
+
+// Analysis with any provider
+export { analyzeUrl } from "./analyze";
+
+// Built-in providers
+export { PSIProvider, createPSIProvider } from "./psi";
+export { LocalProvider, createLocalProvider } from "./local";
+export { FileProvider, createFileProvider } from "./file";
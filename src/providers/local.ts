@@ -0,0 +1,66 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Local Lighthouse analysis provider.
+ *
+ * @module providers/local
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  AnalysisOptions,
+  AnalysisProvider,
+  LocalProviderOptions,
+  PerformanceResult,
+} from "../types";
+import { LocalLighthouseRunner } from "../lighthouse/local";
+
+/**
+ * Analyzes URLs with Lighthouse in local Chrome, e.g. `http://localhost:3000`
+ */
+export class LocalProvider implements AnalysisProvider {
+  readonly name = "local";
+  private runner: LocalLighthouseRunner;
+  private timeout?: number;
+
+  /**
+   * Creates a new local provider
+   * @param options - Chrome, throttling and timeout defaults
+   */
+  constructor(options: LocalProviderOptions = {}) {
+    const { timeout, ...runnerOptions } = options;
+    this.runner = new LocalLighthouseRunner(runnerOptions);
+    this.timeout = timeout;
+  }
+
+  /**
+   * Analyzes a URL with local Lighthouse
+   * @param url - URL to analyze
+   * @param options - Analysis options (`signal` is not supported)
+   */
+  analyze(
+    url: string,
+    options: AnalysisOptions = {},
+  ): Promise<PerformanceResult> {
+    const { strategy, categories, numberOfRuns, locale } = options;
+    return this.runner.analyze({
+      url,
+      strategy,
+      categories,
+      numberOfRuns,
+      locale,
+      timeout: this.timeout,
+    });
+  }
+}
+
+/**
+ * Creates a local Lighthouse provider
+ * @param options - Chrome, throttling and timeout defaults
+ */
+export function createLocalProvider(
+  options: LocalProviderOptions = {},
+): LocalProvider {
+  return new LocalProvider(options);
+}
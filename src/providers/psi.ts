@@ -0,0 +1,69 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * PageSpeed Insights analysis provider.
+ *
+ * @module providers/psi
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  AnalysisOptions,
+  AnalysisProvider,
+  CacheMode,
+  PSIProviderOptions,
+  PerformanceResult,
+} from "../types";
+import { DEFAULT_TIMEOUT } from "../pagespeed/constants";
+import { PageSpeedClient } from "../pagespeed/client";
+
+/**
+ * Analyzes public URLs through the PageSpeed Insights API
+ */
+export class PSIProvider implements AnalysisProvider {
+  readonly name = "psi";
+  private client: PageSpeedClient;
+  private cacheMode?: CacheMode;
+
+  /**
+   * Creates a new PSI provider
+   * @param options - API key, timeout, cache mode and PageSpeedClient options
+   */
+  constructor(options: PSIProviderOptions = {}) {
+    const {
+      apiKey,
+      timeout = DEFAULT_TIMEOUT,
+      cacheMode,
+      ...clientOptions
+    } = options;
+    this.client = new PageSpeedClient(apiKey, timeout, clientOptions);
+    this.cacheMode = cacheMode;
+  }
+
+  /**
+   * Analyzes a URL with PageSpeed Insights
+   * @param url - URL to analyze
+   * @param options - Analysis options
+   */
+  analyze(
+    url: string,
+    options: AnalysisOptions = {},
+  ): Promise<PerformanceResult> {
+    return this.client.analyze({
+      url,
+      ...options,
+      ...(this.cacheMode && { cacheMode: this.cacheMode }),
+    });
+  }
+}
+
+/**
+ * Creates a PageSpeed Insights provider
+ * @param options - API key, timeout, cache mode and PageSpeedClient options
+ */
+export function createPSIProvider(
+  options: PSIProviderOptions = {},
+): PSIProvider {
+  return new PSIProvider(options);
+}
@@ -0,0 +1,124 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Registry of analysis providers by name.
+ *
+ * @module providers/registry
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  AnalysisProvider,
+  AnalysisProviderFactory,
+  BuiltInProviderName,
+  BuiltInProviderOptions,
+  ProviderOptions,
+} from "../types";
+import { FileProvider } from "./file";
+import { createLocalProvider } from "./local";
+import { createPSIProvider } from "./psi";
+
+/** Providers that ship with the toolkit, each typed by its own settings */
+export const BUILT_IN_PROVIDERS: {
+  readonly [N in BuiltInProviderName]: (
+    options?: Partial<BuiltInProviderOptions[N]>,
+  ) => AnalysisProvider;
+} = {
+  psi: (options) => createPSIProvider(options),
+  local: (options) => createLocalProvider(options),
+  file: (options) => new FileProvider(options),
+};
+
+/** Registered factories (built-ins first) */
+const providers = new Map<string, AnalysisProviderFactory>(
+  Object.entries(BUILT_IN_PROVIDERS),
+);
+
+/**
+ * Registers a provider factory under a name
+ * @param name - Provider name, as used by `--provider`
+ * @param factory - Creates the provider from its settings
+ * @param options - Set `override` to replace an existing provider
+ * @throws Error when the name is taken and `override` is not set
+ */
+export function registerProvider(
+  name: string,
+  factory: AnalysisProviderFactory,
+  options: { override?: boolean } = {},
+): void {
+  if (providers.has(name) && !options.override) {
+    throw new Error(
+      `Analysis provider "${name}" is already registered (pass { override: true } to replace it)`,
+    );
+  }
+  providers.set(name, factory);
+}
+
+/**
+ * Removes a provider; built-in providers are restored rather than removed
+ * @param name - Provider name
+ * @returns Whether a provider was registered under the name
+ */
+export function unregisterProvider(name: string): boolean {
+  if (isBuiltInProvider(name)) {
+    providers.set(name, BUILT_IN_PROVIDERS[name]);
+    return true;
+  }
+  return providers.delete(name);
+}
+
+/**
+ * Checks whether a name belongs to a built-in provider
+ */
+function isBuiltInProvider(name: string): name is BuiltInProviderName {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_PROVIDERS, name);
+}
+
+/**
+ * Lists registered provider names
+ */
+export function listProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Creates a registered provider
+ * @param name - Provider name
+ * @param options - Provider settings (typed by name for built-in providers)
+ * @throws Error for unknown names
+ */
+export function getProvider<N extends BuiltInProviderName>(
+  name: N,
+  options?: BuiltInProviderOptions[N],
+): AnalysisProvider;
+export function getProvider<N extends string>(
+  name: N extends BuiltInProviderName ? never : N,
+  options?: ProviderOptions,
+): AnalysisProvider;
+export function getProvider(
+  name: string,
+  options: ProviderOptions = {},
+): AnalysisProvider {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unknown analysis provider "${name}". Available: ${listProviders().join(", ")}`,
+    );
+  }
+  return factory(options);
+}
+
+/**
+ * Returns a provider instance as is, or creates a registered one by name
+ * @param provider - Provider instance or name
+ * @param options - Provider settings (for names only)
+ */
+export function resolveProvider(
+  provider: AnalysisProvider | string,
+  options: ProviderOptions = {},
+): AnalysisProvider {
+  return typeof provider === "string"
+    ? getProvider(provider, options)
+    : provider;
+}
@@ -10,15 +10,20 @@
 
 import type {
   ActionableReport,
+  AnalysisOptions,
   DiagnosticItem,
+  FieldData,
+  FieldDataSummary,
   KeyOpportunity,
   NextStep,
   PerformanceResult,
   ProjectContext,
+  ProviderSelection,
 } from "../types";
 import { generateDiagnosticsTable } from "./diagnostics";
 import { generateEnhancedLCP } from "./lcp";
 import { generateKeyOpportunities } from "./opportunities";
+import { resolveProvider } from "../providers/registry";
 
 /**
  * Generates actionable performance reports with framework-specific recommendations
@@ -64,6 +69,17 @@ export class ActionableReportGenerator {
     const steps: NextStep[] = [];
     const topOpportunities = opportunities.slice(0, 3);
 
+    // Untrustworthy numbers should be re-measured before acting on them
+    if (this.result.reliable === false) {
+      steps.push({
+        id: "next-rerun-analysis",
+        title: "Re-run the analysis before acting on these results",
+        description: `Lighthouse reported issues with this run: ${(this.result.warnings ?? []).map((w) => w.message).join(" ")}`,
+        type: "testing",
+        urgency: "immediate",
+      });
+    }
+
     // Immediate actions from top opportunities
     for (const opp of topOpportunities) {
       if (opp.impact.level === "critical" || opp.impact.level === "high") {
@@ -146,6 +162,33 @@ export class ActionableReportGenerator {
         sizeBytes: Math.round(sizeBytes),
       },
       topPriorities,
+      reliable: this.result.reliable !== false,
+      warnings: this.result.warnings ?? [],
+      ...(this.result.fieldMetrics && {
+        fieldData: this.summarizeFieldData(this.result.fieldMetrics),
+      }),
+    };
+  }
+
+  /**
+   * Summarizes real-user data into a Core Web Vitals assessment
+   */
+  private summarizeFieldData(fieldData: FieldData): FieldDataSummary {
+    const { metrics } = fieldData;
+    const failingMetrics = (
+      Object.keys(metrics) as (keyof FieldData["metrics"])[]
+    ).filter((id) => metrics[id]?.category !== "good");
+    const coreMetrics = [metrics.lcp, metrics.inp, metrics.cls].filter(
+      (metric) => metric !== undefined,
+    );
+
+    return {
+      source: fieldData.source,
+      passesCoreWebVitals:
+        coreMetrics.length > 0 &&
+        coreMetrics.every((metric) => metric.category === "good"),
+      failingMetrics,
+      metrics,
     };
   }
 }
@@ -170,3 +213,27 @@ export function generateActionableReport(
   const generator = new ActionableReportGenerator(result, context);
   return generator.generate();
 }
+
+/**
+ * Analyzes a URL with any provider and generates an actionable report
+ * @param url - URL to analyze
+ * @param options - Analysis options, provider (default: "psi") and project
+ *   context
+ */
+export async function generateReportForUrl(
+  url: string,
+  options: AnalysisOptions &
+    ProviderSelection & { context?: ProjectContext | null } = {},
+): Promise<ActionableReport> {
+  const {
+    provider = "psi",
+    providerOptions,
+    context,
+    ...analysisOptions
+  } = options;
+  const result = await resolveProvider(provider, providerOptions).analyze(
+    url,
+    analysisOptions,
+  );
+  return generateActionableReport(result, context);
+}
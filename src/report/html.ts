@@ -0,0 +1,524 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Self-contained HTML rendering of actionable reports.
+ *
+ * @module report/html
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type {
+  ActionableReport,
+  CategoryScores,
+  CoreWebVitals,
+  DiagnosticItem,
+  EnhancedLCPElement,
+  FieldDataSummary,
+  FieldMetricId,
+  HtmlReportOptions,
+  KeyOpportunity,
+  LCPBreakdown,
+  MetricRating,
+} from "../types";
+import { formatBytes, formatDate, formatMs, truncateUrl } from "./utils";
+
+/** Display names of the category scores */
+const SCORE_LABELS: Record<keyof CategoryScores, string> = {
+  performance: "Performance",
+  accessibility: "Accessibility",
+  bestPractices: "Best Practices",
+  seo: "SEO",
+};
+
+/** Display names of the lab metrics */
+const METRIC_LABELS: Record<keyof CoreWebVitals, string> = {
+  lcp: "Largest Contentful Paint",
+  fcp: "First Contentful Paint",
+  cls: "Cumulative Layout Shift",
+  tbt: "Total Blocking Time",
+  si: "Speed Index",
+  tti: "Time to Interactive",
+};
+
+/** Display names of the field metrics */
+const FIELD_LABELS: Record<FieldMetricId, string> = {
+  lcp: "Largest Contentful Paint",
+  inp: "Interaction to Next Paint",
+  cls: "Cumulative Layout Shift",
+  fcp: "First Contentful Paint",
+  ttfb: "Time to First Byte",
+};
+
+/** Display names of the metric ratings */
+const RATING_LABELS: Record<MetricRating, string> = {
+  good: "Good",
+  "needs-improvement": "Needs improvement",
+  poor: "Poor",
+};
+
+/** Display names of the report health statuses */
+const HEALTH_LABELS: Record<
+  ActionableReport["summary"]["healthStatus"],
+  string
+> = {
+  healthy: "Healthy",
+  "needs-attention": "Needs attention",
+  critical: "Critical",
+};
+
+/** LCP phases in load order */
+const LCP_PHASES: Array<{
+  key: Exclude<keyof LCPBreakdown, "total">;
+  label: string;
+}> = [
+  { key: "ttfb", label: "Time to first byte" },
+  { key: "resourceLoadDelay", label: "Resource load delay" },
+  { key: "resourceLoadDuration", label: "Resource load duration" },
+  { key: "elementRenderDelay", label: "Element render delay" },
+];
+
+/** Gauge circle radius; the circumference sizes the score arc */
+const GAUGE_RADIUS = 42;
+
+/**
+ * Page styles, inlined so the report works offline as a single file
+ */
+const STYLES = `
+:root { --good: #0c8a4f; --average: #c26a00; --poor: #d9342b; --muted: #5f6368; --border: #dadce0; --surface: #f8f9fa; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #202124; background: #fff; }
+main { max-width: 960px; margin: 0 auto; padding: 32px 24px 48px; }
+h1 { font-size: 24px; margin: 0 0 4px; }
+h2 { font-size: 19px; margin: 40px 0 12px; padding-bottom: 6px; border-bottom: 1px solid var(--border); }
+h3 { font-size: 16px; margin: 0 0 6px; }
+a { color: #1a73e8; }
+.meta, .muted { color: var(--muted); }
+.meta { margin: 0; font-size: 14px; word-break: break-all; }
+.badge { display: inline-block; padding: 1px 10px; border-radius: 12px; font-size: 13px; font-weight: 600; color: #fff; }
+.badge.good, .badge.healthy { background: var(--good); }
+.badge.average, .badge.needs-attention, .badge.high, .badge.serious { background: var(--average); }
+.badge.poor, .badge.critical { background: var(--poor); }
+.badge.medium, .badge.moderate { background: #80868b; }
+.badge.low, .badge.minor { background: #bdc1c6; color: #202124; }
+.alert { margin: 20px 0; padding: 12px 16px; border-left: 4px solid var(--average); background: #fef7e0; }
+.alert ul { margin: 6px 0 0; padding-left: 20px; }
+.gauges { display: flex; flex-wrap: wrap; gap: 24px; margin: 24px 0 8px; }
+.gauge { width: 120px; text-align: center; font-size: 14px; }
+.gauge svg { display: block; margin: 0 auto 6px; }
+.gauge text { font-size: 26px; font-weight: 600; }
+.summary { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 12px; margin-top: 16px; }
+.stat { padding: 12px 16px; background: var(--surface); border-radius: 8px; }
+.stat strong { display: block; font-size: 20px; }
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th, td { padding: 8px 10px; text-align: left; border-bottom: 1px solid var(--border); vertical-align: top; }
+th { background: var(--surface); font-weight: 600; }
+td.num { text-align: right; white-space: nowrap; }
+.rating { font-weight: 600; white-space: nowrap; }
+.rating::before { content: ""; display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 50%; background: currentColor; }
+.rating.good { color: var(--good); }
+.rating.needs-improvement { color: var(--average); }
+.rating.poor { color: var(--poor); }
+.bar { display: flex; height: 22px; border-radius: 4px; overflow: hidden; background: var(--surface); }
+.bar span { display: block; height: 100%; min-width: 2px; }
+.bar.distribution { height: 10px; min-width: 140px; }
+.seg-good { background: var(--good); }
+.seg-needs-improvement { background: #f2a100; }
+.seg-poor { background: var(--poor); }
+.phase-0 { background: #1a73e8; }
+.phase-1 { background: #8ab4f8; }
+.phase-2 { background: #f9ab00; }
+.phase-3 { background: #d93025; }
+.legend { display: flex; flex-wrap: wrap; gap: 8px 20px; margin: 10px 0 0; padding: 0; list-style: none; font-size: 14px; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px; }
+.card { margin: 16px 0; padding: 16px 20px; border: 1px solid var(--border); border-radius: 8px; }
+.card ol { padding-left: 20px; }
+.card li { margin: 10px 0; }
+pre { margin: 8px 0; padding: 12px; overflow-x: auto; background: #202124; color: #e8eaed; border-radius: 6px; font-size: 13px; line-height: 1.45; }
+code { font-family: SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace; }
+details { margin-top: 6px; }
+summary { cursor: pointer; color: var(--muted); }
+.note { margin: 10px 0; padding: 10px 14px; background: var(--surface); border-radius: 6px; }
+footer { margin-top: 48px; color: var(--muted); font-size: 13px; }
+@media print { h2 { break-after: avoid; } .card { break-inside: avoid; } }
+`;
+
+/**
+ * Renders an actionable report as a single HTML page with score gauges,
+ * metric and field data tables, the LCP breakdown, diagnostics and key
+ * opportunities. Styles are inlined and charts are plain SVG/CSS, so the
+ * page works offline with no external assets.
+ * @param report - Actionable report
+ * @param options - Rendering options
+ * @returns Complete HTML document
+ */
+export function renderHtmlReport(
+  report: ActionableReport,
+  options: HtmlReportOptions = {},
+): string {
+  const result = report.performanceResult;
+  const title = options.title ?? `Performance Report - ${result.url}`;
+  const framework = report.projectContext?.framework;
+
+  const sections = [
+    renderWarnings(report),
+    renderScores(result.scores),
+    renderSummary(report),
+    renderMetrics(result.metrics),
+    report.summary.fieldData ? renderFieldData(report.summary.fieldData) : "",
+    renderLCP(report.enhancedLCP, result.insights?.lcpBreakdown),
+    renderDiagnostics(report.diagnosticsTable),
+    renderOpportunities(report.keyOpportunities),
+    renderNextSteps(report),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(result.url)}</p>
+<p class="meta">${escapeHtml(result.strategy === "mobile" ? "Mobile" : "Desktop")} · analyzed ${escapeHtml(formatDate(result.timestamp))}${framework ? ` · ${escapeHtml(framework.name)} ${escapeHtml(framework.version)}` : ""}</p>
+</header>
+${sections.filter(Boolean).join("\n")}
+<footer>Generated by @silverassist/performance-toolkit on ${escapeHtml(formatDate(report.generatedAt))}</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Run warnings that make the numbers untrustworthy
+ */
+function renderWarnings(report: ActionableReport): string {
+  const { reliable, warnings } = report.summary;
+  if (reliable && warnings.length === 0) return "";
+
+  return `<div class="alert" role="note">
+<strong>${reliable ? "Lighthouse reported warnings for this run" : "These results may not be reliable"}</strong>
+<ul>${warnings.map((warning) => `<li>${escapeHtml(warning.message)}</li>`).join("")}</ul>
+</div>`;
+}
+
+/**
+ * Category score gauges
+ */
+function renderScores(scores: CategoryScores): string {
+  const circumference = 2 * Math.PI * GAUGE_RADIUS;
+  const gauges = (Object.keys(SCORE_LABELS) as Array<keyof CategoryScores>)
+    .filter((category) => scores[category] !== null)
+    .map((category) => {
+      const score = scores[category] as number;
+      const color = `var(--${getScoreClass(score)})`;
+      const arc = (score / 100) * circumference;
+      return `<div class="gauge">
+<svg width="100" height="100" viewBox="0 0 100 100" role="img" aria-label="${SCORE_LABELS[category]} score ${score}">
+<circle cx="50" cy="50" r="${GAUGE_RADIUS}" fill="none" stroke="#e8eaed" stroke-width="8"/>
+<circle cx="50" cy="50" r="${GAUGE_RADIUS}" fill="none" stroke="${color}" stroke-width="8" stroke-linecap="round" stroke-dasharray="${arc.toFixed(1)} ${circumference.toFixed(1)}" transform="rotate(-90 50 50)"/>
+<text x="50" y="59" text-anchor="middle" fill="${color}">${score}</text>
+</svg>
+${SCORE_LABELS[category]}
+</div>`;
+    });
+
+  return `<section>
+<div class="gauges">${gauges.join("\n")}</div>
+</section>`;
+}
+
+/**
+ * Executive summary
+ */
+function renderSummary(report: ActionableReport): string {
+  const { summary } = report;
+  const priorities = summary.topPriorities.length
+    ? `<p><strong>Top priorities:</strong></p>
+<ol>${summary.topPriorities.map((priority) => `<li>${escapeHtml(priority)}</li>`).join("")}</ol>`
+    : "";
+
+  return `<section>
+<h2>Summary</h2>
+<p>Overall health: <span class="badge ${summary.healthStatus}">${HEALTH_LABELS[summary.healthStatus]}</span></p>
+<div class="summary">
+<div class="stat"><strong>${formatMs(summary.potentialSavings.timeMs)}</strong><span class="muted">potential time savings</span></div>
+<div class="stat"><strong>${formatBytes(summary.potentialSavings.sizeBytes)}</strong><span class="muted">potential size savings</span></div>
+<div class="stat"><strong>${summary.quickWinsCount}</strong><span class="muted">quick wins</span></div>
+</div>
+${priorities}
+</section>`;
+}
+
+/**
+ * Lab metric table with ratings
+ */
+function renderMetrics(metrics: CoreWebVitals): string {
+  const rows = (Object.keys(METRIC_LABELS) as Array<keyof CoreWebVitals>).map(
+    (key) => {
+      const metric = metrics[key];
+      const value =
+        metric.displayValue ||
+        (key === "cls" ? metric.value.toFixed(3) : formatMs(metric.value));
+      return `<tr><td>${METRIC_LABELS[key]} <span class="muted">(${key.toUpperCase()})</span></td><td class="num">${escapeHtml(value)}</td><td>${renderRating(metric.rating)}</td></tr>`;
+    },
+  );
+
+  return `<section>
+<h2>Lab Metrics</h2>
+<table>
+<thead><tr><th>Metric</th><th class="num">Value</th><th>Rating</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</section>`;
+}
+
+/**
+ * Real-user (CrUX) p75 values with their distribution
+ */
+function renderFieldData(fieldData: FieldDataSummary): string {
+  const rows = (Object.keys(FIELD_LABELS) as FieldMetricId[])
+    .filter((key) => fieldData.metrics[key] !== undefined)
+    .map((key) => {
+      const metric = fieldData.metrics[key]!;
+      const value =
+        key === "cls" ? metric.p75.toFixed(2) : formatMs(metric.p75);
+      const { good, needsImprovement, poor } = metric.distribution;
+      const distribution = `<div class="bar distribution" title="Good ${formatPercent(good)}, needs improvement ${formatPercent(needsImprovement)}, poor ${formatPercent(poor)}"><span class="seg-good" style="width:${formatPercent(good)}"></span><span class="seg-needs-improvement" style="width:${formatPercent(needsImprovement)}"></span><span class="seg-poor" style="width:${formatPercent(poor)}"></span></div>`;
+      return `<tr><td>${FIELD_LABELS[key]} <span class="muted">(${key.toUpperCase()})</span></td><td class="num">${value}</td><td>${renderRating(metric.category)}</td><td>${distribution}</td></tr>`;
+    });
+
+  const assessment = fieldData.passesCoreWebVitals
+    ? `<span class="badge good">Passed</span>`
+    : `<span class="badge poor">Failed</span>`;
+
+  return `<section>
+<h2>Field Data</h2>
+<p>Core Web Vitals assessment: ${assessment} <span class="muted">75th percentile of real-user visits to this ${fieldData.source === "url" ? "URL" : "origin"} over the last 28 days (Chrome UX Report)</span></p>
+<table>
+<thead><tr><th>Metric</th><th class="num">p75</th><th>Rating</th><th>Distribution</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</section>`;
+}
+
+/**
+ * LCP element, phase breakdown chart and recommendations
+ */
+function renderLCP(
+  element: EnhancedLCPElement | undefined,
+  breakdown: LCPBreakdown | undefined,
+): string {
+  if (!element && !breakdown) return "";
+
+  const parts: string[] = [];
+
+  if (element) {
+    parts.push(`<table>
+<tbody>
+<tr><th>Element</th><td><code>${escapeHtml(element.tagName.toLowerCase())}</code> (${escapeHtml(element.type)})</td></tr>
+<tr><th>Selector</th><td><code>${escapeHtml(element.selector)}</code></td></tr>
+${element.url ? `<tr><th>Resource</th><td>${escapeHtml(truncateUrl(element.url, 100))}</td></tr>` : ""}
+${element.loadingMechanism ? `<tr><th>Loading</th><td>${escapeHtml(element.loadingMechanism)}</td></tr>` : ""}
+</tbody>
+</table>`);
+    if (element.snippet) {
+      parts.push(
+        `<pre><code>${escapeHtml(element.snippet.trim())}</code></pre>`,
+      );
+    }
+  }
+
+  if (breakdown && breakdown.total > 0) {
+    const phases = LCP_PHASES.map((phase, index) => ({
+      ...phase,
+      index,
+      value: breakdown[phase.key],
+      share: breakdown[phase.key] / breakdown.total,
+    }));
+    parts.push(`<h3>LCP Breakdown <span class="muted">(${formatMs(breakdown.total)})</span></h3>
+<div class="bar" role="img" aria-label="LCP breakdown">${phases
+      .filter((phase) => phase.value > 0)
+      .map(
+        (phase) =>
+          `<span class="phase-${phase.index}" style="width:${formatPercent(phase.share)}" title="${phase.label}: ${formatMs(phase.value)}"></span>`,
+      )
+      .join("")}</div>
+<ul class="legend">${phases
+      .map(
+        (phase) =>
+          `<li><i class="phase-${phase.index}"></i>${phase.label}: <strong>${formatMs(phase.value)}</strong> <span class="muted">(${formatPercent(phase.share)})</span></li>`,
+      )
+      .join("")}</ul>`);
+  }
+
+  if (element?.recommendations.length) {
+    parts.push(`<h3 style="margin-top:20px">Recommendations</h3>
+<ul>${element.recommendations
+      .map(
+        (rec) =>
+          `<li><strong>${escapeHtml(rec.title)}</strong> <span class="badge ${rec.impact}">${rec.impact} impact</span> <span class="muted">${rec.effort} effort</span><br>${escapeHtml(rec.description)}${rec.codeHints?.length ? `<pre><code>${escapeHtml(rec.codeHints.join("\n"))}</code></pre>` : ""}</li>`,
+      )
+      .join("")}</ul>`);
+  }
+
+  return `<section>
+<h2>Largest Contentful Paint</h2>
+${parts.join("\n")}
+</section>`;
+}
+
+/**
+ * Diagnostics table with expandable affected resources
+ */
+function renderDiagnostics(diagnostics: DiagnosticItem[]): string {
+  if (diagnostics.length === 0) return "";
+
+  const rows = diagnostics.map((diagnostic) => {
+    const savings = [
+      diagnostic.savings?.timeMs ? formatMs(diagnostic.savings.timeMs) : "",
+      diagnostic.savings?.bytes ? formatBytes(diagnostic.savings.bytes) : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+    const items = diagnostic.items?.length
+      ? `<details><summary>${diagnostic.items.length} item(s)</summary><ul>${diagnostic.items
+          .map((item) => {
+            const size = [
+              item.wastedBytes ? `${formatBytes(item.wastedBytes)} wasted` : "",
+              item.timeMs ? formatMs(item.timeMs) : "",
+            ]
+              .filter(Boolean)
+              .join(", ");
+            return `<li>${escapeHtml(truncateUrl(item.url ?? item.label ?? "", 90))}${size ? ` <span class="muted">(${size})</span>` : ""}</li>`;
+          })
+          .join("")}</ul></details>`
+      : "";
+
+    return `<tr><td><span class="badge ${diagnostic.severity}">${diagnostic.severity}</span></td><td><strong>${escapeHtml(diagnostic.title)}</strong>${diagnostic.displayValue ? ` <span class="muted">${escapeHtml(diagnostic.displayValue)}</span>` : ""}${items}</td><td class="num">${savings || "-"}</td></tr>`;
+  });
+
+  return `<section>
+<h2>Diagnostics</h2>
+<table>
+<thead><tr><th>Severity</th><th>Diagnostic</th><th class="num">Savings</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</section>`;
+}
+
+/**
+ * Key opportunities with steps, code examples and framework notes
+ */
+function renderOpportunities(opportunities: KeyOpportunity[]): string {
+  if (opportunities.length === 0) return "";
+
+  const cards = opportunities.map((opportunity) => {
+    const { impact } = opportunity;
+    const estimates = [
+      impact.lcpImprovementMs
+        ? `LCP −${formatMs(impact.lcpImprovementMs)}`
+        : "",
+      impact.scoreImprovement ? `+${impact.scoreImprovement} score` : "",
+      impact.sizeSavings ? `${formatBytes(impact.sizeSavings)} smaller` : "",
+    ].filter(Boolean);
+
+    const steps = opportunity.steps
+      .map(
+        (step) =>
+          `<li><strong>${escapeHtml(step.title)}</strong>${step.estimatedTime ? ` <span class="muted">(${escapeHtml(step.estimatedTime)})</span>` : ""}<br>${escapeHtml(step.instructions)}${
+            step.codeExample
+              ? `${step.codeExample.filePath ? `<div class="muted"><code>${escapeHtml(step.codeExample.filePath)}</code></div>` : ""}<pre><code class="language-${escapeHtml(step.codeExample.language)}">${escapeHtml(step.codeExample.code)}</code></pre>`
+              : ""
+          }</li>`,
+      )
+      .join("");
+
+    const notes = (opportunity.frameworkNotes ?? [])
+      .map(
+        (note) =>
+          `<div class="note"><strong>${escapeHtml(note.framework)}:</strong> ${escapeHtml(note.note)}${note.codeExample ? `<pre><code>${escapeHtml(note.codeExample)}</code></pre>` : ""}${note.docLink ? `<a href="${escapeHtml(note.docLink)}">Documentation</a>` : ""}</div>`,
+      )
+      .join("");
+
+    const resources = opportunity.resources?.length
+      ? `<p class="muted">Learn more: ${opportunity.resources.map((resource) => `<a href="${escapeHtml(resource.url)}">${escapeHtml(resource.title)}</a>`).join(" · ")}</p>`
+      : "";
+
+    return `<article class="card">
+<h3>${opportunity.priority}. ${escapeHtml(opportunity.title)} <span class="badge ${impact.level}">${impact.level}</span></h3>
+${estimates.length ? `<p class="muted">${estimates.join(" · ")}</p>` : ""}
+<p>${escapeHtml(opportunity.description)}</p>
+${steps ? `<ol>${steps}</ol>` : ""}
+${notes}
+${resources}
+</article>`;
+  });
+
+  return `<section>
+<h2>Key Opportunities</h2>
+${cards.join("\n")}
+</section>`;
+}
+
+/**
+ * Recommended next steps
+ */
+function renderNextSteps(report: ActionableReport): string {
+  if (report.nextSteps.length === 0) return "";
+
+  return `<section>
+<h2>Next Steps</h2>
+<ol>${report.nextSteps
+    .map(
+      (step) =>
+        `<li><strong>${escapeHtml(step.title)}</strong> <span class="muted">(${step.urgency.replace(/-/g, " ")})</span><br>${escapeHtml(step.description)}</li>`,
+    )
+    .join("")}</ol>
+</section>`;
+}
+
+/**
+ * Colored rating label
+ */
+function renderRating(rating: MetricRating): string {
+  return `<span class="rating ${rating}">${RATING_LABELS[rating]}</span>`;
+}
+
+/**
+ * Lighthouse score color: good (90+), average (50-89) or poor
+ */
+function getScoreClass(score: number): "good" | "average" | "poor" {
+  return score >= 90 ? "good" : score >= 50 ? "average" : "poor";
+}
+
+/**
+ * Formats a 0-1 share as a percentage
+ */
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1).replace(/\.0$/, "")}%`;
+}
+
+/**
+ * Escapes text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -13,6 +13,7 @@ export {
   ActionableReportGenerator,
   createReportGenerator,
   generateActionableReport,
+  generateReportForUrl,
 } from "./generator";
 
 // Diagnostics table generation
@@ -37,9 +38,23 @@ export {
   createCLSOpportunity,
 } from "./opportunities";
 
+// HTML rendering
+export { renderHtmlReport } from "./html";
+
+// Markdown rendering
+export {
+  DEFAULT_MARKDOWN_MAX_LENGTH,
+  renderComparisonMarkdown,
+  renderReportMarkdown,
+  renderResultMarkdown,
+  renderResultsMarkdown,
+} from "./markdown";
+
 // Utility functions
 export {
   formatBytes,
+  formatDate,
+  formatMs,
   truncateUrl,
   calculateScore,
   getSeverityByBytes,
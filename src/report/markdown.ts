@@ -0,0 +1,957 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Markdown rendering of results, reports and baseline comparisons, sized
+ * for pull request comments and CI job summaries.
+ *
+ * @module report/markdown
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import { evaluateThresholds } from "../config/thresholds";
+import type {
+  ActionableReport,
+  CategoryScores,
+  ChangeStatus,
+  CoreWebVitals,
+  DetailedInsights,
+  DiagnosticItem,
+  FieldData,
+  FieldMetricId,
+  InsightChange,
+  InsightType,
+  KeyOpportunity,
+  MarkdownReportOptions,
+  MarkdownResultEntry,
+  MetricRating,
+  Opportunity,
+  OpportunityChange,
+  PerformanceResult,
+  PerformanceThresholds,
+  ResultComparison,
+  RunWarning,
+} from "../types";
+import { formatBytes, formatDate, formatMs, truncateUrl } from "./utils";
+
+/** GitHub's limit for issue and pull request comments */
+export const DEFAULT_MARKDOWN_MAX_LENGTH = 65536;
+
+/** Display names of the category scores */
+const SCORE_LABELS: Record<keyof CategoryScores, string> = {
+  performance: "Performance",
+  accessibility: "Accessibility",
+  bestPractices: "Best Practices",
+  seo: "SEO",
+};
+
+/** Display names of the lab and field metrics */
+const METRIC_LABELS: Record<keyof CoreWebVitals | FieldMetricId, string> = {
+  lcp: "Largest Contentful Paint",
+  fcp: "First Contentful Paint",
+  cls: "Cumulative Layout Shift",
+  tbt: "Total Blocking Time",
+  si: "Speed Index",
+  tti: "Time to Interactive",
+  inp: "Interaction to Next Paint",
+  ttfb: "Time to First Byte",
+};
+
+/** Rating emoji, matching the Core Web Vitals colors */
+const RATING_EMOJI: Record<MetricRating, string> = {
+  good: "🟢",
+  "needs-improvement": "🟡",
+  poor: "🔴",
+};
+
+/** Baseline change emoji */
+const CHANGE_EMOJI: Record<ChangeStatus, string> = {
+  improved: "🟢",
+  unchanged: "⚪",
+  regressed: "🔴",
+};
+
+/** Display names of the report health statuses */
+const HEALTH_LABELS: Record<
+  ActionableReport["summary"]["healthStatus"],
+  string
+> = {
+  healthy: "🟢 Healthy",
+  "needs-attention": "🟡 Needs attention",
+  critical: "🔴 Critical",
+};
+
+/** Rows shown per opportunity, diagnostic and insight table */
+const MAX_ROWS = 10;
+
+/** How each insight list is labeled and summarized */
+const INSIGHT_ROWS: {
+  [K in InsightType]: {
+    label: string;
+    resource: (item: DetailedInsights[K][number]) => string;
+    cost: (item: DetailedInsights[K][number]) => string;
+  };
+} = {
+  renderBlocking: {
+    label: "Render-blocking resources",
+    resource: (item) => item.url,
+    cost: (item) => formatMs(item.wastedMs),
+  },
+  unusedJavaScript: {
+    label: "Unused JavaScript",
+    resource: (item) => item.url,
+    cost: (item) => `${formatBytes(item.wastedBytes)} (${item.wastedPercent}%)`,
+  },
+  unusedCSS: {
+    label: "Unused CSS",
+    resource: (item) => item.url,
+    cost: (item) => `${formatBytes(item.wastedBytes)} (${item.wastedPercent}%)`,
+  },
+  legacyJavaScript: {
+    label: "Legacy JavaScript",
+    resource: (item) => item.url,
+    cost: (item) => formatBytes(item.wastedBytes),
+  },
+  imageIssues: {
+    label: "Images",
+    resource: (item) => item.url,
+    cost: (item) => `${formatBytes(item.wastedBytes)} (${item.issueType})`,
+  },
+  cacheIssues: {
+    label: "Cache policy",
+    resource: (item) => item.url,
+    cost: (item) =>
+      `${formatBytes(item.wastedBytes)} (TTL ${item.cacheTTLDisplay})`,
+  },
+  thirdParties: {
+    label: "Third parties",
+    resource: (item) => item.entity,
+    cost: (item) =>
+      `${formatMs(item.blockingTime)} blocking, ${formatBytes(item.transferSize)}`,
+  },
+  longTasks: {
+    label: "Long tasks",
+    resource: (item) => item.url ?? item.attribution ?? "Unattributed",
+    cost: (item) => formatMs(item.duration),
+  },
+};
+
+/**
+ * A piece of the document. Optional blocks are left out when the document
+ * would exceed its size limit.
+ */
+interface MarkdownBlock {
+  text: string;
+  optional?: boolean;
+}
+
+/**
+ * Renders a PerformanceResult as Markdown: score and metric tables with
+ * rating emoji, threshold and baseline checks, and collapsible opportunity
+ * and insight sections.
+ * @param result - Performance result
+ * @param options - Rendering options
+ * @returns Markdown document of at most `maxLength` characters
+ */
+export function renderResultMarkdown(
+  result: PerformanceResult,
+  options: MarkdownReportOptions = {},
+): string {
+  return fitBlocks(
+    [
+      renderHeading(options.title ?? "Performance Report", result),
+      ...renderResultBlocks(result, options),
+    ],
+    options.maxLength,
+  );
+}
+
+/**
+ * Renders an ActionableReport as Markdown. Adds the executive summary, LCP
+ * analysis, key opportunities with their steps and code examples,
+ * diagnostics and next steps to the result sections.
+ * @param report - Actionable report
+ * @param options - Rendering options
+ * @returns Markdown document of at most `maxLength` characters
+ */
+export function renderReportMarkdown(
+  report: ActionableReport,
+  options: MarkdownReportOptions = {},
+): string {
+  const result = report.performanceResult;
+  const [warnings, ...resultBlocks] = renderResultBlocks(result, options);
+
+  return fitBlocks(
+    [
+      renderHeading(options.title ?? "Performance Report", result),
+      warnings,
+      renderSummary(report),
+      ...resultBlocks.filter((block) => !block.optional),
+      renderLCP(report),
+      ...renderKeyOpportunities(report.keyOpportunities),
+      renderDiagnostics(report.diagnosticsTable),
+      ...resultBlocks.filter((block) => block.optional),
+      renderNextSteps(report),
+    ],
+    options.maxLength,
+  );
+}
+
+/**
+ * Renders the results of a multi-URL run as Markdown: a status table with
+ * one row per URL, followed by each URL's details in a collapsible section
+ * @param entries - Results, errors, thresholds and comparisons per URL
+ * @param options - Rendering options (`thresholds` and `comparison` are
+ * taken from each entry)
+ * @returns Markdown document of at most `maxLength` characters
+ */
+export function renderResultsMarkdown(
+  entries: MarkdownResultEntry[],
+  options: Pick<MarkdownReportOptions, "title" | "maxLength"> = {},
+): string {
+  const statuses = entries.map(getEntryStatus);
+  const passed = statuses.filter((status) => status === "✅").length;
+  const rows = entries.map((entry, index) => {
+    const { result } = entry;
+    const metric = (key: keyof CoreWebVitals) =>
+      result
+        ? `${RATING_EMOJI[result.metrics[key].rating]} ${escapeCell(result.metrics[key].displayValue)}`
+        : "-";
+    return `| ${statuses[index]} | ${escapeCell(truncateUrl(entry.url, 80))} | ${result ? formatScore(result.scores.performance) : "-"} | ${metric("lcp")} | ${metric("cls")} | ${metric("tbt")} |`;
+  });
+  const errors = entries.filter((entry) => entry.error);
+
+  return fitBlocks(
+    [
+      { text: `## ${escapeText(options.title ?? "Performance Report")}` },
+      {
+        text: `**${passed} of ${entries.length} URL(s) passed**
+
+| Status | URL | Performance | LCP | CLS | TBT |
+| :-: | --- | :-: | --: | --: | --: |
+${rows.join("\n")}`,
+      },
+      ...(errors.length
+        ? [
+            {
+              text: `**Failed analyses**
+
+${errors.map((entry) => `- \`${entry.url}\`: ${escapeText(entry.error as string)}`).join("\n")}`,
+            },
+          ]
+        : []),
+      ...entries.flatMap((entry, index) =>
+        entry.result
+          ? [
+              {
+                text: renderCollapsible(
+                  `${statuses[index]} ${entry.url} (${entry.result.strategy})`,
+                  joinBlocks(renderResultBlocks(entry.result, entry)),
+                ),
+                optional: true,
+              },
+            ]
+          : [],
+      ),
+    ],
+    options.maxLength,
+  );
+}
+
+/**
+ * Renders baseline comparisons as Markdown. A single comparison is shown in
+ * full; several get a status table and one collapsible section each.
+ * @param comparisons - Comparisons from `compareResults` or
+ * `compareWithBaseline`
+ * @param options - Rendering options
+ * @returns Markdown document of at most `maxLength` characters
+ */
+export function renderComparisonMarkdown(
+  comparisons: ResultComparison[],
+  options: Pick<MarkdownReportOptions, "title" | "maxLength"> = {},
+): string {
+  const heading = {
+    text: `## ${escapeText(options.title ?? "Baseline Comparison")}`,
+  };
+
+  if (comparisons.length === 1) {
+    const [comparison] = comparisons;
+    return fitBlocks(
+      [
+        {
+          text: `${heading.text}\n\n\`${comparison.url}\` · ${comparison.strategy === "mobile" ? "Mobile" : "Desktop"}`,
+        },
+        ...renderComparisonBlocks(comparison),
+      ],
+      options.maxLength,
+    );
+  }
+
+  const regressed = comparisons.filter((c) => c.hasRegressions).length;
+  const rows = comparisons.map((comparison) => {
+    const performance = comparison.scores.find(
+      (change) => change.category === "performance",
+    );
+    return `| ${comparison.hasRegressions ? "❌" : "✅"} | ${escapeCell(truncateUrl(comparison.url, 80))} | ${comparison.strategy} | ${performance?.delta === null || !performance ? "-" : `${performance.baseline} → ${performance.current}`} | ${comparison.regressions.length} |`;
+  });
+
+  return fitBlocks(
+    [
+      heading,
+      {
+        text: `**${regressed} of ${comparisons.length} URL(s) regressed**
+
+| Status | URL | Strategy | Performance | Regressions |
+| :-: | --- | --- | :-: | :-: |
+${rows.join("\n")}`,
+      },
+      ...comparisons.map((comparison) => ({
+        text: renderCollapsible(
+          `${comparison.hasRegressions ? "❌" : "✅"} ${comparison.url} (${comparison.strategy})`,
+          joinBlocks(renderComparisonBlocks(comparison)),
+        ),
+        optional: true,
+      })),
+    ],
+    options.maxLength,
+  );
+}
+
+/**
+ * Document title with the analyzed URL, strategy and date
+ */
+function renderHeading(
+  title: string,
+  result: PerformanceResult,
+): MarkdownBlock {
+  return {
+    text: `## ${escapeText(title)}
+
+\`${result.url}\` · ${result.strategy === "mobile" ? "Mobile" : "Desktop"} · analyzed ${formatDate(result.timestamp)}`,
+  };
+}
+
+/**
+ * Sections shared by results and reports. The first block is always the
+ * (possibly empty) run warnings.
+ */
+function renderResultBlocks(
+  result: PerformanceResult,
+  options: Pick<MarkdownReportOptions, "thresholds" | "comparison">,
+): MarkdownBlock[] {
+  return [
+    { text: renderWarnings(result.warnings ?? [], result.reliable !== false) },
+    { text: renderScores(result.scores) },
+    { text: renderMetrics(result.metrics, result.fieldMetrics) },
+    {
+      text: options.thresholds
+        ? renderThresholds(result, options.thresholds)
+        : "",
+    },
+    ...(options.comparison
+      ? [
+          {
+            text: `### 🔁 Baseline Comparison\n\n${joinBlocks(
+              renderComparisonBlocks(options.comparison),
+            )}`,
+          },
+        ]
+      : []),
+    { text: renderOpportunities(result.opportunities), optional: true },
+    ...renderInsights(result.insights),
+  ];
+}
+
+/**
+ * Run warnings that make the numbers untrustworthy
+ */
+function renderWarnings(warnings: RunWarning[], reliable: boolean): string {
+  if (reliable && warnings.length === 0) return "";
+
+  return [
+    `> ⚠️ **${reliable ? "Lighthouse reported warnings for this run" : "These results may not be reliable"}**`,
+    ...warnings.map((warning) => `> - ${escapeText(warning.message)}`),
+  ].join("\n");
+}
+
+/**
+ * One-row table of the analyzed category scores
+ */
+function renderScores(scores: CategoryScores): string {
+  const categories = (
+    Object.keys(SCORE_LABELS) as Array<keyof CategoryScores>
+  ).filter((category) => scores[category] !== null);
+  if (categories.length === 0) return "";
+
+  return [
+    `| ${categories.map((category) => SCORE_LABELS[category]).join(" | ")} |`,
+    `| ${categories.map(() => ":-:").join(" | ")} |`,
+    `| ${categories.map((category) => formatScore(scores[category])).join(" | ")} |`,
+  ].join("\n");
+}
+
+/**
+ * Lab metrics next to the field p75, when CrUX data is available
+ */
+function renderMetrics(metrics: CoreWebVitals, fieldData?: FieldData): string {
+  const field = fieldData?.metrics ?? {};
+  const hasField = Object.keys(field).length > 0;
+  const formatField = (key: keyof CoreWebVitals | FieldMetricId) => {
+    const metric = field[key as FieldMetricId];
+    if (!metric) return "-";
+    const value = key === "cls" ? metric.p75.toFixed(2) : formatMs(metric.p75);
+    return `${RATING_EMOJI[metric.category]} ${value}`;
+  };
+
+  const keys = [
+    ...(Object.keys(metrics) as Array<keyof CoreWebVitals>),
+    ...(["inp", "ttfb"] as FieldMetricId[]).filter((key) => field[key]),
+  ];
+  const rows = keys.map((key) => {
+    const lab =
+      key in metrics
+        ? `${RATING_EMOJI[metrics[key as keyof CoreWebVitals].rating]} ${escapeCell(metrics[key as keyof CoreWebVitals].displayValue)}`
+        : "-";
+    return `| ${METRIC_LABELS[key]} (${key.toUpperCase()}) | ${lab} |${hasField ? ` ${formatField(key)} |` : ""}`;
+  });
+
+  return [
+    `| Metric | Lab |${hasField ? " Field (p75) |" : ""}`,
+    `| --- | --: |${hasField ? " --: |" : ""}`,
+    ...rows,
+    ...(hasField
+      ? [
+          "",
+          `_Field data: 75th percentile of real-user visits to this ${fieldData?.source === "url" ? "URL" : "origin"} (Chrome UX Report)._`,
+        ]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Threshold check outcome
+ */
+function renderThresholds(
+  result: PerformanceResult,
+  thresholds: PerformanceThresholds,
+): string {
+  const checked = Object.values(thresholds).filter(
+    (value) => value !== undefined,
+  ).length;
+  const violations = evaluateThresholds(result, thresholds);
+  if (violations.length === 0) {
+    return `### ✅ Thresholds\n\nAll ${checked} threshold(s) met.`;
+  }
+
+  return `### ❌ Thresholds
+
+${violations.length} of ${checked} threshold(s) not met:
+
+${violations.map((violation) => `- ${violation.severity === "critical" ? "❌" : "⚠️"} ${violation.message}`).join("\n")}`;
+}
+
+/**
+ * Score and metric changes, regressions and collapsible opportunity and
+ * insight changes
+ */
+function renderComparisonBlocks(comparison: ResultComparison): MarkdownBlock[] {
+  const rows = [
+    ...comparison.scores
+      .filter((change) => change.delta !== null)
+      .map(
+        (change) =>
+          `| ${SCORE_LABELS[change.category]} | ${change.baseline} | ${change.current} | ${CHANGE_EMOJI[change.status]} ${formatDelta(change.delta as number, "")} |`,
+      ),
+    ...comparison.metrics.map((change) => {
+      const format = (value: number) =>
+        change.metric === "cls" ? value.toFixed(3) : `${Math.round(value)} ms`;
+      const ratio =
+        change.deltaRatio === null
+          ? ""
+          : ` (${formatDelta(Number((change.deltaRatio * 100).toFixed(1)), "%")})`;
+      const delta =
+        change.metric === "cls"
+          ? formatDelta(Number(change.delta.toFixed(3)), "")
+          : formatDelta(Math.round(change.delta), " ms");
+      return `| ${change.metric.toUpperCase()} | ${format(change.baseline)} | ${format(change.current)} | ${CHANGE_EMOJI[change.status]} ${delta}${ratio} |`;
+    }),
+  ];
+
+  const regressions = comparison.hasRegressions
+    ? `**Regressions**\n\n${comparison.regressions
+        .map(
+          (regression) =>
+            `- ${regression.severity === "critical" ? "❌" : "⚠️"} ${regression.message}`,
+        )
+        .join("\n")}`
+    : "✅ No regressions beyond tolerances";
+
+  const { opportunities, insights } = comparison;
+  const listings: Array<[string, string, OpportunityChange[]]> = [
+    ["New", "➕", opportunities.new],
+    ["Grown", "🔺", opportunities.grown],
+    ["Resolved", "✅", opportunities.resolved],
+  ];
+  const opportunityLines = listings.flatMap(([status, emoji, items]) =>
+    items.map(
+      (item) =>
+        `| ${emoji} ${status} | ${escapeCell(item.title)} | ${formatSavings(item.currentSavingsMs ?? item.baselineSavingsMs, item.currentSavingsBytes ?? item.baselineSavingsBytes)} |`,
+    ),
+  );
+  const insightCount =
+    insights.new.length + insights.grown.length + insights.resolved.length;
+  const insightLines = (
+    [
+      ["New", "➕", insights.new],
+      ["Grown", "🔺", insights.grown],
+      ["Resolved", "✅", insights.resolved],
+    ] as Array<[string, string, InsightChange[]]>
+  ).flatMap(([status, emoji, items]) =>
+    items
+      .slice(0, MAX_ROWS)
+      .map(
+        (item) =>
+          `| ${emoji} ${status} | ${INSIGHT_ROWS[item.type].label} | ${escapeCell(truncateUrl(item.key, 80))} | ${formatInsightCost(item)} |`,
+      ),
+  );
+
+  return [
+    {
+      text: `Compared with the run from ${formatDate(comparison.baselineTimestamp)}.
+
+| | Baseline | Current | Change |
+| --- | --: | --: | --: |
+${rows.join("\n")}`,
+    },
+    { text: regressions },
+    {
+      text: opportunityLines.length
+        ? renderCollapsible(
+            `Opportunity changes (${opportunityLines.length})`,
+            `| Change | Opportunity | Savings |\n| --- | --- | --: |\n${opportunityLines.join("\n")}`,
+          )
+        : "",
+      optional: true,
+    },
+    {
+      text: insightCount
+        ? renderCollapsible(
+            `Insight changes: ${insights.new.length} new, ${insights.grown.length} grown, ${insights.resolved.length} resolved`,
+            `| Change | Insight | Resource | Cost |\n| --- | --- | --- | --: |\n${insightLines.join("\n")}`,
+          )
+        : "",
+      optional: true,
+    },
+  ];
+}
+
+/**
+ * Lighthouse opportunities sorted by time savings
+ */
+function renderOpportunities(opportunities: Opportunity[]): string {
+  if (opportunities.length === 0) return "";
+
+  const sorted = [...opportunities].sort(
+    (a, b) =>
+      (b.savingsMs ?? 0) - (a.savingsMs ?? 0) ||
+      (b.savingsBytes ?? 0) - (a.savingsBytes ?? 0),
+  );
+
+  return renderCollapsible(
+    `Opportunities (${opportunities.length})`,
+    `| Opportunity | Savings |
+| --- | --: |
+${sorted
+  .slice(0, MAX_ROWS)
+  .map(
+    (opportunity) =>
+      `| ${escapeCell(opportunity.title)} | ${formatSavings(opportunity.savingsMs, opportunity.savingsBytes)} |`,
+  )
+  .join("\n")}${renderMore(sorted.length)}`,
+  );
+}
+
+/**
+ * One collapsible section per non-empty insight list
+ */
+function renderInsights(insights?: DetailedInsights): MarkdownBlock[] {
+  if (!insights) return [];
+
+  return (Object.keys(INSIGHT_ROWS) as InsightType[]).flatMap((type) => {
+    const items = insights[type] as Array<
+      DetailedInsights[InsightType][number]
+    >;
+    if (items.length === 0) return [];
+    const { label, resource, cost } = INSIGHT_ROWS[type] as {
+      label: string;
+      resource: (item: unknown) => string;
+      cost: (item: unknown) => string;
+    };
+
+    return [
+      {
+        text: renderCollapsible(
+          `${label} (${items.length})`,
+          `| Resource | Cost |
+| --- | --: |
+${items
+  .slice(0, MAX_ROWS)
+  .map(
+    (item) =>
+      `| ${escapeCell(truncateUrl(resource(item), 80))} | ${escapeCell(cost(item))} |`,
+  )
+  .join("\n")}${renderMore(items.length)}`,
+        ),
+        optional: true,
+      },
+    ];
+  });
+}
+
+/**
+ * Executive summary of an actionable report
+ */
+function renderSummary(report: ActionableReport): MarkdownBlock {
+  const { summary } = report;
+  const fieldData = summary.fieldData
+    ? ` · Core Web Vitals assessment: ${summary.fieldData.passesCoreWebVitals ? "✅ Passed" : "❌ Failed"}`
+    : "";
+  const priorities = summary.topPriorities.length
+    ? `\n\n**Top priorities:**\n\n${summary.topPriorities.map((priority, index) => `${index + 1}. ${escapeText(priority)}`).join("\n")}`
+    : "";
+
+  return {
+    text: `**${HEALTH_LABELS[summary.healthStatus]}** · ${summary.quickWinsCount} quick win(s) · potential savings ${formatMs(summary.potentialSavings.timeMs)}, ${formatBytes(summary.potentialSavings.sizeBytes)}${fieldData}${priorities}`,
+  };
+}
+
+/**
+ * LCP element and breakdown
+ */
+function renderLCP(report: ActionableReport): MarkdownBlock {
+  const element = report.enhancedLCP;
+  const breakdown = report.performanceResult.insights?.lcpBreakdown;
+  if (!element && !(breakdown && breakdown.total > 0)) return { text: "" };
+
+  const lines = ["### Largest Contentful Paint"];
+  if (element) {
+    lines.push(
+      `**Element:** \`${element.tagName.toLowerCase()}\` (${element.type}) · \`${escapeInlineCode(element.selector)}\``,
+    );
+  }
+  if (breakdown && breakdown.total > 0) {
+    const phases: Array<[string, number]> = [
+      ["Time to first byte", breakdown.ttfb],
+      ["Resource load delay", breakdown.resourceLoadDelay],
+      ["Resource load duration", breakdown.resourceLoadDuration],
+      ["Element render delay", breakdown.elementRenderDelay],
+    ];
+    lines.push(`| Phase | Time | Share |
+| --- | --: | --: |
+${phases
+  .map(
+    ([label, value]) =>
+      `| ${label} | ${formatMs(value)} | ${Math.round((value / breakdown.total) * 100)}% |`,
+  )
+  .join("\n")}
+| **Total** | **${formatMs(breakdown.total)}** | |`);
+  }
+  if (element?.recommendations.length) {
+    lines.push(
+      element.recommendations
+        .map(
+          (rec) =>
+            `- **${escapeText(rec.title)}** (${rec.impact} impact, ${rec.effort} effort): ${escapeText(rec.description)}`,
+        )
+        .join("\n"),
+    );
+  }
+
+  return { text: lines.join("\n\n") };
+}
+
+/**
+ * Key opportunities, one collapsible section each with steps, code
+ * examples and framework notes
+ */
+function renderKeyOpportunities(
+  opportunities: KeyOpportunity[],
+): MarkdownBlock[] {
+  if (opportunities.length === 0) return [];
+
+  return [
+    { text: "### Key Opportunities" },
+    ...opportunities.map((opportunity) => {
+      const { impact } = opportunity;
+      const estimates = [
+        impact.lcpImprovementMs
+          ? `LCP −${formatMs(impact.lcpImprovementMs)}`
+          : "",
+        impact.scoreImprovement ? `+${impact.scoreImprovement} score` : "",
+        impact.sizeSavings ? `${formatBytes(impact.sizeSavings)} smaller` : "",
+      ].filter(Boolean);
+
+      const parts = [escapeText(opportunity.description)];
+      if (opportunity.steps.length) {
+        parts.push(
+          opportunity.steps
+            .map((step, index) => {
+              const code = step.codeExample
+                ? `\n\n${step.codeExample.filePath ? `   \`${step.codeExample.filePath}\`\n\n` : ""}${indent(renderCodeBlock(step.codeExample.code, step.codeExample.language))}`
+                : "";
+              return `${index + 1}. **${escapeText(step.title)}**${step.estimatedTime ? ` (${step.estimatedTime})` : ""}: ${escapeText(step.instructions)}${code}`;
+            })
+            .join("\n"),
+        );
+      }
+      for (const note of opportunity.frameworkNotes ?? []) {
+        parts.push(
+          `> **${escapeText(note.framework)}:** ${escapeText(note.note)}${note.docLink ? ` ([documentation](${note.docLink}))` : ""}${note.codeExample ? `\n\n${renderCodeBlock(note.codeExample, "")}` : ""}`,
+        );
+      }
+      if (opportunity.resources?.length) {
+        parts.push(
+          `Learn more: ${opportunity.resources.map((resource) => `[${escapeText(resource.title)}](${resource.url})`).join(" · ")}`,
+        );
+      }
+
+      return {
+        text: renderCollapsible(
+          `${opportunity.priority}. ${opportunity.title} (${impact.level}${estimates.length ? `, ${estimates.join(", ")}` : ""})`,
+          parts.join("\n\n"),
+        ),
+        optional: true,
+      };
+    }),
+  ];
+}
+
+/**
+ * Diagnostics table
+ */
+function renderDiagnostics(diagnostics: DiagnosticItem[]): MarkdownBlock {
+  if (diagnostics.length === 0) return { text: "" };
+
+  return {
+    text: renderCollapsible(
+      `Diagnostics (${diagnostics.length})`,
+      `| Severity | Diagnostic | Value | Savings |
+| --- | --- | --- | --: |
+${diagnostics
+  .slice(0, MAX_ROWS)
+  .map(
+    (diagnostic) =>
+      `| ${diagnostic.severity} | ${escapeCell(diagnostic.title)} | ${escapeCell(diagnostic.displayValue) || "-"} | ${formatSavings(diagnostic.savings?.timeMs, diagnostic.savings?.bytes)} |`,
+  )
+  .join("\n")}${renderMore(diagnostics.length)}`,
+    ),
+    optional: true,
+  };
+}
+
+/**
+ * Recommended next steps
+ */
+function renderNextSteps(report: ActionableReport): MarkdownBlock {
+  if (report.nextSteps.length === 0) return { text: "" };
+
+  return {
+    text: `### Next Steps
+
+${report.nextSteps
+  .map(
+    (step, index) =>
+      `${index + 1}. **${escapeText(step.title)}** (${step.urgency.replace(/-/g, " ")}): ${escapeText(step.description)}`,
+  )
+  .join("\n")}`,
+    optional: true,
+  };
+}
+
+/**
+ * Joins blocks, leaving out optional blocks that don't fit. When the
+ * required blocks alone are too long, the document is cut at a line
+ * boundary and open code fences and `<details>` are closed.
+ */
+function fitBlocks(
+  blocks: MarkdownBlock[],
+  maxLength = DEFAULT_MARKDOWN_MAX_LENGTH,
+): string {
+  const filled = blocks.filter((block) => block.text);
+  const optionalCount = filled.filter((block) => block.optional).length;
+  const notice = (count: number) =>
+    `_${count} section(s) left out to stay under ${maxLength} characters._`;
+  const separator = "\n\n";
+
+  const requiredLength = filled
+    .filter((block) => !block.optional)
+    .reduce((total, block) => total + block.text.length + separator.length, 0);
+  let budget =
+    maxLength -
+    requiredLength -
+    (optionalCount ? notice(optionalCount).length + separator.length : 0);
+
+  const kept: string[] = [];
+  let skipped = 0;
+  for (const block of filled) {
+    if (block.optional) {
+      const length = block.text.length + separator.length;
+      if (length > budget) {
+        skipped++;
+        continue;
+      }
+      budget -= length;
+    }
+    kept.push(block.text);
+  }
+  if (skipped) kept.push(notice(skipped));
+
+  const markdown = `${kept.join(separator)}\n`;
+  return markdown.length <= maxLength
+    ? markdown
+    : truncateMarkdown(markdown, maxLength);
+}
+
+/**
+ * Joins the non-empty blocks of a nested section, keeping optional ones
+ */
+function joinBlocks(blocks: MarkdownBlock[]): string {
+  return blocks
+    .map((block) => block.text)
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Cuts a document at a line boundary below the limit
+ */
+function truncateMarkdown(markdown: string, maxLength: number): string {
+  const notice = `\n\n_Report truncated to stay under ${maxLength} characters._\n`;
+  // Room for the notice and the closing tags added below
+  const reserve = notice.length + 64;
+  if (maxLength <= reserve) return markdown.slice(0, maxLength);
+
+  let text = markdown.slice(0, maxLength - reserve);
+  text = text.slice(0, Math.max(text.lastIndexOf("\n"), 0));
+
+  const closing: string[] = [];
+  if ((text.match(/^\s*```/gm) ?? []).length % 2 === 1) closing.push("```");
+  const openDetails =
+    (text.match(/<details>/g) ?? []).length -
+    (text.match(/<\/details>/g) ?? []).length;
+  for (let i = 0; i < openDetails && closing.length < 4; i++) {
+    closing.push("</details>");
+  }
+
+  return `${text}${closing.length ? `\n${closing.join("\n")}` : ""}${notice}`;
+}
+
+/**
+ * Collapsible section; the blank lines let GitHub render Markdown inside
+ */
+function renderCollapsible(summary: string, body: string): string {
+  return `<details>
+<summary><strong>${escapeText(summary)}</strong></summary>
+
+${body}
+
+</details>`;
+}
+
+/**
+ * Fenced code block, with a fence longer than any backtick run in the code
+ */
+function renderCodeBlock(code: string, language: string): string {
+  const longest = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${code.trim()}\n${fence}`;
+}
+
+/**
+ * Note for tables that show only the first rows
+ */
+function renderMore(total: number): string {
+  return total > MAX_ROWS ? `\n\n_${total - MAX_ROWS} more not shown._` : "";
+}
+
+/**
+ * Outcome of one URL in a multi-URL run
+ */
+function getEntryStatus(entry: MarkdownResultEntry): "✅" | "❌" {
+  if (!entry.result) return "❌";
+  const violations = entry.thresholds
+    ? evaluateThresholds(entry.result, entry.thresholds)
+    : [];
+  return violations.length || entry.comparison?.hasRegressions ? "❌" : "✅";
+}
+
+/**
+ * Score with its Lighthouse color: green (90+), orange (50-89) or red
+ */
+function formatScore(score: number | null): string {
+  if (score === null) return "-";
+  return `${score >= 90 ? "🟢" : score >= 50 ? "🟠" : "🔴"} ${score}`;
+}
+
+/**
+ * Signed change, with "±" for no change
+ */
+function formatDelta(delta: number, unit: string): string {
+  const sign = delta > 0 ? "+" : delta < 0 ? "-" : "±";
+  return `${sign}${Math.abs(delta)}${unit}`;
+}
+
+/**
+ * Time and size savings, or "-" when there are none
+ */
+function formatSavings(ms?: number, bytes?: number): string {
+  return (
+    [ms ? formatMs(ms) : "", bytes ? formatBytes(bytes) : ""]
+      .filter(Boolean)
+      .join(", ") || "-"
+  );
+}
+
+/**
+ * Current cost of an insight item, or its baseline cost once resolved
+ */
+function formatInsightCost(item: InsightChange): string {
+  const value = item.current ?? item.baseline ?? 0;
+  return item.unit === "bytes" ? formatBytes(value) : formatMs(value);
+}
+
+/**
+ * Indents a block so it renders inside a list item
+ */
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `   ${line}`)
+    .join("\n");
+}
+
+/**
+ * Escapes text that would otherwise be read as HTML
+ */
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Escapes text for a single table cell
+ */
+function escapeCell(text: string): string {
+  return escapeText(text)
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Inline code can't contain its own delimiter
+ */
+function escapeInlineCode(text: string): string {
+  return text.replace(/`/g, "'");
+}
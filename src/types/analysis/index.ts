@@ -8,13 +8,19 @@
  * @license PolyForm-Noncommercial-1.0.0
  */
 
-import type { CoreWebVitals, CategoryScores } from "../metrics";
+import type {
+  CoreWebVitals,
+  CategoryScores,
+  FieldData,
+  MetricStats,
+} from "../metrics";
 import type {
   Strategy,
   LoadingExperience,
   PageSpeedResponse,
   AuditDetails,
 } from "../pagespeed";
+import type { ResourceSummary } from "../budget";
 
 // =============================================================================
 // LCP Element Types
@@ -356,6 +362,22 @@ export interface DetailedInsights {
 // Performance Result Types
 // =============================================================================
 
+/**
+ * Where a Lighthouse result came from (PSI response or local report)
+ */
+export interface PerformanceResultSource {
+  /** Analyzed URL */
+  url: string;
+  /** Strategy the run emulated */
+  strategy: Strategy;
+  /** Analysis timestamp */
+  timestamp: string;
+  /** CrUX data for the URL (PSI only) */
+  loadingExperience?: LoadingExperience;
+  /** CrUX data for the origin (PSI only) */
+  originLoadingExperience?: LoadingExperience;
+}
+
 /**
  * Complete performance analysis result
  */
@@ -376,10 +398,56 @@ export interface PerformanceResult {
   opportunities: Opportunity[];
   /** Diagnostic information */
   diagnostics: Diagnostic[];
+  /** Requests and transferred bytes per resource type */
+  resources?: ResourceSummary;
   /** Detailed insights for actionable improvements (AI-friendly) */
   insights?: DetailedInsights;
   /** CrUX real-world data (if available) */
   fieldData?: LoadingExperience;
+  /** Typed real-user Core Web Vitals (URL data, or origin data as fallback) */
+  fieldMetrics?: FieldData;
   /** Raw API response (for debugging) */
   rawResponse?: PageSpeedResponse;
+  /** Multi-run statistics (present when several runs were aggregated) */
+  aggregation?: RunAggregation;
+  /** Lighthouse runtime error and run warnings */
+  warnings?: RunWarning[];
+  /** False when warnings suggest the scores can't be trusted */
+  reliable?: boolean;
+}
+
+/**
+ * Category of a Lighthouse run warning
+ */
+export type RunWarningType =
+  "runtime-error" | "redirect" | "throttling" | "timeout" | "storage" | "other";
+
+/**
+ * Structured Lighthouse run warning
+ */
+export interface RunWarning {
+  /** Warning category */
+  type: RunWarningType;
+  /** Where the warning came from */
+  source: "runtimeError" | "runWarnings";
+  /** Lighthouse error code (runtime errors only) */
+  code?: string;
+  /** Original Lighthouse message */
+  message: string;
+}
+
+/**
+ * Statistics for a multi-run analysis
+ */
+export interface RunAggregation {
+  /** Number of runs made */
+  runs: number;
+  /** Runs left out of the statistics (no FCP/TTI, or a runtime error) */
+  discardedRuns: number;
+  /** Index of the representative (median) run */
+  representativeRun: number;
+  /** Per-metric statistics over the valid runs (empty when none is valid) */
+  metrics: Partial<Record<keyof CoreWebVitals, MetricStats>>;
+  /** Per-category score statistics (categories with scores in every valid run) */
+  scores: Partial<Record<keyof CategoryScores, MetricStats>>;
 }
@@ -0,0 +1,133 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Performance budget type definitions (Lighthouse `budget.json` format).
+ *
+ * @module types/budget
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+// =============================================================================
+// Budget Types
+// =============================================================================
+
+/**
+ * Resource type a size or count budget applies to
+ */
+export type BudgetResourceType =
+  | "total"
+  | "document"
+  | "script"
+  | "stylesheet"
+  | "image"
+  | "media"
+  | "font"
+  | "other"
+  | "third-party";
+
+/**
+ * Lighthouse metric a timing budget applies to
+ */
+export type BudgetTimingMetric =
+  | "first-contentful-paint"
+  | "largest-contentful-paint"
+  | "cumulative-layout-shift"
+  | "total-blocking-time"
+  | "speed-index"
+  | "interactive";
+
+/**
+ * Size (KiB) or request count budget for a resource type
+ */
+export interface ResourceBudget {
+  resourceType: BudgetResourceType;
+  /** KiB for `resourceSizes`, requests for `resourceCounts` */
+  budget: number;
+}
+
+/**
+ * Timing budget in milliseconds (unitless for CLS)
+ */
+export interface TimingBudget {
+  metric: BudgetTimingMetric;
+  budget: number;
+}
+
+/**
+ * Budgets for the pages matching a path, as in Lighthouse's `budget.json`
+ */
+export interface Budget {
+  /**
+   * Path pattern (`/` prefixed, `*` wildcard, `$` end anchor). Matches every
+   * page when omitted. When several budgets match, the last one wins.
+   */
+  path?: string;
+  /** Hostnames Lighthouse treats as first party for `third-party` budgets */
+  options?: { firstPartyHostnames?: string[] };
+  /** Transfer size budgets in KiB */
+  resourceSizes?: ResourceBudget[];
+  /** Request count budgets */
+  resourceCounts?: ResourceBudget[];
+  /** Timing budgets */
+  timings?: TimingBudget[];
+}
+
+// =============================================================================
+// Resource Summary Types
+// =============================================================================
+
+/**
+ * Requests and transferred bytes for one resource type
+ */
+export interface ResourceUsage {
+  requestCount: number;
+  /** Transfer size in bytes */
+  transferSize: number;
+}
+
+/**
+ * Requests and bytes per resource type, from the `resource-summary` audit
+ * or the `network-requests` audit
+ */
+export type ResourceSummary = Record<BudgetResourceType, ResourceUsage>;
+
+// =============================================================================
+// Evaluation Types
+// =============================================================================
+
+/**
+ * Kind of budget that was exceeded
+ */
+export type BudgetViolationKind = "resourceSize" | "resourceCount" | "timing";
+
+/**
+ * A budget overrun
+ */
+export interface BudgetViolation {
+  kind: BudgetViolationKind;
+  /** Resource type or timing metric */
+  id: BudgetResourceType | BudgetTimingMetric;
+  /** Budget (KiB, requests or milliseconds) */
+  budget: number;
+  /** Measured value in the budget's unit */
+  actual: number;
+  /** Amount over budget in the budget's unit */
+  overBudget: number;
+}
+
+/**
+ * Budget evaluation of one result
+ */
+export interface BudgetResult {
+  /** Analyzed URL */
+  url: string;
+  /** Path of the budget that matched (undefined when none matched) */
+  path?: string;
+  /** Whether every budget was met */
+  passed: boolean;
+  /** Exceeded budgets */
+  violations: BudgetViolation[];
+  /** Resource budgets skipped because the result has no resource data */
+  skipped: number;
+}
@@ -47,6 +47,8 @@ export interface CLIOptions {
  * Threshold violation details
  */
 export interface ThresholdViolation {
+  /** Threshold that was not met */
+  key: keyof PerformanceThresholds;
   /** Metric name */
   metric: string;
   /** Current value */
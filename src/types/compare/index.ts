@@ -0,0 +1,203 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Baseline comparison type definitions.
+ *
+ * @module types/compare
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { DetailedInsights } from "../analysis";
+import type { CategoryScores, CoreWebVitals, MetricRating } from "../metrics";
+import type { Strategy } from "../pagespeed";
+
+// =============================================================================
+// Tolerance Types
+// =============================================================================
+
+/**
+ * Changes small enough to be run-to-run noise rather than a regression
+ */
+export interface ComparisonTolerances {
+  /** Category score points (default: 2) */
+  score: number;
+  /** Relative metric change, e.g. 0.05 for 5% (default: 0.05) */
+  metricRatio: number;
+  /** Absolute change per metric, in the metric's unit */
+  metrics: Record<keyof CoreWebVitals, number>;
+  /** Growth of an opportunity or insight in milliseconds (default: 100) */
+  savingsMs: number;
+  /** Growth of an opportunity or insight in bytes (default: 10 KiB) */
+  savingsBytes: number;
+}
+
+/**
+ * Tolerance overrides; unset values keep the defaults
+ */
+export type ToleranceOverrides = Partial<
+  Omit<ComparisonTolerances, "metrics">
+> & {
+  /** Absolute change per metric */
+  metrics?: Partial<ComparisonTolerances["metrics"]>;
+};
+
+// =============================================================================
+// Change Types
+// =============================================================================
+
+/**
+ * Direction of a change once tolerances are applied
+ */
+export type ChangeStatus = "improved" | "unchanged" | "regressed";
+
+/**
+ * How bad a regression is: `critical` when the rating gets worse (e.g. a
+ * metric goes from good to needs-improvement), `warning` otherwise
+ */
+export type RegressionSeverity = "warning" | "critical";
+
+/**
+ * Category score change
+ */
+export interface ScoreChange {
+  /** Category */
+  category: keyof CategoryScores;
+  /** Baseline score (0-100) */
+  baseline: number | null;
+  /** Current score (0-100) */
+  current: number | null;
+  /** Current minus baseline (null when either score is missing) */
+  delta: number | null;
+  /** Change direction */
+  status: ChangeStatus;
+  /** Severity (regressions only) */
+  severity?: RegressionSeverity;
+}
+
+/**
+ * Lab metric change (lower is better for every metric)
+ */
+export interface MetricChange {
+  /** Metric */
+  metric: keyof CoreWebVitals;
+  /** Baseline value */
+  baseline: number;
+  /** Current value */
+  current: number;
+  /** Current minus baseline */
+  delta: number;
+  /** Delta relative to the baseline (null for a zero baseline) */
+  deltaRatio: number | null;
+  /** Baseline rating */
+  baselineRating: MetricRating;
+  /** Current rating */
+  currentRating: MetricRating;
+  /** Change direction */
+  status: ChangeStatus;
+  /** Severity (regressions only) */
+  severity?: RegressionSeverity;
+}
+
+/**
+ * Opportunity that appeared, was resolved or grew
+ */
+export interface OpportunityChange {
+  /** Audit ID */
+  id: string;
+  /** Audit title */
+  title: string;
+  /** Baseline time savings in ms */
+  baselineSavingsMs?: number;
+  /** Current time savings in ms */
+  currentSavingsMs?: number;
+  /** Baseline size savings in bytes */
+  baselineSavingsBytes?: number;
+  /** Current size savings in bytes */
+  currentSavingsBytes?: number;
+}
+
+/**
+ * Insight lists that are compared item by item
+ */
+export type InsightType = Exclude<
+  keyof DetailedInsights,
+  "lcpBreakdown" | "totalSavings"
+>;
+
+/**
+ * Insight item (resource, third party or long task) that appeared, was
+ * resolved or grew
+ */
+export interface InsightChange {
+  /** Insight list */
+  type: InsightType;
+  /** Item key (resource URL or third-party entity) */
+  key: string;
+  /** Unit of the measured cost */
+  unit: "ms" | "bytes";
+  /** Baseline cost */
+  baseline?: number;
+  /** Current cost */
+  current?: number;
+}
+
+/**
+ * Items that appeared, were resolved or grew between two runs
+ */
+export interface ListChanges<T> {
+  /** Only in the current run */
+  new: T[];
+  /** Only in the baseline */
+  resolved: T[];
+  /** In both, with a cost that grew beyond the tolerance */
+  grown: T[];
+}
+
+/**
+ * Score or metric change beyond the tolerances
+ */
+export interface Regression {
+  /** What regressed */
+  kind: "score" | "metric";
+  /** Category or metric key */
+  id: string;
+  /** Baseline value */
+  baseline: number;
+  /** Current value */
+  current: number;
+  /** Severity */
+  severity: RegressionSeverity;
+  /** Human-readable message */
+  message: string;
+}
+
+// =============================================================================
+// Comparison Result Types
+// =============================================================================
+
+/**
+ * Differences between a baseline and a current result for the same URL
+ */
+export interface ResultComparison {
+  /** Analyzed URL */
+  url: string;
+  /** Strategy of both runs */
+  strategy: Strategy;
+  /** Baseline timestamp */
+  baselineTimestamp: string;
+  /** Current timestamp */
+  currentTimestamp: string;
+  /** Category score changes */
+  scores: ScoreChange[];
+  /** Lab metric changes */
+  metrics: MetricChange[];
+  /** Opportunity changes */
+  opportunities: ListChanges<OpportunityChange>;
+  /** Insight changes (empty when either run has no insights) */
+  insights: ListChanges<InsightChange>;
+  /** Score and metric regressions */
+  regressions: Regression[];
+  /** Whether any score or metric regressed */
+  hasRegressions: boolean;
+}
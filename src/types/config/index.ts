@@ -10,6 +10,7 @@
 
 import type { Strategy, Category } from "../pagespeed";
 import type { LHCIAssertions } from "../lighthouse";
+import type { ProviderOptions } from "../provider";
 
 // =============================================================================
 // Threshold Types
@@ -33,6 +34,10 @@ export interface PerformanceThresholds {
   tti?: number;
   /** Maximum SI (Speed Index) in milliseconds */
   si?: number;
+  /** Maximum field (CrUX) INP at p75 in milliseconds */
+  inp?: number;
+  /** Maximum field (CrUX) TTFB at p75 in milliseconds */
+  ttfb?: number;
   /** Minimum accessibility score (0-100) */
   accessibility?: number;
   /** Minimum best-practices score (0-100) */
@@ -41,6 +46,18 @@ export interface PerformanceThresholds {
   seo?: number;
 }
 
+/**
+ * Sources of the thresholds a URL is checked against, in order of precedence
+ */
+export interface ThresholdResolutionOptions {
+  /** Project thresholds and URL overrides (default: `getDefaultThresholds()`) */
+  config?: Pick<ProjectConfig, "thresholds" | "urlThresholds">;
+  /** Raise every threshold to at least the strict preset */
+  strict?: boolean;
+  /** Explicit thresholds (e.g. `--threshold`), applied last */
+  overrides?: PerformanceThresholds;
+}
+
 // =============================================================================
 // Project Configuration Types
 // =============================================================================
@@ -57,7 +74,7 @@ export interface ProjectConfig {
   categories: Category[];
   /** Thresholds for each URL pattern */
   thresholds: PerformanceThresholds;
-  /** URL-specific threshold overrides */
+  /** Threshold overrides keyed by URL regular expression */
   urlThresholds?: Record<string, Partial<PerformanceThresholds>>;
   /** CI/CD integration settings */
   ci?: {
@@ -70,6 +87,65 @@ export interface ProjectConfig {
   };
 }
 
+// =============================================================================
+// Configuration File Types
+// =============================================================================
+
+/**
+ * Contents of a `performance.config.{js,mjs,cjs,json}` file. Only `urls` is
+ * required; the rest falls back to the toolkit defaults.
+ */
+export interface PerformanceConfig {
+  /** URLs to analyze */
+  urls: string[];
+  /** Analysis strategy (default: "mobile") */
+  strategy?: Strategy;
+  /** Categories to analyze (default: all four) */
+  categories?: Category[];
+  /** Thresholds every URL must meet */
+  thresholds?: PerformanceThresholds;
+  /** Threshold overrides keyed by URL regular expression */
+  urlThresholds?: Record<string, Partial<PerformanceThresholds>>;
+  /** CI/CD integration settings */
+  ci?: Partial<NonNullable<ProjectConfig["ci"]>>;
+  /** Runs per URL, aggregated around the median run (default: 1) */
+  numberOfRuns?: number;
+  /** Locale for localized audit strings */
+  locale?: string;
+  /** Analysis provider name (default: "psi") */
+  provider?: string;
+  /** Settings for the provider */
+  providerOptions?: ProviderOptions;
+  /** Google PageSpeed API key (prefer the PAGESPEED_API_KEY variable) */
+  apiKey?: string;
+  /** PSI response cache settings */
+  cache?: Partial<CacheConfig>;
+  /** PSI retry settings */
+  retry?: Partial<RetryConfig>;
+  /** PSI rate limiting settings */
+  rateLimit?: Partial<RateLimitConfig>;
+}
+
+/**
+ * A loaded configuration file with defaults applied
+ */
+export interface ResolvedConfig {
+  /** Absolute path of the configuration file */
+  filePath: string;
+  /** URLs, strategy, categories and thresholds */
+  project: ProjectConfig;
+  /** Toolkit settings (API key, defaults, cache, retry, rate limiting) */
+  toolkit: ToolkitConfig;
+  /** Analysis provider name */
+  provider: string;
+  /** Settings for the provider */
+  providerOptions: ProviderOptions;
+  /** Runs per URL */
+  numberOfRuns: number;
+  /** Locale for localized audit strings */
+  locale?: string;
+}
+
 // =============================================================================
 // Toolkit Configuration Types
 // =============================================================================
@@ -91,21 +167,90 @@ export interface ToolkitConfig {
   /** Enable detailed insights extraction */
   extractInsights: boolean;
   /** Cache settings */
-  cache?: {
-    /** Enable caching */
-    enabled: boolean;
-    /** Cache TTL in seconds */
-    ttl: number;
-    /** Cache directory */
-    directory?: string;
-  };
+  cache?: CacheConfig;
   /** Retry settings */
-  retry?: {
-    /** Max retry attempts */
-    maxAttempts: number;
-    /** Initial delay in ms */
-    initialDelay: number;
-    /** Backoff multiplier */
-    backoffMultiplier: number;
-  };
+  retry?: RetryConfig;
+  /** Client-side rate limiting */
+  rateLimit?: RateLimitConfig;
+  /** Record/replay fixture settings */
+  fixtures?: FixtureConfig;
+  /** HTTP transport overrides (custom fetch, base URL, headers) */
+  transport?: TransportConfig;
+}
+
+/**
+ * On-disk cache settings for raw PageSpeed API responses
+ */
+export interface CacheConfig {
+  /** Enable caching */
+  enabled: boolean;
+  /** Cache TTL in seconds */
+  ttl: number;
+  /** Cache directory */
+  directory?: string;
+}
+
+/**
+ * Retry settings for transient PageSpeed API failures
+ */
+export interface RetryConfig {
+  /** Max retry attempts */
+  maxAttempts: number;
+  /** Initial delay in ms */
+  initialDelay: number;
+  /** Backoff multiplier */
+  backoffMultiplier: number;
+  /** Upper bound for a single delay in ms (including Retry-After) */
+  maxDelay?: number;
+}
+
+/**
+ * PSI quota tier used to pick rate limiting defaults
+ */
+export type QuotaProfile = "keyed" | "unkeyed";
+
+/**
+ * Client-side rate limiting settings (token bucket + concurrency queue)
+ */
+export interface RateLimitConfig {
+  /** Enable rate limiting */
+  enabled: boolean;
+  /** Quota profile (defaults to "keyed" when an API key is set) */
+  profile?: QuotaProfile;
+  /** Sustained request rate */
+  requestsPerMinute?: number;
+  /** Maximum requests in flight */
+  maxConcurrent?: number;
+  /** Token bucket capacity (requests allowed back-to-back) */
+  burst?: number;
+}
+
+/**
+ * How the client uses recorded fixtures:
+ * - `passthrough`: ignore fixtures (default)
+ * - `record`: write every response to the fixtures directory
+ * - `replay`: serve responses from the fixtures directory, never the network
+ */
+export type FixtureMode = "passthrough" | "record" | "replay";
+
+/**
+ * Record/replay settings for raw PageSpeed API responses
+ */
+export interface FixtureConfig {
+  /** Fixture mode */
+  mode: FixtureMode;
+  /** Fixtures directory */
+  directory?: string;
+}
+
+/**
+ * HTTP transport overrides for API requests
+ */
+export interface TransportConfig {
+  /** Fetch implementation (e.g. one routed through an egress proxy) */
+  fetch?: typeof fetch;
+  /** API endpoint replacing the default PageSpeed Insights URL */
+  baseUrl?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
 }
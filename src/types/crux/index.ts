@@ -0,0 +1,211 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Chrome UX Report (CrUX) API type definitions.
+ *
+ * @module types/crux
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { CacheMode } from "../pagespeed";
+import type { CacheConfig, RetryConfig, TransportConfig } from "../config";
+import type {
+  FieldMetric,
+  FieldMetricDistribution,
+  FieldMetricId,
+  MetricRating,
+} from "../metrics";
+
+// =============================================================================
+// Query Types
+// =============================================================================
+
+/**
+ * Device class for CrUX queries (omitted = all form factors combined)
+ */
+export type CruxFormFactor = "phone" | "desktop" | "tablet";
+
+/**
+ * CrUX query for a single URL or a whole origin
+ */
+export interface CruxQuery {
+  /** Page URL (mutually exclusive with `origin`) */
+  url?: string;
+  /** Origin, e.g. "https://www.example.com" (mutually exclusive with `url`) */
+  origin?: string;
+  /** Form factor (all form factors when omitted) */
+  formFactor?: CruxFormFactor;
+  /** Metrics to request (all supported field metrics when omitted) */
+  metrics?: FieldMetricId[];
+  /** Cache behavior for this request */
+  cacheMode?: CacheMode;
+  /** Cancels the request, pending retry waits included */
+  signal?: AbortSignal;
+}
+
+/**
+ * CrUX History API query
+ */
+export interface CruxHistoryQuery extends CruxQuery {
+  /** Number of weekly collection periods (API default: 25) */
+  collectionPeriodCount?: number;
+}
+
+/**
+ * CrUX client options
+ */
+export interface CruxClientOptions {
+  /** Retry settings for transient failures (429, 5xx, timeouts, network resets) */
+  retry?: Partial<RetryConfig>;
+  /** On-disk response cache settings */
+  cache?: Partial<CacheConfig>;
+  /** HTTP transport overrides (custom fetch, base URL, extra headers) */
+  transport?: TransportConfig;
+}
+
+// =============================================================================
+// Result Types
+// =============================================================================
+
+/**
+ * What a CrUX record describes
+ */
+export interface CruxRecordKey {
+  /** Page URL (URL-level records) */
+  url?: string;
+  /** Origin (origin-level records) */
+  origin?: string;
+  /** Form factor, or "all" when form factors are combined */
+  formFactor: CruxFormFactor | "all";
+}
+
+/**
+ * 28-day window of real-user data, dates as YYYY-MM-DD
+ */
+export interface CruxCollectionPeriod {
+  firstDate: string;
+  lastDate: string;
+}
+
+/**
+ * Real-user data for the latest 28-day collection period
+ */
+export interface CruxRecord {
+  key: CruxRecordKey;
+  /** Metrics with enough data (missing metrics are omitted) */
+  metrics: Partial<Record<FieldMetricId, FieldMetric>>;
+  collectionPeriod: CruxCollectionPeriod;
+}
+
+/**
+ * One collection period of a metric time series
+ */
+export interface CruxTimeseriesPoint extends CruxCollectionPeriod {
+  /** 75th percentile, null when the period has too little data */
+  p75: number | null;
+  /** Distribution, null when the period has too little data */
+  distribution: FieldMetricDistribution | null;
+  /** Rating of the 75th percentile, null when p75 is missing */
+  category: MetricRating | null;
+}
+
+/**
+ * Weekly real-user time series (oldest period first)
+ */
+export interface CruxHistory {
+  key: CruxRecordKey;
+  /** Metric time series, aligned with `collectionPeriods` */
+  metrics: Partial<Record<FieldMetricId, CruxTimeseriesPoint[]>>;
+  collectionPeriods: CruxCollectionPeriod[];
+}
+
+/**
+ * p75 change between the first and last periods with data
+ */
+export interface CruxTrend {
+  /** Earliest p75 */
+  first: number;
+  /** Latest p75 */
+  last: number;
+  /** Absolute change (negative = faster / more stable) */
+  change: number;
+  /** Relative change in percent */
+  changePercent: number;
+  /** Whether p75 went down (improved) or up (regressed) */
+  direction: "improved" | "regressed" | "unchanged";
+}
+
+// =============================================================================
+// Raw API Types
+// =============================================================================
+
+/**
+ * Calendar date as returned by the CrUX API
+ */
+export interface CruxApiDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Collection period as returned by the CrUX API
+ */
+export interface CruxApiCollectionPeriod {
+  firstDate: CruxApiDate;
+  lastDate: CruxApiDate;
+}
+
+/**
+ * Record key as returned by the CrUX API
+ */
+export interface CruxApiKey {
+  url?: string;
+  origin?: string;
+  formFactor?: "PHONE" | "DESKTOP" | "TABLET";
+}
+
+/**
+ * CrUX API `records:queryRecord` response
+ */
+export interface CruxApiRecordResponse {
+  record: {
+    key: CruxApiKey;
+    metrics: Record<
+      string,
+      {
+        histogram?: Array<{
+          start: number | string;
+          end?: number | string;
+          density?: number;
+        }>;
+        /** CLS percentiles are strings */
+        percentiles?: { p75: number | string };
+      }
+    >;
+    collectionPeriod: CruxApiCollectionPeriod;
+  };
+}
+
+/**
+ * CrUX API `records:queryHistoryRecord` response
+ */
+export interface CruxApiHistoryResponse {
+  record: {
+    key: CruxApiKey;
+    metrics: Record<
+      string,
+      {
+        histogramTimeseries?: Array<{
+          start: number | string;
+          end?: number | string;
+          /** "NaN" for periods with too little data */
+          densities: Array<number | string>;
+        }>;
+        percentilesTimeseries?: { p75s: Array<number | string | null> };
+      }
+    >;
+    collectionPeriods: CruxApiCollectionPeriod[];
+  };
+}
@@ -16,6 +16,11 @@
 export type {
   MetricValue,
   MetricRating,
+  MetricStats,
+  FieldMetricId,
+  FieldMetricDistribution,
+  FieldMetric,
+  FieldData,
   CoreWebVitals,
   CategoryScores,
 } from "./metrics";
@@ -25,24 +30,107 @@ export type {
   Strategy,
   Category,
   PageSpeedOptions,
+  PageSpeedClientOptions,
+  CacheMode,
+  RequestKeyInput,
+  QueueEvent,
+  RetryAttempt,
+  PageSpeedErrorCode,
+  PageSpeedErrorJSON,
+  PageSpeedApiErrorDetails,
+  GoogleApiErrorBody,
+  BatchJob,
+  BatchOptions,
+  BatchProgress,
+  BatchJobError,
+  BatchJobResult,
+  BatchResult,
   PageSpeedResponse,
   LoadingExperience,
   CrUXMetric,
   LighthouseResult,
+  LighthouseRuntimeError,
+  LighthouseEntity,
   LighthouseCategories,
   LighthouseCategory,
   LighthouseAudit,
   AuditDetails,
 } from "./pagespeed";
 
+// CrUX Domain - Chrome UX Report API
+export type {
+  CruxFormFactor,
+  CruxQuery,
+  CruxHistoryQuery,
+  CruxClientOptions,
+  CruxRecordKey,
+  CruxCollectionPeriod,
+  CruxRecord,
+  CruxTimeseriesPoint,
+  CruxHistory,
+  CruxTrend,
+  CruxApiDate,
+  CruxApiCollectionPeriod,
+  CruxApiKey,
+  CruxApiRecordResponse,
+  CruxApiHistoryResponse,
+} from "./crux";
+
 // Lighthouse Domain - LHCI configuration
 export type {
   LHCIMethod,
   LHCIOptions,
+  LHCIAssertionLevel,
+  LHCIAggregationMethod,
+  LHCIAssertionOptions,
+  LHCIAssertion,
   LHCIAssertions,
+  LHCIAssertMatrixEntry,
+  LHCIAssertionConfig,
+  LHCIAuthScriptOptions,
+  LHCIConfigFormat,
+  LHCIServerOptions,
   LHCIConfig,
+  LHCIAssertionResult,
+  LHCIUrlResult,
+  LHCIResults,
+  LHCIRunResult,
+  ReadLHCIResultsOptions,
+  LocalThrottlingProfile,
+  LocalThrottlingMethod,
+  LocalThrottlingSettings,
+  LocalRunnerOptions,
+  LocalLighthouseOptions,
 } from "./lighthouse";
 
+// Budget Domain - Resource and timing budgets
+export type {
+  BudgetResourceType,
+  BudgetTimingMetric,
+  ResourceBudget,
+  TimingBudget,
+  Budget,
+  ResourceUsage,
+  ResourceSummary,
+  BudgetViolationKind,
+  BudgetViolation,
+  BudgetResult,
+} from "./budget";
+
+// Provider Domain - Analysis providers
+export type {
+  AnalysisOptions,
+  AnalysisProvider,
+  ProviderOptions,
+  AnalysisProviderFactory,
+  ProviderSelection,
+  PSIProviderOptions,
+  LocalProviderOptions,
+  FileProviderOptions,
+  BuiltInProviderOptions,
+  BuiltInProviderName,
+} from "./provider";
+
 // Analysis Domain - Results, diagnostics, insights
 export type {
   LCPElement,
@@ -62,8 +150,28 @@ export type {
   RenderBlockingResource,
   DetailedInsights,
   PerformanceResult,
+  PerformanceResultSource,
+  RunAggregation,
+  RunWarning,
+  RunWarningType,
 } from "./analysis";
 
+// Compare Domain - Baseline comparison
+export type {
+  ComparisonTolerances,
+  ToleranceOverrides,
+  ChangeStatus,
+  RegressionSeverity,
+  ScoreChange,
+  MetricChange,
+  OpportunityChange,
+  InsightType,
+  InsightChange,
+  ListChanges,
+  Regression,
+  ResultComparison,
+} from "./compare";
+
 // Context Domain - Project detection
 export type {
   FrameworkInfo,
@@ -77,6 +185,10 @@ export type {
   ActionStep,
   NextStep,
   ActionableReport,
+  FieldDataSummary,
+  HtmlReportOptions,
+  MarkdownReportOptions,
+  MarkdownResultEntry,
 } from "./report";
 
 // CLI Domain - Command-line interface
@@ -85,8 +197,18 @@ export type { CLIOptions, ThresholdViolation, CLIResult } from "./cli";
 // Config Domain - Thresholds and configuration
 export type {
   PerformanceThresholds,
+  ThresholdResolutionOptions,
   ProjectConfig,
+  PerformanceConfig,
+  ResolvedConfig,
   ToolkitConfig,
+  CacheConfig,
+  RetryConfig,
+  RateLimitConfig,
+  FixtureConfig,
+  FixtureMode,
+  TransportConfig,
+  QuotaProfile,
 } from "./config";
 
 // Bundle Domain - Bundle analysis
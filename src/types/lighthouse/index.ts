@@ -8,7 +8,10 @@
  * @license PolyForm-Noncommercial-1.0.0
  */
 
-import type { Strategy } from "../pagespeed";
+import type { PerformanceResult } from "../analysis";
+import type { Budget, BudgetResult } from "../budget";
+import type { PerformanceThresholds } from "../config";
+import type { Category, Strategy } from "../pagespeed";
 
 // =============================================================================
 // Method & Configuration Types
@@ -45,26 +48,119 @@ export interface LHCIOptions {
 // Assertion Types
 // =============================================================================
 
+/**
+ * Lighthouse CI assertion level
+ */
+export type LHCIAssertionLevel = "error" | "warn" | "off";
+
+/**
+ * How LHCI combines the values of multiple runs before asserting:
+ * - `median`: median value
+ * - `optimistic`: best value (LHCI default)
+ * - `pessimistic`: worst value
+ * - `median-run`: values of the run closest to the median
+ */
+export type LHCIAggregationMethod =
+  "median" | "optimistic" | "pessimistic" | "median-run";
+
+/**
+ * Options of a single LHCI assertion
+ */
+export interface LHCIAssertionOptions {
+  /** Minimum score (0-1) */
+  minScore?: number;
+  /** Maximum numeric value (milliseconds, bytes or unitless) */
+  maxNumericValue?: number;
+  /** Aggregation method for this assertion only */
+  aggregationMethod?: LHCIAggregationMethod;
+}
+
+/**
+ * LHCI assertion: a level, or a level with options
+ */
+export type LHCIAssertion =
+  LHCIAssertionLevel | [LHCIAssertionLevel, LHCIAssertionOptions];
+
 /**
  * Lighthouse CI assertion configuration
  */
 export interface LHCIAssertions {
   /** Minimum performance score (0-1) */
-  "categories:performance"?: ["error" | "warn", { minScore: number }];
+  "categories:performance"?: LHCIAssertion;
   /** Minimum accessibility score (0-1) */
-  "categories:accessibility"?: ["error" | "warn", { minScore: number }];
+  "categories:accessibility"?: LHCIAssertion;
   /** Minimum best practices score (0-1) */
-  "categories:best-practices"?: ["error" | "warn", { minScore: number }];
+  "categories:best-practices"?: LHCIAssertion;
   /** Minimum SEO score (0-1) */
-  "categories:seo"?: ["error" | "warn", { minScore: number }];
+  "categories:seo"?: LHCIAssertion;
   /** Maximum LCP in milliseconds */
-  "largest-contentful-paint"?: ["error" | "warn", { maxNumericValue: number }];
+  "largest-contentful-paint"?: LHCIAssertion;
   /** Maximum FCP in milliseconds */
-  "first-contentful-paint"?: ["error" | "warn", { maxNumericValue: number }];
+  "first-contentful-paint"?: LHCIAssertion;
   /** Maximum CLS */
-  "cumulative-layout-shift"?: ["error" | "warn", { maxNumericValue: number }];
+  "cumulative-layout-shift"?: LHCIAssertion;
   /** Maximum TBT in milliseconds */
-  "total-blocking-time"?: ["error" | "warn", { maxNumericValue: number }];
+  "total-blocking-time"?: LHCIAssertion;
+  /** Maximum TTI in milliseconds */
+  interactive?: LHCIAssertion;
+  /** Maximum Speed Index in milliseconds */
+  "speed-index"?: LHCIAssertion;
+  /** Maximum server response time (lab TTFB) in milliseconds */
+  "server-response-time"?: LHCIAssertion;
+  /** Any other Lighthouse audit */
+  [auditId: string]: LHCIAssertion | undefined;
+}
+
+/**
+ * Assertions applied to URLs matching a pattern
+ */
+export interface LHCIAssertMatrixEntry {
+  /** Regular expression tested against each run's final URL */
+  matchingUrlPattern: string;
+  /** Assertions for matching URLs */
+  assertions: LHCIAssertions;
+  /** Aggregation method for matching URLs */
+  aggregationMethod?: LHCIAggregationMethod;
+}
+
+/**
+ * lighthouserc file format: CommonJS, ES module, JSON or YAML
+ */
+export type LHCIConfigFormat = "cjs" | "esm" | "json" | "yaml";
+
+/**
+ * Options for `LighthouseRunner.withAuthScript()`
+ */
+export interface LHCIAuthScriptOptions {
+  /** Puppeteer launch options, e.g. `{ headless: "new" }` */
+  launchOptions?: Record<string, unknown>;
+}
+
+/**
+ * Options for `LighthouseRunner.withServer()`
+ */
+export interface LHCIServerOptions {
+  /** Regular expression matched against the server output (LHCI default: "listen|ready") */
+  readyPattern?: string;
+  /** Milliseconds to wait for the pattern (LHCI default: 10000) */
+  readyTimeout?: number;
+}
+
+/**
+ * Options for `LighthouseRunner.withAssertions()`
+ */
+export interface LHCIAssertionConfig {
+  /** Level of every metric without an entry in `levels` (default: "error") */
+  level?: LHCIAssertionLevel;
+  /** Per-metric levels, e.g. `{ cls: "warn" }` */
+  levels?: Partial<Record<keyof PerformanceThresholds, LHCIAssertionLevel>>;
+  /** How multiple runs are combined (LHCI default: "optimistic") */
+  aggregationMethod?: LHCIAggregationMethod;
+  /**
+   * Threshold overrides keyed by URL regular expression, merged over the
+   * base thresholds (see `ProjectConfig.urlThresholds`)
+   */
+  urlThresholds?: Record<string, Partial<PerformanceThresholds>>;
 }
 
 // =============================================================================
@@ -82,13 +178,31 @@ export interface LHCIConfig {
       numberOfRuns?: number;
       psiApiKey?: string;
       psiStrategy?: Strategy;
+      /** Puppeteer script run before each URL (e.g. to log in) */
+      puppeteerScript?: string;
+      /** Puppeteer launch options for the script's browser */
+      puppeteerLaunchOptions?: Record<string, unknown>;
+      /** Command that starts the server under test */
+      startServerCommand?: string;
+      /** Regular expression LHCI waits for in the server output */
+      startServerReadyPattern?: string;
+      /** Milliseconds to wait for the ready pattern */
+      startServerReadyTimeout?: number;
       settings?: {
         chromeFlags?: string[];
         preset?: "desktop" | "mobile";
+        budgets?: Budget[];
+        /** Headers sent with every request (cookies included) */
+        extraHeaders?: Record<string, string>;
+        /** Keep cookies, cache and storage between runs */
+        disableStorageReset?: boolean;
       };
     };
+    /** Either `assertions` or `assertMatrix`, LHCI rejects both together */
     assert?: {
-      assertions: LHCIAssertions;
+      assertions?: LHCIAssertions;
+      aggregationMethod?: LHCIAggregationMethod;
+      assertMatrix?: LHCIAssertMatrixEntry[];
     };
     upload?: {
       target: "temporary-public-storage" | "lhci" | "filesystem";
@@ -98,3 +212,166 @@ export interface LHCIConfig {
     };
   };
 }
+
+// =============================================================================
+// Run Result Types
+// =============================================================================
+
+/**
+ * Single assertion outcome, as written by LHCI to `assertion-results.json`
+ */
+export interface LHCIAssertionResult {
+  /** Final URL the assertion was checked against */
+  url: string;
+  /** Audit ID, e.g. "largest-contentful-paint" or "categories" */
+  auditId: string;
+  /** Audit property, e.g. "performance" for category assertions */
+  auditProperty?: string;
+  /** Audit title from the report */
+  auditTitle?: string;
+  /** Audit documentation link */
+  auditDocumentationLink?: string;
+  /** Assertion type, e.g. "minScore" or "maxNumericValue" */
+  name: string;
+  /** Comparison operator, e.g. ">=" or "<=" */
+  operator: string;
+  /** Expected value */
+  expected: number;
+  /** Actual value after aggregating runs (null when the audit produced none) */
+  actual: number | null;
+  /** Per-run values (null for runs without a value) */
+  values: Array<number | null>;
+  /** Assertion level */
+  level: "error" | "warn";
+  /** Whether the assertion passed */
+  passed: boolean;
+  /** Explanation when the audit produced no usable value */
+  message?: string;
+}
+
+/**
+ * Collected runs and assertion outcomes for one URL
+ */
+export interface LHCIUrlResult {
+  /** Final URL, as LHCI groups runs */
+  url: string;
+  /** Every collected run, oldest first */
+  runs: PerformanceResult[];
+  /** Median run with aggregation statistics (the only run for single runs) */
+  representative: PerformanceResult;
+  /** Assertion outcomes for the URL, passing ones included */
+  assertionResults: LHCIAssertionResult[];
+  /** Whether no error-level assertion failed */
+  passed: boolean;
+  /** Uploaded report link (temporary public storage or LHCI server) */
+  reportUrl?: string;
+  /** Budget evaluation of the representative run (when budgets are set) */
+  budget?: BudgetResult;
+}
+
+/**
+ * Results LHCI left in its `.lighthouseci` directory
+ */
+export interface LHCIResults {
+  /** Directory the results were read from */
+  directory: string;
+  /** Per-URL results, in collection order */
+  urls: LHCIUrlResult[];
+  /** Failing assertions (errors and warnings) across all URLs */
+  failedAssertions: LHCIAssertionResult[];
+  /** Uploaded report links keyed by final URL */
+  links: Record<string, string>;
+}
+
+/**
+ * Options for reading LHCI results
+ */
+export interface ReadLHCIResultsOptions {
+  /**
+   * Ignore `assertion-results.json` and `links.json` written before this
+   * time, so results of an earlier LHCI run are not mixed in
+   */
+  since?: Date;
+  /** Budgets to check each URL's representative run against */
+  budgets?: Budget[];
+}
+
+/**
+ * Result of `LighthouseRunner.run()`
+ */
+export interface LHCIRunResult extends LHCIResults {
+  /** Whether LHCI finished without error-level assertion failures */
+  success: boolean;
+  /** Process exit code LHCI would use (0 for success) */
+  exitCode: number;
+}
+
+// =============================================================================
+// Local Runner Types
+// =============================================================================
+
+/**
+ * Lighthouse network and CPU throttling presets
+ * - `mobileSlow4G`: 150ms RTT, 1.6 Mbps, 4x CPU slowdown (mobile default)
+ * - `mobileRegular3G`: 300ms RTT, 700 Kbps, 4x CPU slowdown
+ * - `desktopDense4G`: 40ms RTT, 10 Mbps, no CPU slowdown (desktop default)
+ * - `none`: no throttling
+ */
+export type LocalThrottlingProfile =
+  "mobileSlow4G" | "mobileRegular3G" | "desktopDense4G" | "none";
+
+/**
+ * How Lighthouse applies throttling: simulated after the load (default),
+ * applied through DevTools during the load, or left to the environment
+ */
+export type LocalThrottlingMethod = "simulate" | "devtools" | "provided";
+
+/**
+ * Custom throttling values, as in Lighthouse's `throttling` setting
+ */
+export interface LocalThrottlingSettings {
+  /** Round trip time in milliseconds */
+  rttMs: number;
+  /** Download throughput in Kbps */
+  throughputKbps: number;
+  /** CPU slowdown multiplier (1 = no slowdown) */
+  cpuSlowdownMultiplier: number;
+  /** Request latency for the devtools method */
+  requestLatencyMs?: number;
+  /** Download throughput for the devtools method */
+  downloadThroughputKbps?: number;
+  /** Upload throughput for the devtools method */
+  uploadThroughputKbps?: number;
+}
+
+/**
+ * Defaults shared by every analysis of a LocalLighthouseRunner
+ */
+export interface LocalRunnerOptions {
+  /** Chrome flags (default: ["--headless=new"]) */
+  chromeFlags?: string[];
+  /** Chrome executable (detected by chrome-launcher when omitted) */
+  chromePath?: string;
+  /** Throttling preset or values (default: the strategy's preset) */
+  throttling?: LocalThrottlingProfile | LocalThrottlingSettings;
+  /** Throttling method (default: "simulate") */
+  throttlingMethod?: LocalThrottlingMethod;
+}
+
+/**
+ * Options for a local Lighthouse analysis
+ */
+export interface LocalLighthouseOptions extends LocalRunnerOptions {
+  /** URL to analyze (e.g. "http://localhost:3000") */
+  url: string;
+  /** Device emulation preset */
+  strategy?: Strategy;
+  /** Categories to analyze */
+  categories?: Category[];
+  /** Number of runs to aggregate into one median result (default: 1) */
+  numberOfRuns?: number;
+  /** Locale for localized audit strings (e.g. "es") */
+  locale?: string;
+  /** Milliseconds to wait for the page to load (Lighthouse default: 45000) */
+  timeout?: number;
+}
@@ -29,6 +29,22 @@ export interface MetricValue {
  */
 export type MetricRating = "good" | "needs-improvement" | "poor";
 
+/**
+ * Distribution statistics for a metric across multiple runs
+ */
+export interface MetricStats {
+  /** Lowest value */
+  min: number;
+  /** Median value */
+  median: number;
+  /** 75th percentile */
+  p75: number;
+  /** Highest value */
+  max: number;
+  /** Population standard deviation */
+  stdDev: number;
+}
+
 // =============================================================================
 // Core Web Vitals
 // =============================================================================
@@ -51,6 +67,50 @@ export interface CoreWebVitals {
   tti: MetricValue;
 }
 
+// =============================================================================
+// Field Data (CrUX)
+// =============================================================================
+
+/**
+ * Field metric identifier
+ */
+export type FieldMetricId = "lcp" | "inp" | "cls" | "fcp" | "ttfb";
+
+/**
+ * Share of page loads in each rating bucket (0-1)
+ */
+export interface FieldMetricDistribution {
+  good: number;
+  needsImprovement: number;
+  poor: number;
+}
+
+/**
+ * Real-user metric at the 75th percentile
+ */
+export interface FieldMetric {
+  /** 75th percentile value (milliseconds, CLS unitless) */
+  p75: number;
+  /** Distribution across good/needs-improvement/poor */
+  distribution: FieldMetricDistribution;
+  /** Rating of the 75th percentile */
+  category: MetricRating;
+}
+
+/**
+ * Real-user Core Web Vitals from the Chrome UX Report
+ */
+export interface FieldData {
+  /** Whether the data describes the URL or falls back to its origin */
+  source: "url" | "origin";
+  /** URL or origin the data belongs to */
+  id: string;
+  /** Overall rating, if CrUX reported one */
+  overallCategory?: MetricRating;
+  /** Metrics with enough data (missing metrics are omitted) */
+  metrics: Partial<Record<FieldMetricId, FieldMetric>>;
+}
+
 // =============================================================================
 // Category Scores
 // =============================================================================
@@ -8,6 +8,15 @@
  * @license PolyForm-Noncommercial-1.0.0
  */
 
+import type { PerformanceResult } from "../analysis";
+import type {
+  CacheConfig,
+  FixtureConfig,
+  RateLimitConfig,
+  RetryConfig,
+  TransportConfig,
+} from "../config";
+
 // =============================================================================
 // Strategy & Category Types
 // =============================================================================
@@ -21,10 +30,7 @@ export type Strategy = "mobile" | "desktop";
  * PageSpeed analysis category
  */
 export type Category =
-  | "performance"
-  | "accessibility"
-  | "best-practices"
-  | "seo";
+  "performance" | "accessibility" | "best-practices" | "seo";
 
 // =============================================================================
 // Request Types
@@ -44,6 +50,267 @@ export interface PageSpeedOptions {
   apiKey?: string;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Retry overrides for this request */
+  retry?: Partial<RetryConfig>;
+  /** How this request uses the response cache */
+  cacheMode?: CacheMode;
+  /** Number of runs to aggregate into one median result (default: 1) */
+  numberOfRuns?: number;
+  /** Locale for localized audit strings (e.g. "es") */
+  locale?: string;
+  /** Campaign name for analytics (`utm_campaign`) */
+  utmCampaign?: string;
+  /** Campaign source for analytics (`utm_source`) */
+  utmSource?: string;
+  /** Captcha token passed when the API asks for one */
+  captchaToken?: string;
+  /** Caller-owned signal to cancel the request (including retries) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response cache behavior for a single request
+ * - `default`: serve fresh cached responses, store new ones
+ * - `bypass`: neither read nor write the cache
+ * - `refresh`: skip the cached response but store the new one
+ */
+export type CacheMode = "default" | "bypass" | "refresh";
+
+/**
+ * Request fields that identify a PageSpeed response (cache and fixture key)
+ */
+export interface RequestKeyInput {
+  /** Analyzed URL */
+  url: string;
+  /** Analysis strategy */
+  strategy: Strategy;
+  /** Requested categories (order-insensitive) */
+  categories: Category[];
+  /** Locale for localized audit strings */
+  locale?: string;
+}
+
+/**
+ * Client-level options for PageSpeedClient
+ */
+export interface PageSpeedClientOptions {
+  /** Retry settings for transient failures (429, 5xx, timeouts, network resets) */
+  retry?: Partial<RetryConfig>;
+  /** On-disk response cache settings */
+  cache?: Partial<CacheConfig>;
+  /** Rate limiting settings (enabled by default, profile picked from apiKey) */
+  rateLimit?: Partial<RateLimitConfig>;
+  /** Record/replay fixture settings (passthrough by default) */
+  fixtures?: Partial<FixtureConfig>;
+  /** HTTP transport overrides (custom fetch, base URL, extra headers) */
+  transport?: TransportConfig;
+  /** Called when the request queue changes (queue depth, wait times) */
+  onQueueEvent?: (event: QueueEvent) => void;
+}
+
+/**
+ * Request queue event emitted by the rate limiter
+ */
+export interface QueueEvent {
+  /**
+   * Event type
+   * - `queued`: request added to the queue
+   * - `waiting`: queue paused until the next token is available
+   * - `started`: request left the queue
+   * - `completed`: request finished (successfully or not)
+   */
+  type: "queued" | "waiting" | "started" | "completed";
+  /** Requests waiting in the queue */
+  queueDepth: number;
+  /** Requests in flight */
+  active: number;
+  /** Wait until next token (`waiting`) or time spent queued (`started`) in ms */
+  waitMs?: number;
+}
+
+/**
+ * Single request attempt recorded by the retry loop
+ */
+export interface RetryAttempt {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Error message for the failed attempt */
+  error: string;
+  /** HTTP status code, if a response was received */
+  status?: number;
+  /** Whether the failure was considered transient */
+  retryable: boolean;
+  /** Delay before the next attempt in ms (absent on the last attempt) */
+  delayMs?: number;
+  /** Time the attempt failed */
+  timestamp: string;
+}
+
+// =============================================================================
+// Error Types
+// =============================================================================
+
+/**
+ * Stable error codes for PageSpeed client failures
+ */
+export type PageSpeedErrorCode =
+  | "UNKNOWN"
+  | "API_ERROR"
+  | "QUOTA_EXCEEDED"
+  | "INVALID_API_KEY"
+  | "DOCUMENT_REQUEST_FAILED"
+  | "TIMEOUT"
+  | "MALFORMED_RESPONSE"
+  | "FIXTURE_NOT_FOUND"
+  | "INVALID_LIGHTHOUSE_REPORT";
+
+/**
+ * JSON error body returned by Google APIs
+ */
+export interface GoogleApiErrorBody {
+  error?: {
+    /** HTTP status code */
+    code?: number;
+    /** Error message */
+    message?: string;
+    /** Canonical status (e.g. RESOURCE_EXHAUSTED) */
+    status?: string;
+    /** Legacy error entries */
+    errors?: Array<{ domain?: string; reason?: string; message?: string }>;
+    /** Structured details (google.rpc.ErrorInfo and others) */
+    details?: Array<{
+      "@type"?: string;
+      reason?: string;
+      metadata?: Record<string, string>;
+    }>;
+  };
+}
+
+/**
+ * Details parsed from a failed PageSpeed API response
+ */
+export interface PageSpeedApiErrorDetails {
+  /** Name of the failing API in messages (default: "PageSpeed API") */
+  apiName?: string;
+  /** Message from the Google error body */
+  apiMessage?: string;
+  /** Most specific error reason (e.g. rateLimitExceeded, API_KEY_INVALID) */
+  reason?: string;
+  /** Lighthouse runtime error code (e.g. FAILED_DOCUMENT_REQUEST) */
+  runtimeErrorCode?: string;
+}
+
+/**
+ * Serialized PageSpeed error (CLI JSON output, logs)
+ */
+export interface PageSpeedErrorJSON extends PageSpeedApiErrorDetails {
+  /** Error class name */
+  name: string;
+  /** Stable error code */
+  code: PageSpeedErrorCode;
+  /** Error message */
+  message: string;
+  /** CLI exit code for this error */
+  exitCode: number;
+  /** HTTP status code, if available */
+  status?: number;
+  /** Request timeout in ms, for timeouts */
+  timeoutMs?: number;
+  /** Retry attempt history */
+  attempts: RetryAttempt[];
+}
+
+// =============================================================================
+// Batch Types
+// =============================================================================
+
+/**
+ * Single job in a batch analysis (URL x strategy plus per-job overrides)
+ */
+export interface BatchJob extends PageSpeedOptions {
+  /** Optional identifier echoed back in results */
+  id?: string;
+}
+
+/**
+ * Options for batch analysis
+ */
+export interface BatchOptions {
+  /** Maximum jobs in progress at once (default: 4) */
+  concurrency?: number;
+  /** Options applied to every job (job fields take precedence) */
+  defaults?: Omit<PageSpeedOptions, "url">;
+  /** Called after each job with overall progress */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Called when a job finishes (successfully or not) */
+  onJobComplete?: (result: BatchJobResult) => void;
+  /** Cancels the batch: running jobs are aborted, pending jobs are skipped */
+  signal?: AbortSignal;
+}
+
+/**
+ * Batch progress counters
+ */
+export interface BatchProgress {
+  /** Total jobs */
+  total: number;
+  /** Finished jobs */
+  completed: number;
+  /** Jobs that produced a result */
+  succeeded: number;
+  /** Jobs that failed */
+  failed: number;
+}
+
+/**
+ * Structured error for a failed batch job
+ */
+export interface BatchJobError {
+  /** Error class name */
+  name: string;
+  /** Error message */
+  message: string;
+  /** Stable error code, for toolkit errors */
+  code?: PageSpeedErrorCode;
+  /** HTTP status code, if available */
+  status?: number;
+  /** Retry attempt history, if available */
+  attempts?: RetryAttempt[];
+}
+
+/**
+ * Outcome of a single batch job
+ */
+export interface BatchJobResult {
+  /** Position of the job in the input list */
+  index: number;
+  /** The job as executed (with defaults applied) */
+  job: BatchJob;
+  /** Whether the job produced a result */
+  success: boolean;
+  /** Performance result (when successful) */
+  result?: PerformanceResult;
+  /** Error details (when failed) */
+  error?: BatchJobError;
+  /** Job duration in ms */
+  durationMs: number;
+}
+
+/**
+ * Batch analysis result set (never rejects for individual job failures)
+ */
+export interface BatchResult {
+  /** Every job outcome, in input order */
+  jobs: BatchJobResult[];
+  /** Successful results, in input order */
+  results: PerformanceResult[];
+  /** Failed job outcomes, in input order */
+  failures: BatchJobResult[];
+  /** Final counters */
+  summary: BatchProgress & {
+    /** Total batch duration in ms */
+    durationMs: number;
+  };
 }
 
 // =============================================================================
@@ -74,8 +341,12 @@ export interface PageSpeedResponse {
  * Chrome UX Report (CrUX) loading experience data
  */
 export interface LoadingExperience {
+  /** URL or origin the data belongs to */
+  id?: string;
   /** Initial URL analyzed */
   initial_url: string;
+  /** True when URL data was missing and origin data was returned instead */
+  origin_fallback?: boolean;
   /** Overall performance category */
   overall_category: "FAST" | "AVERAGE" | "SLOW";
   /** Metrics data */
@@ -112,12 +383,47 @@ export interface LighthouseResult {
   requestedUrl: string;
   /** Final URL after redirects */
   finalUrl: string;
+  /** Final URL shown in the report (Lighthouse 10+) */
+  finalDisplayedUrl?: string;
   /** Fetch time */
   fetchTime: string;
+  /** Settings the run used (present in local Lighthouse reports) */
+  configSettings?: {
+    /** Emulated device (Lighthouse 7+) */
+    formFactor?: "mobile" | "desktop";
+  };
   /** Category scores */
   categories: LighthouseCategories;
   /** Audit results */
   audits: Record<string, LighthouseAudit>;
+  /** Fatal error that prevented a reliable run */
+  runtimeError?: LighthouseRuntimeError;
+  /** Non-fatal issues that may have affected the run */
+  runWarnings?: string[];
+  /** Entities (companies) the requests belong to (Lighthouse 10+) */
+  entities?: LighthouseEntity[];
+}
+
+/**
+ * Entity classification of request origins
+ */
+export interface LighthouseEntity {
+  /** Entity name, referenced by `entity` in network request items */
+  name: string;
+  /** Whether the entity owns the page */
+  isFirstParty?: boolean;
+  /** Origins belonging to the entity */
+  origins?: string[];
+}
+
+/**
+ * Lighthouse runtime error (e.g. FAILED_DOCUMENT_REQUEST, NO_FCP)
+ */
+export interface LighthouseRuntimeError {
+  /** Lighthouse error code */
+  code: string;
+  /** Human-readable description */
+  message: string;
 }
 
 /**
@@ -158,12 +464,7 @@ export interface LighthouseAudit {
   score: number | null;
   /** Score display mode */
   scoreDisplayMode:
-    | "numeric"
-    | "binary"
-    | "informative"
-    | "notApplicable"
-    | "manual"
-    | "error";
+    "numeric" | "binary" | "informative" | "notApplicable" | "manual" | "error";
   /** Display value (e.g., "2.5 s") */
   displayValue?: string;
   /** Numeric value */
@@ -0,0 +1,122 @@
+/**
+ * @silverassist/performance-toolkit
+ *
+ * Analysis provider type definitions.
+ *
+ * @module types/provider
+ * @author Miguel Colmenares <me@miguelcolmenares.com>
+ * @license PolyForm-Noncommercial-1.0.0
+ */
+
+import type { PerformanceResult } from "../analysis";
+import type { LocalRunnerOptions } from "../lighthouse";
+import type {
+  CacheMode,
+  Category,
+  PageSpeedClientOptions,
+  Strategy,
+} from "../pagespeed";
+
+// =============================================================================
+// Provider Types
+// =============================================================================
+
+/**
+ * Options every provider understands
+ */
+export interface AnalysisOptions {
+  /** Analysis strategy (device emulation) */
+  strategy?: Strategy;
+  /** Categories to analyze */
+  categories?: Category[];
+  /** Number of runs to aggregate into one median result (default: 1) */
+  numberOfRuns?: number;
+  /** Locale for localized audit strings (e.g. "es") */
+  locale?: string;
+  /** Caller-owned signal to cancel the analysis, where supported */
+  signal?: AbortSignal;
+}
+
+/**
+ * Source of PerformanceResults: PSI, local Lighthouse, imported reports or
+ * a third-party implementation
+ */
+export interface AnalysisProvider {
+  /** Provider name, e.g. "psi" */
+  readonly name: string;
+  /**
+   * Analyzes a URL
+   * @param url - URL to analyze
+   * @param options - Analysis options
+   */
+  analyze(url: string, options?: AnalysisOptions): Promise<PerformanceResult>;
+}
+
+/**
+ * Provider-specific settings passed to a provider factory
+ */
+export type ProviderOptions = Record<string, unknown>;
+
+/**
+ * Creates a provider from its settings (registered under a name)
+ */
+export type AnalysisProviderFactory = (
+  options?: ProviderOptions,
+) => AnalysisProvider;
+
+/**
+ * Provider choice for APIs that accept any provider (`analyzeUrl`,
+ * `generateReportForUrl`)
+ */
+export interface ProviderSelection {
+  /** Provider instance or registered name (default: "psi") */
+  provider?: AnalysisProvider | string;
+  /** Settings for a provider given by name */
+  providerOptions?: ProviderOptions;
+}
+
+// =============================================================================
+// Built-in Provider Options
+// =============================================================================
+
+/**
+ * Settings of the `psi` provider
+ */
+export interface PSIProviderOptions extends PageSpeedClientOptions {
+  /** PageSpeed API key */
+  apiKey?: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** How requests use the response cache */
+  cacheMode?: CacheMode;
+}
+
+/**
+ * Settings of the `local` provider
+ */
+export interface LocalProviderOptions extends LocalRunnerOptions {
+  /** Milliseconds to wait for the page to load */
+  timeout?: number;
+}
+
+/**
+ * Settings of the `file` provider
+ */
+export interface FileProviderOptions {
+  /** Lighthouse JSON report or `.lighthouseci` directory */
+  path: string;
+}
+
+/**
+ * Settings of each built-in provider, keyed by provider name
+ */
+export interface BuiltInProviderOptions {
+  psi: PSIProviderOptions;
+  local: LocalProviderOptions;
+  file: FileProviderOptions;
+}
+
+/**
+ * Name of a provider that ships with the toolkit
+ */
+export type BuiltInProviderName = keyof BuiltInProviderOptions;
@@ -12,8 +12,12 @@ import type {
   EnhancedLCPElement,
   DiagnosticItem,
   PerformanceResult,
+  RunWarning,
 } from "../analysis";
 import type { ProjectContext, FrameworkSpecificNote } from "../context";
+import type { ResultComparison } from "../compare";
+import type { PerformanceThresholds } from "../config";
+import type { FieldData, FieldMetricId } from "../metrics";
 
 // =============================================================================
 // Report Structure Types
@@ -100,6 +104,20 @@ export interface NextStep {
   relatedOpportunities?: string[];
 }
 
+/**
+ * Real-user (CrUX) assessment included in the report summary
+ */
+export interface FieldDataSummary {
+  /** Whether the data describes the URL or its origin */
+  source: FieldData["source"];
+  /** True when p75 LCP, INP and CLS are all rated good */
+  passesCoreWebVitals: boolean;
+  /** Metrics whose p75 is not rated good */
+  failingMetrics: FieldMetricId[];
+  /** Field metrics the assessment was based on */
+  metrics: FieldData["metrics"];
+}
+
 // =============================================================================
 // Main Report Type
 // =============================================================================
@@ -133,7 +151,58 @@ export interface ActionableReport {
     };
     /** Top 3 priorities */
     topPriorities: string[];
+    /** False when run warnings make the numbers untrustworthy */
+    reliable: boolean;
+    /** Run warnings to review before acting on the report */
+    warnings: RunWarning[];
+    /** Real-user assessment, when CrUX data is available */
+    fieldData?: FieldDataSummary;
   };
   /** Timestamp of report generation */
   generatedAt: string;
 }
+
+// =============================================================================
+// Rendering Types
+// =============================================================================
+
+/**
+ * Options for rendering an ActionableReport as an HTML page
+ */
+export interface HtmlReportOptions {
+  /** Page title (default: "Performance Report - <url>") */
+  title?: string;
+}
+
+/**
+ * Options for rendering results and reports as Markdown
+ */
+export interface MarkdownReportOptions {
+  /** Heading of the rendered document */
+  title?: string;
+  /**
+   * Maximum length in characters (default: 65536, GitHub's comment limit).
+   * Collapsible sections that don't fit are left out first.
+   */
+  maxLength?: number;
+  /** Thresholds to check the result against (single results) */
+  thresholds?: PerformanceThresholds;
+  /** Comparison with a baseline run (single results) */
+  comparison?: ResultComparison;
+}
+
+/**
+ * One URL of a multi-URL Markdown summary
+ */
+export interface MarkdownResultEntry {
+  /** Analyzed URL */
+  url: string;
+  /** Result, when the analysis succeeded */
+  result?: PerformanceResult;
+  /** Error message, when the analysis failed */
+  error?: string;
+  /** Thresholds the result was checked against */
+  thresholds?: PerformanceThresholds;
+  /** Comparison with the baseline run */
+  comparison?: ResultComparison;
+}
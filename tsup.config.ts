@@ -4,6 +4,11 @@ export default defineConfig({
   entry: {
     index: "src/index.ts",
     "pagespeed/index": "src/pagespeed/index.ts",
+    "crux/index": "src/crux/index.ts",
+    "budget/index": "src/budget/index.ts",
+    "providers/index": "src/providers/index.ts",
+    "config/index": "src/config/index.ts",
+    "compare/index": "src/compare/index.ts",
     "lighthouse/index": "src/lighthouse/index.ts",
     "bundle/index": "src/bundle/index.ts",
     "analyzer/index": "src/analyzer/index.ts",